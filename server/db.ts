@@ -0,0 +1,81 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import type { Difficulty, GameMode } from '../src/game/types';
+import type { Locale } from '../src/i18n';
+import type { RunRecord, RunSubmission } from '../src/services/leaderboardService';
+
+type RunRow = {
+  id: number;
+  score: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  language: Locale;
+  duration_ms: number;
+  shots_fired: number;
+  interceptions: number;
+  cities_surviving: number;
+  created_at: string;
+};
+
+const toRecord = (row: RunRow): RunRecord => ({
+  id: row.id.toString(),
+  score: row.score,
+  difficulty: row.difficulty,
+  mode: row.mode,
+  language: row.language,
+  durationMs: row.duration_ms,
+  shotsFired: row.shots_fired,
+  interceptions: row.interceptions,
+  citiesSurviving: row.cities_surviving,
+  createdAt: row.created_at,
+});
+
+export const openDatabase = (file: string) => {
+  if (file !== ':memory:') fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      score INTEGER NOT NULL,
+      difficulty TEXT NOT NULL,
+      mode TEXT NOT NULL,
+      language TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      shots_fired INTEGER NOT NULL,
+      interceptions INTEGER NOT NULL,
+      cities_surviving INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+    );
+    CREATE INDEX IF NOT EXISTS runs_board ON runs (difficulty, mode, score DESC);
+  `);
+
+  const insert = db.prepare(`
+    INSERT INTO runs (score, difficulty, mode, language, duration_ms, shots_fired, interceptions, cities_surviving)
+    VALUES (@score, @difficulty, @mode, @language, @durationMs, @shotsFired, @interceptions, @citiesSurviving)
+  `);
+  const countAbove = db.prepare('SELECT COUNT(*) AS n FROM runs WHERE difficulty = ? AND mode = ? AND score > ?');
+  const top = db.prepare('SELECT * FROM runs WHERE difficulty = ? AND mode = ? ORDER BY score DESC, id ASC LIMIT ?');
+  const recent = db.prepare('SELECT * FROM runs ORDER BY id DESC LIMIT ?');
+
+  return {
+    /** Inserts a run and returns its id and 1-based rank within its difficulty and mode. */
+    addRun(run: RunSubmission) {
+      const { lastInsertRowid } = insert.run(run);
+      const { n } = countAbove.get(run.difficulty, run.mode, run.score) as { n: number };
+      return { id: lastInsertRowid.toString(), rank: n + 1 };
+    },
+    topScores(difficulty: Difficulty, mode: GameMode, limit: number) {
+      return (top.all(difficulty, mode, limit) as RunRow[]).map(toRecord);
+    },
+    recentRuns(limit: number) {
+      return (recent.all(limit) as RunRow[]).map(toRecord);
+    },
+    close() {
+      db.close();
+    },
+  };
+};
+
+export type RunStore = ReturnType<typeof openDatabase>;
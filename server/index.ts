@@ -0,0 +1,78 @@
+import 'dotenv/config';
+import express from 'express';
+import { CONTENT_ERRORS, DEFAULT_LEVEL_ID, isDifficultyId, isLevelId } from '../src/game/content';
+import type { Difficulty, GameMode } from '../src/game/types';
+import { isLocale } from '../src/i18n';
+import type { RunSubmission } from '../src/services/leaderboardService';
+import { openDatabase } from './db';
+import { attachMultiplayer } from './rooms';
+
+const PORT = Number(process.env.SERVER_PORT ?? 3001);
+const DATABASE_PATH = process.env.DATABASE_PATH ?? 'data/nova-defense.db';
+const MAX_LIMIT = 100;
+
+const COUNTERS = ['score', 'durationMs', 'shotsFired', 'interceptions', 'citiesSurviving'] as const;
+
+/** Returns the validated run, or a message describing what is wrong with the request body. */
+const parseRun = (body: unknown): RunSubmission | string => {
+  if (!body || typeof body !== 'object') return 'Body must be a JSON object';
+  const fields = body as Record<string, unknown>;
+  const { difficulty, mode, language } = fields;
+  if (!isDifficultyId(difficulty)) return `Unknown difficulty: ${difficulty}`;
+  if (!isLevelId(mode)) return `Unknown mode: ${mode}`;
+  if (!isLocale(language)) return `Unknown language: ${language}`;
+  const counters = {} as Record<(typeof COUNTERS)[number], number>;
+  for (const key of COUNTERS) {
+    const value = fields[key];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) return `"${key}" must be a non-negative integer`;
+    counters[key] = value;
+  }
+  return { ...counters, difficulty, mode, language };
+};
+
+const parseLimit = (value: unknown, fallback: number) => {
+  const n = Number(value ?? fallback);
+  return Number.isInteger(n) && n > 0 ? Math.min(n, MAX_LIMIT) : fallback;
+};
+
+// Rooms and run validation read the level and difficulty files, so refuse to start on bad ones.
+if (CONTENT_ERRORS.length > 0) {
+  console.error(`Invalid game content:\n${CONTENT_ERRORS.map(error => `  ${error}`).join('\n')}`);
+  process.exit(1);
+}
+
+const store = openDatabase(DATABASE_PATH);
+const app = express();
+app.use(express.json({ limit: '16kb' }));
+
+app.post('/api/runs', (req, res) => {
+  const run = parseRun(req.body);
+  if (typeof run === 'string') {
+    res.status(400).json({ error: run });
+    return;
+  }
+  res.status(201).json(store.addRun(run));
+});
+
+app.get('/api/runs', (req, res) => {
+  res.json(store.recentRuns(parseLimit(req.query.limit, 20)));
+});
+
+app.get('/api/leaderboard', (req, res) => {
+  const difficulty = req.query.difficulty as Difficulty;
+  const mode = (req.query.mode ?? DEFAULT_LEVEL_ID) as GameMode;
+  if (!isDifficultyId(difficulty)) {
+    res.status(400).json({ error: `Unknown difficulty: ${difficulty}` });
+    return;
+  }
+  if (!isLevelId(mode)) {
+    res.status(400).json({ error: `Unknown mode: ${mode}` });
+    return;
+  }
+  res.json(store.topScores(difficulty, mode, parseLimit(req.query.limit, 10)));
+});
+
+const server = app.listen(PORT, () => {
+  console.log(`Nova Defense server listening on http://localhost:${PORT} (db: ${DATABASE_PATH})`);
+});
+attachMultiplayer(server);
@@ -0,0 +1,340 @@
+import { randomBytes, randomInt } from 'crypto';
+import type { Server } from 'http';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { FRAME_MS } from '../src/game/constants';
+import { MAX_ONLINE_PLAYERS, type PlayerIndex } from '../src/game/players';
+import { randomSeed } from '../src/game/rng';
+import { GameSimulation } from '../src/game/simulation';
+import { isDifficultyId, isLevelId } from '../src/game/content';
+import type { BatterySide, Difficulty, GameMode } from '../src/game/types';
+import {
+  MIN_ROOM_PLAYERS,
+  MULTIPLAYER_PATH,
+  ONLINE_WORLD,
+  RECONNECT_GRACE_MS,
+  SEAT_TAKEN_CLOSE_CODE,
+  SNAPSHOT_INTERVAL_FRAMES,
+  parseClientMessage,
+  type RoomInfo,
+  type ServerMessage,
+  type StateSnapshot,
+} from '../src/services/multiplayer/protocol';
+
+// Room codes skip letters that are easy to misread when said across an office.
+const CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+const MAX_NAME_LENGTH = 16;
+// Longest gap a tick catches up on. After a stall the run slows down instead of skipping ahead
+// in one long burst that holds up every other room.
+const MAX_TICK_MS = 250;
+
+type Seat = {
+  name: string;
+  token: string;
+  ready: boolean;
+  socket: WebSocket | null;
+  /** Set while disconnected; gives the seat up when it fires. */
+  dropTimer: ReturnType<typeof setTimeout> | null;
+  /** Highest fire `seq` applied for this seat. */
+  lastSeq: number;
+  /** Gave up mid-run. The seat keeps its slot until the run ends so player indices stay stable. */
+  gone: boolean;
+};
+
+const send = (socket: WebSocket | null, message: ServerMessage) => {
+  if (socket && socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+const cleanName = (name: unknown, fallback: string) => {
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  return trimmed || fallback;
+};
+
+/**
+ * One lobby and, once everyone is ready, one authoritative run. The simulation ticks here;
+ * clients only send fire commands and draw the snapshots they get back.
+ */
+class Room {
+  readonly seats: Seat[] = [];
+  private sim: GameSimulation | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTickAt = 0;
+  private lastSnapshotFrame = 0;
+
+  constructor(
+    readonly code: string,
+    readonly difficulty: Difficulty,
+    readonly mode: GameMode,
+    private readonly onClose: () => void,
+  ) {}
+
+  get playing() {
+    return this.sim !== null;
+  }
+
+  info(): RoomInfo {
+    return {
+      code: this.code,
+      difficulty: this.difficulty,
+      mode: this.mode,
+      state: this.playing ? 'playing' : 'lobby',
+      players: this.seats.map((seat, slot) => ({
+        slot,
+        name: seat.name,
+        ready: seat.ready,
+        connected: seat.socket !== null,
+      })),
+    };
+  }
+
+  /** Takes a new seat, or returns why it cannot. */
+  join(socket: WebSocket, name: unknown): Seat | string {
+    if (this.playing) return 'Game already in progress';
+    if (this.seats.length >= MAX_ONLINE_PLAYERS) return 'Room is full';
+    const seat: Seat = {
+      name: cleanName(name, `Player ${this.seats.length + 1}`),
+      token: randomBytes(16).toString('hex'),
+      ready: false,
+      socket,
+      dropTimer: null,
+      lastSeq: 0,
+      gone: false,
+    };
+    this.seats.push(seat);
+    send(socket, { type: 'joined', code: this.code, token: seat.token });
+    this.broadcastRoom();
+    return seat;
+  }
+
+  /** Gives a dropped player their seat back. */
+  rejoin(socket: WebSocket, token: unknown): Seat | null {
+    const seat = this.seats.find(s => s.token === token && !s.gone);
+    if (!seat) return null;
+    if (seat.dropTimer) clearTimeout(seat.dropTimer);
+    seat.dropTimer = null;
+    // A second tab with the same token takes over. The old connection is closed, so it can no
+    // longer act for the seat, and told why, so it does not try to take the seat back.
+    const previous = seat.socket;
+    seat.socket = socket;
+    if (previous && previous !== socket) {
+      send(previous, { type: 'error', message: 'Your seat was taken over by another connection' });
+      previous.close(SEAT_TAKEN_CLOSE_CODE, 'Seat taken over');
+    }
+    // A reloaded client numbers its shots from 1 again.
+    seat.lastSeq = 0;
+    send(socket, { type: 'joined', code: this.code, token: seat.token });
+    // The room goes first so the client knows its slot before the run resumes.
+    this.broadcastRoom();
+    if (this.sim) {
+      send(socket, { type: 'start', ...ONLINE_WORLD });
+      send(socket, { type: 'snapshot', snapshot: this.snapshot(this.sim) });
+    }
+    return seat;
+  }
+
+  disconnect(seat: Seat, socket: WebSocket) {
+    if (seat.socket !== socket) return;
+    seat.socket = null;
+    seat.dropTimer = setTimeout(() => this.leave(seat), RECONNECT_GRACE_MS);
+    this.broadcastRoom();
+  }
+
+  leave(seat: Seat) {
+    if (seat.dropTimer) clearTimeout(seat.dropTimer);
+    seat.dropTimer = null;
+    seat.socket = null;
+    if (this.playing) {
+      seat.gone = true;
+    } else {
+      this.seats.splice(this.seats.indexOf(seat), 1);
+    }
+
+    if (!this.seats.some(s => !s.gone)) {
+      this.close();
+      return;
+    }
+    this.broadcastRoom();
+    this.startIfReady();
+  }
+
+  setReady(seat: Seat, ready: boolean) {
+    if (this.playing) return;
+    seat.ready = ready;
+    this.broadcastRoom();
+    this.startIfReady();
+  }
+
+  fire(seat: Seat, seq: number, x: number, y: number, side?: BatterySide) {
+    if (!this.sim || seq <= seat.lastSeq) return;
+    seat.lastSeq = seq;
+    this.sim.fire(x, y, side, this.seats.indexOf(seat) as PlayerIndex);
+  }
+
+  private startIfReady() {
+    if (this.playing || this.seats.length < MIN_ROOM_PLAYERS) return;
+    if (!this.seats.every(s => s.ready && s.socket)) return;
+
+    this.sim = new GameSimulation({
+      ...ONLINE_WORLD,
+      difficulty: this.difficulty,
+      mode: this.mode,
+      playMode: 'online',
+      playerCount: this.seats.length,
+      seed: randomSeed(),
+    });
+    this.seats.forEach(s => (s.lastSeq = 0));
+    this.lastTickAt = performance.now();
+    this.lastSnapshotFrame = 0;
+    this.broadcast({ type: 'start', ...ONLINE_WORLD });
+    this.broadcastRoom();
+    this.timer = setInterval(() => this.tick(), FRAME_MS);
+  }
+
+  private tick() {
+    const sim = this.sim;
+    if (!sim) return;
+    const now = performance.now();
+    sim.step(Math.min(now - this.lastTickAt, MAX_TICK_MS));
+    this.lastTickAt = now;
+
+    const ended = sim.status !== 'playing';
+    if (ended || sim.frame - this.lastSnapshotFrame >= SNAPSHOT_INTERVAL_FRAMES) {
+      this.lastSnapshotFrame = sim.frame;
+      this.broadcast({ type: 'snapshot', snapshot: this.snapshot(sim) });
+    }
+    if (ended) this.endRun(sim);
+  }
+
+  /** Back to the lobby for a rematch; players who gave up mid-run lose their seat now. */
+  private endRun(sim: GameSimulation) {
+    this.stopTimer();
+    this.sim = null;
+    this.broadcast({ type: 'ended', outcome: { status: sim.status, score: sim.score, playerScores: [...sim.playerScores] } });
+    for (let i = this.seats.length - 1; i >= 0; i--) {
+      if (this.seats[i].gone) this.seats.splice(i, 1);
+      else this.seats[i].ready = false;
+    }
+    this.broadcastRoom();
+  }
+
+  private snapshot(sim: GameSimulation): StateSnapshot {
+    return {
+      frame: sim.frame,
+      width: sim.width,
+      height: sim.height,
+      missiles: sim.missiles,
+      explosions: sim.explosions,
+      buildings: sim.buildings,
+      ammo: sim.ammo,
+      score: sim.score,
+      status: sim.status,
+      wave: sim.wave,
+      wavePhase: sim.wavePhase,
+      playerScores: sim.playerScores,
+      acks: this.seats.map(s => s.lastSeq),
+    };
+  }
+
+  private broadcast(message: ServerMessage) {
+    const data = JSON.stringify(message);
+    for (const seat of this.seats) {
+      if (seat.socket && seat.socket.readyState === seat.socket.OPEN) seat.socket.send(data);
+    }
+  }
+
+  private broadcastRoom() {
+    const room = this.info();
+    this.seats.forEach((seat, slot) => send(seat.socket, { type: 'room', room, slot }));
+  }
+
+  private stopTimer() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private close() {
+    this.stopTimer();
+    this.seats.forEach(s => s.dropTimer && clearTimeout(s.dropTimer));
+    this.onClose();
+  }
+}
+
+/** Serves multiplayer rooms over WebSocket on the same port as the REST API. */
+export const attachMultiplayer = (server: Server) => {
+  const wss = new WebSocketServer({ server, path: MULTIPLAYER_PATH });
+  const rooms = new Map<string, Room>();
+
+  const newCode = () => {
+    let code: string;
+    do {
+      code = Array.from({ length: 4 }, () => CODE_LETTERS[randomInt(CODE_LETTERS.length)]).join('');
+    } while (rooms.has(code));
+    return code;
+  };
+
+  wss.on('connection', socket => {
+    let room: Room | null = null;
+    let seat: Seat | null = null;
+    const fail = (message: string) => send(socket, { type: 'error', message });
+
+    socket.on('message', data => {
+      // Another connection has reclaimed this one's seat.
+      if (seat && seat.socket !== socket) room = seat = null;
+      let raw: unknown;
+      try {
+        raw = JSON.parse(data.toString());
+      } catch {
+        fail('Message is not valid JSON');
+        return;
+      }
+      const message = parseClientMessage(raw);
+      if (typeof message === 'string') return fail(message);
+
+      switch (message.type) {
+        case 'create': {
+          if (seat) return fail('Already in a room');
+          if (!isDifficultyId(message.difficulty)) return fail(`Unknown difficulty: ${message.difficulty}`);
+          if (!isLevelId(message.mode)) return fail(`Unknown mode: ${message.mode}`);
+          const code = newCode();
+          const created = new Room(code, message.difficulty, message.mode, () => rooms.delete(code));
+          rooms.set(code, created);
+          const joined = created.join(socket, message.name);
+          if (typeof joined !== 'string') [room, seat] = [created, joined];
+          return;
+        }
+        case 'join': {
+          if (seat) return fail('Already in a room');
+          const target = rooms.get(message.code.toUpperCase());
+          if (!target) return fail(`No room with code ${message.code}`);
+          const joined = target.join(socket, message.name);
+          if (typeof joined === 'string') return fail(joined);
+          [room, seat] = [target, joined];
+          return;
+        }
+        case 'rejoin': {
+          if (seat) return fail('Already in a room');
+          const target = rooms.get(message.code.toUpperCase());
+          const rejoined = target?.rejoin(socket, message.token);
+          if (!target || !rejoined) return fail('Your seat is no longer available');
+          [room, seat] = [target, rejoined];
+          return;
+        }
+        case 'ready':
+          if (room && seat) room.setReady(seat, message.ready);
+          return;
+        case 'fire':
+          if (room && seat) room.fire(seat, message.seq, message.x, message.y, message.side);
+          return;
+        case 'leave':
+          if (room && seat) room.leave(seat);
+          room = seat = null;
+          return;
+      }
+    });
+
+    socket.on('close', () => {
+      if (room && seat) room.disconnect(seat, socket);
+    });
+  });
+
+  return wss;
+};
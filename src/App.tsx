@@ -3,411 +3,1210 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useReducer, useRef, useState, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
-import { Shield, Target, Trophy, RotateCcw, Play, Info, AlertTriangle } from 'lucide-react';
-import { getGameTips } from './services/geminiService';
-
-// --- Constants ---
-const TARGET_SCORE = 1000;
-const INITIAL_AMMO = { left: 20, center: 40, right: 20 };
-const EXPLOSION_RADIUS = 40;
-const EXPLOSION_DURATION = 60; // frames
-const MISSILE_SPEED = 4;
-const ENEMY_SPEED_MIN = 0.5;
-const ENEMY_SPEED_MAX = 1.5;
-
-type Point = { x: number; y: number };
-type Particle = Point & { vx: number; vy: number; life: number; color: string };
-type Missile = {
-  id: number;
-  start: Point;
-  current: Point;
-  target: Point;
-  speed: number;
-  color: string;
-  isEnemy: boolean;
-};
-type Explosion = Point & { radius: number; maxRadius: number; timer: number; id: number };
-type Building = Point & { width: number; height: number; isDestroyed: boolean; type: 'city' | 'battery'; id: number; batterySide?: 'left' | 'center' | 'right' };
+import { Shield, Target, Trophy, RotateCcw, Play, Pause, Info, AlertTriangle, Film, Download, X, CheckCircle2, BarChart3, Gamepad2, ShoppingCart, Coins, Users, WifiOff, Pencil, Volume2, VolumeX, Award, Lock, Globe, Accessibility, Bot, CalendarDays, Copy, Sparkles } from 'lucide-react';
+import { getGameTips } from './services/tipService';
+import { submitRun, type RunResult } from './services/leaderboardService';
+import { MultiplayerClient, type ConnectionStatus } from './services/multiplayer/client';
+import { MIN_ROOM_PLAYERS, ONLINE_WORLD, type RoomInfo, type RunOutcome } from './services/multiplayer/protocol';
+import { GameSimulation } from './game/simulation';
+import { DEFAULT_RENDER_OPTIONS, type Frame, type RenderState } from './game/renderer';
+import { createCanvasSurface, createWorkerSurface, supportsWorkerRendering, type RenderSurface } from './game/renderSurface';
+import { FrameStats, loadDebugSettings, saveDebugSettings, type FrameReport } from './game/debug';
+import { COLOR_SCHEMES, COLOR_SCHEME_IDS } from './game/colors';
+import { OnlineView } from './game/onlineView';
+import { BotPilot, createPredictiveBot } from './game/bots';
+import {
+  dailyDay,
+  DAILY_DIFFICULTY_ID,
+  dailyDays,
+  dailyGrid,
+  dailyOptions,
+  dailyResult,
+  dailyStreak,
+  encodeDailyCode,
+  loadDailyHistory,
+  recordDailyAttempt,
+  recordDailyResult,
+  saveDailyHistory,
+  verifyDailyCode,
+  type DailyEntry,
+  type DailyResult,
+  type DailyVerification,
+} from './game/daily';
+import { SoundEngine, loadAudioSettings, saveAudioSettings } from './audio/sound';
+import { SoundCues } from './audio/cues';
+import { AnnouncementCues, isUrgent, type Announcement } from './accessibility/announcements';
+import {
+  GAME_SPEEDS,
+  MOTION_PREFERENCES,
+  loadAccessibility,
+  reducesMotion,
+  saveAccessibility,
+  systemPrefersReducedMotion,
+  watchSystemReducedMotion,
+} from './accessibility/settings';
+import { useFocusTrap } from './accessibility/useFocusTrap';
+import { LOCALES, LOCALE_NAMES, formatNumber, getMessages, interpolate, isLocale, loadLocale, plural, saveLocale, type Locale } from './i18n';
+import { randomSeed } from './game/rng';
+import { FRAME_MS, GROUND_HEIGHT } from './game/constants';
+import { DEFAULT_DIFFICULTY_ID, DEFAULT_LEVEL_ID, DIFFICULTIES, LEVELS, getDifficulty, getLevel, isShippedLevel, localize, type LevelDefinition } from './game/content';
+import { loadDraft, saveDraft, validateDraft } from './game/editor';
+import type { WaveReport } from './game/waves';
+import { ReplayPlayer, createReplay, parseReplay, serializeReplay, type Replay } from './game/replay';
+import { summarizeStats, type RunStats } from './game/stats';
+import TimelineChart from './components/TimelineChart';
+import LevelEditor from './components/LevelEditor';
+import MotionSettings from './components/MotionSettings';
+import type { BatterySide, Difficulty, GameMode, Point } from './game/types';
+import { INITIAL_MACHINE, gameReducer, isInRun } from './game/state';
+import { loadProgression, purchaseUpgrade, saveProgression } from './game/progression';
+import {
+  ACHIEVEMENTS,
+  achievementProgress,
+  loadAchievements,
+  recordAchievementEvents,
+  saveAchievements,
+  type AchievementEvent,
+  type AchievementId,
+} from './game/achievements';
+import { PLAY_MODES, VERSUS_ARSENAL, canFireFrom, type PlayMode, type PlayerIndex } from './game/players';
+import { BASE_UPGRADES, BATTERY_UPGRADES, UPGRADE_COSTS, creditsForScore, nextUpgradeCost, upgradeLevel, type UpgradeId } from './game/upgrades';
+import {
+  SPECIAL_WEAPONS,
+  WEAPONS,
+  availableWeapons,
+  cycleWeapon,
+  isSpecialWeapon,
+  loadWeapons,
+  saveWeapons,
+  type WeaponId,
+} from './game/weapons';
+import { ChainFlash, ScreenShake } from './game/effects';
+import { loadGraphics, saveGraphics } from './game/graphics';
+import { THEME_IDS } from './game/themes';
+import {
+  CONTROL_ACTIONS,
+  DEFAULT_CONTROLS,
+  FIRE_ACTION_SIDES,
+  WEAPON_ACTION_STEPS,
+  actionForKey,
+  formatButton,
+  formatKey,
+  loadControls,
+  readGamepad,
+  rebindKey,
+  saveControls,
+  type ControlAction,
+  type GamepadSnapshot,
+} from './input/controls';
+
+// Longest gap the loop will try to catch up on, e.g. after the tab was in the background.
+const MAX_FRAME_DT = 250;
+const REPLAY_SPEEDS = [1, 2, 4];
+// The demo starts by itself after the menu has been left alone this long.
+const DEMO_IDLE_MS = 45_000;
+const NO_ACTIONS = new Set<ControlAction>();
 
-type Difficulty = 'easy' | 'medium' | 'hard';
+
+const formatTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const [gameState, setGameState] = useState<'menu' | 'playing' | 'won' | 'lost'>('menu');
+  const [{ state: gameState, run }, dispatch] = useReducer(gameReducer, INITIAL_MACHINE);
   const [score, setScore] = useState(0);
-  const [ammo, setAmmo] = useState(INITIAL_AMMO);
-  const [language, setLanguage] = useState<'en' | 'zh'>('zh');
-  const [difficulty, setDifficulty] = useState<Difficulty>('medium');
+  const [language, setLanguage] = useState<Locale>(loadLocale);
+  const [difficulty, setDifficulty] = useState<Difficulty>(DEFAULT_DIFFICULTY_ID);
+  const [mode, setMode] = useState<GameMode>(DEFAULT_LEVEL_ID);
+  const [playMode, setPlayMode] = useState<PlayMode>('solo');
+  const [playerScores, setPlayerScores] = useState<number[]>([0]);
+  const [arsenal, setArsenal] = useState(VERSUS_ARSENAL);
+  const [attackerScore, setAttackerScore] = useState(0);
+  const [wave, setWave] = useState(1);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [waveReport, setWaveReport] = useState<WaveReport | null>(null);
   const [showHelp, setShowHelp] = useState(false);
   const [aiTip, setAiTip] = useState<string | null>(null);
+  const [runResult, setRunResult] = useState<RunResult | null>(null);
+  const [runStats, setRunStats] = useState<RunStats | null>(null);
+  const [playerStats, setPlayerStats] = useState<RunStats[]>([]);
+  const [showDebrief, setShowDebrief] = useState(false);
+  const [controls, setControls] = useState(loadControls);
+  const [showControls, setShowControls] = useState(false);
+  const [audioSettings, setAudioSettings] = useState(loadAudioSettings);
+  const [showAudio, setShowAudio] = useState(false);
+  const [accessibility, setAccessibility] = useState(loadAccessibility);
+  const [systemReducedMotion, setSystemReducedMotion] = useState(systemPrefersReducedMotion);
+  const [showAccessibility, setShowAccessibility] = useState(false);
+  const [debugSettings, setDebugSettings] = useState(loadDebugSettings);
+  const [graphics, setGraphics] = useState(loadGraphics);
+  const [showGraphics, setShowGraphics] = useState(false);
+  const [frameReport, setFrameReport] = useState<FrameReport | null>(null);
+  // Latest screen-reader announcements; the ids change so repeating a message still reads it again.
+  const [liveAnnouncements, setLiveAnnouncements] = useState({
+    urgent: { id: 0, items: [] as Announcement[] },
+    polite: { id: 0, items: [] as Announcement[] },
+  });
+  const [rebinding, setRebinding] = useState<ControlAction | null>(null);
+  const [progression, setProgression] = useState(loadProgression);
+  const [showShop, setShowShop] = useState(false);
+  const [achievements, setAchievements] = useState(loadAchievements);
+  const [achievementToasts, setAchievementToasts] = useState<AchievementId[]>([]);
+  const [showAchievements, setShowAchievements] = useState(false);
+  const [playerName, setPlayerName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [room, setRoom] = useState<RoomInfo | null>(null);
+  const [onlineSlot, setOnlineSlot] = useState(0);
+  const [connection, setConnection] = useState<ConnectionStatus>('closed');
+  const [onlineError, setOnlineError] = useState<string | null>(null);
+  const [onlineOutcome, setOnlineOutcome] = useState<RunOutcome | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [replayPaused, setReplayPaused] = useState(false);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayFrame, setReplayFrame] = useState(0);
+  const [replayVerified, setReplayVerified] = useState<boolean | null>(null);
+  const [editorDraft, setEditorDraft] = useState(loadDraft);
+  // Level being test played from the editor; null for the shipped levels.
+  const [testLevel, setTestLevel] = useState<LevelDefinition | null>(null);
+  const [dailyHistory, setDailyHistory] = useState(loadDailyHistory);
+  const [showDaily, setShowDaily] = useState(false);
+  // The daily run just finished, for its end screen.
+  const [dailyEntry, setDailyEntry] = useState<Required<DailyEntry> | null>(null);
+  const [dailyCopied, setDailyCopied] = useState(false);
+  const [dailyCode, setDailyCode] = useState('');
+  const [dailyVerification, setDailyVerification] = useState<DailyVerification | null>(null);
+  const [dailyError, setDailyError] = useState<string | null>(null);
+  const [weapons, setWeapons] = useState(loadWeapons);
+  // Weapon each defender fires next and its rounds left, for the HUD. Empty when no battery carries a special weapon.
+  const [weaponHud, setWeaponHud] = useState<{ weapon: WeaponId; rounds: number }[]>([]);
 
-  // Game Objects Refs
-  const missilesRef = useRef<Missile[]>([]);
-  const explosionsRef = useRef<Explosion[]>([]);
-  const buildingsRef = useRef<Building[]>([]);
-  const particlesRef = useRef<Particle[]>([]);
+  const simRef = useRef<GameSimulation | null>(null);
   const frameIdRef = useRef<number>(0);
-  const lastEnemySpawnRef = useRef<number>(0);
-  const nextIdRef = useRef(0);
-
-  const t = {
-    en: {
-      title: "Joey's Nova Defense",
-      start: "Start Game",
-      win: "Victory!",
-      lose: "Game Over",
-      retry: "Play Again",
-      score: "Score",
-      target: "Target",
-      ammo: "Ammo",
-      left: "L",
-      center: "C",
-      right: "R",
-      tip: "AI Commander Tip:",
-      instructions: "Click anywhere to intercept incoming rockets. Protect your cities and batteries!",
-      helpTitle: "How to Play",
-      helpText: [
-        "1. Enemy rockets fall from the top to destroy your cities.",
-        "2. Click/Touch anywhere to fire an interceptor missile.",
-        "3. Missiles explode at the target location, destroying nearby rockets.",
-        "4. You have limited ammo in 3 batteries. Use them wisely!",
-        "5. Reach 1000 points to win. Game ends if all batteries are destroyed."
-      ],
-      difficulty: "Difficulty",
-      easy: "Easy",
-      medium: "Medium",
-      hard: "Hard",
-      help: "Help",
-      close: "Close"
-    },
-    zh: {
-      title: "Joey新星防御",
-      start: "开始游戏",
-      win: "胜利！",
-      lose: "游戏结束",
-      retry: "再玩一次",
-      score: "得分",
-      target: "目标",
-      ammo: "弹药",
-      left: "左",
-      center: "中",
-      right: "右",
-      tip: "AI 指挥官建议：",
-      instructions: "点击屏幕任何位置发射拦截导弹。保护你的城市和炮台！",
-      helpTitle: "玩法介绍",
-      helpText: [
-        "1. 敌方火箭从顶部落下，目标是摧毁你的城市。",
-        "2. 点击或触摸屏幕任意位置发射拦截导弹。",
-        "3. 导弹会在点击处爆炸，产生的范围伤害可摧毁附近火箭。",
-        "4. 你有三座炮台，弹药有限，请谨慎使用！",
-        "5. 达到 1000 分即可获胜。如果所有炮台被毁，游戏结束。"
-      ],
-      difficulty: "难度",
-      easy: "简单",
-      medium: "普通",
-      hard: "困难",
-      help: "帮助",
-      close: "关闭"
-    }
-  }[language];
-
-  // --- Difficulty Modifiers ---
-  const getDifficultyModifiers = () => {
-    switch (difficulty) {
-      case 'easy': return { speedMult: 0.7, spawnMult: 1.5 };
-      case 'hard': return { speedMult: 1.3, spawnMult: 0.7 };
-      default: return { speedMult: 1.0, spawnMult: 1.0 };
+  const lastFrameTimeRef = useRef<number | null>(null);
+  const showHelpRef = useRef(showHelp);
+  showHelpRef.current = showHelp;
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+  const replayPlayerRef = useRef<ReplayPlayer | null>(null);
+  const replayPausedRef = useRef(replayPaused);
+  replayPausedRef.current = replayPaused;
+  const replaySpeedRef = useRef(replaySpeed);
+  replaySpeedRef.current = replaySpeed;
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+  // One crosshair per player; solo runs only use the first.
+  const crosshairsRef = useRef<Point[]>([{ x: 0, y: 0 }, { x: 0, y: 0 }]);
+  const displayRef = useRef({ width: 0, height: 0, dpr: 1 });
+  // Where frames are drawn; replaced along with the canvas when worker rendering is switched.
+  const surfaceRef = useRef<RenderSurface | null>(null);
+  const frameStatsRef = useRef(new FrameStats());
+  const heldActionsRef = useRef(new Set<ControlAction>());
+  // Buttons held on each gamepad slot last frame.
+  const padActionsRef = useRef<Set<ControlAction>[]>([]);
+  // Versus: launch point the attacker picked, waiting for a target.
+  const attackLaunchXRef = useRef<number | null>(null);
+  const clientRef = useRef<MultiplayerClient | null>(null);
+  const onlineViewRef = useRef<OnlineView | null>(null);
+  const demoRef = useRef<{ sim: GameSimulation; pilot: BotPilot } | null>(null);
+  // Day of the daily run the next `start` should begin, and the daily run in `simRef`, if that is one.
+  const pendingDailyRef = useRef<string | null>(null);
+  const dailyRunRef = useRef<{ day: string; finished: boolean } | null>(null);
+  const onlineSlotRef = useRef(0);
+  const onlineModeRef = useRef<GameMode>(DEFAULT_LEVEL_ID);
+  const soundRef = useRef(new SoundEngine());
+  // Replaced whenever a run, replay or online game starts, so the new screen is not heard as one big change.
+  const soundCuesRef = useRef(new SoundCues(soundRef.current));
+  // Replaced alongside the sound cues.
+  const announcementCuesRef = useRef(new AnnouncementCues());
+  const achievementsRef = useRef(achievements);
+  // Chains and interceptions of the current run already reported to achievements.
+  const achievementCursorRef = useRef({ chains: 0, interceptions: 0 });
+  // Score already turned into credits for the current run.
+  const creditedScoreRef = useRef(0);
+  // Weapon each player has picked; fires standard interceptors while it is out of rounds.
+  const activeWeaponsRef = useRef<WeaponId[]>(['standard', 'standard']);
+  const shakeRef = useRef(new ScreenShake());
+  const flashRef = useRef(new ChainFlash());
+
+  const t = getMessages(language);
+  const reducedMotion = reducesMotion(accessibility, systemReducedMotion);
+  const colorScheme = COLOR_SCHEMES[accessibility.colors];
+  const renderOptionsRef = useRef(DEFAULT_RENDER_OPTIONS);
+  renderOptionsRef.current = { colors: accessibility.colors, shapes: accessibility.shapes, particles: !reducedMotion, theme: graphics.theme };
+  const graphicsRef = useRef(graphics);
+  graphicsRef.current = graphics;
+  const gameSpeedRef = useRef(accessibility.gameSpeed);
+  gameSpeedRef.current = accessibility.gameSpeed;
+  const reducedMotionRef = useRef(reducedMotion);
+  reducedMotionRef.current = reducedMotion;
+
+  const announce = (announcements: Announcement[]) => {
+    if (announcements.length === 0) return;
+    const urgent = announcements.filter(isUrgent);
+    const polite = announcements.filter(a => !isUrgent(a));
+    setLiveAnnouncements(prev => ({
+      urgent: urgent.length > 0 ? { id: prev.urgent.id + 1, items: urgent } : prev.urgent,
+      polite: polite.length > 0 ? { id: prev.polite.id + 1, items: polite } : prev.polite,
+    }));
+  };
+
+  const inMenu = gameState === 'menu' || gameState === 'won' || gameState === 'lost';
+  const helpDialogRef = useFocusTrap<HTMLDivElement>(showHelp, () => setShowHelp(false));
+  // Escape already toggles pause, so the pause menu needs no handler of its own.
+  const pauseDialogRef = useFocusTrap<HTMLDivElement>(gameState === 'paused');
+  const menuDialogRef = useFocusTrap<HTMLDivElement>(inMenu);
+  // While a key is being rebound, Escape cancels the rebinding instead of closing the dialog.
+  const controlsDialogRef = useFocusTrap<HTMLDivElement>(showControls, rebinding ? undefined : () => setShowControls(false));
+  const achievementsDialogRef = useFocusTrap<HTMLDivElement>(showAchievements, () => setShowAchievements(false));
+  const dailyDialogRef = useFocusTrap<HTMLDivElement>(showDaily, () => setShowDaily(false));
+  const soundDialogRef = useFocusTrap<HTMLDivElement>(showAudio, () => setShowAudio(false));
+  const accessibilityDialogRef = useFocusTrap<HTMLDivElement>(showAccessibility, () => setShowAccessibility(false));
+  const graphicsDialogRef = useFocusTrap<HTMLDivElement>(showGraphics, () => setShowGraphics(false));
+  const shopDialogRef = useFocusTrap<HTMLDivElement>(showShop, () => setShowShop(false));
+  const debriefDialogRef = useFocusTrap<HTMLDivElement>(showDebrief && runStats !== null, () => setShowDebrief(false));
+
+  const describeAnnouncement = (announcement: Announcement) => {
+    const { announce: text } = t;
+    switch (announcement.type) {
+      case 'cityLost':
+        return plural(language, text.cityLost, announcement.remaining);
+      case 'batteryLost':
+        return interpolate(text.batteryLost, { side: text.sides[announcement.side] });
+      case 'lowAmmo':
+        return plural(language, text.lowAmmo, announcement.ammo, { side: text.sides[announcement.side] });
+      case 'outOfAmmo':
+        return interpolate(text.outOfAmmo, { side: text.sides[announcement.side] });
+      default:
+        return interpolate(text[announcement.type], { score: formatNumber(language, announcement.score) });
     }
   };
 
-  // --- Initialization ---
-  const initGame = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  /** Solo players use every device. With two players the keyboard and the second gamepad belong to player 2. */
+  const keyboardPlayer = (sim: GameSimulation): PlayerIndex => (sim.playMode === 'solo' ? 0 : 1);
 
-    const width = window.innerWidth;
-    const height = window.innerHeight;
-    canvas.width = width;
-    canvas.height = height;
-
-    const groundY = height - 40;
-    const buildings: Building[] = [];
-
-    // Batteries
-    buildings.push({ id: 0, x: 50, y: groundY - 30, width: 60, height: 30, isDestroyed: false, type: 'battery', batterySide: 'left' });
-    buildings.push({ id: 1, x: width / 2 - 40, y: groundY - 40, width: 80, height: 40, isDestroyed: false, type: 'battery', batterySide: 'center' });
-    buildings.push({ id: 2, x: width - 110, y: groundY - 30, width: 60, height: 30, isDestroyed: false, type: 'battery', batterySide: 'right' });
-
-    // Cities
-    const cityCount = 6;
-    const spacing = (width - 300) / (cityCount + 1);
-    for (let i = 0; i < cityCount; i++) {
-      const x = 150 + (i + 1) * spacing - 20;
-      buildings.push({ id: 3 + i, x, y: groundY - 20, width: 40, height: 20, isDestroyed: false, type: 'city' });
+  /** What `player` fires from `side` (or any battery): the picked weapon while it has rounds there, otherwise interceptors. */
+  const weaponFor = (sim: GameSimulation, player: PlayerIndex, side?: BatterySide): WeaponId => {
+    const weapon = activeWeaponsRef.current[player] ?? 'standard';
+    if (weapon === 'standard') return weapon;
+    const ready = side ? sim.weapons[side] === weapon && sim.specialAmmo[side] > 0 : sim.roundsLeft(weapon, player) > 0;
+    return ready ? weapon : 'standard';
+  };
+
+  /** Moves `player` to their next or previous weapon among those their batteries carry. */
+  const switchWeapon = (sim: GameSimulation, player: PlayerIndex, step: 1 | -1) => {
+    const sides = (['left', 'center', 'right'] as BatterySide[]).filter(side => canFireFrom(sim.playMode, player, side));
+    activeWeaponsRef.current[player] = cycleWeapon(availableWeapons(sim.weapons, sides), weaponFor(sim, player), step);
+  };
+
+  /** Fires from `player`'s crosshair. The versus attacker's fire button plans launches instead. */
+  const fireFromCrosshair = (sim: GameSimulation, player: PlayerIndex, action: ControlAction) => {
+    const { x, y } = crosshairsRef.current[player];
+    const side = FIRE_ACTION_SIDES[action];
+    if (sim.playMode === 'versus' && player === 1) planAttack(sim, x, y);
+    else sim.fire(x, y, side, player, weaponFor(sim, player, side));
+  };
+
+  /** The attacker's first press picks a launch point on the top edge, the second the building to hit. */
+  const planAttack = (sim: GameSimulation, x: number, y: number) => {
+    const launchX = attackLaunchXRef.current;
+    if (launchX === null) {
+      attackLaunchXRef.current = x;
+      return;
     }
+    const distance = (b: { x: number; y: number; width: number; height: number }) =>
+      Math.hypot(b.x + b.width / 2 - x, b.y + b.height / 2 - y);
+    const target = sim.buildings.filter(b => !b.isDestroyed).sort((a, b) => distance(a) - distance(b))[0];
+    // A launch refused while reloading keeps the plan, so pressing again retries it.
+    if (target && sim.launch(launchX, target.id)) attackLaunchXRef.current = null;
+  };
 
-    buildingsRef.current = buildings;
-    missilesRef.current = [];
-    explosionsRef.current = [];
-    particlesRef.current = [];
-    setScore(0);
-    setAmmo(INITIAL_AMMO);
-    setAiTip(null);
-    setShowHelp(false);
-  }, []);
+  const togglePause = () => {
+    heldActionsRef.current.clear();
+    dispatch(gameStateRef.current === 'paused' ? 'resume' : 'pause');
+  };
 
-  const spawnEnemy = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  /** Moves `crosshair` up to `step` px by held directions and stick deflection, within `maxX`×`maxY`. */
+  const moveCrosshair = (
+    crosshair: Point,
+    active: (action: ControlAction) => boolean,
+    pad: GamepadSnapshot | null,
+    step: number,
+    maxX: number,
+    maxY: number,
+  ) => {
+    const dx = Math.max(-1, Math.min(1, (active('right') ? 1 : 0) - (active('left') ? 1 : 0) + (pad?.axisX ?? 0)));
+    const dy = Math.max(-1, Math.min(1, (active('down') ? 1 : 0) - (active('up') ? 1 : 0) + (pad?.axisY ?? 0)));
+    crosshair.x = Math.max(0, Math.min(maxX, crosshair.x + dx * step));
+    crosshair.y = Math.max(0, Math.min(maxY, crosshair.y + dy * step));
+  };
 
-    const targetBuildings = buildingsRef.current.filter(b => !b.isDestroyed);
-    if (targetBuildings.length === 0) return;
+  /**
+   * Moves each player's crosshair from held keys and their gamepad, and fires or switches weapons
+   * on newly pressed buttons. While `frozen` (paused or help open) only the pause button is handled.
+   */
+  const applyControllerInput = (sim: GameSimulation, dt: number, frozen: boolean) => {
+    // Gamepad slot N drives player N.
+    const players: PlayerIndex[] = sim.playMode === 'solo' ? [0] : [0, 1];
+    const pads = players.map(slot => readGamepad(controlsRef.current, slot));
+    const previous = padActionsRef.current;
+    const pressed = pads.map(pad => pad?.pressed ?? NO_ACTIONS);
+    padActionsRef.current = pressed;
 
-    const target = targetBuildings[Math.floor(Math.random() * targetBuildings.length)];
-    const startX = Math.random() * canvas.width;
-    
-    const { speedMult } = getDifficultyModifiers();
-
-    missilesRef.current.push({
-      id: nextIdRef.current++,
-      start: { x: startX, y: 0 },
-      current: { x: startX, y: 0 },
-      target: { x: target.x + target.width / 2, y: target.y + target.height / 2 },
-      speed: (ENEMY_SPEED_MIN + Math.random() * (ENEMY_SPEED_MAX - ENEMY_SPEED_MIN)) * speedMult,
-      color: '#ff4444',
-      isEnemy: true
-    });
-  }, [difficulty]);
+    const pausePressed = pressed.some((p, slot) => p.has('pause') && !previous[slot]?.has('pause'));
+    if (pausePressed && !showHelpRef.current) togglePause();
+    if (frozen) return;
 
-  const createExplosion = (x: number, y: number) => {
-    explosionsRef.current.push({
-      id: nextIdRef.current++,
-      x,
-      y,
-      radius: 0,
-      maxRadius: EXPLOSION_RADIUS,
-      timer: EXPLOSION_DURATION
-    });
+    const step = (controlsRef.current.crosshairSpeed * dt) / 1000;
+    for (const player of players) {
+      const pad = pads[player];
+      const held = player === keyboardPlayer(sim) ? heldActionsRef.current : NO_ACTIONS;
+      const active = (action: ControlAction) => held.has(action) || !!pad?.pressed.has(action);
 
-    // Add some particles
-    for (let i = 0; i < 15; i++) {
-      particlesRef.current.push({
-        x,
-        y,
-        vx: (Math.random() - 0.5) * 4,
-        vy: (Math.random() - 0.5) * 4,
-        life: 1,
-        color: `hsl(${Math.random() * 60 + 10}, 100%, 50%)`
-      });
+      moveCrosshair(crosshairsRef.current[player], active, pad, step, sim.width, sim.groundY);
+
+      for (const action of pressed[player]) {
+        if (previous[player]?.has(action)) continue;
+        if (action === 'fire' || FIRE_ACTION_SIDES[action]) fireFromCrosshair(sim, player, action);
+        const step = WEAPON_ACTION_STEPS[action];
+        if (step) switchWeapon(sim, player, step);
+      }
     }
   };
 
-  const fireMissile = (targetX: number, targetY: number) => {
-    if (gameState !== 'playing' || showHelp) return;
+  /** Turns score gained since the last call into persistent credits. */
+  const awardCredits = (sim: GameSimulation) => {
+    // Editor levels can be made as easy as you like, so they earn nothing.
+    if (!isShippedLevel(sim.level)) return;
+    const earned = creditsForScore(sim.score) - creditsForScore(creditedScoreRef.current);
+    creditedScoreRef.current = sim.score;
+    if (earned > 0) setProgression(p => ({ ...p, credits: p.credits + earned }));
+  };
 
-    const batteries = buildingsRef.current.filter(b => b.type === 'battery' && !b.isDestroyed);
-    if (batteries.length === 0) return;
+  const recordAchievements = (events: AchievementEvent[]) => {
+    const { progress, unlocked } = recordAchievementEvents(achievementsRef.current, events);
+    if (progress === achievementsRef.current) return;
+    achievementsRef.current = progress;
+    setAchievements(progress);
+    if (unlocked.length > 0) setAchievementToasts(toasts => [...toasts, ...unlocked]);
+  };
 
-    // Find closest battery with ammo
-    let bestBattery: Building | null = null;
-    let minDist = Infinity;
+  /** Versus runs and editor levels do not count towards achievements. */
+  const countsForAchievements = (sim: GameSimulation) => sim.playMode !== 'versus' && isShippedLevel(sim.level);
 
-    batteries.forEach(b => {
-      const side = b.batterySide as keyof typeof INITIAL_AMMO;
-      if (ammo[side] > 0) {
-        const dist = Math.abs(b.x + b.width / 2 - targetX);
-        if (dist < minDist) {
-          minDist = dist;
-          bestBattery = b;
-        }
-      }
-    });
+  /** Reports chains and interceptions since the last call, so their achievements unlock mid-run. */
+  const trackAchievements = (sim: GameSimulation) => {
+    if (!countsForAchievements(sim)) return;
+    const cursor = achievementCursorRef.current;
+    const events: AchievementEvent[] = sim.stats.chains.slice(cursor.chains).map(kills => ({ type: 'chain', kills }));
+    if (sim.stats.interceptions > cursor.interceptions) {
+      events.push({ type: 'intercept', count: sim.stats.interceptions - cursor.interceptions });
+    }
+    achievementCursorRef.current = { chains: sim.stats.chains.length, interceptions: sim.stats.interceptions };
+    if (events.length > 0) recordAchievements(events);
+  };
 
-    if (bestBattery) {
-      const side = (bestBattery as Building).batterySide as keyof typeof INITIAL_AMMO;
-      setAmmo(prev => ({ ...prev, [side]: prev[side] - 1 }));
-
-      missilesRef.current.push({
-        id: nextIdRef.current++,
-        start: { x: (bestBattery as Building).x + (bestBattery as Building).width / 2, y: (bestBattery as Building).y },
-        current: { x: (bestBattery as Building).x + (bestBattery as Building).width / 2, y: (bestBattery as Building).y },
-        target: { x: targetX, y: targetY },
-        speed: MISSILE_SPEED,
-        color: '#44ccff',
-        isEnemy: false
-      });
+  const syncHud = (sim: GameSimulation) => {
+    setScore(sim.score);
+    setPlayerScores(prev => (prev.length === sim.playerScores.length && prev.every((s, i) => s === sim.playerScores[i]) ? prev : [...sim.playerScores]));
+    setArsenal(sim.arsenal);
+    setAttackerScore(sim.attackerScore);
+    setWave(sim.wave);
+    setElapsedSeconds(Math.floor(sim.time / 1000));
+    setWaveReport(sim.wavePhase === 'intermission' ? sim.lastWaveReport : null);
+    const hud = SPECIAL_WEAPONS.some(w => Object.values(sim.weapons).includes(w))
+      ? sim.playerScores.map((_, i) => {
+          const weapon = weaponFor(sim, i as PlayerIndex);
+          return { weapon, rounds: sim.roundsLeft(weapon, i as PlayerIndex) };
+        })
+      : [];
+    setWeaponHud(prev => (prev.length === hud.length && prev.every((w, i) => w.weapon === hud[i].weapon && w.rounds === hud[i].rounds) ? prev : hud));
+  };
+
+  /**
+   * Shakes `transform` and picks the post-processing passes for a frame of `state`, as the graphics
+   * settings allow. Shakes and flashes stay off under reduced motion.
+   */
+  const withEffects = (state: RenderState, transform: Frame['transform'], dt: number): Pick<Frame, 'transform' | 'effects'> => {
+    const { bloom, crt, shake, flash } = graphicsRef.current;
+    const still = reducedMotionRef.current;
+    // Both keep watching while switched off, so switching them on does not replay what already happened.
+    const offset = shakeRef.current.update(state, dt);
+    const brightness = flashRef.current.update(state.explosions, dt);
+    return {
+      transform: shake && !still ? { ...transform, x: transform.x + offset.x * transform.scale, y: transform.y + offset.y * transform.scale } : transform,
+      effects: { bloom, crt, flash: flash && !still ? brightness : 0 },
+    };
+  };
+
+  /** Keeps the canvas backing store in step with the window size and pixel ratio. Returns true if it changed. */
+  const syncCanvasSize = (surface: RenderSurface) => {
+    const display = displayRef.current;
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+    const dpr = window.devicePixelRatio || 1;
+    if (width === display.width && height === display.height && dpr === display.dpr) return false;
+    surface.resize(width, height, dpr);
+    displayRef.current = { width, height, dpr };
+    return true;
+  };
+
+  /** World-to-canvas transform that letterboxes `world` into the window, in backing-store pixels. */
+  const letterboxTransform = (world: { width: number; height: number }): Frame['transform'] => {
+    const { dpr } = displayRef.current;
+    const box = letterbox(world);
+    return { scale: box.scale * dpr, x: box.x * dpr, y: box.y * dpr };
+  };
+
+  /** Scale and offset that fit a fixed-size world into the window, as for replays and online runs. */
+  const letterbox = (world: { width: number; height: number }) => {
+    const { width, height } = displayRef.current;
+    const scale = Math.min(width / world.width, height / world.height);
+    return { scale, x: (width - world.width * scale) / 2, y: (height - world.height * scale) / 2 };
+  };
+
+  /** Maps a pointer position into a letterboxed world, as for online and daily runs. */
+  const toLetterboxedWorld = (clientX: number, clientY: number, world: { width: number; height: number }): Point => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    const box = letterbox(world);
+    return {
+      x: (clientX - (rect?.left ?? 0) - box.x) / box.scale,
+      y: (clientY - (rect?.top ?? 0) - box.y) / box.scale,
+    };
+  };
+
+  /** Sends a shot to the server and draws it straight away, before the server confirms it. */
+  const fireOnline = (target: Point, side?: BatterySide) => {
+    const client = clientRef.current;
+    const view = onlineViewRef.current;
+    if (!client || !view) return;
+    view.predictFire(client.fire(target.x, target.y, side), target, side);
+  };
+
+  const applyOnlineControls = (dt: number) => {
+    const pad = readGamepad(controlsRef.current);
+    const previous = padActionsRef.current[0] ?? NO_ACTIONS;
+    const pressed = pad?.pressed ?? NO_ACTIONS;
+    padActionsRef.current = [pressed];
+
+    const held = heldActionsRef.current;
+    const step = (controlsRef.current.crosshairSpeed * dt) / 1000;
+    const crosshair = crosshairsRef.current[0];
+    moveCrosshair(crosshair, action => held.has(action) || pressed.has(action), pad, step, ONLINE_WORLD.width, ONLINE_WORLD.height - GROUND_HEIGHT);
+    for (const action of pressed) {
+      if (!previous.has(action) && (action === 'fire' || FIRE_ACTION_SIDES[action])) fireOnline(crosshair, FIRE_ACTION_SIDES[action]);
     }
   };
 
-  // --- Game Loop ---
-  const update = useCallback((time: number) => {
+  /** Maps a pointer position to world coordinates. */
+  const toWorld = (clientX: number, clientY: number, sim: GameSimulation): Point => {
+    if (dailyRunRef.current) return toLetterboxedWorld(clientX, clientY, sim);
+    const rect = canvasRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: clientX, y: clientY };
+    return {
+      x: ((clientX - rect.left) / rect.width) * sim.width,
+      y: ((clientY - rect.top) / rect.height) * sim.height,
+    };
+  };
+
+  // A canvas handed to a worker can never be drawn on from the page again, so switching
+  // rendering modes swaps the canvas element (see its key) and builds a surface for the new one.
+  const renderInWorker = debugSettings.renderInWorker && supportsWorkerRendering();
+  useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const surface = renderInWorker ? createWorkerSurface(canvas) : createCanvasSurface(canvas);
+    surfaceRef.current = surface;
+    displayRef.current = { width: 0, height: 0, dpr: 1 };
+    syncCanvasSize(surface);
+    return () => {
+      // Strict mode re-runs this effect with the canvas still mounted; only a removed canvas is finished with.
+      if (!canvas.isConnected) surface.dispose();
+    };
+  }, [renderInWorker]);
 
-    if (showHelp) {
-      frameIdRef.current = requestAnimationFrame(update);
-      return;
+  // --- Game Loop ---
+  const update = useCallback((time: number) => {
+    const surface = surfaceRef.current;
+    const sim = simRef.current;
+    if (!surface || !sim) return;
+
+    // Quitting to the menu ends the loop.
+    if (!isInRun(gameStateRef.current)) return;
+
+    const last = lastFrameTimeRef.current ?? time;
+    lastFrameTimeRef.current = time;
+
+    // The daily run keeps the world everyone plays in and is letterboxed into the window instead.
+    const daily = dailyRunRef.current !== null;
+    if (syncCanvasSize(surface) && !daily) {
+      const { width, height } = displayRef.current;
+      crosshairsRef.current = crosshairsRef.current.map(c => ({ x: (c.x / sim.width) * width, y: (c.y / sim.height) * height }));
+      if (attackLaunchXRef.current !== null) attackLaunchXRef.current = (attackLaunchXRef.current / sim.width) * width;
+      sim.resize(width, height);
     }
 
-    // Spawn enemies
-    const { spawnMult } = getDifficultyModifiers();
-    const baseSpawnRate = Math.max(500, 2000 - (score / 100) * 200);
-    const spawnRate = baseSpawnRate * spawnMult;
+    // The simulation only advances while running, so spawn timers cannot pile up behind a pause.
+    const dt = Math.min(time - last, MAX_FRAME_DT);
+    const frozen = gameStateRef.current === 'paused' || showHelpRef.current;
+    applyControllerInput(sim, dt, frozen);
+    // Game speed stretches simulated time only; the crosshair keeps moving at full speed.
+    if (!frozen) sim.step(dt * gameSpeedRef.current);
+
+    const { dpr } = displayRef.current;
+    const options = renderOptionsRef.current;
+    const { players, attacker } = COLOR_SCHEMES[options.colors];
+    const [first, second] = crosshairsRef.current;
+    const secondColor = sim.playMode === 'versus' ? attacker : players[1];
+    surface.draw({
+      state: sim,
+      palette: sim.level.palette,
+      options,
+      ...withEffects(sim, daily ? letterboxTransform(sim) : { scale: dpr, x: 0, y: 0 }, dt),
+      crosshairs: sim.playMode === 'solo' ? [{ at: first, color: players[0] }] : [{ at: first, color: players[0] }, { at: second, color: secondColor }],
+      ...(attackLaunchXRef.current !== null && { attackPlan: { launchX: attackLaunchXRef.current, aim: second, color: secondColor } }),
+    });
+    frameStatsRef.current.record(time, sim);
+    soundCuesRef.current.update(sim);
+    announce(announcementCuesRef.current.update(sim));
+    syncHud(sim);
+    awardCredits(sim);
+    trackAchievements(sim);
 
-    if (time - lastEnemySpawnRef.current > spawnRate) {
-      spawnEnemy();
-      lastEnemySpawnRef.current = time;
+    if (sim.status !== 'playing') {
+      dispatch(sim.status === 'won' ? 'win' : 'lose');
+      return;
     }
+    frameIdRef.current = requestAnimationFrame(update);
+  }, []);
 
-    // Clear
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-    // Draw Ground
-    ctx.fillStyle = '#2d2d44';
-    ctx.fillRect(0, canvas.height - 40, canvas.width, 40);
-
-    // Update & Draw Missiles
-    missilesRef.current = missilesRef.current.filter(m => {
-      const dx = m.target.x - m.current.x;
-      const dy = m.target.y - m.current.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      if (dist < m.speed) {
-        if (m.isEnemy) {
-          createExplosion(m.target.x, m.target.y);
-          buildingsRef.current.forEach(b => {
-            if (!b.isDestroyed) {
-              const bx = b.x + b.width / 2;
-              const by = b.y + b.height / 2;
-              const d = Math.sqrt((bx - m.target.x) ** 2 + (by - m.target.y) ** 2);
-              if (d < 30) b.isDestroyed = true;
-            }
-          });
-        } else {
-          createExplosion(m.target.x, m.target.y);
-        }
-        return false;
-      }
+  useEffect(() => {
+    if (run === 0) return;
 
-      const vx = (dx / dist) * m.speed;
-      const vy = (dy / dist) * m.speed;
-      m.current.x += vx;
-      m.current.y += vy;
+    const surface = surfaceRef.current;
+    if (!surface) return;
+    displayRef.current = { width: 0, height: 0, dpr: 1 };
+    syncCanvasSize(surface);
+    // Restarting a daily run part way through still spends the day's attempt.
+    if (simRef.current) finishDaily(simRef.current);
+    const day = pendingDailyRef.current;
+    pendingDailyRef.current = null;
+    dailyRunRef.current = day ? { day, finished: false } : null;
 
-      ctx.beginPath();
-      ctx.moveTo(m.start.x, m.start.y);
-      ctx.lineTo(m.current.x, m.current.y);
-      ctx.strokeStyle = m.color + '44';
-      ctx.lineWidth = 1;
-      ctx.stroke();
+    // Versus brings its own enemies and win condition, so it always runs on the default level.
+    const sim = day
+      ? new GameSimulation(dailyOptions(day))
+      : new GameSimulation({
+          width: displayRef.current.width,
+          height: displayRef.current.height,
+          difficulty,
+          mode: playMode === 'versus' ? DEFAULT_LEVEL_ID : mode,
+          level: testLevel ?? undefined,
+          playMode,
+          seed: randomSeed(),
+          upgrades: progression.upgrades,
+          weapons,
+        });
+    simRef.current = sim;
+    const { width, height } = sim;
+    creditedScoreRef.current = 0;
+    achievementCursorRef.current = { chains: 0, interceptions: 0 };
+    soundCuesRef.current = new SoundCues(soundRef.current);
+    announcementCuesRef.current = new AnnouncementCues();
+    crosshairsRef.current = sim.playMode === 'solo'
+      ? [{ x: width / 2, y: height / 2 }, { x: width / 2, y: height / 2 }]
+      : [{ x: width / 3, y: height / 2 }, { x: (width * 2) / 3, y: height / 2 }];
+    attackLaunchXRef.current = null;
+    activeWeaponsRef.current = ['standard', 'standard'];
+    shakeRef.current.reset();
+    flashRef.current.reset();
+    heldActionsRef.current.clear();
+    lastFrameTimeRef.current = null;
+    setScore(0);
+    setWave(1);
+    setElapsedSeconds(0);
+    setWaveReport(null);
+    setAiTip(null);
+    setRunResult(null);
+    setRunStats(null);
+    setPlayerStats([]);
+    setShowDebrief(false);
+    setShowHelp(false);
+    setShowShop(false);
+    setDailyEntry(null);
+    frameIdRef.current = requestAnimationFrame(update);
 
-      ctx.fillStyle = m.color;
-      ctx.fillRect(m.current.x - 1, m.current.y - 1, 3, 3);
+    return () => cancelAnimationFrame(frameIdRef.current);
+  }, [run, update]);
 
-      return true;
-    });
+  // Auto-pause when the player switches tabs or windows.
+  useEffect(() => {
+    if (gameState !== 'playing') return;
+    const pause = () => {
+      heldActionsRef.current.clear();
+      dispatch('pause');
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) pause();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('blur', pause);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('blur', pause);
+    };
+  }, [gameState]);
 
-    // Update & Draw Explosions
-    explosionsRef.current = explosionsRef.current.filter(e => {
-      e.timer--;
-      const progress = 1 - e.timer / EXPLOSION_DURATION;
-      e.radius = Math.sin(progress * Math.PI) * e.maxRadius;
-
-      missilesRef.current = missilesRef.current.filter(m => {
-        if (m.isEnemy) {
-          const d = Math.sqrt((m.current.x - e.x) ** 2 + (m.current.y - e.y) ** 2);
-          if (d < e.radius) {
-            setScore(prev => prev + 20);
-            createExplosion(m.current.x, m.current.y);
-            return false;
-          }
-        }
-        return true;
-      });
+  // Everyone plays the daily run on the same difficulty.
+  useEffect(() => {
+    if (!dailyRunRef.current) simRef.current?.setDifficulty(difficulty);
+  }, [difficulty]);
 
-      const gradient = ctx.createRadialGradient(e.x, e.y, 0, e.x, e.y, e.radius);
-      gradient.addColorStop(0, '#fff');
-      gradient.addColorStop(0.4, '#ffaa00');
-      gradient.addColorStop(1, 'transparent');
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
-      ctx.fill();
+  useEffect(() => {
+    saveControls(controls);
+  }, [controls]);
 
-      return e.timer > 0;
-    });
+  useEffect(() => {
+    saveProgression(progression);
+  }, [progression]);
 
-    // Update & Draw Particles
-    particlesRef.current = particlesRef.current.filter(p => {
-      p.x += p.vx;
-      p.y += p.vy;
-      p.life -= 0.02;
-      ctx.fillStyle = p.color;
-      ctx.globalAlpha = p.life;
-      ctx.fillRect(p.x, p.y, 2, 2);
-      ctx.globalAlpha = 1.0;
-      return p.life > 0;
-    });
+  useEffect(() => {
+    saveWeapons(weapons);
+  }, [weapons]);
 
-    // Draw Buildings
-    buildingsRef.current.forEach(b => {
-      if (b.isDestroyed) {
-        ctx.fillStyle = '#333';
-        ctx.fillRect(b.x, b.y + b.height - 5, b.width, 5);
-      } else {
-        ctx.fillStyle = b.type === 'battery' ? '#4a4a6a' : '#6a6a8a';
-        ctx.fillRect(b.x, b.y, b.width, b.height);
-        
-        if (b.type === 'battery') {
-          ctx.fillStyle = '#88f';
-          ctx.fillRect(b.x + b.width / 2 - 5, b.y - 10, 10, 10);
-          const side = b.batterySide as keyof typeof INITIAL_AMMO;
-          ctx.fillStyle = '#fff';
-          ctx.font = '10px monospace';
-          ctx.textAlign = 'center';
-          ctx.fillText(ammo[side].toString(), b.x + b.width / 2, b.y + b.height / 2 + 4);
-        }
+  useEffect(() => {
+    saveGraphics(graphics);
+  }, [graphics]);
+
+  useEffect(() => {
+    saveLocale(language);
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // The shop only stays open while the run is paused for it.
+  useEffect(() => {
+    if (gameState === 'playing') setShowShop(false);
+  }, [gameState]);
+
+  // --- Keyboard ---
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (rebinding) {
+        e.preventDefault();
+        if (e.code !== 'Escape') setControls(c => rebindKey(c, rebinding, e.code));
+        setRebinding(null);
+        return;
       }
-    });
+      if (gameState === 'online') {
+        const action = actionForKey(controlsRef.current, e.code);
+        if (!action || action === 'pause') return;
+        e.preventDefault();
+        heldActionsRef.current.add(action);
+        if (!e.repeat && (action === 'fire' || FIRE_ACTION_SIDES[action])) fireOnline(crosshairsRef.current[0], FIRE_ACTION_SIDES[action]);
+        return;
+      }
+      if (!isInRun(gameState) || showHelp) return;
 
-    // Check Win/Loss
-    if (score >= TARGET_SCORE) {
-      setGameState('won');
-    } else {
-      const activeBatteries = buildingsRef.current.filter(b => b.type === 'battery' && !b.isDestroyed);
-      if (activeBatteries.length === 0) {
-        setGameState('lost');
+      const action = actionForKey(controlsRef.current, e.code);
+      const sim = simRef.current;
+      if (!action || !sim) return;
+      if (action === 'pause') {
+        e.preventDefault();
+        if (!e.repeat) togglePause();
+        return;
       }
-    }
+      // While paused the other keys belong to the pause menu, so Enter and Space press its buttons.
+      if (gameState === 'paused') return;
+      e.preventDefault();
+      heldActionsRef.current.add(action);
+      if (e.repeat) return;
+      if (action === 'fire' || FIRE_ACTION_SIDES[action]) fireFromCrosshair(sim, keyboardPlayer(sim), action);
+      const step = WEAPON_ACTION_STEPS[action];
+      if (step) switchWeapon(sim, keyboardPlayer(sim), step);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const action = actionForKey(controlsRef.current, e.code);
+      if (action) heldActionsRef.current.delete(action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [gameState, showHelp, rebinding]);
+
+  // True while any menu dialog is open; the menu's own shortcuts wait until it is closed.
+  const menuBusy = showHelp || showControls || showAudio || showAccessibility || showGraphics || showAchievements || showShop || showDaily;
+
+  // Lets gamepad players start a run from the menu and end screens.
+  useEffect(() => {
+    if (gameState !== 'menu' && gameState !== 'won' && gameState !== 'lost') return;
+    let wasPressed = true;
+    const timer = setInterval(() => {
+      const pressed = !!readGamepad(controlsRef.current)?.pressed.has('fire');
+      if (pressed && !wasPressed && !menuBusy) dispatch('start');
+      wasPressed = pressed;
+    }, 100);
+    return () => clearInterval(timer);
+  }, [gameState, menuBusy]);
+
+  // --- Replay Loop ---
+  const updateReplay = useCallback((time: number) => {
+    const surface = surfaceRef.current;
+    const player = replayPlayerRef.current;
+    if (!surface || !player) return;
 
-    if (gameState === 'playing') {
-      frameIdRef.current = requestAnimationFrame(update);
+    const last = lastFrameTimeRef.current ?? time;
+    lastFrameTimeRef.current = time;
+
+    if (!replayPausedRef.current && !player.finished) {
+      player.play(Math.min(time - last, MAX_FRAME_DT) * replaySpeedRef.current);
     }
-  }, [gameState, score, ammo, spawnEnemy, showHelp, difficulty]);
+
+    // Replays keep the recorded world size; letterbox it into whatever the window is now.
+    syncCanvasSize(surface);
+    const { sim } = player;
+    const { transform, effects } = withEffects(sim, letterboxTransform(sim), Math.min(time - last, MAX_FRAME_DT));
+    surface.draw({ state: sim, palette: sim.level.palette, options: renderOptionsRef.current, transform, effects, crosshairs: [] });
+    frameStatsRef.current.record(time, sim);
+    soundCuesRef.current.update(sim);
+
+    syncHud(sim);
+    setReplayFrame(sim.frame);
+    setReplayVerified(player.finished ? player.matchesRecording() : null);
+
+    frameIdRef.current = requestAnimationFrame(updateReplay);
+  }, []);
 
   useEffect(() => {
-    if (gameState === 'playing') {
-      initGame();
-      lastEnemySpawnRef.current = performance.now();
-      frameIdRef.current = requestAnimationFrame(update);
-    } else {
+    if (gameState !== 'replay' || !replay) return;
+
+    const surface = surfaceRef.current;
+    if (!surface) return;
+    syncCanvasSize(surface);
+
+    replayPlayerRef.current = new ReplayPlayer(replay);
+    soundCuesRef.current = new SoundCues(soundRef.current);
+    lastFrameTimeRef.current = null;
+    setReplayPaused(false);
+    setReplaySpeed(1);
+    setReplayFrame(0);
+    setReplayVerified(null);
+    frameIdRef.current = requestAnimationFrame(updateReplay);
+
+    return () => cancelAnimationFrame(frameIdRef.current);
+  }, [gameState, replay, updateReplay]);
+
+  // --- Demo Loop ---
+  // Attract mode: a bot plays a random level, silently, starting over whenever a game ends.
+  const startDemo = () => {
+    const { width, height } = displayRef.current;
+    const level = LEVELS[Math.floor(Math.random() * LEVELS.length)];
+    demoRef.current = {
+      sim: new GameSimulation({ width, height, difficulty: DEFAULT_DIFFICULTY_ID, mode: level.id, seed: randomSeed() }),
+      pilot: new BotPilot(createPredictiveBot()),
+    };
+  };
+
+  const updateDemo = useCallback((time: number) => {
+    const surface = surfaceRef.current;
+    if (!surface || !demoRef.current || gameStateRef.current !== 'demo') return;
+
+    const last = lastFrameTimeRef.current ?? time;
+    lastFrameTimeRef.current = time;
+    if (syncCanvasSize(surface)) demoRef.current.sim.resize(displayRef.current.width, displayRef.current.height);
+
+    const { sim, pilot } = demoRef.current;
+    const dt = Math.min(time - last, MAX_FRAME_DT);
+    sim.step(dt);
+    pilot.update(sim);
+    surface.draw({
+      state: sim,
+      palette: sim.level.palette,
+      options: renderOptionsRef.current,
+      ...withEffects(sim, { scale: displayRef.current.dpr, x: 0, y: 0 }, dt),
+      crosshairs: [],
+    });
+    frameStatsRef.current.record(time, sim);
+    if (sim.status !== 'playing') startDemo();
+
+    frameIdRef.current = requestAnimationFrame(updateDemo);
+  }, []);
+
+  useEffect(() => {
+    if (gameState !== 'demo') return;
+    const surface = surfaceRef.current;
+    if (!surface) return;
+    displayRef.current = { width: 0, height: 0, dpr: 1 };
+    syncCanvasSize(surface);
+    startDemo();
+    lastFrameTimeRef.current = null;
+    frameIdRef.current = requestAnimationFrame(updateDemo);
+
+    // Any key or click hands control back.
+    const stop = (e: Event) => {
+      e.preventDefault();
+      dispatch('quit');
+    };
+    window.addEventListener('keydown', stop);
+    window.addEventListener('pointerdown', stop);
+    return () => {
       cancelAnimationFrame(frameIdRef.current);
-      if (gameState === 'won' || gameState === 'lost') {
-        getGameTips(score, language).then(setAiTip);
-      }
+      window.removeEventListener('keydown', stop);
+      window.removeEventListener('pointerdown', stop);
+      demoRef.current = null;
+    };
+  }, [gameState, updateDemo]);
+
+  // Left alone on the menu, the game shows itself off, as arcade cabinets do. Not with reduced motion.
+  useEffect(() => {
+    if (gameState !== 'menu' || menuBusy || reducedMotion) return;
+    let timer = setTimeout(() => dispatch('watchDemo'), DEMO_IDLE_MS);
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => dispatch('watchDemo'), DEMO_IDLE_MS);
+    };
+    const events = ['pointermove', 'pointerdown', 'keydown', 'wheel'] as const;
+    events.forEach(type => window.addEventListener(type, restart));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(type => window.removeEventListener(type, restart));
+    };
+  }, [gameState, menuBusy, reducedMotion]);
+
+  // --- Online Loop ---
+  const updateOnline = useCallback((time: number) => {
+    const surface = surfaceRef.current;
+    const view = onlineViewRef.current;
+    if (!surface || !view || gameStateRef.current !== 'online') return;
+
+    const last = lastFrameTimeRef.current ?? time;
+    lastFrameTimeRef.current = time;
+    const dt = Math.min(time - last, MAX_FRAME_DT);
+    syncCanvasSize(surface);
+
+    const state = view.frame(time, dt);
+    if (state && view.snapshot) {
+      applyOnlineControls(dt);
+      const options = renderOptionsRef.current;
+      const color = COLOR_SCHEMES[options.colors].players[view.slot as PlayerIndex];
+      surface.draw({
+        state,
+        palette: view.palette,
+        options,
+        ...withEffects(state, letterboxTransform(state), dt),
+        crosshairs: [{ at: crosshairsRef.current[0], color }],
+      });
+      frameStatsRef.current.record(time, state);
+      soundCuesRef.current.update(state);
+      announce(announcementCuesRef.current.update(state));
+
+      const { score, wave, frame, playerScores } = view.snapshot;
+      setScore(score);
+      setWave(wave);
+      setElapsedSeconds(Math.floor((frame * FRAME_MS) / 1000));
+      setPlayerScores(prev => (prev.length === playerScores.length && prev.every((s, i) => s === playerScores[i]) ? prev : playerScores));
     }
+    frameIdRef.current = requestAnimationFrame(updateOnline);
+  }, []);
+
+  useEffect(() => {
+    if (gameState !== 'online') return;
+    const surface = surfaceRef.current;
+    if (!surface) return;
+    displayRef.current = { width: 0, height: 0, dpr: 1 };
+    syncCanvasSize(surface);
+
+    crosshairsRef.current[0] = { x: ONLINE_WORLD.width / 2, y: ONLINE_WORLD.height / 2 };
+    heldActionsRef.current.clear();
+    lastFrameTimeRef.current = null;
+    setScore(0);
+    setWave(1);
+    setElapsedSeconds(0);
+    setPlayerScores([]);
+    frameIdRef.current = requestAnimationFrame(updateOnline);
+
     return () => cancelAnimationFrame(frameIdRef.current);
-  }, [gameState, initGame, update, language, score]);
+  }, [gameState, updateOnline]);
+
+  // Connects when the lobby opens and reclaims this tab's seat if it still has one.
+  useEffect(() => {
+    if ((gameState !== 'lobby' && gameState !== 'online') || clientRef.current) return;
+    const client = new MultiplayerClient({
+      onRoom: (info, slot) => {
+        setRoom(info);
+        setOnlineSlot(slot);
+        onlineSlotRef.current = slot;
+        onlineModeRef.current = info.mode;
+      },
+      onStart: () => {
+        onlineViewRef.current = new OnlineView(onlineSlotRef.current, getLevel(onlineModeRef.current).palette);
+        soundCuesRef.current = new SoundCues(soundRef.current, onlineSlotRef.current);
+        announcementCuesRef.current = new AnnouncementCues();
+        setOnlineOutcome(null);
+        dispatch('startOnline');
+      },
+      onSnapshot: snapshot => onlineViewRef.current?.applySnapshot(snapshot, performance.now()),
+      onEnded: outcome => {
+        setOnlineOutcome(outcome);
+        announce([{ type: outcome.status === 'won' ? 'won' : 'lost', score: outcome.score }]);
+        dispatch('endOnline');
+      },
+      onError: message => setOnlineError(message),
+      onStatus: setConnection,
+    });
+    clientRef.current = client;
+    setOnlineError(null);
+    if (client.hasSeat) client.resume();
+  }, [gameState]);
+
+  useEffect(() => saveDraft(editorDraft), [editorDraft]);
+
+  // Leaving for the menu ends test play; shipped levels are picked there again.
+  useEffect(() => {
+    if (gameState === 'menu') setTestLevel(null);
+  }, [gameState]);
+
+  // Quitting a daily run part way through records how far it got.
+  useEffect(() => {
+    if (gameState === 'menu' && simRef.current) finishDaily(simRef.current);
+  }, [gameState]);
+
+  useEffect(() => saveDailyHistory(dailyHistory), [dailyHistory]);
+
+  // Browsers only allow audio to start from a user gesture, so the first click or key press unlocks it.
+  useEffect(() => {
+    const unlock = () => {
+      soundRef.current.unlock();
+      if (!soundRef.current.unlocked) return;
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+    window.addEventListener('pointerdown', unlock);
+    window.addEventListener('keydown', unlock);
+    return () => {
+      window.removeEventListener('pointerdown', unlock);
+      window.removeEventListener('keydown', unlock);
+    };
+  }, []);
+
+  useEffect(() => saveAchievements(achievements), [achievements]);
+
+  // Each toast stays up for a few seconds; the next one waits its turn.
+  const currentToast = achievementToasts[0];
+  useEffect(() => {
+    if (!currentToast) return;
+    const timer = setTimeout(() => setAchievementToasts(toasts => toasts.slice(1)), 4000);
+    return () => clearTimeout(timer);
+  }, [currentToast]);
+
+  useEffect(() => saveAccessibility(accessibility), [accessibility]);
+
+  useEffect(() => saveDebugSettings(debugSettings), [debugSettings]);
+
+  // The overlay reads the frame stats a couple of times a second rather than re-rendering every frame.
+  useEffect(() => {
+    if (!debugSettings.showStats) return;
+    setFrameReport(frameStatsRef.current.report());
+    const timer = setInterval(() => setFrameReport(frameStatsRef.current.report()), 500);
+    return () => clearInterval(timer);
+  }, [debugSettings.showStats]);
+
+  // F3 shows or hides the stats overlay on any screen.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'F3' || e.repeat || rebinding) return;
+      e.preventDefault();
+      setDebugSettings(settings => ({ ...settings, showStats: !settings.showStats }));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [rebinding]);
+
+  useEffect(() => watchSystemReducedMotion(setSystemReducedMotion), []);
+
+  useEffect(() => {
+    saveAudioSettings(audioSettings);
+    soundRef.current.applySettings(audioSettings);
+  }, [audioSettings]);
+
+  useEffect(() => {
+    soundRef.current.setMusicActive(gameState === 'playing' || gameState === 'online' || (gameState === 'replay' && !replayPaused));
+  }, [gameState, replayPaused]);
+
+  // Closing the tab keeps the seat, so reloading it rejoins the same room.
+  useEffect(() => () => clientRef.current?.close(), []);
+
+  useEffect(() => {
+    if (gameState === 'won' || gameState === 'lost') {
+      getGameTips(score, language, simRef.current?.stats).then(setAiTip);
+    }
+  }, [gameState, language]);
+
+  useEffect(() => {
+    const sim = simRef.current;
+    if ((gameState !== 'won' && gameState !== 'lost') || !sim) return;
+    setRunStats(sim.stats);
+    setPlayerStats(sim.playerStats);
+    announce([{ type: sim.status === 'won' ? 'won' : 'lost', score: sim.score }]);
+    finishDaily(sim);
+    if (countsForAchievements(sim)) {
+      recordAchievements([{
+        type: 'runEnd',
+        won: sim.status === 'won',
+        difficulty: sim.inputs.some(input => input.type === 'difficulty') ? null : sim.difficulty,
+        citiesLost: sim.stats.losses.filter(loss => loss.type === 'city').length,
+        shotsFired: sim.stats.shotsFired,
+      }]);
+    }
+    // Two-player scores are not comparable with solo runs, editor levels not with anything and
+    // daily runs only with the same day's, so all of them stay off the leaderboard.
+    if (sim.playMode !== 'solo' || !isShippedLevel(sim.level) || dailyRunRef.current) return;
+    submitRun({
+      score: sim.score,
+      difficulty: sim.difficulty,
+      mode: sim.mode,
+      language,
+      durationMs: Math.round(sim.stats.durationMs),
+      shotsFired: summarizeStats(sim.stats).totalShots,
+      interceptions: sim.stats.interceptions,
+      citiesSurviving: sim.buildings.filter(b => b.type === 'city' && !b.isDestroyed).length,
+    }).then(setRunResult);
+  }, [gameState]);
 
   // --- Handlers ---
+  /** Spends today's attempt at the daily run and starts it. */
+  const startDaily = () => {
+    const day = dailyDay();
+    if (dailyHistory[day]) return;
+    setDailyHistory(history => recordDailyAttempt(history, day));
+    pendingDailyRef.current = day;
+    setPlayMode('solo');
+    setShowDaily(false);
+    dispatch('start');
+  };
+
+  /** Records the result of the daily run in `sim`, once, whether it ended or was left part way through. */
+  const finishDaily = (sim: GameSimulation) => {
+    const daily = dailyRunRef.current;
+    if (!daily || daily.finished) return;
+    daily.finished = true;
+    const result = dailyResult(daily.day, sim);
+    const code = encodeDailyCode(result, sim.frame, sim.inputs);
+    setDailyHistory(history => recordDailyResult(history, result, code));
+    setDailyEntry({ result, code });
+    setDailyCopied(false);
+  };
+
+  const describeDailyResult = (result: DailyResult) =>
+    interpolate(t.daily.result, {
+      score: formatNumber(language, result.score),
+      saved: result.citiesSaved,
+      cities: result.cities,
+      accuracy: result.accuracy,
+    });
+
+  const dailyShareText = ({ result, code }: Required<DailyEntry>) =>
+    [
+      interpolate(t.daily.shareTitle, { day: result.day }),
+      dailyGrid(result),
+      interpolate(t.daily.shareScore, { score: formatNumber(language, result.score), accuracy: result.accuracy }),
+      code,
+    ].join('\n');
+
+  const copyDailyResult = (entry: Required<DailyEntry>) => {
+    navigator.clipboard?.writeText(dailyShareText(entry)).then(() => setDailyCopied(true), () => setDailyCopied(false));
+  };
+
+  const verifyDaily = () => {
+    try {
+      setDailyVerification(verifyDailyCode(dailyCode));
+      setDailyError(null);
+    } catch (error) {
+      setDailyVerification(null);
+      setDailyError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const watchVerifiedRun = (verification: DailyVerification) => {
+    setReplay(verification.replay);
+    setReplayError(null);
+    setShowDaily(false);
+    dispatch('watchReplay');
+  };
+
+  const downloadReplay = () => {
+    const sim = simRef.current;
+    if (!sim) return;
+    const blob = new Blob([serializeReplay(createReplay(sim))], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `nova-replay-${sim.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplay(parseReplay(await file.text()));
+      setReplayError(null);
+      dispatch('watchReplay');
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  /** Buys from the shop. Mid-run purchases also go into the running simulation, so replays see them. */
+  const buyUpgrade = (id: UpgradeId, side?: BatterySide) => {
+    const next = purchaseUpgrade(progression, id, side);
+    if (!next) return;
+    const sim = simRef.current;
+    if (isInRun(gameState) && sim && !sim.buyUpgrade(id, side)) return;
+    setProgression(next);
+  };
+
+  /** Starts a run on the editor's current level. Versus always runs on the default level, so test play is solo. */
+  const testPlayDraft = () => {
+    setTestLevel(validateDraft(editorDraft));
+    if (playMode === 'versus') setPlayMode('solo');
+    dispatch('start');
+  };
+
+  const openShopBetweenWaves = () => {
+    heldActionsRef.current.clear();
+    dispatch('pause');
+    setShowShop(true);
+  };
+
+  const seekReplay = (frame: number) => {
+    const player = replayPlayerRef.current;
+    if (!player) return;
+    player.seek(frame);
+    soundCuesRef.current.reset();
+    setReplayFrame(player.sim.frame);
+  };
+
+  const leaveOnline = () => {
+    clientRef.current?.leave();
+    clientRef.current = null;
+    onlineViewRef.current = null;
+    setRoom(null);
+    setOnlineOutcome(null);
+    dispatch('quit');
+  };
+
   const handleCanvasClick = (e: React.MouseEvent | React.TouchEvent) => {
-    if (gameState !== 'playing' || showHelp) return;
-    
     let x, y;
     if ('touches' in e) {
       x = e.touches[0].clientX;
@@ -416,69 +1215,1076 @@ export default function App() {
       x = (e as React.MouseEvent).clientX;
       y = (e as React.MouseEvent).clientY;
     }
+
+    if (gameState === 'online') {
+      const target = toLetterboxedWorld(x, y, ONLINE_WORLD);
+      crosshairsRef.current[0] = target;
+      fireOnline(target);
+      return;
+    }
+
+    const sim = simRef.current;
+    if (gameState !== 'playing' || showHelp || !sim) return;
     
-    fireMissile(x, y);
+    const target = toWorld(x, y, sim);
+    crosshairsRef.current[0] = target;
+    sim.fire(target.x, target.y, undefined, 0, weaponFor(sim, 0));
+  };
+
+  // The mouse belongs to the first player, so its wheel switches their weapon.
+  const handleCanvasWheel = (e: React.WheelEvent) => {
+    const sim = simRef.current;
+    if (gameState !== 'playing' || !sim || e.deltaY === 0) return;
+    switchWeapon(sim, 0, e.deltaY > 0 ? 1 : -1);
   };
 
-  return (
-    <div className="game-container" ref={containerRef}>
-      <div className="scanlines" />
+  const handleCanvasMove = (e: React.MouseEvent) => {
+    if (gameState === 'online') {
+      crosshairsRef.current[0] = toLetterboxedWorld(e.clientX, e.clientY, ONLINE_WORLD);
+      return;
+    }
+    const sim = simRef.current;
+    if (gameState !== 'playing' || !sim) return;
+    crosshairsRef.current[0] = toWorld(e.clientX, e.clientY, sim);
+  };
+
+  const upgradeButton = (id: UpgradeId, side?: BatterySide) => {
+    const cost = nextUpgradeCost(progression.upgrades, id, side);
+    return (
+      <button
+        key={side ?? id}
+        disabled={cost === null || cost > progression.credits}
+        onClick={() => buyUpgrade(id, side)}
+        className="flex-1 px-2 py-1 rounded-lg text-xs font-bold transition-all bg-white/5 text-zinc-300 hover:bg-indigo-600 hover:text-white disabled:opacity-40 disabled:hover:bg-white/5 disabled:hover:text-zinc-300"
+      >
+        <div className="font-mono">{t.level} {upgradeLevel(progression.upgrades, id, side)}/{UPGRADE_COSTS[id].length}</div>
+        <div className="text-[10px] text-amber-300">{cost === null ? t.maxed : cost}</div>
+      </button>
+    );
+  };
+
+  const shopButton = (
+    <button 
+      onClick={() => setShowShop(true)}
+      className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+    >
+      <ShoppingCart className="w-4 h-4" />
+      {t.shop}
+    </button>
+  );
+
+  const editorButton = testLevel && (
+    <button 
+      onClick={() => dispatch('openEditor')}
+      className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+    >
+      <Pencil className="w-4 h-4" />
+      {t.backToEditor}
+    </button>
+  );
+
+  /** HUD box showing progress towards the level's win condition. */
+  const goalBox = ({ win }: LevelDefinition) => (
+    <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl">
+      <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1">
+        {win.type === 'waves' ? t.wave : win.type === 'time' ? t.survive : t.target}
+      </div>
+      <div className="text-xl font-mono font-bold text-white/80">
+        {win.type === 'waves' && `${wave} / ${win.count}`}
+        {win.type === 'time' && formatTime(Math.max(0, win.seconds - elapsedSeconds) * 1000)}
+        {win.type === 'score' && win.target}
+      </div>
+    </div>
+  );
+
+  const playerScoreLine = playMode !== 'solo' && (
+    <div className="flex justify-center gap-4 text-sm font-mono -mt-4 mb-6">
+      {playMode === 'coop'
+        ? playerScores.map((playerScore, i) => (
+            <span key={i} style={{ color: colorScheme.players[i as PlayerIndex] }}>
+              {interpolate(t.player, { n: i + 1 })} {playerScore}
+            </span>
+          ))
+        : <span style={{ color: colorScheme.attacker }}>{t.attacker} {attackerScore}</span>}
+    </div>
+  );
+
+  const leaderboardPanel = runResult && (
+    <div className="bg-white/5 rounded-xl p-4 mb-6 text-left border border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] uppercase tracking-widest text-indigo-400 flex items-center gap-1">
+          <Trophy className="w-3 h-3" /> {t.leaderboard}
+        </span>
+        <span className="text-xs text-zinc-400">
+          {t.rank}: <span className="text-white font-mono font-bold">#{runResult.rank}</span>
+        </span>
+      </div>
+      <ol className="space-y-1">
+        {runResult.top.map((entry, idx) => (
+          <li
+            key={entry.id}
+            className={`flex justify-between text-xs font-mono ${entry.id === runResult.id ? 'text-emerald-400 font-bold' : 'text-zinc-400'}`}
+          >
+            <span>{idx + 1}. {new Date(entry.createdAt).toLocaleDateString(language)}</span>
+            <span>{formatNumber(language, entry.score)}</span>
+          </li>
+        ))}
+      </ol>
+      {runResult.offline && (
+        <div className="text-[10px] text-zinc-500 mt-2">{t.offlineSaved}</div>
+      )}
+    </div>
+  );
+
+  const dailyPanel = dailyEntry && (
+    <div className="bg-white/5 rounded-xl p-4 mb-6 text-left border border-white/5">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] uppercase tracking-widest text-indigo-400 flex items-center gap-1">
+          <CalendarDays className="w-3 h-3" /> {t.daily.title}
+        </span>
+        <span className="text-xs text-zinc-400 font-mono">{dailyEntry.result.day}</span>
+      </div>
+      <p className="text-xs text-zinc-300 mb-3">{describeDailyResult(dailyEntry.result)}</p>
+      <button
+        onClick={() => copyDailyResult(dailyEntry)}
+        className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 text-xs font-bold py-2 rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+      >
+        <Copy className="w-3 h-3" /> {dailyCopied ? t.daily.copied : t.daily.share}
+      </button>
+    </div>
+  );
+
+  const today = dailyDay();
+  const todayEntry = dailyHistory[today];
+
+  const screen = (
+    <div className={`game-container${reducedMotion ? ' reduce-motion' : ''}`} ref={containerRef}>
+      {accessibility.scanlines && <div className="scanlines" />}
+
+      <div className="sr-only" role="alert" aria-live="assertive">
+        <p key={liveAnnouncements.urgent.id}>{liveAnnouncements.urgent.items.map(describeAnnouncement).join(' ')}</p>
+      </div>
+      <div className="sr-only" role="status" aria-live="polite">
+        <p key={liveAnnouncements.polite.id}>{liveAnnouncements.polite.items.map(describeAnnouncement).join(' ')}</p>
+      </div>
       
-      <canvas 
-        ref={canvasRef} 
+      <canvas
+        key={renderInWorker ? 'worker' : 'page'}
+        ref={canvasRef}
         onMouseDown={handleCanvasClick}
+        onMouseMove={handleCanvasMove}
+        onWheel={handleCanvasWheel}
         onTouchStart={handleCanvasClick}
       />
 
+      {debugSettings.showStats && frameReport && (
+        <div className="absolute bottom-4 left-4 z-50 bg-black/60 backdrop-blur-md border border-white/10 p-3 rounded-xl font-mono text-xs text-white/80 flex flex-col gap-1">
+          <div className="text-[10px] uppercase tracking-widest text-white/50">{t.stats.title}</div>
+          <div className="grid grid-cols-[auto_auto] gap-x-4">
+            <span>{t.stats.fps}</span>
+            <span className="text-right text-emerald-400">{formatNumber(language, frameReport.fps, { maximumFractionDigits: 0 })}</span>
+            <span>{t.stats.missiles}</span>
+            <span className="text-right">{formatNumber(language, frameReport.missiles)}</span>
+            <span>{t.stats.explosions}</span>
+            <span className="text-right">{formatNumber(language, frameReport.explosions)}</span>
+            <span>{t.stats.particles}</span>
+            <span className="text-right">{formatNumber(language, frameReport.particles)}</span>
+          </div>
+          <label className="flex items-center gap-2 mt-1" title={supportsWorkerRendering() ? undefined : t.stats.workerUnsupported}>
+            <input
+              type="checkbox"
+              checked={renderInWorker}
+              disabled={!supportsWorkerRendering()}
+              onChange={e => setDebugSettings(settings => ({ ...settings, renderInWorker: e.target.checked }))}
+            />
+            {t.stats.renderInWorker}
+          </label>
+          <div className="text-[10px] text-white/40">{t.stats.hint}</div>
+        </div>
+      )}
+
       {/* HUD */}
-      {gameState === 'playing' && (
+      {isInRun(gameState) && (
         <div className="absolute top-0 left-0 w-full p-4 flex justify-between items-start pointer-events-none">
           <div className="flex flex-col gap-2">
             <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl">
               <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1">{t.score}</div>
               <div className="text-2xl font-mono font-bold text-emerald-400">{score.toString().padStart(5, '0')}</div>
             </div>
+            {playMode === 'coop' && (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl flex gap-4">
+                {playerScores.map((playerScore, i) => (
+                  <div key={i}>
+                    <div className="text-[10px] uppercase tracking-widest mb-1" style={{ color: colorScheme.players[i as PlayerIndex] }}>
+                      {interpolate(t.player, { n: i + 1 })}
+                    </div>
+                    <div className="text-lg font-mono font-bold text-white/80">{playerScore}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+            {playMode === 'versus' ? (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl">
+                <div className="text-[10px] uppercase tracking-widest mb-1" style={{ color: colorScheme.attacker }}>{t.attacker}</div>
+                <div className="text-xl font-mono font-bold text-white/80">{attackerScore}</div>
+                <div className="text-[10px] uppercase tracking-widest text-white/50 mt-1">{t.rockets}: {arsenal}</div>
+              </div>
+            ) : (
+              goalBox(simRef.current?.level ?? testLevel ?? getLevel(mode))
+            )}
+            {weaponHud.length > 0 && (
+              <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl flex gap-4">
+                {weaponHud.map(({ weapon, rounds }, i) => (
+                  <div key={i}>
+                    <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1">
+                      {weaponHud.length > 1 ? interpolate(t.player, { n: i + 1 }) : t.weapons.weapon}
+                    </div>
+                    <div
+                      className="text-lg font-mono font-bold text-white/80"
+                      style={weapon === 'standard' ? undefined : { color: WEAPONS[weapon].color }}
+                    >
+                      {t.weapons.names[weapon]} <span className="text-white/50">×{rounds}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col items-end gap-2 pointer-events-auto">
+            <div className="flex gap-2">
+              <button 
+                onClick={() => setAudioSettings(a => ({ ...a, muted: !a.muted }))}
+                aria-label={t.mute}
+                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg text-xs transition-colors flex items-center gap-1"
+              >
+                {audioSettings.muted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
+              </button>
+              <button 
+                onClick={togglePause}
+                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg text-xs transition-colors flex items-center gap-1"
+              >
+                <Pause className="w-4 h-4" />
+              </button>
+              <button 
+                onClick={() => setShowHelp(true)}
+                className="bg-indigo-600/80 hover:bg-indigo-500 p-2 rounded-lg text-xs transition-colors flex items-center gap-1"
+              >
+                <Info className="w-4 h-4" /> {t.help}
+              </button>
+              <select
+                value={language}
+                onChange={(e) => isLocale(e.target.value) && setLanguage(e.target.value)}
+                aria-label={t.language}
+                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg text-xs transition-colors outline-none cursor-pointer"
+              >
+                {LOCALES.map(l => (
+                  <option key={l} value={l} className="bg-zinc-900">{LOCALE_NAMES[l]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="bg-black/40 backdrop-blur-md border border-white/10 p-2 rounded-xl flex items-center gap-2">
+              <span className="text-[10px] uppercase tracking-widest text-white/50">{t.difficulty}:</span>
+              <select 
+                value={dailyRunRef.current ? DAILY_DIFFICULTY_ID : difficulty}
+                onChange={(e) => setDifficulty(e.target.value)}
+                disabled={dailyRunRef.current !== null}
+                className="bg-transparent text-xs font-bold text-white outline-none cursor-pointer disabled:cursor-default disabled:opacity-60"
+              >
+                {DIFFICULTIES.map(d => (
+                  <option key={d.id} value={d.id} className="bg-zinc-900">{localize(d.name, language)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Online HUD */}
+      {gameState === 'online' && room && (
+        <div className="absolute top-0 left-0 w-full p-4 flex justify-between items-start pointer-events-none">
+          <div className="flex flex-col gap-2">
             <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl">
-              <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1">{t.target}</div>
-              <div className="text-xl font-mono font-bold text-white/80">{TARGET_SCORE}</div>
+              <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1">{t.score}</div>
+              <div className="text-2xl font-mono font-bold text-emerald-400">{score.toString().padStart(5, '0')}</div>
+            </div>
+            {goalBox(getLevel(room.mode))}
+            <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl space-y-1">
+              {room.players.map(player => (
+                <div key={player.slot} className="flex items-center justify-between gap-4 text-xs font-mono">
+                  <span className="flex items-center gap-1" style={{ color: colorScheme.players[player.slot as PlayerIndex] }}>
+                    {!player.connected && <WifiOff className="w-3 h-3" />}
+                    {player.name}{player.slot === onlineSlot && ` (${t.you})`}
+                  </span>
+                  <span className="text-white/80">{playerScores[player.slot] ?? 0}</span>
+                </div>
+              ))}
             </div>
           </div>
 
           <div className="flex flex-col items-end gap-2 pointer-events-auto">
-            <div className="flex gap-2">
+            <button 
+              onClick={leaveOnline}
+              className="bg-white/10 hover:bg-white/20 p-2 rounded-lg text-xs transition-colors flex items-center gap-1"
+            >
+              <X className="w-4 h-4" /> {t.leaveRoom}
+            </button>
+            {connection === 'reconnecting' && (
+              <div className="bg-red-500/20 border border-red-500/40 text-red-300 px-3 py-2 rounded-xl text-xs flex items-center gap-1">
+                <WifiOff className="w-3 h-3" /> {t.reconnecting}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {gameState === 'demo' && (
+        <div className="absolute top-0 left-0 w-full p-6 flex flex-col items-center gap-2 text-center pointer-events-none">
+          <div className="text-[10px] uppercase tracking-[0.3em] text-indigo-300 flex items-center gap-2">
+            <Bot className="w-3 h-3" /> {t.demo.title}
+          </div>
+          <div className="text-3xl font-bold tracking-tight">{t.title}</div>
+          <div className="text-sm text-white/60" role="status">{t.demo.exit}</div>
+        </div>
+      )}
+
+      {/* Replay Controls */}
+      {gameState === 'replay' && replay && (
+        <>
+          <div className="absolute top-0 left-0 p-4 pointer-events-none">
+            <div className="bg-black/40 backdrop-blur-md border border-white/10 p-3 rounded-xl">
+              <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1 flex items-center gap-1">
+                <Film className="w-3 h-3" /> {t.replay} · {t.score}
+              </div>
+              <div className="text-2xl font-mono font-bold text-emerald-400">{score.toString().padStart(5, '0')}</div>
+            </div>
+          </div>
+
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[min(40rem,calc(100%-2rem))] bg-black/60 backdrop-blur-md border border-white/10 rounded-2xl p-3 flex flex-col gap-2 z-40">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setReplayPaused(p => !p)}
+                className="bg-indigo-600/80 hover:bg-indigo-500 p-2 rounded-lg transition-colors"
+              >
+                {replayPaused ? <Play className="w-4 h-4 fill-current" /> : <Pause className="w-4 h-4" />}
+              </button>
+              {REPLAY_SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => setReplaySpeed(speed)}
+                  className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
+                    replaySpeed === speed
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-white/5 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {speed}x
+                </button>
+              ))}
+              <span className="ml-auto text-xs font-mono text-zinc-400">
+                {t.frame} {replayFrame} / {replay.result.frames}
+              </span>
+              <button
+                onClick={() => dispatch('quit')}
+                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg text-xs transition-colors flex items-center gap-1"
+              >
+                <X className="w-4 h-4" /> {t.exitReplay}
+              </button>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={replay.result.frames}
+              value={replayFrame}
+              onChange={(e) => seekReplay(Number(e.target.value))}
+              className="w-full accent-indigo-500"
+            />
+            {replayVerified !== null && (
+              <div className={`text-xs flex items-center gap-1 ${replayVerified ? 'text-emerald-400' : 'text-red-400'}`}>
+                {replayVerified ? <CheckCircle2 className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+                {replayVerified ? t.replayVerified : t.replayMismatch}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Wave Intermission */}
+      <AnimatePresence>
+        {(isInRun(gameState) || gameState === 'replay') && waveReport && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="absolute top-1/4 left-1/2 -translate-x-1/2 bg-black/60 backdrop-blur-md border border-white/10 rounded-2xl p-6 text-center pointer-events-none z-40"
+          >
+            <div className="text-2xl font-bold text-emerald-400 mb-4">{interpolate(t.waveCleared, { n: waveReport.wave })}</div>
+            <div className="flex justify-between gap-8 text-sm text-zinc-300">
+              <span>{t.cityBonus} ({plural(language, t.citiesStanding, waveReport.survivingCities)})</span>
+              <span className="font-mono text-white">+{waveReport.cityBonus}</span>
+            </div>
+            <div className="flex justify-between gap-8 text-sm text-zinc-300">
+              <span>
+                {t.ammoBonus} ({t.left} {waveReport.leftoverAmmo.left} / {t.center} {waveReport.leftoverAmmo.center} / {t.right} {waveReport.leftoverAmmo.right})
+              </span>
+              <span className="font-mono text-white">+{waveReport.ammoBonus}</span>
+            </div>
+            {waveReport.restoredCities > 0 && (
+              <div className="text-sm font-bold text-indigo-300 mt-3">{t.cityRestored}</div>
+            )}
+            <div className="text-xs text-zinc-500 mt-4">{t.nextWave}</div>
+            {gameState === 'playing' && (
+              <button
+                onClick={openShopBetweenWaves}
+                className="mt-4 pointer-events-auto bg-indigo-600/80 hover:bg-indigo-500 px-4 py-2 rounded-lg text-xs font-bold transition-colors inline-flex items-center gap-1"
+              >
+                <ShoppingCart className="w-4 h-4" /> {t.shop}
+              </button>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Help Modal */}
+      <AnimatePresence>
+        {showHelp && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              ref={helpDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="help-title"
+              tabIndex={-1}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-md w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="help-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                <Info className="w-6 h-6 text-indigo-400" /> {t.helpTitle}
+              </h2>
+              <ul className="space-y-4 text-left mb-8">
+                {t.helpText.map((item, idx) => (
+                  <li key={idx} className="text-zinc-300 text-sm leading-relaxed">{item}</li>
+                ))}
+              </ul>
+              <button 
+                onClick={() => setShowHelp(false)}
+                className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+              >
+                {t.close}
+              </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Pause Menu */}
+      <AnimatePresence>
+        {gameState === 'paused' && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-50 p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              ref={pauseDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="pause-title"
+              tabIndex={-1}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-sm w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 text-center shadow-2xl outline-none"
+            >
+              <h2 id="pause-title" className="text-3xl font-bold mb-8 flex items-center justify-center gap-2">
+                <Pause className="w-7 h-7 text-indigo-400" /> {t.paused}
+              </h2>
+              <div className="flex flex-col gap-3">
+                <button 
+                  autoFocus
+                  onClick={() => dispatch('resume')}
+                  className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Play className="w-5 h-5 fill-current" />
+                  {t.resume}
+                </button>
+                {waveReport && (
+                  <button 
+                    onClick={() => setShowShop(true)}
+                    className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <ShoppingCart className="w-4 h-4" />
+                    {t.shop}
+                  </button>
+                )}
+                <button 
+                  onClick={() => dispatch('start')}
+                  className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {t.restart}
+                </button>
+                {testLevel && (
+                  <button 
+                    onClick={() => dispatch('openEditor')}
+                    className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    {t.backToEditor}
+                  </button>
+                )}
+                <button 
+                  onClick={() => dispatch('quit')}
+                  className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <X className="w-4 h-4" />
+                  {t.quit}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Controls Modal */}
+      <AnimatePresence>
+        {showControls && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              ref={controlsDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="controls-title"
+              tabIndex={-1}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-md w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="controls-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                <Gamepad2 className="w-6 h-6 text-indigo-400" /> {t.controls}
+              </h2>
+              <ul className="space-y-2 mb-6">
+                {CONTROL_ACTIONS.map(action => (
+                  <li key={action} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="text-zinc-300">{t.actions[action]}</span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-[10px] text-zinc-500">
+                        {t.gamepad} {controls.buttons[action].map(formatButton).join(' / ')}
+                      </span>
+                      <button
+                        onClick={() => setRebinding(action)}
+                        className={`min-w-24 px-2 py-1 rounded-lg text-xs font-mono font-bold transition-all ${
+                          rebinding === action
+                          ? 'bg-indigo-600 text-white'
+                          : 'bg-white/5 text-zinc-300 hover:bg-white/10'
+                        }`}
+                      >
+                        {rebinding === action ? t.pressKey : controls.keys[action].map(formatKey).join(' / ')}
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <label className="flex items-center justify-between gap-4 text-sm text-zinc-300 mb-6">
+                {t.crosshairSpeed}
+                <input
+                  type="range"
+                  min={300}
+                  max={1500}
+                  step={50}
+                  value={controls.crosshairSpeed}
+                  onChange={(e) => setControls(c => ({ ...c, crosshairSpeed: Number(e.target.value) }))}
+                  className="accent-indigo-500"
+                />
+              </label>
+              <div className="flex gap-2">
+                <button 
+                  onClick={() => setControls(DEFAULT_CONTROLS)}
+                  className="flex-1 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-xl transition-all active:scale-95"
+                >
+                  {t.resetDefaults}
+                </button>
+                <button 
+                  onClick={() => {
+                    setRebinding(null);
+                    setShowControls(false);
+                  }}
+                  className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+                >
+                  {t.close}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Achievement Toast */}
+      <div className="absolute top-20 left-0 w-full flex justify-center pointer-events-none z-[70]">
+        <AnimatePresence>
+          {currentToast && (
+            <motion.div
+              key={currentToast}
+              initial={{ opacity: 0, y: -20, scale: 0.9 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="bg-zinc-900/95 border border-amber-400/40 rounded-2xl px-5 py-3 shadow-2xl flex items-center gap-3"
+            >
+              <motion.div
+                initial={{ rotate: -30, scale: 0.5 }}
+                animate={{ rotate: 0, scale: 1 }}
+                transition={{ type: 'spring', stiffness: 300, damping: 12 }}
+                className="w-10 h-10 bg-amber-400/20 rounded-xl flex items-center justify-center"
+              >
+                <Award className="w-6 h-6 text-amber-400" />
+              </motion.div>
+              <div>
+                <div className="text-[10px] uppercase tracking-widest text-amber-400">{t.achievementUnlocked}</div>
+                <div className="font-bold text-white">{t.achievementList[currentToast].name}</div>
+                <div className="text-xs text-zinc-400">{t.achievementList[currentToast].description}</div>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      {/* Achievement Gallery */}
+      <AnimatePresence>
+        {showAchievements && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              ref={achievementsDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="achievements-title"
+              tabIndex={-1}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-lg w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="achievements-title" className="text-2xl font-bold mb-6 flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <Award className="w-6 h-6 text-amber-400" /> {t.achievements}
+                </span>
+                <span className="text-sm font-mono text-zinc-400">
+                  {Object.keys(achievements.unlocked).length}/{ACHIEVEMENTS.length}
+                </span>
+              </h2>
+              <ul className="space-y-3 mb-6">
+                {ACHIEVEMENTS.map(({ id }) => {
+                  const unlockedAt = achievements.unlocked[id];
+                  const progress = achievementProgress(achievements, id);
+                  return (
+                    <li
+                      key={id}
+                      className={`flex items-center gap-3 rounded-xl p-3 border ${
+                        unlockedAt !== undefined ? 'bg-amber-400/10 border-amber-400/30' : 'bg-white/5 border-white/5'
+                      }`}
+                    >
+                      <div className="w-10 h-10 shrink-0 rounded-xl bg-black/30 flex items-center justify-center">
+                        {unlockedAt !== undefined ? <Award className="w-6 h-6 text-amber-400" /> : <Lock className="w-5 h-5 text-zinc-600" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className={`font-bold ${unlockedAt !== undefined ? 'text-white' : 'text-zinc-400'}`}>{t.achievementList[id].name}</div>
+                        <div className="text-xs text-zinc-500">{t.achievementList[id].description}</div>
+                        {progress !== null && unlockedAt === undefined && (
+                          <div className="mt-2 flex items-center gap-2">
+                            <div className="flex-1 h-1.5 bg-black/40 rounded-full overflow-hidden">
+                              <div className="h-full bg-amber-400" style={{ width: `${(progress.count / progress.goal) * 100}%` }} />
+                            </div>
+                            <span className="text-[10px] font-mono text-zinc-500">
+                              {formatNumber(language, progress.count)}/{formatNumber(language, progress.goal)}
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                      <div className="text-[10px] text-zinc-500 text-right shrink-0">
+                        {unlockedAt !== undefined
+                          ? interpolate(t.unlockedOn, { date: new Date(unlockedAt).toLocaleDateString(language) })
+                          : t.locked}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+              <button 
+                onClick={() => setShowAchievements(false)}
+                className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+              >
+                {t.close}
+              </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Daily Nova */}
+      <AnimatePresence>
+        {showDaily && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              ref={dailyDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="daily-title"
+              tabIndex={-1}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-lg w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="daily-title" className="text-2xl font-bold mb-2 flex items-center justify-between gap-2">
+                <span className="flex items-center gap-2">
+                  <CalendarDays className="w-6 h-6 text-indigo-400" /> {t.daily.title}
+                </span>
+                <span className="text-sm font-mono text-zinc-400">{today}</span>
+              </h2>
+              <p className="text-xs text-zinc-500 mb-4">{t.daily.hint}</p>
+              <div className="text-sm text-amber-400 font-bold mb-4">{plural(language, t.daily.streak, dailyStreak(dailyHistory, today))}</div>
+
+              {!todayEntry ? (
+                <button 
+                  autoFocus
+                  onClick={startDaily}
+                  className="w-full mb-6 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                >
+                  <Play className="w-5 h-5 fill-current" />
+                  {t.daily.play}
+                </button>
+              ) : (
+                <div className="bg-white/5 rounded-xl p-4 mb-6 border border-white/5">
+                  <p className="text-sm text-zinc-300 mb-3">{t.daily.played}</p>
+                  {todayEntry.result && todayEntry.code ? (
+                    <>
+                      <textarea
+                        readOnly
+                        aria-label={t.daily.share}
+                        value={dailyShareText({ result: todayEntry.result, code: todayEntry.code })}
+                        className="w-full h-28 bg-black/40 rounded-lg p-2 text-xs font-mono text-zinc-300 resize-none mb-2"
+                      />
+                      <button
+                        onClick={() => copyDailyResult({ result: todayEntry.result!, code: todayEntry.code! })}
+                        className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 text-xs font-bold py-2 rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                      >
+                        <Copy className="w-3 h-3" /> {dailyCopied ? t.daily.copied : t.daily.copy}
+                      </button>
+                    </>
+                  ) : (
+                    <p className="text-xs text-zinc-500">{t.daily.abandoned}</p>
+                  )}
+                </div>
+              )}
+
+              <h3 className="text-[10px] uppercase tracking-widest text-indigo-400 mb-2">{t.daily.history}</h3>
+              <ul className="space-y-1 mb-6">
+                {dailyDays(dailyHistory).slice(0, 7).map(day => {
+                  const { result } = dailyHistory[day];
+                  return (
+                    <li key={day} className="flex justify-between gap-4 text-xs font-mono text-zinc-400">
+                      <span>{day}</span>
+                      <span className="text-right">{result ? describeDailyResult(result) : t.daily.abandoned}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+
+              <h3 className="text-[10px] uppercase tracking-widest text-indigo-400 mb-2">{t.daily.verifyTitle}</h3>
+              <p className="text-xs text-zinc-500 mb-2">{t.daily.verifyHint}</p>
+              <textarea
+                value={dailyCode}
+                onChange={e => setDailyCode(e.target.value)}
+                aria-label={t.daily.verifyTitle}
+                placeholder="NOVA-…"
+                className="w-full h-20 bg-black/40 rounded-lg p-2 text-xs font-mono text-zinc-300 resize-none mb-2"
+              />
+              <button
+                onClick={verifyDaily}
+                disabled={dailyCode.trim() === ''}
+                className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 text-xs font-bold py-2 rounded-xl flex items-center justify-center gap-2 transition-all active:scale-95 disabled:opacity-40"
+              >
+                <CheckCircle2 className="w-3 h-3" /> {t.daily.verify}
+              </button>
+              {dailyError && <div className="mt-2 text-xs text-red-400">{dailyError}</div>}
+              {dailyVerification && (
+                <div className="mt-2 text-xs" role="status">
+                  <p className={dailyVerification.valid ? 'text-emerald-400' : 'text-red-400'}>
+                    {dailyVerification.valid
+                      ? interpolate(t.daily.valid, { result: describeDailyResult(dailyVerification.actual), day: dailyVerification.actual.day })
+                      : interpolate(t.daily.invalid, {
+                          claimed: describeDailyResult(dailyVerification.claimed),
+                          actual: describeDailyResult(dailyVerification.actual),
+                        })}
+                  </p>
+                  <button
+                    onClick={() => watchVerifiedRun(dailyVerification)}
+                    className="mt-2 text-indigo-400 hover:text-indigo-300 font-bold flex items-center gap-1"
+                  >
+                    <Film className="w-3 h-3" /> {t.daily.watch}
+                  </button>
+                </div>
+              )}
+
+              <button 
+                onClick={() => setShowDaily(false)}
+                className="w-full mt-6 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+              >
+                {t.close}
+              </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Sound Settings */}
+      <AnimatePresence>
+        {showAudio && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              ref={soundDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="sound-title"
+              tabIndex={-1}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-sm w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="sound-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                <Volume2 className="w-6 h-6 text-indigo-400" /> {t.sound}
+              </h2>
+              <div className="space-y-4 mb-6">
+                {(['master', 'sfx', 'music'] as const).map(channel => (
+                  <label key={channel} className="flex items-center justify-between gap-4 text-sm text-zinc-300">
+                    {t.volumes[channel]}
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={audioSettings[channel]}
+                      disabled={audioSettings.muted}
+                      onChange={(e) => setAudioSettings(a => ({ ...a, [channel]: Number(e.target.value) }))}
+                      className="accent-indigo-500 disabled:opacity-40"
+                    />
+                  </label>
+                ))}
+                <label className="flex items-center justify-between gap-4 text-sm text-zinc-300">
+                  {t.mute}
+                  <input
+                    type="checkbox"
+                    checked={audioSettings.muted}
+                    onChange={(e) => setAudioSettings(a => ({ ...a, muted: e.target.checked }))}
+                    className="accent-indigo-500 w-4 h-4"
+                  />
+                </label>
+              </div>
               <button 
-                onClick={() => setShowHelp(true)}
-                className="bg-indigo-600/80 hover:bg-indigo-500 p-2 rounded-lg text-xs transition-colors flex items-center gap-1"
+                onClick={() => setShowAudio(false)}
+                className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
               >
-                <Info className="w-4 h-4" /> {t.help}
+                {t.close}
               </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Accessibility Settings */}
+      <AnimatePresence>
+        {showAccessibility && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              ref={accessibilityDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="accessibility-title"
+              tabIndex={-1}
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-sm w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="accessibility-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                <Accessibility className="w-6 h-6 text-indigo-400" /> {t.accessibility.title}
+              </h2>
+              <div className="space-y-4 mb-6 text-sm text-zinc-300">
+                <label className="flex items-center justify-between gap-4">
+                  {t.accessibility.colors}
+                  <select
+                    value={accessibility.colors}
+                    onChange={(e) => setAccessibility(a => ({ ...a, colors: e.target.value as typeof a.colors }))}
+                    className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white outline-none cursor-pointer"
+                  >
+                    {COLOR_SCHEME_IDS.map(id => (
+                      <option key={id} value={id} className="bg-zinc-900">{t.accessibility.colorSchemes[id]}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-4">
+                  {t.accessibility.shapes}
+                  <input
+                    type="checkbox"
+                    checked={accessibility.shapes || colorScheme.shapes}
+                    disabled={colorScheme.shapes}
+                    onChange={(e) => setAccessibility(a => ({ ...a, shapes: e.target.checked }))}
+                    className="accent-indigo-500 w-4 h-4 disabled:opacity-40"
+                  />
+                </label>
+                <div>
+                  <div className="flex items-center justify-between gap-4" role="radiogroup" aria-label={t.accessibility.motion}>
+                    {t.accessibility.motion}
+                    <div className="flex gap-1">
+                      {MOTION_PREFERENCES.map(preference => (
+                        <button
+                          key={preference}
+                          role="radio"
+                          aria-checked={accessibility.motion === preference}
+                          onClick={() => setAccessibility(a => ({ ...a, motion: preference }))}
+                          className={`px-2 py-1 rounded-lg text-xs font-bold transition-all ${
+                            accessibility.motion === preference ? 'bg-indigo-600 text-white' : 'bg-white/5 text-zinc-400 hover:bg-white/10'
+                          }`}
+                        >
+                          {t.accessibility.motionOptions[preference]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-zinc-500 mt-1">{t.accessibility.motionHint}</p>
+                </div>
+                <label className="flex items-center justify-between gap-4">
+                  {t.accessibility.scanlines}
+                  <input
+                    type="checkbox"
+                    checked={accessibility.scanlines}
+                    onChange={(e) => setAccessibility(a => ({ ...a, scanlines: e.target.checked }))}
+                    className="accent-indigo-500 w-4 h-4"
+                  />
+                </label>
+                <div>
+                  <div className="flex items-center justify-between gap-4" role="radiogroup" aria-label={t.accessibility.gameSpeed}>
+                    {t.accessibility.gameSpeed}
+                    <div className="flex gap-1">
+                      {GAME_SPEEDS.map(speed => (
+                        <button
+                          key={speed}
+                          role="radio"
+                          aria-checked={accessibility.gameSpeed === speed}
+                          onClick={() => setAccessibility(a => ({ ...a, gameSpeed: speed }))}
+                          className={`px-2 py-1 rounded-lg text-xs font-mono font-bold transition-all ${
+                            accessibility.gameSpeed === speed ? 'bg-indigo-600 text-white' : 'bg-white/5 text-zinc-400 hover:bg-white/10'
+                          }`}
+                        >
+                          {formatNumber(language, speed, { style: 'percent' })}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <p className="text-[10px] text-zinc-500 mt-1">{t.accessibility.gameSpeedHint}</p>
+                </div>
+              </div>
               <button 
-                onClick={() => setLanguage(l => l === 'en' ? 'zh' : 'en')}
-                className="bg-white/10 hover:bg-white/20 p-2 rounded-lg text-xs transition-colors"
+                onClick={() => setShowAccessibility(false)}
+                className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
               >
-                {language === 'en' ? '中文' : 'EN'}
+                {t.close}
               </button>
-            </div>
+            </motion.div>
+          </motion.div>
+        )}
 
-            <div className="bg-black/40 backdrop-blur-md border border-white/10 p-2 rounded-xl flex items-center gap-2">
-              <span className="text-[10px] uppercase tracking-widest text-white/50">{t.difficulty}:</span>
-              <select 
-                value={difficulty}
-                onChange={(e) => setDifficulty(e.target.value as Difficulty)}
-                className="bg-transparent text-xs font-bold text-white outline-none cursor-pointer"
+        {showGraphics && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+          >
+            <motion.div 
+              ref={graphicsDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="graphics-title"
+              tabIndex={-1}
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-sm w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+            >
+              <h2 id="graphics-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                <Sparkles className="w-6 h-6 text-indigo-400" /> {t.graphics.title}
+              </h2>
+              <div className="space-y-4 mb-6 text-sm text-zinc-300">
+                <div>
+                  <label className="flex items-center justify-between gap-4">
+                    {t.graphics.theme}
+                    <select
+                      value={graphics.theme}
+                      onChange={(e) => setGraphics(g => ({ ...g, theme: e.target.value as typeof g.theme }))}
+                      className="bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-xs text-white outline-none cursor-pointer"
+                    >
+                      {THEME_IDS.map(id => (
+                        <option key={id} value={id} className="bg-zinc-900">{t.graphics.themes[id]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <p className="text-[10px] text-zinc-500 mt-1">{t.graphics.themeHints[graphics.theme]}</p>
+                </div>
+                {(['bloom', 'crt', 'shake', 'flash'] as const).map(effect => (
+                  <label key={effect} className="flex items-center justify-between gap-4">
+                    {t.graphics.effects[effect]}
+                    <input
+                      type="checkbox"
+                      checked={graphics[effect]}
+                      onChange={(e) => setGraphics(g => ({ ...g, [effect]: e.target.checked }))}
+                      className="accent-indigo-500 w-4 h-4"
+                    />
+                  </label>
+                ))}
+                <p className="text-[10px] text-zinc-500">{t.graphics.effectsHint}</p>
+              </div>
+              <button 
+                onClick={() => setShowGraphics(false)}
+                className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
               >
-                <option value="easy" className="bg-zinc-900">{t.easy}</option>
-                <option value="medium" className="bg-zinc-900">{t.medium}</option>
-                <option value="hard" className="bg-zinc-900">{t.hard}</option>
-              </select>
-            </div>
-          </div>
-        </div>
-      )}
+                {t.close}
+              </button>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
 
-      {/* Help Modal */}
+      {/* Shop Modal */}
       <AnimatePresence>
-        {showHelp && (
+        {showShop && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -487,19 +2293,57 @@ export default function App() {
           >
             <motion.div 
               initial={{ scale: 0.9, y: 20 }}
+              ref={shopDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="shop-title"
+              tabIndex={-1}
               animate={{ scale: 1, y: 0 }}
-              className="max-w-md w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl"
+              className="max-w-lg w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
             >
-              <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
-                <Info className="w-6 h-6 text-indigo-400" /> {t.helpTitle}
-              </h2>
-              <ul className="space-y-4 text-left mb-8">
-                {t.helpText.map((item, idx) => (
-                  <li key={idx} className="text-zinc-300 text-sm leading-relaxed">{item}</li>
+              <div className="flex items-center justify-between mb-2">
+                <h2 id="shop-title" className="text-2xl font-bold flex items-center gap-2">
+                  <ShoppingCart className="w-6 h-6 text-indigo-400" /> {t.shop}
+                </h2>
+                <span className="flex items-center gap-1 text-amber-300 font-mono font-bold">
+                  <Coins className="w-4 h-4" /> {progression.credits}
+                  <span className="sr-only">{t.credits}</span>
+                </span>
+              </div>
+              <p className="text-xs text-zinc-500 mb-6">{t.shopHint}</p>
+
+              <h3 className="text-xs font-bold uppercase tracking-widest text-indigo-400 mb-2">{t.batteryUpgrades}</h3>
+              <div className="grid grid-cols-[1fr_repeat(3,4.5rem)] gap-2 items-center mb-6">
+                <span />
+                {(['left', 'center', 'right'] as BatterySide[]).map(side => (
+                  <span key={side} className="text-center text-[10px] uppercase tracking-widest text-white/50">{t[side]}</span>
+                ))}
+                {BATTERY_UPGRADES.map(id => (
+                  <React.Fragment key={id}>
+                    <div>
+                      <div className="text-sm text-zinc-300">{t.upgrades[id]}</div>
+                      <div className="text-[10px] text-zinc-500">{t.upgradeHints[id]}</div>
+                    </div>
+                    {(['left', 'center', 'right'] as BatterySide[]).map(side => upgradeButton(id, side))}
+                  </React.Fragment>
+                ))}
+              </div>
+
+              <h3 className="text-xs font-bold uppercase tracking-widest text-indigo-400 mb-2">{t.baseUpgrades}</h3>
+              <ul className="space-y-2 mb-6">
+                {BASE_UPGRADES.map(id => (
+                  <li key={id} className="flex items-center justify-between gap-4">
+                    <div>
+                      <div className="text-sm text-zinc-300">{t.upgrades[id]}</div>
+                      <div className="text-[10px] text-zinc-500">{t.upgradeHints[id]}</div>
+                    </div>
+                    <div className="w-24 flex">{upgradeButton(id)}</div>
+                  </li>
                 ))}
               </ul>
+
               <button 
-                onClick={() => setShowHelp(false)}
+                onClick={() => setShowShop(false)}
                 className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
               >
                 {t.close}
@@ -509,9 +2353,237 @@ export default function App() {
         )}
       </AnimatePresence>
 
+      {/* Debrief Modal */}
+      <AnimatePresence>
+        {showDebrief && runStats && (() => {
+          const summary = summarizeStats(runStats);
+          const cityLosses = runStats.losses.filter(l => l.type === 'city');
+          const tiles: [string, string][] = [
+            [t.shotsFired, `${t.left} ${runStats.shotsFired.left} · ${t.center} ${runStats.shotsFired.center} · ${t.right} ${runStats.shotsFired.right}`],
+            [t.interceptions, runStats.interceptions.toString()],
+            [t.accuracy, `${Math.round(summary.accuracy * 100)}%`],
+            [t.chains, plural(language, t.chainsSummary, runStats.chains.length, { best: summary.longestChain })],
+            [t.leaks, runStats.leaks.toString()],
+            [t.avgAltitude, `${Math.round(summary.averageAltitude)} px`],
+          ];
+          return (
+            <motion.div 
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-[60] p-6"
+            >
+              <motion.div 
+                initial={{ scale: 0.9, y: 20 }}
+                ref={debriefDialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="debrief-title"
+                tabIndex={-1}
+                animate={{ scale: 1, y: 0 }}
+                className="max-w-md w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl outline-none"
+              >
+                <h2 id="debrief-title" className="text-2xl font-bold mb-6 flex items-center gap-2">
+                  <BarChart3 className="w-6 h-6 text-indigo-400" /> {t.debrief}
+                </h2>
+                <div className="grid grid-cols-2 gap-3 mb-6">
+                  {tiles.map(([label, value]) => (
+                    <div key={label} className="bg-white/5 rounded-xl p-3 border border-white/5">
+                      <div className="text-[10px] uppercase tracking-widest text-white/50 mb-1">{label}</div>
+                      <div className="text-sm font-mono font-bold text-white">{value}</div>
+                    </div>
+                  ))}
+                </div>
+                {playerStats.length > 1 && (
+                  <table className="w-full text-xs font-mono mb-6">
+                    <thead>
+                      <tr className="text-[10px] uppercase tracking-widest text-white/50">
+                        <th className="text-left font-normal pb-1">{t.players}</th>
+                        <th className="text-right font-normal pb-1">{t.shotsFired}</th>
+                        <th className="text-right font-normal pb-1">{t.interceptions}</th>
+                        <th className="text-right font-normal pb-1">{t.accuracy}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {playerStats.map((stats, i) => {
+                        const playerSummary = summarizeStats(stats);
+                        return (
+                          <tr key={i} className="text-white">
+                            <td style={{ color: colorScheme.players[i as PlayerIndex] }}>{interpolate(t.player, { n: i + 1 })}</td>
+                            <td className="text-right">{playerSummary.totalShots}</td>
+                            <td className="text-right">{stats.interceptions}</td>
+                            <td className="text-right">{Math.round(playerSummary.accuracy * 100)}%</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                )}
+                <div className="bg-white/5 rounded-xl p-3 mb-4 border border-white/5">
+                  <div className="text-[10px] uppercase tracking-widest text-white/50 mb-2">{t.timeline}</div>
+                  <TimelineChart timeline={runStats.timeline} losses={runStats.losses} durationMs={runStats.durationMs} />
+                </div>
+                <div className="text-xs text-zinc-400 mb-6">
+                  {t.citiesLost}: {cityLosses.length === 0 ? t.none : cityLosses.map(l => formatTime(l.timeMs)).join(', ')}
+                </div>
+                <button 
+                  onClick={() => setShowDebrief(false)}
+                  className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+                >
+                  {t.close}
+                </button>
+              </motion.div>
+            </motion.div>
+          );
+        })()}
+      </AnimatePresence>
+
+      {/* Level Editor */}
+      {gameState === 'editor' && (
+        <LevelEditor
+          draft={editorDraft}
+          language={language}
+          onChange={setEditorDraft}
+          onTestPlay={testPlayDraft}
+          onClose={() => dispatch('quit')}
+        />
+      )}
+
+      {/* Online Lobby */}
+      <AnimatePresence>
+        {gameState === 'lobby' && (
+          <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="absolute inset-0 flex items-center justify-center bg-black/80 backdrop-blur-sm z-50 p-6"
+          >
+            <motion.div 
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              className="max-w-md w-full max-h-full overflow-y-auto bg-zinc-900 border border-white/10 rounded-3xl p-8 shadow-2xl"
+            >
+              <h2 className="text-2xl font-bold mb-6 flex items-center gap-2">
+                <Users className="w-6 h-6 text-indigo-400" /> {t.lobby}
+              </h2>
+
+              {connection === 'connecting' && <div className="text-xs text-zinc-400 mb-4">{t.connecting}</div>}
+              {connection === 'reconnecting' && (
+                <div className="text-xs text-red-300 mb-4 flex items-center gap-1">
+                  <WifiOff className="w-3 h-3" /> {t.reconnecting}
+                </div>
+              )}
+              {onlineError && <div className="text-xs text-red-400 mb-4">{onlineError}</div>}
+
+              {room ? (
+                <>
+                  <div className="flex items-end justify-between mb-4">
+                    <div>
+                      <div className="text-[10px] uppercase tracking-widest text-white/50">{t.roomCode}</div>
+                      <div className="text-4xl font-mono font-bold tracking-[0.3em] text-emerald-400">{room.code}</div>
+                    </div>
+                    <div className="text-xs text-zinc-400 text-right">{localize(getDifficulty(room.difficulty).name, language)} · {localize(getLevel(room.mode).name, language)}</div>
+                  </div>
+
+                  {onlineOutcome && (
+                    <div className="bg-white/5 rounded-xl p-4 mb-4 border border-white/5">
+                      <div className="text-[10px] uppercase tracking-widest text-indigo-400 mb-1">{t.lastRun}</div>
+                      <div className={`text-lg font-bold ${onlineOutcome.status === 'won' ? 'text-emerald-400' : 'text-red-400'}`}>
+                        {onlineOutcome.status === 'won' ? t.win : t.lose} · {onlineOutcome.score}
+                      </div>
+                    </div>
+                  )}
+
+                  <ul className="space-y-2 mb-4">
+                    {room.players.map(player => (
+                      <li key={player.slot} className="flex items-center justify-between bg-white/5 rounded-xl px-4 py-2 border border-white/5">
+                        <span className="flex items-center gap-2 text-sm font-bold" style={{ color: colorScheme.players[player.slot as PlayerIndex] }}>
+                          {player.name}
+                          {player.slot === onlineSlot && <span className="text-[10px] text-zinc-500">({t.you})</span>}
+                          {!player.connected && (
+                            <span className="text-[10px] text-zinc-500 flex items-center gap-1">
+                              <WifiOff className="w-3 h-3" /> {t.offline}
+                            </span>
+                          )}
+                        </span>
+                        <span className="flex items-center gap-2 text-xs">
+                          {onlineOutcome && <span className="font-mono text-zinc-400">{onlineOutcome.playerScores[player.slot] ?? 0}</span>}
+                          {player.ready
+                            ? <span className="text-emerald-400 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> {t.ready}</span>
+                            : <span className="text-zinc-500">{t.notReady}</span>}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-zinc-500 mb-6">{interpolate(t.waitingForPlayers, { n: MIN_ROOM_PLAYERS })}</p>
+
+                  <div className="flex gap-2">
+                    <button 
+                      onClick={leaveOnline}
+                      className="flex-1 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-xl transition-all active:scale-95"
+                    >
+                      {t.leaveRoom}
+                    </button>
+                    <button 
+                      autoFocus
+                      onClick={() => clientRef.current?.setReady(!room.players[onlineSlot]?.ready)}
+                      className="flex-1 bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+                    >
+                      {room.players[onlineSlot]?.ready ? t.cancelReady : t.ready}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <label className="block text-sm text-zinc-400 mb-4">
+                    {t.yourName}
+                    <input
+                      value={playerName}
+                      maxLength={16}
+                      onChange={(e) => setPlayerName(e.target.value)}
+                      className="mt-1 w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-white outline-none focus:border-indigo-500"
+                    />
+                  </label>
+                  <button 
+                    onClick={() => clientRef.current?.create(playerName, difficulty, mode)}
+                    className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95 mb-1"
+                  >
+                    {t.createRoom}
+                  </button>
+                  <div className="text-[10px] text-zinc-500 text-center mb-4">{localize(getDifficulty(difficulty).name, language)} · {localize(getLevel(mode).name, language)}</div>
+                  <div className="flex gap-2 mb-4">
+                    <input
+                      value={joinCode}
+                      maxLength={4}
+                      placeholder={t.roomCode}
+                      onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                      className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-xl px-3 py-2 font-mono tracking-widest text-white outline-none focus:border-indigo-500"
+                    />
+                    <button 
+                      disabled={joinCode.trim().length === 0}
+                      onClick={() => clientRef.current?.join(joinCode, playerName)}
+                      className="px-6 bg-white/10 hover:bg-white/20 text-white font-bold rounded-xl transition-all active:scale-95 disabled:opacity-40"
+                    >
+                      {t.join}
+                    </button>
+                  </div>
+                  <p className="text-xs text-zinc-500 mb-6">{t.serverHint}</p>
+                  <button 
+                    onClick={leaveOnline}
+                    className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-xl transition-all active:scale-95"
+                  >
+                    {t.quit}
+                  </button>
+                </>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Menus */}
       <AnimatePresence>
-        {gameState !== 'playing' && (
+        {inMenu && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -520,15 +2592,20 @@ export default function App() {
           >
             <motion.div 
               initial={{ scale: 0.9, y: 20 }}
+              ref={menuDialogRef}
+              role="dialog"
+              aria-modal="true"
+              aria-labelledby="menu-title"
+              tabIndex={-1}
               animate={{ scale: 1, y: 0 }}
-              className="max-w-md w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 text-center shadow-2xl"
+              className="max-w-md w-full bg-zinc-900 border border-white/10 rounded-3xl p-8 text-center shadow-2xl outline-none"
             >
               {gameState === 'menu' && (
                 <>
                   <div className="w-20 h-20 bg-indigo-500/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
                     <Shield className="w-10 h-10 text-indigo-400" />
                   </div>
-                  <h1 className="text-4xl font-bold mb-4 tracking-tight">{t.title}</h1>
+                  <h1 id="menu-title" className="text-4xl font-bold mb-4 tracking-tight">{t.title}</h1>
                   
                   <div className="text-left bg-white/5 rounded-xl p-4 mb-6 border border-white/5">
                     <h3 className="text-xs font-bold uppercase tracking-widest text-indigo-400 mb-2">{t.helpTitle}</h3>
@@ -539,32 +2616,206 @@ export default function App() {
                     </ul>
                   </div>
 
-                  <div className="flex items-center justify-between mb-8 px-2">
+                  <div className="flex items-center justify-between mb-4 px-2">
+                    <span className="text-sm text-zinc-400">{t.players}</span>
+                    <div className="flex gap-2">
+                      {PLAY_MODES.map((pm) => (
+                        <button
+                          key={pm}
+                          onClick={() => setPlayMode(pm)}
+                          className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
+                            playMode === pm 
+                            ? 'bg-indigo-600 text-white' 
+                            : 'bg-white/5 text-zinc-500 hover:text-zinc-300'
+                          }`}
+                        >
+                          {t[pm]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {playMode !== 'solo' && (
+                    <p className="text-xs text-zinc-500 text-left -mt-2 mb-4 px-2">{playMode === 'coop' ? t.coopHint : t.versusHint}</p>
+                  )}
+
+                  <div className="flex items-center justify-between mb-4 px-2">
+                    <span className="text-sm text-zinc-400">{t.mode}</span>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      {LEVELS.map((level) => (
+                        <button
+                          key={level.id}
+                          disabled={playMode === 'versus'}
+                          onClick={() => setMode(level.id)}
+                          className={`px-3 py-1 rounded-lg text-xs font-bold transition-all disabled:opacity-40 ${
+                            mode === level.id 
+                            ? 'bg-indigo-600 text-white' 
+                            : 'bg-white/5 text-zinc-500 hover:text-zinc-300'
+                          }`}
+                        >
+                          {localize(level.name, language)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {playMode !== 'versus' && getLevel(mode).description && (
+                    <p className="text-xs text-zinc-500 text-left -mt-2 mb-4 px-2">{localize(getLevel(mode).description!, language)}</p>
+                  )}
+
+                  <div className="flex items-center justify-between mb-4 px-2">
                     <span className="text-sm text-zinc-400">{t.difficulty}</span>
                     <div className="flex gap-2">
-                      {(['easy', 'medium', 'hard'] as Difficulty[]).map((d) => (
+                      {DIFFICULTIES.map((d) => (
                         <button
-                          key={d}
-                          onClick={() => setDifficulty(d)}
+                          key={d.id}
+                          onClick={() => setDifficulty(d.id)}
                           className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
-                            difficulty === d 
+                            difficulty === d.id 
                             ? 'bg-indigo-600 text-white' 
                             : 'bg-white/5 text-zinc-500 hover:text-zinc-300'
                           }`}
                         >
-                          {t[d]}
+                          {localize(d.name, language)}
                         </button>
                       ))}
                     </div>
                   </div>
 
+                  <div className="flex items-center justify-between mb-2 px-2">
+                    <span className="text-sm text-zinc-400">{t.weapons.loadout}</span>
+                    <div className="flex gap-2">
+                      {(['left', 'center', 'right'] as BatterySide[]).map(side => (
+                        <select
+                          key={side}
+                          value={weapons[side] ?? ''}
+                          onChange={(e) => {
+                            const weapon = e.target.value;
+                            setWeapons(w => ({ ...w, [side]: isSpecialWeapon(weapon) ? weapon : null }));
+                          }}
+                          aria-label={t.weapons.batteries[side]}
+                          title={t.weapons.batteries[side]}
+                          className="bg-white/5 hover:bg-white/10 px-2 py-1 rounded-lg text-xs font-bold text-zinc-300 outline-none cursor-pointer"
+                        >
+                          <option value="" className="bg-zinc-900">{t.none}</option>
+                          {SPECIAL_WEAPONS.map(w => (
+                            <option key={w} value={w} className="bg-zinc-900">{t.weapons.names[w]}</option>
+                          ))}
+                        </select>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-xs text-zinc-500 text-left mb-8 px-2 space-y-1">
+                    {SPECIAL_WEAPONS.filter(w => Object.values(weapons).includes(w)).map(w => (
+                      <p key={w}>
+                        <span className="font-bold" style={{ color: WEAPONS[w].color }}>{t.weapons.names[w]}:</span> {t.weapons.hints[w]}
+                      </p>
+                    ))}
+                    <p>{t.weapons.loadoutHint}</p>
+                  </div>
+
                   <button 
-                    onClick={() => setGameState('playing')}
+                    autoFocus
+                    onClick={() => dispatch('start')}
                     className="w-full bg-indigo-600 hover:bg-indigo-500 text-white font-bold py-4 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
                   >
                     <Play className="w-5 h-5 fill-current" />
                     {t.start}
                   </button>
+
+                  <button 
+                    onClick={() => {
+                      setDailyCopied(false);
+                      setShowDaily(true);
+                    }}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <CalendarDays className="w-4 h-4" />
+                    {t.daily.title}
+                    {todayEntry && <CheckCircle2 className="w-4 h-4 text-emerald-400" />}
+                  </button>
+
+                  <button 
+                    onClick={() => replayInputRef.current?.click()}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Film className="w-4 h-4" />
+                    {t.watchReplay}
+                  </button>
+                  <input
+                    ref={replayInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleReplayFile}
+                    className="hidden"
+                  />
+                  {replayError && (
+                    <div className="mt-3 text-xs text-red-400">{replayError}</div>
+                  )}
+
+                  <button 
+                    onClick={() => dispatch('watchDemo')}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Bot className="w-4 h-4" />
+                    {t.watchDemo}
+                  </button>
+
+                  <button 
+                    onClick={() => dispatch('openEditor')}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    {t.levelEditor}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowControls(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Gamepad2 className="w-4 h-4" />
+                    {t.controls}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowAudio(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Volume2 className="w-4 h-4" />
+                    {t.sound}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowAccessibility(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Accessibility className="w-4 h-4" />
+                    {t.accessibility.title}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowGraphics(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Sparkles className="w-4 h-4" />
+                    {t.graphics.title}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowAchievements(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Award className="w-4 h-4" />
+                    {t.achievements}
+                  </button>
+
+                  {shopButton}
+
+                  <button 
+                    onClick={() => dispatch('openLobby')}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Users className="w-4 h-4" />
+                    {t.playOnline}
+                  </button>
                 </>
               )}
 
@@ -573,8 +2824,12 @@ export default function App() {
                   <div className="w-20 h-20 bg-emerald-500/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
                     <Trophy className="w-10 h-10 text-emerald-400" />
                   </div>
-                  <h1 className="text-4xl font-bold mb-2 text-emerald-400">{t.win}</h1>
-                  <div className="text-zinc-400 mb-6">{t.score}: <span className="text-white font-mono">{score}</span></div>
+                  <h1 id="menu-title" className="text-4xl font-bold mb-2 text-emerald-400">{playMode === 'versus' ? t.defenderWins : t.win}</h1>
+                  <div className="text-zinc-400 mb-6">{t.score}: <span className="text-white font-mono">{formatNumber(language, score)}</span></div>
+                  {playerScoreLine}
+
+                  {leaderboardPanel}
+                  {dailyPanel}
                   
                   {aiTip && (
                     <div className="bg-white/5 rounded-xl p-4 mb-8 text-left border border-white/5">
@@ -586,12 +2841,32 @@ export default function App() {
                   )}
 
                   <button 
-                    onClick={() => setGameState('playing')}
+                    autoFocus
+                    onClick={() => dispatch('start')}
                     className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-4 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
                   >
                     <RotateCcw className="w-5 h-5" />
                     {t.retry}
                   </button>
+
+                  <button 
+                    onClick={downloadReplay}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Download className="w-4 h-4" />
+                    {t.downloadReplay}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowDebrief(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    {t.debrief}
+                  </button>
+
+                  {editorButton}
+                  {shopButton}
                 </>
               )}
 
@@ -600,8 +2875,12 @@ export default function App() {
                   <div className="w-20 h-20 bg-red-500/20 rounded-2xl flex items-center justify-center mx-auto mb-6">
                     <AlertTriangle className="w-10 h-10 text-red-400" />
                   </div>
-                  <h1 className="text-4xl font-bold mb-2 text-red-400">{t.lose}</h1>
-                  <div className="text-zinc-400 mb-6">{t.score}: <span className="text-white font-mono">{score}</span></div>
+                  <h1 id="menu-title" className="text-4xl font-bold mb-2 text-red-400">{playMode === 'versus' ? t.attackerWins : t.lose}</h1>
+                  <div className="text-zinc-400 mb-6">{t.score}: <span className="text-white font-mono">{formatNumber(language, score)}</span></div>
+                  {playerScoreLine}
+
+                  {leaderboardPanel}
+                  {dailyPanel}
 
                   {aiTip && (
                     <div className="bg-white/5 rounded-xl p-4 mb-8 text-left border border-white/5">
@@ -613,22 +2892,49 @@ export default function App() {
                   )}
 
                   <button 
-                    onClick={() => setGameState('playing')}
+                    autoFocus
+                    onClick={() => dispatch('start')}
                     className="w-full bg-zinc-700 hover:bg-zinc-600 text-white font-bold py-4 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
                   >
                     <RotateCcw className="w-5 h-5" />
                     {t.retry}
                   </button>
+
+                  <button 
+                    onClick={downloadReplay}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <Download className="w-4 h-4" />
+                    {t.downloadReplay}
+                  </button>
+
+                  <button 
+                    onClick={() => setShowDebrief(true)}
+                    className="w-full mt-3 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+                  >
+                    <BarChart3 className="w-4 h-4" />
+                    {t.debrief}
+                  </button>
+
+                  {editorButton}
+                  {shopButton}
                 </>
               )}
 
               <div className="mt-6 flex justify-center gap-4">
-                <button 
-                  onClick={() => setLanguage(l => l === 'en' ? 'zh' : 'en')}
-                  className="text-zinc-500 hover:text-white text-sm transition-colors"
-                >
-                  {language === 'en' ? '切换到中文' : 'Switch to English'}
-                </button>
+                <label className="flex items-center gap-2 text-zinc-500 text-sm">
+                  <Globe className="w-4 h-4" />
+                  <span className="sr-only">{t.language}</span>
+                  <select
+                    value={language}
+                    onChange={(e) => isLocale(e.target.value) && setLanguage(e.target.value)}
+                    className="bg-transparent hover:text-white transition-colors outline-none cursor-pointer"
+                  >
+                    {LOCALES.map(l => (
+                      <option key={l} value={l} className="bg-zinc-900">{LOCALE_NAMES[l]}</option>
+                    ))}
+                  </select>
+                </label>
               </div>
             </motion.div>
           </motion.div>
@@ -651,4 +2957,6 @@ export default function App() {
       )}
     </div>
   );
+
+  return <MotionSettings motion={accessibility.motion}>{screen}</MotionSettings>;
 }
@@ -0,0 +1,65 @@
+import { LOW_AMMO } from '../game/constants';
+import type { RenderState } from '../game/renderer';
+import type { BatterySide } from '../game/types';
+
+const SIDES: BatterySide[] = ['left', 'center', 'right'];
+
+/** Something worth telling a screen-reader user about. Building losses are urgent; ammo is not. */
+export type Announcement =
+  | { type: 'cityLost'; remaining: number }
+  | { type: 'batteryLost'; side: BatterySide }
+  | { type: 'lowAmmo'; side: BatterySide; ammo: number }
+  | { type: 'outOfAmmo'; side: BatterySide }
+  | { type: 'won' | 'lost'; score: number };
+
+export const isUrgent = (announcement: Announcement) => announcement.type !== 'lowAmmo' && announcement.type !== 'outOfAmmo';
+
+/**
+ * Turns what changed between two drawn frames into announcements: buildings that just fell and
+ * batteries running dry. Like the sound cues, it works from the drawn state alone.
+ */
+export class AnnouncementCues {
+  private destroyed = new Set<number>();
+  private low: Record<BatterySide, 'ok' | 'low' | 'empty'> = { left: 'ok', center: 'ok', right: 'ok' };
+  private primed = false;
+
+  /** Forgets the previous frame, so the next one is taken as the starting point rather than announced. */
+  reset() {
+    this.primed = false;
+  }
+
+  update(state: RenderState): Announcement[] {
+    const announce = this.primed;
+    this.primed = true;
+    const announcements: Announcement[] = [];
+
+    const destroyed = new Set<number>();
+    let citiesStanding = 0;
+    let cityFell = false;
+    for (const b of state.buildings) {
+      if (!b.isDestroyed) {
+        if (b.type === 'city') citiesStanding++;
+        continue;
+      }
+      destroyed.add(b.id);
+      if (!announce || this.destroyed.has(b.id)) continue;
+      if (b.type === 'city') cityFell = true;
+      else if (b.batterySide) announcements.push({ type: 'batteryLost', side: b.batterySide });
+    }
+    // Cities that fall together are announced once, with how many are left.
+    if (cityFell) announcements.unshift({ type: 'cityLost', remaining: citiesStanding });
+    this.destroyed = destroyed;
+
+    for (const side of SIDES) {
+      const battery = state.buildings.find(b => b.batterySide === side);
+      const ammo = state.ammo[side];
+      const level = !battery || battery.isDestroyed ? 'ok' : ammo === 0 ? 'empty' : ammo <= LOW_AMMO ? 'low' : 'ok';
+      if (announce && level !== 'ok' && level !== this.low[side]) {
+        announcements.push(level === 'empty' ? { type: 'outOfAmmo', side } : { type: 'lowAmmo', side, ammo });
+      }
+      this.low[side] = level;
+    }
+
+    return announcements;
+  }
+}
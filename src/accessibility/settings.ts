@@ -0,0 +1,67 @@
+import { isColorSchemeId, type ColorSchemeId } from '../game/colors';
+
+/** `system` follows the operating system's reduced-motion setting. */
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+export type AccessibilitySettings = {
+  colors: ColorSchemeId;
+  /** Dashed enemy trails and distinct missile heads, so the sides differ by more than color. */
+  shapes: boolean;
+  motion: MotionPreference;
+  scanlines: boolean;
+  /** How fast local runs play, as a fraction of full speed. */
+  gameSpeed: number;
+};
+
+export const MOTION_PREFERENCES: MotionPreference[] = ['system', 'reduce', 'full'];
+export const GAME_SPEEDS = [0.5, 0.75, 1];
+
+const isMotionPreference = (value: unknown): value is MotionPreference => MOTION_PREFERENCES.includes(value as MotionPreference);
+
+export const DEFAULT_ACCESSIBILITY: AccessibilitySettings = {
+  colors: 'standard',
+  shapes: false,
+  motion: 'system',
+  scanlines: true,
+  gameSpeed: 1,
+};
+
+const STORAGE_KEY = 'nova-defense:accessibility';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+export const loadAccessibility = (): AccessibilitySettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_ACCESSIBILITY;
+    const fields = stored as Record<string, unknown>;
+    const { colors, motion, gameSpeed } = fields;
+    return {
+      colors: isColorSchemeId(colors) ? colors : DEFAULT_ACCESSIBILITY.colors,
+      shapes: fields.shapes === true,
+      motion: isMotionPreference(motion) ? motion : DEFAULT_ACCESSIBILITY.motion,
+      scanlines: fields.scanlines !== false,
+      gameSpeed: typeof gameSpeed === 'number' && GAME_SPEEDS.includes(gameSpeed) ? gameSpeed : DEFAULT_ACCESSIBILITY.gameSpeed,
+    };
+  } catch {
+    return DEFAULT_ACCESSIBILITY;
+  }
+};
+
+export const saveAccessibility = (settings: AccessibilitySettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const systemPrefersReducedMotion = () =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' && window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+/** Calls `listener` whenever the operating system's reduced-motion setting changes. Returns an unsubscribe function. */
+export const watchSystemReducedMotion = (listener: (reduce: boolean) => void) => {
+  if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return () => {};
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  const onChange = (e: MediaQueryListEvent) => listener(e.matches);
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+};
+
+export const reducesMotion = (settings: AccessibilitySettings, systemReduces: boolean) =>
+  settings.motion === 'reduce' || (settings.motion === 'system' && systemReduces);
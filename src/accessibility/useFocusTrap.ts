@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+
+const FOCUSABLE = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Keeps keyboard focus inside a dialog while `active`: focus moves into it when it opens (unless
+ * something inside already took it with `autoFocus`), Tab and Shift+Tab wrap around its controls,
+ * Escape calls `onEscape`, and focus goes back to where it was once the dialog closes.
+ */
+export const useFocusTrap = <T extends HTMLElement>(active: boolean, onEscape?: () => void) => {
+  const ref = useRef<T>(null);
+  const onEscapeRef = useRef(onEscape);
+  onEscapeRef.current = onEscape;
+
+  useEffect(() => {
+    const container = ref.current;
+    if (!active || !container) return;
+    const previous = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    // Hidden controls (no offsetParent) cannot take focus, so they do not count as the first or last.
+    const focusable = () =>
+      Array.prototype.filter.call(container.querySelectorAll(FOCUSABLE), (el: HTMLElement) => el.offsetParent !== null) as HTMLElement[];
+
+    if (!container.contains(document.activeElement)) (focusable()[0] ?? container).focus();
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && onEscapeRef.current) {
+        e.preventDefault();
+        e.stopPropagation();
+        onEscapeRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const elements = focusable();
+      if (elements.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = elements[0];
+      const last = elements[elements.length - 1];
+      if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && document.activeElement === last) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    container.addEventListener('keydown', onKeyDown);
+    return () => {
+      container.removeEventListener('keydown', onKeyDown);
+      if (previous?.isConnected) previous.focus();
+    };
+  }, [active]);
+
+  return ref;
+};
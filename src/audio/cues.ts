@@ -0,0 +1,79 @@
+import { LOW_AMMO } from '../game/constants';
+import type { RenderState } from '../game/renderer';
+import type { BatterySide } from '../game/types';
+import type { SoundEngine } from './sound';
+
+// Enemies on screen at which the music reaches full intensity.
+const FULL_INTENSITY_ENEMIES = 12;
+const SIDES: BatterySide[] = ['left', 'center', 'right'];
+
+type AmmoAlarm = 'ok' | 'low' | 'empty';
+
+/**
+ * Turns what changed between two drawn frames into sounds: new missiles and blasts, buildings
+ * that just fell and batteries running dry. Works from the drawn state alone, so local runs,
+ * replays and online snapshots all sound the same.
+ */
+export class SoundCues {
+  private missiles = new Set<number>();
+  private explosions = new Set<number>();
+  private destroyed = new Set<number>();
+  private alarms: Record<BatterySide, AmmoAlarm> = { left: 'ok', center: 'ok', right: 'ok' };
+  private primed = false;
+
+  /**
+   * `ownSlot` is set online, where this player's shots are heard as soon as they are predicted,
+   * so the server's copy of them stays quiet.
+   */
+  constructor(
+    private readonly engine: SoundEngine,
+    private readonly ownSlot?: number,
+  ) {}
+
+  /** Forgets the previous frame, so the next one is taken as the starting point rather than played. */
+  reset() {
+    this.primed = false;
+  }
+
+  update(state: RenderState) {
+    const pan = (x: number) => (x / Math.max(1, state.width)) * 2 - 1;
+    const play = this.primed;
+    this.primed = true;
+
+    const missiles = new Set<number>();
+    let enemies = 0;
+    for (const m of state.missiles) {
+      missiles.add(m.id);
+      if (m.isEnemy) enemies++;
+      if (!play || this.missiles.has(m.id)) continue;
+      if (m.isEnemy) this.engine.whistle(pan(m.current.x));
+      else if (m.id < 0 || this.ownSlot === undefined || m.owner !== this.ownSlot) this.engine.launch(pan(m.current.x));
+    }
+    this.missiles = missiles;
+
+    const explosions = new Set<number>();
+    for (const e of state.explosions) {
+      explosions.add(e.id);
+      if (play && !this.explosions.has(e.id)) this.engine.explosion(pan(e.x), e.source, e.depth);
+    }
+    this.explosions = explosions;
+
+    const destroyed = new Set<number>();
+    for (const b of state.buildings) {
+      if (!b.isDestroyed) continue;
+      destroyed.add(b.id);
+      if (play && !this.destroyed.has(b.id)) this.engine.destroyed(b.type, pan(b.x + b.width / 2));
+    }
+    this.destroyed = destroyed;
+
+    for (const side of SIDES) {
+      const battery = state.buildings.find(b => b.batterySide === side);
+      const ammo = state.ammo[side];
+      const alarm: AmmoAlarm = !battery || battery.isDestroyed ? 'ok' : ammo === 0 ? 'empty' : ammo <= LOW_AMMO ? 'low' : 'ok';
+      if (play && alarm !== 'ok' && alarm !== this.alarms[side]) this.engine.lowAmmo(side, alarm === 'empty');
+      this.alarms[side] = alarm;
+    }
+
+    this.engine.setIntensity(enemies / FULL_INTENSITY_ENEMIES);
+  }
+}
@@ -0,0 +1,268 @@
+import type { BatterySide, ExplosionSource } from '../game/types';
+
+export type AudioSettings = {
+  /** Volumes from 0 to 1. Effects and music are both scaled by `master`. */
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
+};
+
+export const DEFAULT_AUDIO: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+
+const STORAGE_KEY = 'nova-defense:audio';
+const VOLUMES = ['master', 'sfx', 'music'] as const;
+
+const volume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(1, value)) : fallback;
+
+export const loadAudioSettings = (): AudioSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_AUDIO;
+    const fields = stored as Record<string, unknown>;
+    const settings = { ...DEFAULT_AUDIO, muted: fields.muted === true };
+    for (const key of VOLUMES) settings[key] = volume(fields[key], DEFAULT_AUDIO[key]);
+    return settings;
+  } catch {
+    return DEFAULT_AUDIO;
+  }
+};
+
+export const saveAudioSettings = (settings: AudioSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+const SIDE_PAN: Record<BatterySide, number> = { left: -0.8, center: 0, right: 0.8 };
+// Shortest gap between two sounds of one kind, so a screen full of rockets does not turn into noise.
+const MIN_GAP: Record<string, number> = { launch: 0.04, whistle: 0.12, explosion: 0.05, destroyed: 0.1, alarm: 0.3 };
+// Chained blasts climb in pitch by this factor per link, up to `MAX_CHAIN_PITCH`.
+const CHAIN_PITCH_STEP = 1.12;
+const MAX_CHAIN_PITCH = 2.5;
+const MUSIC_LEVEL = 0.35;
+const MUSIC_FADE = 0.6;
+
+type Tone = {
+  type: OscillatorType;
+  from: number;
+  to: number;
+  duration: number;
+  gain: number;
+  pan: number;
+  delay?: number;
+};
+
+type Noise = {
+  duration: number;
+  gain: number;
+  /** Low-pass cutoff at the start and end of the sound, in Hz. */
+  cutoff: [number, number];
+  pan: number;
+  rate?: number;
+};
+
+/**
+ * Synthesised sound effects and a two-layer music drone, all built from WebAudio oscillators
+ * and filtered noise. Browsers only start audio from a user gesture, so nothing is created
+ * until `unlock`; every sound played before that is silently dropped.
+ */
+export class SoundEngine {
+  private ctx: AudioContext | null = null;
+  private master!: GainNode;
+  private sfx!: GainNode;
+  private music!: GainNode;
+  private noise!: AudioBuffer;
+  private musicFilter!: BiquadFilterNode;
+  private pulseLevel!: GainNode;
+  private pulseRate!: OscillatorNode;
+  private lastPlayed: Record<string, number> = {};
+  private musicActive = false;
+
+  constructor(private settings: AudioSettings = DEFAULT_AUDIO) {}
+
+  /** Creates or resumes the audio context. Call from a click or key press. */
+  unlock() {
+    if (!this.ctx) {
+      if (typeof AudioContext === 'undefined') return;
+      this.ctx = new AudioContext();
+      this.build(this.ctx);
+    }
+    if (this.ctx.state === 'suspended') void this.ctx.resume();
+  }
+
+  get unlocked() {
+    return this.ctx?.state === 'running';
+  }
+
+  applySettings(settings: AudioSettings) {
+    this.settings = settings;
+    if (!this.ctx) return;
+    const now = this.ctx.currentTime;
+    this.master.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.05);
+    this.sfx.gain.setTargetAtTime(settings.sfx, now, 0.05);
+    this.music.gain.setTargetAtTime(this.musicActive ? settings.music * MUSIC_LEVEL : 0, now, 0.05);
+  }
+
+  /** Fades the music in while a run is on screen and out everywhere else. */
+  setMusicActive(active: boolean) {
+    this.musicActive = active;
+    if (!this.ctx) return;
+    this.music.gain.setTargetAtTime(active ? this.settings.music * MUSIC_LEVEL : 0, this.ctx.currentTime, MUSIC_FADE);
+  }
+
+  /** Music intensity from 0 (calm) to 1 (the sky is full of rockets). */
+  setIntensity(intensity: number) {
+    if (!this.ctx) return;
+    const level = Math.max(0, Math.min(1, intensity));
+    const now = this.ctx.currentTime;
+    this.musicFilter.frequency.setTargetAtTime(180 + level * 1600, now, MUSIC_FADE);
+    this.pulseLevel.gain.setTargetAtTime(level * 0.5, now, MUSIC_FADE);
+    this.pulseRate.frequency.setTargetAtTime(2 + level * 6, now, MUSIC_FADE);
+  }
+
+  /** An interceptor leaving its battery. `pan` runs from -1 (left) to 1 (right). */
+  launch(pan: number) {
+    if (!this.claim('launch')) return;
+    this.tone({ type: 'square', from: 880, to: 220, duration: 0.12, gain: 0.08, pan });
+    this.burst({ duration: 0.1, gain: 0.06, cutoff: [4000, 800], pan });
+  }
+
+  /** A blast. Chain blasts climb in pitch with `depth`; ground impacts sound heavier. */
+  explosion(pan: number, source: ExplosionSource, depth = 0) {
+    if (!this.claim('explosion')) return;
+    const pitch = Math.min(MAX_CHAIN_PITCH, CHAIN_PITCH_STEP ** depth);
+    const heavy = source === 'impact';
+    this.burst({ duration: heavy ? 0.9 : 0.6, gain: heavy ? 0.35 : 0.25, cutoff: [2200 * pitch, 90], pan, rate: pitch });
+    this.tone({ type: 'sine', from: (heavy ? 90 : 140) * pitch, to: 35, duration: heavy ? 0.5 : 0.3, gain: 0.3, pan });
+  }
+
+  /** The falling whistle of a newly launched enemy. */
+  whistle(pan: number) {
+    if (!this.claim('whistle')) return;
+    this.tone({ type: 'sine', from: 1800, to: 600, duration: 1.2, gain: 0.025, pan });
+  }
+
+  destroyed(type: 'city' | 'battery', pan: number) {
+    if (!this.claim('destroyed')) return;
+    if (type === 'city') {
+      this.burst({ duration: 1.6, gain: 0.4, cutoff: [900, 50], pan });
+      this.tone({ type: 'sawtooth', from: 200, to: 30, duration: 1.3, gain: 0.12, pan });
+    } else {
+      this.burst({ duration: 0.8, gain: 0.3, cutoff: [3000, 200], pan });
+      this.tone({ type: 'square', from: 440, to: 60, duration: 0.6, gain: 0.1, pan });
+    }
+  }
+
+  /** Two beeps from a battery's side of the screen: higher when ammo runs low, lower when it runs out. */
+  lowAmmo(side: BatterySide, empty: boolean) {
+    if (!this.claim(`alarm-${side}`, MIN_GAP.alarm)) return;
+    const pitch = empty ? 330 : 990;
+    const pan = SIDE_PAN[side];
+    this.tone({ type: 'square', from: pitch, to: pitch, duration: 0.09, gain: 0.07, pan });
+    this.tone({ type: 'square', from: pitch, to: pitch, duration: 0.09, gain: 0.07, pan, delay: 0.14 });
+  }
+
+  private build(ctx: AudioContext) {
+    this.master = ctx.createGain();
+    this.master.connect(ctx.destination);
+    this.sfx = ctx.createGain();
+    this.sfx.connect(this.master);
+    this.music = ctx.createGain();
+    this.music.gain.value = 0;
+    this.music.connect(this.master);
+
+    // One second of white noise, reused by every blast.
+    this.noise = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+    const samples = this.noise.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+
+    // Music: a detuned bass drone whose filter opens up as intensity rises, plus a pulse that
+    // fades in and quickens on top of it.
+    this.musicFilter = ctx.createBiquadFilter();
+    this.musicFilter.type = 'lowpass';
+    this.musicFilter.frequency.value = 180;
+    this.musicFilter.connect(this.music);
+    for (const frequency of [55, 55.4, 82.4]) {
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.value = frequency;
+      osc.connect(this.musicFilter);
+      osc.start();
+    }
+
+    this.pulseLevel = ctx.createGain();
+    this.pulseLevel.gain.value = 0;
+    this.pulseLevel.connect(this.musicFilter);
+    const tremolo = ctx.createGain();
+    tremolo.gain.value = 0.5;
+    tremolo.connect(this.pulseLevel);
+    const pulse = ctx.createOscillator();
+    pulse.type = 'square';
+    pulse.frequency.value = 110;
+    pulse.connect(tremolo);
+    pulse.start();
+    this.pulseRate = ctx.createOscillator();
+    this.pulseRate.frequency.value = 2;
+    const depth = ctx.createGain();
+    depth.gain.value = 0.5;
+    this.pulseRate.connect(depth);
+    depth.connect(tremolo.gain);
+    this.pulseRate.start();
+
+    this.applySettings(this.settings);
+  }
+
+  /** Whether a sound of `kind` may play now; records it if so. */
+  private claim(kind: string, gap = MIN_GAP[kind] ?? 0) {
+    if (!this.ctx || this.ctx.state !== 'running') return false;
+    const now = this.ctx.currentTime;
+    if (now - (this.lastPlayed[kind] ?? -Infinity) < gap) return false;
+    this.lastPlayed[kind] = now;
+    return true;
+  }
+
+  private output(pan: number) {
+    const ctx = this.ctx!;
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan));
+    panner.connect(this.sfx);
+    return panner;
+  }
+
+  private envelope(gain: number, start: number, duration: number) {
+    const node = this.ctx!.createGain();
+    node.gain.setValueAtTime(gain, start);
+    node.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+    return node;
+  }
+
+  private tone({ type, from, to, duration, gain, pan, delay = 0 }: Tone) {
+    const ctx = this.ctx!;
+    const start = ctx.currentTime + delay;
+    const osc = ctx.createOscillator();
+    osc.type = type;
+    osc.frequency.setValueAtTime(from, start);
+    osc.frequency.exponentialRampToValueAtTime(Math.max(1, to), start + duration);
+    const env = this.envelope(gain, start, duration);
+    osc.connect(env).connect(this.output(pan));
+    osc.start(start);
+    osc.stop(start + duration);
+  }
+
+  private burst({ duration, gain, cutoff, pan, rate = 1 }: Noise) {
+    const ctx = this.ctx!;
+    const start = ctx.currentTime;
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    source.loop = true;
+    source.playbackRate.value = rate;
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.setValueAtTime(cutoff[0], start);
+    filter.frequency.exponentialRampToValueAtTime(cutoff[1], start + duration);
+    const env = this.envelope(gain, start, duration);
+    source.connect(filter).connect(env).connect(this.output(pan));
+    source.start(start);
+    source.stop(start + duration);
+  }
+}
@@ -0,0 +1,27 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+type Props = {
+  errors: string[];
+};
+
+/** Shown instead of the game when a level or difficulty file fails validation. */
+export default function ContentErrors({ errors }: Props) {
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <div className="max-w-2xl w-full bg-zinc-900 border border-red-500/40 rounded-2xl p-6">
+        <h1 className="flex items-center gap-2 text-xl font-bold text-red-400 mb-2">
+          <AlertTriangle className="w-5 h-5" /> Invalid game content
+        </h1>
+        <p className="text-sm text-zinc-400 mb-4">
+          Fix these files in <code className="text-zinc-300">src/game/content</code> and reload.
+        </p>
+        <ul className="space-y-2">
+          {errors.map(error => (
+            <li key={error} className="font-mono text-xs text-zinc-200 bg-black/40 rounded-lg px-3 py-2">{error}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
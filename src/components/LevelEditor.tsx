@@ -0,0 +1,483 @@
+import React, { useRef, useState } from 'react';
+import { Download, Pencil, Play, Plus, Trash2, Upload, X } from 'lucide-react';
+import { LEVELS, localize, type LevelDefinition, type WinCondition } from '../game/content';
+import { FIRST_CITY_ID, layoutBuildings } from '../game/layout';
+import {
+  EDITOR_GROUND_Y,
+  EDITOR_WORLD,
+  addCity,
+  addLaunchZone,
+  addWave,
+  createDraft,
+  exportDraft,
+  importDraft,
+  moveBattery,
+  moveCity,
+  removeCity,
+  removeLaunchZone,
+  removeWave,
+  setAmmo,
+  setLaunchZoneWeight,
+  setTargetWeight,
+  setWave,
+  setWinCondition,
+  toggleBattery,
+  validateDraft,
+} from '../game/editor';
+import type { BatterySide } from '../game/types';
+import { getMessages, type Locale } from '../i18n';
+
+const SIDES: BatterySide[] = ['left', 'center', 'right'];
+// Launch zones are painted in this strip along the top of the preview.
+const ZONE_STRIP = 28;
+
+type Tool = 'move' | 'zones';
+type Selection = { side: BatterySide } | { city: number } | null;
+type Drag = { kind: 'building'; target: NonNullable<Selection> } | { kind: 'zone'; from: number; to: number };
+
+const DEFAULT_WIN: Record<WinCondition['type'], WinCondition> = {
+  score: { type: 'score', target: 1000 },
+  time: { type: 'time', seconds: 120 },
+  waves: { type: 'waves', count: 5 },
+};
+
+type Props = {
+  draft: LevelDefinition;
+  language: Locale;
+  onChange: (draft: LevelDefinition) => void;
+  onTestPlay: () => void;
+  onClose: () => void;
+};
+
+const numberInput = 'w-20 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs font-mono text-white';
+
+/** Full-screen level editor: a draggable preview of the ground line plus a settings panel. */
+export default function LevelEditor({ draft, language, onChange, onTestPlay, onClose }: Props) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [tool, setTool] = useState<Tool>('move');
+  const [selected, setSelected] = useState<Selection>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const messages = getMessages(language);
+  const t = { ...messages.editor, close: messages.close, left: messages.left, center: messages.center, right: messages.right };
+
+  let validationError: string | null = null;
+  try {
+    validateDraft(draft);
+  } catch (error) {
+    validationError = (error as Error).message;
+  }
+
+  const buildings = layoutBuildings(EDITOR_WORLD.width, EDITOR_GROUND_Y, draft.layout);
+  const targetOf = (id: number, side?: BatterySide): NonNullable<Selection> => (side ? { side } : { city: id - FIRST_CITY_ID });
+  const isSelected = (target: NonNullable<Selection>) =>
+    !!selected && ('side' in target ? 'side' in selected && selected.side === target.side : 'city' in selected && selected.city === target.city);
+
+  /** Pointer position as a fraction of the preview width. */
+  const pointerFraction = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return 0;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    return point.x / EDITOR_WORLD.width;
+  };
+
+  const moveTo = (draftToMove: LevelDefinition, target: NonNullable<Selection>, x: number) =>
+    'side' in target ? moveBattery(draftToMove, target.side, x) : moveCity(draftToMove, target.city, x);
+
+  const startBuildingDrag = (e: React.PointerEvent, target: NonNullable<Selection>) => {
+    if (tool !== 'move') return;
+    e.stopPropagation();
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setSelected(target);
+    setDrag({ kind: 'building', target });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (tool !== 'zones') {
+      setSelected(null);
+      return;
+    }
+    const x = pointerFraction(e);
+    svgRef.current?.setPointerCapture(e.pointerId);
+    setDrag({ kind: 'zone', from: x, to: x });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const x = pointerFraction(e);
+    if (drag.kind === 'building') onChange(moveTo(draft, drag.target, x));
+    else setDrag({ ...drag, to: x });
+  };
+
+  const handlePointerUp = () => {
+    // Stray clicks should not leave slivers behind.
+    if (drag?.kind === 'zone' && Math.abs(drag.to - drag.from) > 0.01) onChange(addLaunchZone(draft, drag.from, drag.to));
+    setDrag(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(importDraft(await file.text()));
+      setSelected(null);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportDraft(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.id}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const changeWinType = (type: WinCondition['type']) => {
+    if (type !== draft.win.type) onChange(setWinCondition(draft, DEFAULT_WIN[type]));
+  };
+
+  const changeWinValue = (value: number) => {
+    const { win } = draft;
+    const amount = Math.max(1, Math.round(value) || 1);
+    if (win.type === 'score') onChange(setWinCondition(draft, { type: 'score', target: amount }));
+    else if (win.type === 'time') onChange(setWinCondition(draft, { type: 'time', seconds: amount }));
+    else onChange(setWinCondition(draft, { type: 'waves', count: Math.min(50, amount) }));
+  };
+
+  const winValue = draft.win.type === 'score' ? draft.win.target : draft.win.type === 'time' ? draft.win.seconds : draft.win.count;
+  const zones = draft.enemies.launchZones ?? [];
+  const timeline = draft.waves?.timeline ?? [];
+  const maxRockets = Math.max(1, ...timeline.map(w => w.rockets));
+  const selectedBattery = selected && 'side' in selected ? draft.layout.batteries[selected.side] : undefined;
+  const selectedCity = selected && 'city' in selected ? draft.layout.cities.positions?.[selected.city] : undefined;
+  const { palette } = draft;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-zinc-950/95 backdrop-blur-sm flex flex-col md:flex-row overflow-hidden">
+      <div className="flex-1 min-h-0 flex flex-col p-4 gap-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Pencil className="w-6 h-6 text-indigo-400" /> {t.title}
+          </h2>
+          <div className="flex gap-2">
+            {(['move', 'zones'] as Tool[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setTool(option)}
+                className={`px-3 py-1 rounded-lg text-xs font-bold transition-all ${
+                  tool === option ? 'bg-indigo-600 text-white' : 'bg-white/5 text-zinc-500 hover:text-zinc-300'
+                }`}
+              >
+                {t[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-zinc-500">{tool === 'move' ? t.moveHint : t.zonesHint}</p>
+
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${EDITOR_WORLD.width} ${EDITOR_WORLD.height}`}
+          className="w-full flex-1 min-h-0 rounded-xl border border-white/10 touch-none select-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          <rect width={EDITOR_WORLD.width} height={EDITOR_WORLD.height} fill={palette.sky ?? '#0a0a0f'} />
+          <rect width={EDITOR_WORLD.width} height={ZONE_STRIP} fill={tool === 'zones' ? '#ffffff14' : '#ffffff08'} />
+          {zones.map((zone, i) => (
+            <rect
+              key={i}
+              x={zone.from * EDITOR_WORLD.width}
+              width={(zone.to - zone.from) * EDITOR_WORLD.width}
+              height={ZONE_STRIP}
+              fill="#f87171"
+              fillOpacity={Math.min(0.8, 0.2 + zone.weight * 0.15)}
+            />
+          ))}
+          {drag?.kind === 'zone' && (
+            <rect
+              x={Math.min(drag.from, drag.to) * EDITOR_WORLD.width}
+              width={Math.abs(drag.to - drag.from) * EDITOR_WORLD.width}
+              height={ZONE_STRIP}
+              fill="#f87171"
+              fillOpacity={0.5}
+            />
+          )}
+          <rect y={EDITOR_GROUND_Y} width={EDITOR_WORLD.width} height={EDITOR_WORLD.height - EDITOR_GROUND_Y} fill={palette.ground} />
+          {buildings.map(b => {
+            const target = targetOf(b.id, b.batterySide);
+            const weight = b.targetWeight ?? 1;
+            return (
+              <g
+                key={b.id}
+                onPointerDown={e => startBuildingDrag(e, target)}
+                className={tool === 'move' ? 'cursor-ew-resize' : undefined}
+              >
+                <rect
+                  x={b.x}
+                  y={b.y}
+                  width={b.width}
+                  height={b.height}
+                  fill={b.type === 'battery' ? palette.battery : palette.city}
+                  stroke={isSelected(target) ? '#facc15' : 'none'}
+                  strokeWidth={2}
+                />
+                {b.batterySide && (
+                  <>
+                    <rect x={b.x + b.width / 2 - 5} y={b.y - 10} width={10} height={10} fill={palette.turret} />
+                    <text x={b.x + b.width / 2} y={b.y + b.height / 2 + 4} fill="#fff" fontSize={10} fontFamily="monospace" textAnchor="middle">
+                      {draft.ammo[b.batterySide]}
+                    </text>
+                  </>
+                )}
+                {weight !== 1 && (
+                  <text x={b.x + b.width / 2} y={b.y - 16} fill="#f87171" fontSize={11} fontFamily="monospace" textAnchor="middle">
+                    ×{weight}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="w-full md:w-80 shrink-0 max-h-[45%] md:max-h-none overflow-y-auto bg-zinc-900 border-t md:border-t-0 md:border-l border-white/10 p-4 flex flex-col gap-5 text-sm">
+        <section className="flex flex-col gap-2">
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-zinc-400">{t.template}</span>
+            <select
+              value=""
+              onChange={e => {
+                const template = LEVELS.find(level => level.id === e.target.value);
+                if (template) onChange(createDraft(template));
+                setSelected(null);
+              }}
+              className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+            >
+              <option value="">—</option>
+              {LEVELS.map(level => (
+                <option key={level.id} value={level.id}>{localize(level.name, language)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-zinc-400">{t.name}</span>
+            <input
+              value={draft.name.en}
+              maxLength={40}
+              onChange={e => onChange({ ...draft, name: { en: e.target.value } })}
+              className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+            />
+          </label>
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] uppercase tracking-widest text-indigo-400">{t.batteries}</span>
+            <div className="flex gap-1">
+              {SIDES.map(side => (
+                <button
+                  key={side}
+                  onClick={() => onChange(toggleBattery(draft, side))}
+                  className={`w-7 py-1 rounded-lg text-xs font-bold transition-all ${
+                    draft.layout.batteries[side] ? 'bg-indigo-600 text-white' : 'bg-white/5 text-zinc-500 hover:text-zinc-300'
+                  }`}
+                >
+                  {t[side]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={() => onChange(addCity(draft))}
+            className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-2 rounded-xl flex items-center justify-center gap-2 text-xs transition-all active:scale-95"
+          >
+            <Plus className="w-3 h-3" /> {t.addCity}
+          </button>
+
+          {selected && (selectedBattery || selectedCity) && (
+            <div className="bg-white/5 border border-white/5 rounded-xl p-3 flex flex-col gap-2">
+              <div className="text-xs font-bold text-yellow-300">
+                {'side' in selected ? `${t.battery} ${t[selected.side]}` : `${t.city} ${selected.city + 1}`}
+              </div>
+              {'side' in selected && (
+                <label className="flex items-center justify-between">
+                  <span className="text-xs text-zinc-400">{t.ammo}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.ammo[selected.side]}
+                    onChange={e => onChange(setAmmo(draft, selected.side, e.target.valueAsNumber))}
+                    className={numberInput}
+                  />
+                </label>
+              )}
+              <label className="flex items-center justify-between">
+                <span className="text-xs text-zinc-400">{t.weight}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={(selectedBattery ?? selectedCity)!.targetWeight}
+                  onChange={e => onChange(setTargetWeight(draft, selected, e.target.valueAsNumber))}
+                  className={numberInput}
+                />
+              </label>
+              <button
+                onClick={() => {
+                  onChange('side' in selected ? toggleBattery(draft, selected.side) : removeCity(draft, selected.city));
+                  setSelected(null);
+                }}
+                className="self-end text-xs text-red-400 hover:text-red-300 flex items-center gap-1"
+              >
+                <Trash2 className="w-3 h-3" /> {t.remove}
+              </button>
+            </div>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-[10px] uppercase tracking-widest text-indigo-400">{t.zones}</span>
+          {zones.length === 0 && <p className="text-xs text-zinc-500">{t.noZones}</p>}
+          {zones.map((zone, i) => (
+            <div key={i} className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-mono text-zinc-300">
+                {Math.round(zone.from * 100)}–{Math.round(zone.to * 100)}%
+              </span>
+              <label className="flex items-center gap-1 text-zinc-400">
+                {t.zoneWeight}
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.5}
+                  value={zone.weight}
+                  onChange={e => onChange(setLaunchZoneWeight(draft, i, e.target.valueAsNumber))}
+                  className="w-14 bg-black/40 border border-white/10 rounded-lg px-2 py-1 font-mono text-white"
+                />
+              </label>
+              <button onClick={() => onChange(removeLaunchZone(draft, i))} className="text-red-400 hover:text-red-300">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </section>
+
+        <section className="flex flex-col gap-2">
+          <span className="text-[10px] uppercase tracking-widest text-indigo-400">{t.win}</span>
+          <div className="flex items-center justify-between gap-2">
+            <select
+              value={draft.win.type}
+              onChange={e => changeWinType(e.target.value as WinCondition['type'])}
+              className="bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs text-white"
+            >
+              {(['score', 'time', 'waves'] as WinCondition['type'][]).map(type => (
+                <option key={type} value={type}>{t[type]}</option>
+              ))}
+            </select>
+            <input type="number" min={1} value={winValue} onChange={e => changeWinValue(e.target.valueAsNumber)} className={numberInput} />
+          </div>
+        </section>
+
+        {draft.win.type === 'waves' && (
+          <section className="flex flex-col gap-2">
+            <span className="text-[10px] uppercase tracking-widest text-indigo-400">{t.timeline}</span>
+            <div className="grid grid-cols-[1.5rem_1fr_1fr_1fr_1rem] gap-1 items-center text-[10px] text-zinc-500">
+              <span>#</span>
+              <span>{t.rockets}</span>
+              <span>{t.interval}</span>
+              <span>{t.speed}</span>
+              <span />
+              {timeline.map((wave, i) => (
+                <React.Fragment key={i}>
+                  <span className="font-mono text-zinc-400 relative">
+                    {i + 1}
+                    <span className="absolute left-0 -bottom-0.5 h-0.5 bg-red-400" style={{ width: `${(wave.rockets / maxRockets) * 100}%` }} />
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    value={wave.rockets}
+                    onChange={e => onChange(setWave(draft, i, { rockets: Math.max(1, Math.round(e.target.valueAsNumber) || 1) }))}
+                    className="w-full bg-black/40 border border-white/10 rounded px-1 py-0.5 font-mono text-white"
+                  />
+                  <input
+                    type="number"
+                    min={100}
+                    step={100}
+                    value={wave.intervalMs}
+                    onChange={e => onChange(setWave(draft, i, { intervalMs: Math.max(100, e.target.valueAsNumber || 100) }))}
+                    className="w-full bg-black/40 border border-white/10 rounded px-1 py-0.5 font-mono text-white"
+                  />
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={wave.speedScale}
+                    onChange={e => onChange(setWave(draft, i, { speedScale: Math.max(0.1, e.target.valueAsNumber || 0.1) }))}
+                    className="w-full bg-black/40 border border-white/10 rounded px-1 py-0.5 font-mono text-white"
+                  />
+                  <button onClick={() => onChange(removeWave(draft, i))} className="text-red-400 hover:text-red-300">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </React.Fragment>
+              ))}
+            </div>
+            <button
+              onClick={() => onChange(addWave(draft))}
+              className="w-full bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-2 rounded-xl flex items-center justify-center gap-2 text-xs transition-all active:scale-95"
+            >
+              <Plus className="w-3 h-3" /> {t.addWave}
+            </button>
+          </section>
+        )}
+
+        {(validationError || importError) && (
+          <div className="text-xs text-red-400 font-mono break-words">{importError ?? validationError}</div>
+        )}
+
+        <div className="mt-auto flex flex-col gap-2">
+          <button
+            disabled={!!validationError}
+            onClick={onTestPlay}
+            className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 text-white font-bold py-3 rounded-2xl flex items-center justify-center gap-2 transition-all active:scale-95"
+          >
+            <Play className="w-4 h-4 fill-current" /> {t.testPlay}
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => fileRef.current?.click()}
+              className="flex-1 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-2 rounded-xl flex items-center justify-center gap-2 text-xs transition-all active:scale-95"
+            >
+              <Upload className="w-3 h-3" /> {t.import}
+            </button>
+            <button
+              disabled={!!validationError}
+              onClick={handleExport}
+              className="flex-1 bg-white/5 hover:bg-white/10 disabled:opacity-40 text-zinc-300 font-bold py-2 rounded-xl flex items-center justify-center gap-2 text-xs transition-all active:scale-95"
+            >
+              <Download className="w-3 h-3" /> {t.export}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-white/5 hover:bg-white/10 text-zinc-300 font-bold py-2 rounded-xl flex items-center justify-center gap-2 text-xs transition-all active:scale-95"
+            >
+              <X className="w-3 h-3" /> {t.close}
+            </button>
+          </div>
+          <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { MotionConfig } from 'motion/react';
+import type { MotionPreference } from '../accessibility/settings';
+
+type Props = {
+  motion: MotionPreference;
+  children: React.ReactNode;
+};
+
+const REDUCED_MOTION = { system: 'user', reduce: 'always', full: 'never' } as const;
+
+/** Applies the player's motion preference to every menu and dialog animation below it. */
+export default function MotionSettings({ motion, children }: Props) {
+  return <MotionConfig reducedMotion={REDUCED_MOTION[motion]}>{children}</MotionConfig>;
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import type { BuildingLoss, TimelineSample } from '../game/stats';
+
+const WIDTH = 320;
+const HEIGHT = 96;
+const PAD = 4;
+
+type Props = {
+  timeline: TimelineSample[];
+  losses: BuildingLoss[];
+  durationMs: number;
+};
+
+/** Score over time, with a red tick for every building lost. */
+export default function TimelineChart({ timeline, losses, durationMs }: Props) {
+  const maxScore = Math.max(1, ...timeline.map(s => s.score));
+  const duration = Math.max(1, durationMs);
+  const x = (timeMs: number) => PAD + (timeMs / duration) * (WIDTH - PAD * 2);
+  const y = (score: number) => HEIGHT - PAD - (score / maxScore) * (HEIGHT - PAD * 2);
+
+  const path = timeline.map((s, i) => `${i === 0 ? 'M' : 'L'}${x(s.timeMs).toFixed(1)},${y(s.score).toFixed(1)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-24" preserveAspectRatio="none">
+      <line x1={PAD} y1={HEIGHT - PAD} x2={WIDTH - PAD} y2={HEIGHT - PAD} stroke="rgba(255,255,255,0.1)" />
+      {losses.map(loss => (
+        <line
+          key={`${loss.buildingId}-${loss.timeMs}`}
+          x1={x(loss.timeMs)}
+          x2={x(loss.timeMs)}
+          y1={PAD}
+          y2={HEIGHT - PAD}
+          stroke={loss.type === 'city' ? '#f87171' : '#fb923c'}
+          strokeDasharray="2 2"
+        />
+      ))}
+      <path d={path} fill="none" stroke="#34d399" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
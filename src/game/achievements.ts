@@ -0,0 +1,111 @@
+import type { Ammo, Difficulty } from './types';
+
+/** Things that happen during play that achievements can react to. */
+export type AchievementEvent =
+  /** One blast destroyed `kills` enemies itself; the chain blasts it set off report their own. */
+  | { type: 'chain'; kills: number }
+  | { type: 'intercept'; count: number }
+  | {
+      type: 'runEnd';
+      won: boolean;
+      /** Difficulty the whole run was played on; null if it was changed mid-run. */
+      difficulty: Difficulty | null;
+      citiesLost: number;
+      shotsFired: Ammo;
+    };
+
+type EventOf<T extends AchievementEvent['type']> = Extract<AchievementEvent, { type: T }>;
+
+/**
+ * An achievement unlocks on the first `on` event that passes `when`, or, if it has a `goal`,
+ * once the `count` of its events adds up to the goal across all runs.
+ */
+type AchievementDefinition = {
+  [T in AchievementEvent['type']]: {
+    id: string;
+    on: T;
+    when?: (event: EventOf<T>) => boolean;
+    count?: (event: EventOf<T>) => number;
+    goal?: number;
+  };
+}[AchievementEvent['type']];
+
+export const ACHIEVEMENTS = [
+  { id: 'untouched', on: 'runEnd', when: e => e.won && e.citiesLost === 0 },
+  { id: 'chainReaction', on: 'chain', when: e => e.kills >= 5 },
+  { id: 'hardened', on: 'runEnd', when: e => e.won && e.difficulty === 'hard' },
+  { id: 'centerOnly', on: 'runEnd', when: e => e.won && e.shotsFired.center > 0 && e.shotsFired.left + e.shotsFired.right === 0 },
+  { id: 'thousandIntercepts', on: 'intercept', count: e => e.count, goal: 1000 },
+] as const satisfies readonly AchievementDefinition[];
+
+export type AchievementId = (typeof ACHIEVEMENTS)[number]['id'];
+
+export type AchievementProgress = {
+  /** When each unlocked achievement was unlocked, in ms since the epoch. */
+  unlocked: Partial<Record<AchievementId, number>>;
+  /** Running totals for achievements with a goal. */
+  counts: Partial<Record<AchievementId, number>>;
+};
+
+const STORAGE_KEY = 'nova-defense:achievements';
+const ACHIEVEMENT_IDS: readonly string[] = ACHIEVEMENTS.map(a => a.id);
+
+const emptyProgress = (): AchievementProgress => ({ unlocked: {}, counts: {} });
+
+/** Keeps known ids with numeric values, dropping anything else. */
+const sanitizeRecord = (raw: unknown): Partial<Record<AchievementId, number>> => {
+  if (!raw || typeof raw !== 'object') return {};
+  return Object.fromEntries(
+    Object.entries(raw).filter(([id, value]) => ACHIEVEMENT_IDS.includes(id) && typeof value === 'number' && Number.isFinite(value)),
+  );
+};
+
+export const loadAchievements = (): AchievementProgress => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return emptyProgress();
+    const fields = stored as Record<string, unknown>;
+    return { unlocked: sanitizeRecord(fields.unlocked), counts: sanitizeRecord(fields.counts) };
+  } catch {
+    return emptyProgress();
+  }
+};
+
+export const saveAchievements = (progress: AchievementProgress) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+};
+
+/**
+ * Applies `events` to `progress`. Returns the new progress (the same object if nothing changed)
+ * and the achievements the events unlocked, in the order they unlocked.
+ */
+export const recordAchievementEvents = (progress: AchievementProgress, events: AchievementEvent[], now = Date.now()) => {
+  let next = progress;
+  const unlocked: AchievementId[] = [];
+  for (const event of events) {
+    for (const achievement of ACHIEVEMENTS as readonly AchievementDefinition[]) {
+      const id = achievement.id as AchievementId;
+      if (achievement.on !== event.type || next.unlocked[id] !== undefined) continue;
+      // The mapped definition type pairs `on` with its event, which TypeScript cannot see through here.
+      const matches = !achievement.when || (achievement.when as (e: AchievementEvent) => boolean)(event);
+      if (!matches) continue;
+      let done = true;
+      if (achievement.goal !== undefined) {
+        const count = (next.counts[id] ?? 0) + (achievement.count ? (achievement.count as (e: AchievementEvent) => number)(event) : 1);
+        next = { ...next, counts: { ...next.counts, [id]: count } };
+        done = count >= achievement.goal;
+      }
+      if (!done) continue;
+      next = { ...next, unlocked: { ...next.unlocked, [id]: now } };
+      unlocked.push(id);
+    }
+  }
+  return { progress: next, unlocked };
+};
+
+/** How far along a goal achievement is, or null for one-off achievements. */
+export const achievementProgress = (progress: AchievementProgress, id: AchievementId) => {
+  const achievement = ACHIEVEMENTS.find(a => a.id === id);
+  if (!achievement || !('goal' in achievement)) return null;
+  return { count: Math.min(achievement.goal, progress.counts[id] ?? 0), goal: achievement.goal };
+};
@@ -0,0 +1,245 @@
+import type { DamageRules } from './content';
+import { canFireFrom, type PlayerIndex } from './players';
+import { createRng } from './rng';
+import type { GameSimulation } from './simulation';
+import type { BatterySide, Building, Explosion, Missile, Point } from './types';
+
+/** A battery a bot may fire from, with the upgrades that shape its shots. */
+export type BotBattery = Point & {
+  side: BatterySide;
+  ammo: number;
+  missileSpeed: number;
+  blastRadius: number;
+  /** Frames a blast lasts. */
+  blastDuration: number;
+};
+
+/** What a bot sees each time it thinks: the same things a player sees on screen. */
+export type BotView = {
+  frame: number;
+  width: number;
+  height: number;
+  groundY: number;
+  enemies: readonly Missile[];
+  /** Interceptors still in flight, from every player. */
+  interceptors: readonly Missile[];
+  explosions: readonly Explosion[];
+  buildings: readonly Building[];
+  /** Standing batteries this bot's player may fire from, including empty ones. */
+  batteries: readonly BotBattery[];
+  /** The difficulty's damage rules, which a player can read off the menu. */
+  damage: DamageRules;
+};
+
+/** Fires an interceptor at (`x`, `y`), from `side` or the nearest battery with ammo. Returns false if nothing fired. */
+export type BotFire = (x: number, y: number, side?: BatterySide) => boolean;
+
+/**
+ * Plays defense in place of a person. Bots get a fresh view every few frames and fire through
+ * the same call a player's click goes through, so what they do is recorded like any other input.
+ */
+export type Bot = {
+  act(view: BotView, fire: BotFire): void;
+};
+
+/** How steady a bot's hand is. Bots aim perfectly unless given an error. */
+export type BotAim = {
+  /** Shots go off up to this many pixels from where the bot meant them to, in any direction. */
+  error: number;
+  /** Seeds the misses, so a bot with the same seed misses the same way every game. */
+  seed: number;
+};
+
+const PERFECT_AIM: BotAim = { error: 0, seed: 0 };
+
+export const BOT_IDS = ['greedy', 'predictive'] as const;
+export type BotId = (typeof BOT_IDS)[number];
+
+export const isBotId = (value: unknown): value is BotId => BOT_IDS.includes(value as BotId);
+
+// Roughly a person's reaction time: bots look at the field ten times a second.
+export const BOT_THINK_FRAMES = 6;
+
+/** Builds what `player` would see of `sim`. */
+export const observe = (sim: GameSimulation, player: PlayerIndex = 0): BotView => {
+  const batteries: BotBattery[] = [];
+  for (const b of sim.buildings) {
+    if (b.type !== 'battery' || b.isDestroyed || !b.batterySide || !canFireFrom(sim.playMode, player, b.batterySide)) continue;
+    const { missileSpeed, blastRadius, blastDuration } = sim.loadout(b.batterySide);
+    batteries.push({ side: b.batterySide, x: b.x + b.width / 2, y: b.y, ammo: sim.ammo[b.batterySide], missileSpeed, blastRadius, blastDuration });
+  }
+  return {
+    frame: sim.frame,
+    width: sim.width,
+    height: sim.height,
+    groundY: sim.groundY,
+    enemies: sim.missiles.filter(m => m.isEnemy),
+    interceptors: sim.missiles.filter(m => !m.isEnemy),
+    explosions: sim.explosions,
+    buildings: sim.buildings,
+    batteries,
+    damage: sim.damageRules,
+  };
+};
+
+/** Drives `bot` as `player` of a simulation. Call `update` after every step of the simulation. */
+export class BotPilot {
+  private lastThought = -Infinity;
+
+  constructor(readonly bot: Bot, readonly player: PlayerIndex = 0) {}
+
+  update(sim: GameSimulation) {
+    if (sim.status !== 'playing' || sim.frame - this.lastThought < BOT_THINK_FRAMES) return;
+    this.lastThought = sim.frame;
+    this.bot.act(observe(sim, this.player), (x, y, side) => sim.fire(x, y, side, this.player));
+  }
+}
+
+const distance = (a: Point, b: Point) => Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+
+/** Frames until `m` reaches its target, flying straight at its current speed. */
+const framesToImpact = (m: Missile) => distance(m.current, m.target) / m.speed;
+
+/** Where `m` will be `frames` from now, if it keeps flying straight. */
+const positionAfter = (m: Missile, frames: number): Point => {
+  const dist = distance(m.current, m.target);
+  if (dist === 0) return { ...m.current };
+  const travelled = Math.min(dist, m.speed * frames);
+  return {
+    x: m.current.x + ((m.target.x - m.current.x) / dist) * travelled,
+    y: m.current.y + ((m.target.y - m.current.y) / dist) * travelled,
+  };
+};
+
+const closestBattery = (batteries: readonly BotBattery[], to: Point) => {
+  let best: BotBattery | null = null;
+  for (const b of batteries) {
+    if (b.ammo > 0 && (!best || Math.abs(b.x - to.x) < Math.abs(best.x - to.x))) best = b;
+  }
+  return best;
+};
+
+/** Moves each aim point a random distance of up to `error`, spread evenly over that circle. */
+const createShake = ({ error, seed }: BotAim) => {
+  const rng = createRng(seed);
+  return (aim: Point): Point => {
+    if (error <= 0) return aim;
+    const angle = rng.range(0, 2 * Math.PI);
+    const off = error * Math.sqrt(rng.next());
+    return { x: aim.x + Math.cos(angle) * off, y: aim.y + Math.sin(angle) * off };
+  };
+};
+
+/** Enemies already shot at, until the frame their interceptor should have done its work. */
+const createEngagements = () => {
+  const until = new Map<number, number>();
+  return {
+    has: (id: number, frame: number) => (until.get(id) ?? -Infinity) >= frame,
+    add: (id: number, frame: number) => until.set(id, frame),
+  };
+};
+
+/**
+ * Shoots the enemy that will land soonest, one shot at a time, aiming where it will be by the
+ * time an interceptor has flown as far as the enemy is now. Bombers never land, so it leaves them alone.
+ */
+export const createGreedyBot = (aiming: BotAim = PERFECT_AIM): Bot => {
+  const engaged = createEngagements();
+  const shake = createShake(aiming);
+  return {
+    act(view, fire) {
+      let target: Missile | null = null;
+      for (const m of view.enemies) {
+        if (m.kind === 'bomber' || engaged.has(m.id, view.frame)) continue;
+        if (!target || framesToImpact(m) < framesToImpact(target)) target = m;
+      }
+      if (!target) return;
+      const battery = closestBattery(view.batteries, target.current);
+      if (!battery) return;
+      const flight = distance(battery, target.current) / battery.missileSpeed;
+      const shot = shake(positionAfter(target, flight));
+      if (shot.y >= view.groundY || !fire(shot.x, shot.y, battery.side)) return;
+      engaged.add(target.id, view.frame + flight + battery.blastDuration / 2);
+    },
+  };
+};
+
+// Frames after detonation by which a blast has grown to half its size.
+const BLAST_LEAD_FRAMES = 10;
+// Aim points closer than this fraction of a blast radius to another blast count as covered.
+const COVERED_FRACTION = 0.6;
+const MAX_SHOTS_PER_THOUGHT = 2;
+
+/**
+ * Leads its shots: solves for the point where the interceptor's blast and the enemy arrive
+ * together, from whichever battery gets there first. Threats to batteries come before cities,
+ * enemies already inside a blast or heading into one are left to it, enemies aimed at ruins are
+ * only shot at while there is ammo to spare, and it never fires low enough to hit its own buildings.
+ */
+export const createPredictiveBot = (aiming: BotAim = PERFECT_AIM): Bot => {
+  const engaged = createEngagements();
+  const shake = createShake(aiming);
+
+  const intercept = (m: Missile, battery: BotBattery) => {
+    let frames = BLAST_LEAD_FRAMES;
+    let aim = positionAfter(m, frames);
+    for (let i = 0; i < 4; i++) {
+      frames = distance(battery, aim) / battery.missileSpeed + BLAST_LEAD_FRAMES;
+      aim = positionAfter(m, frames);
+    }
+    return { aim, frames };
+  };
+
+  // `planned` holds this turn's own shots, which the view does not show yet.
+  const covered = (view: BotView, planned: readonly Point[], aim: Point, radius: number) =>
+    view.explosions.some(e => e.timer > BLAST_LEAD_FRAMES && distance(e, aim) < e.maxRadius * COVERED_FRACTION) ||
+    view.interceptors.some(i => distance(i.target, aim) < radius * COVERED_FRACTION) ||
+    planned.some(p => distance(p, aim) < radius * COVERED_FRACTION);
+
+  return {
+    act(view, fire) {
+      const { friendlyFireAltitude, friendlyFireDamage } = view.damage;
+      const floor = view.groundY - (friendlyFireDamage > 0 ? friendlyFireAltitude : 0);
+      const ammo = view.batteries.reduce((sum, b) => sum + b.ammo, 0);
+      const standing = new Set(view.buildings.filter(b => !b.isDestroyed).map(b => b.id));
+      const threat = (m: Missile) => {
+        const target = view.buildings.find(b => b.id === m.targetId);
+        if (!target || !standing.has(target.id)) return 2;
+        return target.type === 'battery' ? 0 : 1;
+      };
+      const targets = view.enemies
+        .filter(m => !engaged.has(m.id, view.frame) && (threat(m) < 2 || ammo > 10))
+        .sort((a, b) => threat(a) - threat(b) || framesToImpact(a) - framesToImpact(b));
+
+      const planned: Point[] = [];
+      for (const m of targets) {
+        if (planned.length >= MAX_SHOTS_PER_THOUGHT) break;
+        let best: { battery: BotBattery; aim: Point; frames: number } | null = null;
+        for (const battery of view.batteries) {
+          if (battery.ammo <= 0) continue;
+          const plan = intercept(m, battery);
+          if (!best || plan.frames < best.frames) best = { battery, ...plan };
+        }
+        if (!best) return;
+        const { battery, frames } = best;
+        const aim = shake(best.aim);
+        // Too late: the enemy lands before a blast could reach it.
+        if (m.kind !== 'bomber' && frames > framesToImpact(m)) continue;
+        if (aim.y >= Math.min(floor, view.groundY - battery.blastRadius / 2) || aim.x < 0 || aim.x > view.width) continue;
+        if (covered(view, planned, aim, battery.blastRadius)) {
+          engaged.add(m.id, view.frame + BOT_THINK_FRAMES);
+          continue;
+        }
+        if (!fire(aim.x, aim.y, battery.side)) continue;
+        battery.ammo--;
+        engaged.add(m.id, view.frame + frames + battery.blastDuration / 2);
+        planned.push(aim);
+      }
+    },
+  };
+};
+
+export const BOTS: Record<BotId, (aiming?: BotAim) => Bot> = {
+  greedy: createGreedyBot,
+  predictive: createPredictiveBot,
+};
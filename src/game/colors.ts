@@ -0,0 +1,56 @@
+import { ATTACKER_COLOR, PLAYER_COLORS, type PlayerIndex } from './players';
+import type { EnemyKind, Missile } from './types';
+
+/** Colors the renderer draws moving things in. The level palette still colors the ground and buildings. */
+export type ColorScheme = {
+  missile: (m: Missile) => string;
+  /** Crosshair colors; also used for each player's interceptors. */
+  players: Record<PlayerIndex, string>;
+  attacker: string;
+  /** Outer color of a blast; the core is always white. */
+  blast: string;
+  /** Draws enemy and friendly missiles with different shapes as well as colors. */
+  shapes: boolean;
+};
+
+export const COLOR_SCHEME_IDS = ['standard', 'redGreen', 'blueYellow', 'monochrome'] as const;
+export type ColorSchemeId = (typeof COLOR_SCHEME_IDS)[number];
+
+/** Recolors missiles by enemy kind and by the player who fired them, ignoring the colors the simulation gave them. */
+const byOwner = (enemies: Record<EnemyKind, string>, players: Record<PlayerIndex, string>) => (m: Missile) =>
+  m.isEnemy ? enemies[m.kind ?? 'rocket'] : players[m.owner ?? 0];
+
+const RED_GREEN_PLAYERS: Record<PlayerIndex, string> = { 0: '#56b4e9', 1: '#ffffff', 2: '#0072b2', 3: '#9999ff' };
+const BLUE_YELLOW_PLAYERS: Record<PlayerIndex, string> = { 0: '#44dddd', 1: '#ffffff', 2: '#009e73', 3: '#aaaaaa' };
+const MONOCHROME_PLAYERS: Record<PlayerIndex, string> = { 0: '#8a8a8a', 1: '#6a6a6a', 2: '#aaaaaa', 3: '#5a5a5a' };
+
+/**
+ * `redGreen` suits deuteranopia and protanopia, `blueYellow` tritanopia, and `monochrome` tells
+ * the sides apart by shape alone. The colorblind schemes are built from the Okabe–Ito palette.
+ */
+export const COLOR_SCHEMES: Record<ColorSchemeId, ColorScheme> = {
+  standard: { missile: m => m.color, players: PLAYER_COLORS, attacker: ATTACKER_COLOR, blast: '#ffaa00', shapes: false },
+  redGreen: {
+    missile: byOwner({ rocket: '#e69f00', mirv: '#cc79a7', smart: '#f0e442', bomber: '#d55e00' }, RED_GREEN_PLAYERS),
+    players: RED_GREEN_PLAYERS,
+    attacker: '#e69f00',
+    blast: '#e69f00',
+    shapes: false,
+  },
+  blueYellow: {
+    missile: byOwner({ rocket: '#ff4444', mirv: '#ff66cc', smart: '#ff9999', bomber: '#d55e00' }, BLUE_YELLOW_PLAYERS),
+    players: BLUE_YELLOW_PLAYERS,
+    attacker: '#ff4444',
+    blast: '#ff6644',
+    shapes: false,
+  },
+  monochrome: {
+    missile: byOwner({ rocket: '#ffffff', mirv: '#dddddd', smart: '#eeeeee', bomber: '#cccccc' }, MONOCHROME_PLAYERS),
+    players: MONOCHROME_PLAYERS,
+    attacker: '#ffffff',
+    blast: '#999999',
+    shapes: true,
+  },
+};
+
+export const isColorSchemeId = (value: unknown): value is ColorSchemeId => COLOR_SCHEME_IDS.includes(value as ColorSchemeId);
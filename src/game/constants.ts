@@ -0,0 +1,11 @@
+export const EXPLOSION_RADIUS = 40;
+export const EXPLOSION_DURATION = 60; // frames
+export const MISSILE_SPEED = 4;
+export const INTERCEPT_SCORE = 20;
+export const GROUND_HEIGHT = 40;
+
+// The simulation always advances in whole frames of this length, whatever the display refresh rate.
+export const FRAME_MS = 1000 / 60;
+
+// A battery with this much ammo or less is running low: it sounds an alarm and is announced.
+export const LOW_AMMO = 5;
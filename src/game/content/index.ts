@@ -0,0 +1,84 @@
+import easy from './difficulties/easy.json';
+import medium from './difficulties/medium.json';
+import hard from './difficulties/hard.json';
+import campaign from './levels/campaign.json';
+import classic from './levels/classic.json';
+import lastStand from './levels/last-stand.json';
+import { parseDifficulty, parseLevel, type DifficultyDefinition, type LevelDefinition, type LocalizedText } from './schema';
+
+export { CLASSIC_DAMAGE, levelToJson, parseLevel } from './schema';
+export type {
+  CityPlacement,
+  Curve,
+  DamageRules,
+  DifficultyDefinition,
+  LaunchZone,
+  LevelDefinition,
+  LevelLayout,
+  LocalizedText,
+  Palette,
+  WaveScript,
+  WinCondition,
+} from './schema';
+
+// Shipped content, in the order it is offered in menus. Add new files here.
+const LEVEL_FILES: Record<string, unknown> = {
+  'levels/classic.json': classic,
+  'levels/campaign.json': campaign,
+  'levels/last-stand.json': lastStand,
+};
+const DIFFICULTY_FILES: Record<string, unknown> = {
+  'difficulties/easy.json': easy,
+  'difficulties/medium.json': medium,
+  'difficulties/hard.json': hard,
+};
+
+export const DEFAULT_LEVEL_ID = 'classic';
+export const DEFAULT_DIFFICULTY_ID = 'medium';
+
+/** Problems found while loading content, one message per bad file. Bad files are left out. */
+export const CONTENT_ERRORS: string[] = [];
+
+const load = <T extends { id: string }>(files: Record<string, unknown>, parse: (raw: unknown, file: string) => T) => {
+  const loaded: T[] = [];
+  for (const [file, raw] of Object.entries(files)) {
+    try {
+      const entry = parse(raw, file);
+      const clash = loaded.find(other => other.id === entry.id);
+      if (clash) throw new Error(`${file}: id "${entry.id}" is already used by another file`);
+      loaded.push(entry);
+    } catch (error) {
+      CONTENT_ERRORS.push((error as Error).message);
+    }
+  }
+  return loaded;
+};
+
+export const LEVELS: readonly LevelDefinition[] = load(LEVEL_FILES, parseLevel);
+export const DIFFICULTIES: readonly DifficultyDefinition[] = load(DIFFICULTY_FILES, parseDifficulty);
+
+if (!LEVELS.some(l => l.id === DEFAULT_LEVEL_ID)) CONTENT_ERRORS.push(`Default level "${DEFAULT_LEVEL_ID}" is missing`);
+if (!DIFFICULTIES.some(d => d.id === DEFAULT_DIFFICULTY_ID)) CONTENT_ERRORS.push(`Default difficulty "${DEFAULT_DIFFICULTY_ID}" is missing`);
+
+/** Whether `level` is one of the shipped levels rather than one built in the editor. */
+export const isShippedLevel = (level: LevelDefinition) => LEVELS.includes(level);
+
+export const isLevelId = (id: unknown): id is string => LEVELS.some(l => l.id === id);
+export const isDifficultyId = (id: unknown): id is string => DIFFICULTIES.some(d => d.id === id);
+
+/** Looks up a level by id. Throws for unknown ids; check untrusted ids with `isLevelId` first. */
+export const getLevel = (id: string) => {
+  const level = LEVELS.find(l => l.id === id);
+  if (!level) throw new Error(`Unknown level: ${id}`);
+  return level;
+};
+
+/** Looks up a difficulty by id. Throws for unknown ids; check untrusted ids with `isDifficultyId` first. */
+export const getDifficulty = (id: string) => {
+  const difficulty = DIFFICULTIES.find(d => d.id === id);
+  if (!difficulty) throw new Error(`Unknown difficulty: ${id}`);
+  return difficulty;
+};
+
+/** `text` in `language`, falling back to English. */
+export const localize = (text: LocalizedText, language: string) => text[language] ?? text.en;
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import classic from './levels/classic.json';
+import medium from './difficulties/medium.json';
+import { CONTENT_ERRORS, LEVELS } from './index';
+import { CLASSIC_DAMAGE, levelToJson, parseDifficulty, parseLevel } from './schema';
+
+/** A copy of `value` with `patch` merged in at the top level. */
+const withChanges = (value: object, patch: object) => ({ ...structuredClone(value), ...patch });
+
+test('the shipped levels and difficulties are all valid', () => {
+  assert.deepEqual(CONTENT_ERRORS, []);
+});
+
+test('levelToJson writes a level that parseLevel reads back unchanged', () => {
+  for (const level of LEVELS) {
+    const json = JSON.parse(JSON.stringify(levelToJson(level)));
+    assert.deepEqual(parseLevel(json, level.id), level);
+  }
+});
+
+test('parseLevel names the file and field of the first problem', () => {
+  assert.throws(() => parseLevel(null, 'a.json'), /a\.json: must be an object/);
+  assert.throws(() => parseLevel(withChanges(classic, { extra: 1 }), 'a.json'), /a\.json: .*extra/);
+  assert.throws(() => parseLevel(withChanges(classic, { win: { type: 'score', target: -5 } }), 'a.json'), /"win\.target"/);
+  assert.throws(() => parseLevel(withChanges(classic, { win: { type: 'forever' } }), 'a.json'), /"win\.type"/);
+  assert.throws(() => parseLevel(withChanges(classic, { loseWhen: ['moon'] }), 'a.json'), /"loseWhen\.0"/);
+});
+
+test('parseDifficulty falls back to the classic damage rules', () => {
+  const withoutDamage: Record<string, unknown> = structuredClone(medium);
+  delete withoutDamage.damage;
+  assert.deepEqual(parseDifficulty(withoutDamage, 'd.json').damage, CLASSIC_DAMAGE);
+  assert.throws(() => parseDifficulty(withChanges(medium, { speedMult: 0 }), 'd.json'), /"speedMult"/);
+});
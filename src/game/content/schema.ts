@@ -0,0 +1,484 @@
+import type { BatterySide, Building, EnemyKind } from '../types';
+
+/** Text shown to players. English is required and used when a language has no entry. */
+export type LocalizedText = { en: string } & Partial<Record<string, string>>;
+
+/**
+ * A number that changes as the run progresses: `start + (x / per) * step`, clamped to
+ * `[min, max]`, where `x` is the score, the seconds survived or the number of waves
+ * already cleared, depending on `by`.
+ */
+export type Curve = {
+  by: 'score' | 'time' | 'wave';
+  start: number;
+  step: number;
+  per: number;
+  min: number;
+  max: number;
+};
+
+/** How often enemies aim at a building relative to the others; 1 is normal, 0 never. */
+type Targeted = { targetWeight: number };
+
+export type BatteryLayout = Targeted & {
+  width: number;
+  height: number;
+  /** Center as a fraction of the screen width. Left out, the battery sits in its side's slot. */
+  x?: number;
+};
+
+export type CityPlacement = Targeted & { x: number };
+
+/**
+ * Sizes are in pixels at the 900px design width. Batteries sit at the left edge, the middle
+ * and the right edge unless given an `x`; a side left out has no battery. Cities are either
+ * spread evenly between the battery slots (`perFlank` on each side of the middle) or placed
+ * at `positions`, given as fractions of the screen width.
+ */
+export type LevelLayout = {
+  batteries: Partial<Record<BatterySide, BatteryLayout>>;
+  cities: { width: number; height: number; perFlank?: number; positions?: CityPlacement[] };
+};
+
+/** Stretch of the top edge enemies launch from, as fractions of the screen width. */
+export type LaunchZone = { from: number; to: number; weight: number };
+
+/** One scripted wave; replaces the wave curves for that wave. */
+export type WaveScript = { rockets: number; intervalMs: number; speedScale: number };
+
+export type WinCondition =
+  | { type: 'score'; target: number }
+  | { type: 'time'; seconds: number }
+  | { type: 'waves'; count: number };
+
+export type Palette = {
+  /** Fills the sky behind everything. Left out, the page background shows through. */
+  sky?: string;
+  ground: string;
+  city: string;
+  battery: string;
+  turret: string;
+};
+
+export type LevelDefinition = {
+  id: string;
+  name: LocalizedText;
+  description?: LocalizedText;
+  layout: LevelLayout;
+  /** Interceptors per battery before upgrades. */
+  ammo: Record<BatterySide, number>;
+  enemies: {
+    /** Multiplier on each difficulty's spawn weights; 0 keeps a kind out of the level. */
+    mix: Record<EnemyKind, number>;
+    /** Launch speed range in px/frame, before curves and difficulty. */
+    speed: { min: number; max: number };
+    /** Where on the top edge enemies launch from. Left out, anywhere. */
+    launchZones?: LaunchZone[];
+  };
+  spawn: {
+    /** Milliseconds between two launches, before the difficulty multiplier. */
+    interval: Curve;
+    /** Multiplier on the launch speed range. */
+    speedScale: Curve;
+  };
+  /** Only for levels won by clearing waves. */
+  waves?: {
+    rockets: Curve;
+    intermissionMs: number;
+    /** Scripted waves, from the first on. Waves past the end follow the curves. */
+    timeline?: WaveScript[];
+  };
+  win: WinCondition;
+  /** The run is lost once every building of one of these types is destroyed. */
+  loseWhen: ('batteries' | 'cities')[];
+  palette: Palette;
+};
+
+export type DifficultyDefinition = {
+  id: string;
+  name: LocalizedText;
+  speedMult: number;
+  spawnMult: number;
+  /** Relative chance of each enemy kind; levels scale these with their own mix. */
+  enemyWeights: Record<EnemyKind, number>;
+  damage: DamageRules;
+};
+
+/** How warheads, blasts and debris hurt buildings. Damage is counted in whole hit points. */
+export type DamageRules = {
+  /** Hit points each kind of building starts with. */
+  hitPoints: Record<Building['type'], number>;
+  /** Dealt to buildings a warhead lands on directly. */
+  impactDamage: number;
+  /** Buildings this far from a warhead, but not hit directly, take `splashDamage`. No further than the direct-hit range means no splash. */
+  splashRadius: number;
+  splashDamage: number;
+  /** Interceptor blasts closer than this to the ground damage buildings inside them, for `friendlyFireDamage`. */
+  friendlyFireAltitude: number;
+  friendlyFireDamage: number;
+  /** Enemies caught in an enemy blast go off as warheads themselves instead of counting as kills. */
+  enemyChains: boolean;
+  /** Dealt by each piece of burning debris a destroyed battery scatters. 0 means batteries keep their ammo when destroyed. */
+  debrisDamage: number;
+};
+
+/** The original rules: every hit destroys, nothing splashes, and only enemies hurt buildings. Used for files without `damage`. */
+export const CLASSIC_DAMAGE: DamageRules = {
+  hitPoints: { city: 1, battery: 1 },
+  impactDamage: 1,
+  splashRadius: 0,
+  splashDamage: 0,
+  friendlyFireAltitude: 0,
+  friendlyFireDamage: 0,
+  enemyChains: false,
+  debrisDamage: 0,
+};
+
+const SIDES: BatterySide[] = ['left', 'center', 'right'];
+const ENEMY_KINDS: EnemyKind[] = ['rocket', 'mirv', 'smart', 'bomber'];
+const BUILDING_TYPES: Building['type'][] = ['city', 'battery'];
+const CURVE_INPUTS: Curve['by'][] = ['score', 'time', 'wave'];
+const WIN_TYPES: WinCondition['type'][] = ['score', 'time', 'waves'];
+const LOSE_TYPES: LevelDefinition['loseWhen'][number][] = ['batteries', 'cities'];
+const ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Walks one content file. Every check reports the full path of the offending field, e.g.
+ * `levels/classic.json: "spawn.interval.step" must be a number`.
+ */
+class Reader {
+  constructor(private readonly file: string) {}
+
+  fail(path: string, problem: string): never {
+    throw new Error(`${this.file}: ${path ? `"${path}" ` : ''}${problem}`);
+  }
+
+  object(value: unknown, path: string): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) this.fail(path, 'must be an object');
+    return value as Record<string, unknown>;
+  }
+
+  number(value: unknown, path: string, { min = -Infinity, integer = false } = {}) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) this.fail(path, 'must be a number');
+    if (integer && !Number.isInteger(value)) this.fail(path, 'must be a whole number');
+    if (value < min) this.fail(path, `must be at least ${min}`);
+    return value;
+  }
+
+  fraction(value: unknown, path: string) {
+    const n = this.number(value, path, { min: 0 });
+    if (n > 1) this.fail(path, 'must be a fraction of the screen width between 0 and 1');
+    return n;
+  }
+
+  targetWeight(value: unknown, path: string) {
+    return value === undefined ? 1 : this.number(value, path, { min: 0 });
+  }
+
+  array(value: unknown, path: string) {
+    if (!Array.isArray(value) || value.length === 0) this.fail(path, 'must be a non-empty array');
+    return value as unknown[];
+  }
+
+  positive(value: unknown, path: string) {
+    const n = this.number(value, path);
+    if (n <= 0) this.fail(path, 'must be greater than 0');
+    return n;
+  }
+
+  string(value: unknown, path: string) {
+    if (typeof value !== 'string' || value.trim() === '') this.fail(path, 'must be a non-empty string');
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, options: readonly T[], path: string): T {
+    if (!options.includes(value as T)) this.fail(path, `must be one of ${options.map(o => `"${o}"`).join(', ')}`);
+    return value as T;
+  }
+
+  color(value: unknown, path: string) {
+    const color = this.string(value, path);
+    if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)) this.fail(path, 'must be a hex color like "#2d2d44"');
+    return color;
+  }
+
+  id(value: unknown) {
+    const id = this.string(value, 'id');
+    if (!ID_PATTERN.test(id)) this.fail('id', 'may only contain lowercase letters, digits and dashes');
+    return id;
+  }
+
+  text(value: unknown, path: string): LocalizedText {
+    const raw = this.object(value, path);
+    const text: LocalizedText = { en: this.string(raw.en, `${path}.en`) };
+    for (const [language, entry] of Object.entries(raw)) text[language] = this.string(entry, `${path}.${language}`);
+    return text;
+  }
+
+  weights(value: unknown, path: string): Record<EnemyKind, number> {
+    const raw = this.object(value, path);
+    this.noExtraKeys(raw, ENEMY_KINDS, path);
+    const weights = {} as Record<EnemyKind, number>;
+    for (const kind of ENEMY_KINDS) weights[kind] = this.number(raw[kind] ?? 0, `${path}.${kind}`, { min: 0 });
+    if (ENEMY_KINDS.every(kind => weights[kind] === 0)) this.fail(path, 'must give at least one enemy kind a weight above 0');
+    return weights;
+  }
+
+  curve(value: unknown, path: string, allowWave: boolean): Curve {
+    const raw = this.object(value, path);
+    this.noExtraKeys(raw, ['by', 'start', 'step', 'per', 'min', 'max'], path);
+    const by = this.oneOf(raw.by, CURVE_INPUTS, `${path}.by`);
+    if (by === 'wave' && !allowWave) this.fail(`${path}.by`, 'can only be "wave" in levels won by clearing waves');
+    const curve: Curve = {
+      by,
+      start: this.number(raw.start, `${path}.start`),
+      step: this.number(raw.step ?? 0, `${path}.step`),
+      per: this.positive(raw.per ?? 1, `${path}.per`),
+      min: raw.min === undefined ? -Infinity : this.number(raw.min, `${path}.min`),
+      max: raw.max === undefined ? Infinity : this.number(raw.max, `${path}.max`),
+    };
+    if (curve.min > curve.max) this.fail(`${path}.min`, 'must not be greater than "max"');
+    return curve;
+  }
+
+  /** Catches typos such as `"sapwn"`, which would otherwise silently fall back to a default. */
+  boolean(value: unknown, path: string) {
+    if (typeof value !== 'boolean') this.fail(path, 'must be true or false');
+    return value;
+  }
+
+  /** Fields left out keep their classic value. */
+  damage(value: unknown, path: string): DamageRules {
+    const raw = this.object(value, path);
+    this.noExtraKeys(raw, Object.keys(CLASSIC_DAMAGE), path);
+    const count = (key: Exclude<keyof DamageRules, 'hitPoints' | 'enemyChains'>) =>
+      raw[key] === undefined ? CLASSIC_DAMAGE[key] : this.number(raw[key], `${path}.${key}`, { min: 0, integer: key !== 'splashRadius' && key !== 'friendlyFireAltitude' });
+    const hitPoints = { ...CLASSIC_DAMAGE.hitPoints };
+    if (raw.hitPoints !== undefined) {
+      const hp = this.object(raw.hitPoints, `${path}.hitPoints`);
+      this.noExtraKeys(hp, BUILDING_TYPES, `${path}.hitPoints`);
+      for (const type of BUILDING_TYPES) {
+        if (hp[type] !== undefined) hitPoints[type] = this.number(hp[type], `${path}.hitPoints.${type}`, { min: 1, integer: true });
+      }
+    }
+    return {
+      hitPoints,
+      impactDamage: count('impactDamage'),
+      splashRadius: count('splashRadius'),
+      splashDamage: count('splashDamage'),
+      friendlyFireAltitude: count('friendlyFireAltitude'),
+      friendlyFireDamage: count('friendlyFireDamage'),
+      enemyChains: raw.enemyChains === undefined ? CLASSIC_DAMAGE.enemyChains : this.boolean(raw.enemyChains, `${path}.enemyChains`),
+      debrisDamage: count('debrisDamage'),
+    };
+  }
+
+  noExtraKeys(raw: Record<string, unknown>, allowed: readonly string[], path: string) {
+    const extra = Object.keys(raw).find(key => !allowed.includes(key) && key !== '$schema');
+    if (extra) this.fail(path ? `${path}.${extra}` : extra, 'is not a known field');
+  }
+}
+
+const LEVEL_KEYS = ['id', 'name', 'description', 'layout', 'ammo', 'enemies', 'spawn', 'waves', 'win', 'loseWhen', 'palette'];
+
+/** Validates a parsed level file. Throws an `Error` naming `file` and the first bad field. */
+export const parseLevel = (raw: unknown, file: string): LevelDefinition => {
+  // Annotated so TypeScript treats `r.fail(...)` as ending the branch.
+  const r: Reader = new Reader(file);
+  const level = r.object(raw, '');
+  r.noExtraKeys(level, LEVEL_KEYS, '');
+
+  const win = r.object(level.win, 'win');
+  const winType = r.oneOf(win.type, WIN_TYPES, 'win.type');
+  let winCondition: WinCondition;
+  if (winType === 'score') {
+    r.noExtraKeys(win, ['type', 'target'], 'win');
+    winCondition = { type: 'score', target: r.positive(win.target, 'win.target') };
+  } else if (winType === 'time') {
+    r.noExtraKeys(win, ['type', 'seconds'], 'win');
+    winCondition = { type: 'time', seconds: r.positive(win.seconds, 'win.seconds') };
+  } else {
+    r.noExtraKeys(win, ['type', 'count'], 'win');
+    winCondition = { type: 'waves', count: r.number(win.count, 'win.count', { min: 1, integer: true }) };
+  }
+  const hasWaves = winType === 'waves';
+
+  const layout = r.object(level.layout, 'layout');
+  r.noExtraKeys(layout, ['batteries', 'cities'], 'layout');
+  const rawBatteries = r.object(layout.batteries, 'layout.batteries');
+  r.noExtraKeys(rawBatteries, SIDES, 'layout.batteries');
+  const batteries: LevelLayout['batteries'] = {};
+  for (const side of SIDES) {
+    if (rawBatteries[side] === undefined) continue;
+    const path = `layout.batteries.${side}`;
+    const battery = r.object(rawBatteries[side], path);
+    r.noExtraKeys(battery, ['width', 'height', 'x', 'targetWeight'], path);
+    batteries[side] = {
+      width: r.positive(battery.width, `${path}.width`),
+      height: r.positive(battery.height, `${path}.height`),
+      ...(battery.x !== undefined && { x: r.fraction(battery.x, `${path}.x`) }),
+      targetWeight: r.targetWeight(battery.targetWeight, `${path}.targetWeight`),
+    };
+  }
+  if (Object.keys(batteries).length === 0) r.fail('layout.batteries', 'must place at least one battery');
+
+  const rawCities = r.object(layout.cities, 'layout.cities');
+  r.noExtraKeys(rawCities, ['width', 'height', 'perFlank', 'positions'], 'layout.cities');
+  const cities: LevelLayout['cities'] = {
+    width: r.positive(rawCities.width, 'layout.cities.width'),
+    height: r.positive(rawCities.height, 'layout.cities.height'),
+  };
+  if ((rawCities.perFlank === undefined) === (rawCities.positions === undefined)) {
+    r.fail('layout.cities', 'needs exactly one of "perFlank" or "positions"');
+  }
+  if (rawCities.perFlank !== undefined) {
+    cities.perFlank = r.number(rawCities.perFlank, 'layout.cities.perFlank', { min: 1, integer: true });
+  } else {
+    // A bare number is a city at that position with the normal target weight.
+    cities.positions = r.array(rawCities.positions, 'layout.cities.positions').map((entry, i) => {
+      const path = `layout.cities.positions.${i}`;
+      if (typeof entry === 'number') return { x: r.fraction(entry, path), targetWeight: 1 };
+      const city = r.object(entry, path);
+      r.noExtraKeys(city, ['x', 'targetWeight'], path);
+      return { x: r.fraction(city.x, `${path}.x`), targetWeight: r.targetWeight(city.targetWeight, `${path}.targetWeight`) };
+    });
+  }
+
+  const rawAmmo = r.object(level.ammo, 'ammo');
+  r.noExtraKeys(rawAmmo, SIDES, 'ammo');
+  const ammo = {} as Record<BatterySide, number>;
+  for (const side of SIDES) ammo[side] = r.number(rawAmmo[side] ?? 0, `ammo.${side}`, { min: 0, integer: true });
+
+  const enemies = r.object(level.enemies, 'enemies');
+  r.noExtraKeys(enemies, ['mix', 'speed', 'launchZones'], 'enemies');
+  const speed = r.object(enemies.speed, 'enemies.speed');
+  r.noExtraKeys(speed, ['min', 'max'], 'enemies.speed');
+  const speedMin = r.positive(speed.min, 'enemies.speed.min');
+  const speedMax = r.positive(speed.max, 'enemies.speed.max');
+  if (speedMin > speedMax) r.fail('enemies.speed.min', 'must not be greater than "max"');
+  const launchZones = enemies.launchZones === undefined ? undefined : r.array(enemies.launchZones, 'enemies.launchZones').map((entry, i) => {
+    const path = `enemies.launchZones.${i}`;
+    const zone = r.object(entry, path);
+    r.noExtraKeys(zone, ['from', 'to', 'weight'], path);
+    const from = r.fraction(zone.from, `${path}.from`);
+    const to = r.fraction(zone.to, `${path}.to`);
+    if (from >= to) r.fail(`${path}.from`, 'must be less than "to"');
+    return { from, to, weight: r.positive(zone.weight ?? 1, `${path}.weight`) };
+  });
+
+  const spawn = r.object(level.spawn, 'spawn');
+  r.noExtraKeys(spawn, ['interval', 'speedScale'], 'spawn');
+
+  let waves: LevelDefinition['waves'];
+  if (hasWaves) {
+    const rawWaves = r.object(level.waves, 'waves');
+    r.noExtraKeys(rawWaves, ['rockets', 'intermissionMs', 'timeline'], 'waves');
+    waves = {
+      rockets: r.curve(rawWaves.rockets, 'waves.rockets', true),
+      intermissionMs: r.number(rawWaves.intermissionMs, 'waves.intermissionMs', { min: 0 }),
+    };
+    if (rawWaves.timeline !== undefined) {
+      waves.timeline = r.array(rawWaves.timeline, 'waves.timeline').map((entry, i) => {
+        const path = `waves.timeline.${i}`;
+        const wave = r.object(entry, path);
+        r.noExtraKeys(wave, ['rockets', 'intervalMs', 'speedScale'], path);
+        return {
+          rockets: r.number(wave.rockets, `${path}.rockets`, { min: 1, integer: true }),
+          intervalMs: r.positive(wave.intervalMs, `${path}.intervalMs`),
+          speedScale: r.positive(wave.speedScale, `${path}.speedScale`),
+        };
+      });
+    }
+  } else if (level.waves !== undefined) {
+    r.fail('waves', 'is only used by levels won by clearing waves');
+  }
+
+  if (!Array.isArray(level.loseWhen)) r.fail('loseWhen', 'must be an array');
+  const loseWhen = level.loseWhen.map((entry, i) => r.oneOf(entry, LOSE_TYPES, `loseWhen.${i}`));
+
+  const palette = r.object(level.palette, 'palette');
+  r.noExtraKeys(palette, ['sky', 'ground', 'city', 'battery', 'turret'], 'palette');
+
+  return {
+    id: r.id(level.id),
+    name: r.text(level.name, 'name'),
+    ...(level.description !== undefined && { description: r.text(level.description, 'description') }),
+    layout: { batteries, cities },
+    ammo,
+    enemies: {
+      mix: r.weights(enemies.mix, 'enemies.mix'),
+      speed: { min: speedMin, max: speedMax },
+      ...(launchZones && { launchZones }),
+    },
+    spawn: {
+      interval: r.curve(spawn.interval, 'spawn.interval', hasWaves),
+      speedScale: r.curve(spawn.speedScale, 'spawn.speedScale', hasWaves),
+    },
+    ...(waves && { waves }),
+    win: winCondition,
+    loseWhen,
+    palette: {
+      ...(palette.sky !== undefined && { sky: r.color(palette.sky, 'palette.sky') }),
+      ground: r.color(palette.ground, 'palette.ground'),
+      city: r.color(palette.city, 'palette.city'),
+      battery: r.color(palette.battery, 'palette.battery'),
+      turret: r.color(palette.turret, 'palette.turret'),
+    },
+  };
+};
+
+const curveToJson = ({ by, start, step, per, min, max }: Curve) => ({
+  by,
+  start,
+  ...(step !== 0 && { step }),
+  ...(per !== 1 && { per }),
+  ...(Number.isFinite(min) && { min }),
+  ...(Number.isFinite(max) && { max }),
+});
+
+/**
+ * The file form of `level`, ready for `JSON.stringify`: unbounded curve limits are left out
+ * (JSON has no Infinity) and so are default target weights. `parseLevel` reads it back unchanged.
+ */
+export const levelToJson = (level: LevelDefinition) => {
+  const { batteries, cities } = level.layout;
+  const weight = ({ targetWeight }: Targeted) => (targetWeight !== 1 ? { targetWeight } : {});
+  return {
+    id: level.id,
+    name: level.name,
+    ...(level.description && { description: level.description }),
+    layout: {
+      batteries: Object.fromEntries(
+        Object.entries(batteries).map(([side, b]) => [side, { width: b.width, height: b.height, ...(b.x !== undefined && { x: b.x }), ...weight(b) }]),
+      ),
+      cities: {
+        width: cities.width,
+        height: cities.height,
+        ...(cities.perFlank !== undefined && { perFlank: cities.perFlank }),
+        ...(cities.positions && { positions: cities.positions.map(c => (c.targetWeight === 1 ? c.x : { x: c.x, ...weight(c) })) }),
+      },
+    },
+    ammo: level.ammo,
+    enemies: level.enemies,
+    spawn: { interval: curveToJson(level.spawn.interval), speedScale: curveToJson(level.spawn.speedScale) },
+    ...(level.waves && { waves: { ...level.waves, rockets: curveToJson(level.waves.rockets) } }),
+    win: level.win,
+    loseWhen: level.loseWhen,
+    palette: level.palette,
+  };
+};
+
+/** Validates a parsed difficulty file. Throws an `Error` naming `file` and the first bad field. */
+export const parseDifficulty = (raw: unknown, file: string): DifficultyDefinition => {
+  const r: Reader = new Reader(file);
+  const difficulty = r.object(raw, '');
+  r.noExtraKeys(difficulty, ['id', 'name', 'speedMult', 'spawnMult', 'enemyWeights', 'damage'], '');
+  return {
+    id: r.id(difficulty.id),
+    name: r.text(difficulty.name, 'name'),
+    speedMult: r.positive(difficulty.speedMult, 'speedMult'),
+    spawnMult: r.positive(difficulty.spawnMult, 'spawnMult'),
+    enemyWeights: r.weights(difficulty.enemyWeights, 'enemyWeights'),
+    damage: difficulty.damage === undefined ? CLASSIC_DAMAGE : r.damage(difficulty.damage, 'damage'),
+  };
+};
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { BotPilot, createPredictiveBot } from './bots';
+import {
+  dailyOptions,
+  dailyResult,
+  dailySeed,
+  dailyStreak,
+  decodeDailyCode,
+  encodeDailyCode,
+  recordDailyAttempt,
+  recordDailyResult,
+  verifyDailyCode,
+} from './daily';
+import { GameSimulation } from './simulation';
+
+const DAY = '2026-10-19';
+
+/** Lets the predictive bot play the first half minute of `day`'s run. */
+const playDay = (day: string) => {
+  const sim = new GameSimulation(dailyOptions(day));
+  const pilot = new BotPilot(createPredictiveBot());
+  while (sim.status === 'playing' && sim.frame < 1800) {
+    pilot.update(sim);
+    sim.tick();
+  }
+  return sim;
+};
+
+test('every player gets the same seed on the same day', () => {
+  assert.equal(dailySeed(DAY), dailySeed(DAY));
+  assert.notEqual(dailySeed(DAY), dailySeed('2026-10-20'));
+});
+
+test('a result code decodes to the run it was made from', () => {
+  const sim = playDay(DAY);
+  const result = dailyResult(DAY, sim);
+  const decoded = decodeDailyCode(encodeDailyCode(result, sim.frame, sim.inputs));
+  assert.deepEqual(decoded.result, result);
+  assert.equal(decoded.frames, sim.frame);
+  assert.equal(decoded.inputs.length, sim.inputs.length);
+});
+
+test('a result code verifies by playing its shots again', () => {
+  const sim = playDay(DAY);
+  const result = dailyResult(DAY, sim);
+  assert.ok(sim.inputs.length > 0);
+  const verification = verifyDailyCode(encodeDailyCode(result, sim.frame, sim.inputs));
+  assert.ok(verification.valid);
+  assert.deepEqual(verification.actual, result);
+});
+
+test('a result code claiming a better score fails verification', () => {
+  const sim = playDay(DAY);
+  const result = dailyResult(DAY, sim);
+  const verification = verifyDailyCode(encodeDailyCode({ ...result, score: result.score + 100 }, sim.frame, sim.inputs));
+  assert.equal(verification.valid, false);
+  assert.equal(verification.actual.score, result.score);
+});
+
+test('decodeDailyCode rejects anything that is not a whole result code', () => {
+  const sim = playDay(DAY);
+  const code = encodeDailyCode(dailyResult(DAY, sim), sim.frame, sim.inputs);
+  assert.throws(() => decodeDailyCode('hello'), /start with/);
+  assert.throws(() => decodeDailyCode(code.slice(0, 20)), /cut short|damaged/);
+  assert.throws(() => decodeDailyCode(`${code}AAAA`), /trailing data|damaged/);
+});
+
+test('the streak counts days in a row up to today, or yesterday while today is unplayed', () => {
+  const result = { day: '2026-10-18', score: 100, citiesSaved: 3, cities: 5, accuracy: 50 };
+  const history = recordDailyResult(recordDailyAttempt({}, '2026-10-17'), result, 'NOVA-code');
+  assert.equal(dailyStreak(history, '2026-10-19'), 2);
+  assert.equal(dailyStreak(recordDailyAttempt(history, '2026-10-19'), '2026-10-19'), 3);
+  assert.equal(dailyStreak(history, '2026-10-21'), 0);
+});
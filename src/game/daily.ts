@@ -0,0 +1,252 @@
+import { DEFAULT_DIFFICULTY_ID } from './content';
+import { REPLAY_VERSION, ReplayPlayer, type Replay } from './replay';
+import type { GameSimulation, SimulationOptions } from './simulation';
+import { summarizeStats } from './stats';
+import type { BatterySide, SimInput } from './types';
+import { createUpgrades } from './upgrades';
+import { NO_WEAPONS } from './weapons';
+
+/** Everyone plays the daily run on the same level, difficulty and world size, without upgrades or special weapons. */
+export const DAILY_LEVEL_ID = 'last-stand';
+export const DAILY_DIFFICULTY_ID = DEFAULT_DIFFICULTY_ID;
+export const DAILY_WORLD = { width: 900, height: 600 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The day `now` falls on, as `YYYY-MM-DD`. Days roll over at midnight UTC, so everyone shares the same one. */
+export const dailyDay = (now = new Date()) => now.toISOString().slice(0, 10);
+
+const shiftDay = (day: string, days: number) => dailyDay(new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS));
+
+const isDay = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && dailyDay(new Date(`${value}T00:00:00Z`)) === value;
+
+/** Seed of `day`'s run: an FNV-1a hash of the date, so every player derives the same one without asking a server. */
+export const dailySeed = (day: string) => {
+  let hash = 0x811c9dc5;
+  for (const char of `nova-daily:${day}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const dailyOptions = (day: string): SimulationOptions => ({
+  ...DAILY_WORLD,
+  difficulty: DAILY_DIFFICULTY_ID,
+  mode: DAILY_LEVEL_ID,
+  seed: dailySeed(day),
+  upgrades: createUpgrades(),
+});
+
+export type DailyResult = {
+  day: string;
+  score: number;
+  citiesSaved: number;
+  cities: number;
+  /** Interceptions per shot, in whole percent. Chains can take it past 100. */
+  accuracy: number;
+};
+
+export const dailyResult = (day: string, sim: GameSimulation): DailyResult => {
+  const cities = sim.buildings.filter(b => b.type === 'city');
+  return {
+    day,
+    score: sim.score,
+    citiesSaved: cities.filter(b => !b.isDestroyed).length,
+    cities: cities.length,
+    accuracy: Math.round(summarizeStats(sim.stats).accuracy * 100),
+  };
+};
+
+const sameResult = (a: DailyResult, b: DailyResult) =>
+  a.day === b.day && a.score === b.score && a.citiesSaved === b.citiesSaved && a.cities === b.cities && a.accuracy === b.accuracy;
+
+/** Cities saved and accuracy as rows of squares, for pasting into a chat. */
+export const dailyGrid = ({ citiesSaved, cities, accuracy }: DailyResult) => {
+  const filled = Math.min(10, Math.round(accuracy / 10));
+  return ['🏙️'.repeat(citiesSaved) + '💥'.repeat(cities - citiesSaved), '🟩'.repeat(filled) + '⬛'.repeat(10 - filled)].join('\n');
+};
+
+// --- Result codes ---
+
+const CODE_PREFIX = 'NOVA-';
+// Bumped whenever codes stop decoding the same way or the rules stop replaying old runs.
+const CODE_VERSION = 1;
+const SIDES: (BatterySide | undefined)[] = [undefined, 'left', 'center', 'right'];
+
+/**
+ * Packs the result together with every shot of the run, so whoever gets the code can play the
+ * run again and check the claim. Bytes are varints: version, day (days since 1970), score,
+ * cities saved, cities, accuracy, frames played, shot count, then per shot the frames since the
+ * previous one shifted left past the battery (0 for auto), and x and y in tenths of a pixel, zigzagged.
+ */
+export const encodeDailyCode = (result: DailyResult, frames: number, inputs: readonly SimInput[]) => {
+  const bytes: number[] = [];
+  const varint = (n: number) => {
+    for (; n >= 0x80; n = Math.floor(n / 0x80)) bytes.push((n % 0x80) | 0x80);
+    bytes.push(n);
+  };
+  const zigzag = (n: number) => varint(n < 0 ? -2 * n - 1 : 2 * n);
+
+  varint(CODE_VERSION);
+  varint(Date.parse(`${result.day}T00:00:00Z`) / DAY_MS);
+  [result.score, result.citiesSaved, result.cities, result.accuracy, frames, inputs.length].forEach(varint);
+  let frame = 0;
+  for (const input of inputs) {
+    if (input.type !== 'fire' || input.player || input.weapon) throw new Error(`Daily runs cannot record "${input.type}" inputs`);
+    varint((input.frame - frame) * 4 + SIDES.indexOf(input.side));
+    zigzag(Math.round(input.x * 10));
+    zigzag(Math.round(input.y * 10));
+    frame = input.frame;
+  }
+
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return CODE_PREFIX + btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/** Unpacks a result code. Throws an `Error` if it is not one. */
+export const decodeDailyCode = (code: string) => {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(CODE_PREFIX)) throw new Error(`Result codes start with ${CODE_PREFIX}`);
+  let binary: string;
+  try {
+    binary = atob(trimmed.slice(CODE_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/'));
+  } catch {
+    throw new Error('Result code is damaged');
+  }
+
+  let offset = 0;
+  const varint = () => {
+    let n = 0;
+    for (let scale = 1; ; scale *= 0x80) {
+      if (offset >= binary.length) throw new Error('Result code is cut short');
+      const byte = binary.charCodeAt(offset++);
+      n += (byte & 0x7f) * scale;
+      if (byte < 0x80) return n;
+    }
+  };
+  const zigzag = () => {
+    const n = varint();
+    return n % 2 ? -(n + 1) / 2 : n / 2;
+  };
+
+  const version = varint();
+  if (version !== CODE_VERSION) throw new Error(`Unsupported result code version: ${version}`);
+  const day = dailyDay(new Date(varint() * DAY_MS));
+  const [score, citiesSaved, cities, accuracy, frames, count] = Array.from({ length: 6 }, varint);
+  const inputs: SimInput[] = [];
+  let frame = 0;
+  for (let i = 0; i < count; i++) {
+    const packed = varint();
+    frame += Math.floor(packed / 4);
+    const side = SIDES[packed % 4];
+    const x = zigzag() / 10;
+    const y = zigzag() / 10;
+    inputs.push({ frame, type: 'fire', x, y, ...(side && { side }) });
+  }
+  if (offset !== binary.length) throw new Error('Result code has trailing data');
+  return { result: { day, score, citiesSaved, cities, accuracy }, frames, inputs };
+};
+
+export type DailyVerification = {
+  claimed: DailyResult;
+  /** What playing the code's shots on its day actually gives. */
+  actual: DailyResult;
+  valid: boolean;
+  /** The recomputed run, for watching. */
+  replay: Replay;
+};
+
+/** Plays the run inside a result code again and compares the outcome with what the code claims. */
+export const verifyDailyCode = (code: string): DailyVerification => {
+  const { result: claimed, frames, inputs } = decodeDailyCode(code);
+  const { width, height, difficulty, seed } = dailyOptions(claimed.day);
+  const replay: Replay = {
+    version: REPLAY_VERSION,
+    seed,
+    difficulty,
+    mode: DAILY_LEVEL_ID,
+    playMode: 'solo',
+    playerCount: 1,
+    width,
+    height,
+    upgrades: createUpgrades(),
+    weapons: NO_WEAPONS,
+    inputs,
+    result: { frames, score: claimed.score, destroyed: [] },
+  };
+  const player = new ReplayPlayer(replay);
+  player.seek(frames);
+  replay.result.destroyed = player.sim.buildings.filter(b => b.isDestroyed).map(b => b.id);
+  const actual = dailyResult(claimed.day, player.sim);
+  return { claimed, actual, valid: sameResult(claimed, actual), replay };
+};
+
+// --- History ---
+
+/** One attempt at a daily run. Attempts without a result were cut off, e.g. by closing the tab. */
+export type DailyEntry = { result?: DailyResult; code?: string };
+/** Attempts by day. */
+export type DailyHistory = Record<string, DailyEntry>;
+
+// Codes are long, so only recent ones are kept; older days keep their results.
+const KEEP_CODES_DAYS = 14;
+
+const STORAGE_KEY = 'nova-defense:daily';
+
+const isResult = (value: unknown): value is DailyResult => {
+  if (!value || typeof value !== 'object') return false;
+  const fields = value as Record<string, unknown>;
+  return isDay(fields.day) && ['score', 'citiesSaved', 'cities', 'accuracy'].every(key => {
+    const count = fields[key];
+    return typeof count === 'number' && Number.isInteger(count) && count >= 0;
+  });
+};
+
+export const loadDailyHistory = (): DailyHistory => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const history: DailyHistory = {};
+    if (!stored || typeof stored !== 'object') return history;
+    for (const [day, entry] of Object.entries(stored)) {
+      if (!isDay(day) || !entry || typeof entry !== 'object') continue;
+      const { result, code } = entry as Record<string, unknown>;
+      history[day] = {
+        ...(isResult(result) && result.day === day && { result }),
+        ...(typeof code === 'string' && { code }),
+      };
+    }
+    return history;
+  } catch {
+    return {};
+  }
+};
+
+export const saveDailyHistory = (history: DailyHistory) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+};
+
+/** Uses up `day`'s attempt. Recorded as the run starts, so quitting or reloading cannot buy a second try. */
+export const recordDailyAttempt = (history: DailyHistory, day: string): DailyHistory => ({ ...history, [day]: {} });
+
+export const recordDailyResult = (history: DailyHistory, result: DailyResult, code: string): DailyHistory => {
+  const next: DailyHistory = { ...history, [result.day]: { result, code } };
+  const oldest = shiftDay(result.day, -KEEP_CODES_DAYS);
+  for (const [day, entry] of Object.entries(next)) {
+    if (day < oldest && entry.code) next[day] = { result: entry.result };
+  }
+  return next;
+};
+
+/** Days in a row with an attempt, up to `today`, or up to yesterday while today is still unplayed. */
+export const dailyStreak = (history: DailyHistory, today: string) => {
+  let day = history[today] ? today : shiftDay(today, -1);
+  let streak = 0;
+  for (; history[day]; day = shiftDay(day, -1)) streak++;
+  return streak;
+};
+
+/** Played days, most recent first. */
+export const dailyDays = (history: DailyHistory) => Object.keys(history).sort().reverse();
@@ -0,0 +1,63 @@
+import type { RenderState } from './renderer';
+
+export type DebugSettings = {
+  /** Frame rate and entity counts over the playfield. */
+  showStats: boolean;
+  /** Draws frames in a worker, where the browser supports it. */
+  renderInWorker: boolean;
+};
+
+export const DEFAULT_DEBUG: DebugSettings = { showStats: false, renderInWorker: false };
+
+const STORAGE_KEY = 'nova-defense:debug';
+
+export const loadDebugSettings = (): DebugSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_DEBUG;
+    const fields = stored as Record<string, unknown>;
+    return { showStats: fields.showStats === true, renderInWorker: fields.renderInWorker === true };
+  } catch {
+    return DEFAULT_DEBUG;
+  }
+};
+
+export const saveDebugSettings = (settings: DebugSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export type FrameReport = { fps: number; missiles: number; explosions: number; particles: number };
+
+// Frame rate is averaged over windows this long, so the figure is readable rather than flickering.
+const FPS_WINDOW_MS = 500;
+
+/** Counts drawn frames and what was in them, for the stats overlay. Cheap enough to run every frame. */
+export class FrameStats {
+  private frames = 0;
+  private windowStart: number | null = null;
+  private fps = 0;
+  private last: RenderState | null = null;
+
+  record(time: number, state: RenderState) {
+    this.last = state;
+    if (this.windowStart === null) {
+      this.windowStart = time;
+      return;
+    }
+    this.frames++;
+    const elapsed = time - this.windowStart;
+    if (elapsed < FPS_WINDOW_MS) return;
+    this.fps = (this.frames * 1000) / elapsed;
+    this.frames = 0;
+    this.windowStart = time;
+  }
+
+  report(): FrameReport {
+    return {
+      fps: this.fps,
+      missiles: this.last?.missiles.length ?? 0,
+      explosions: this.last?.explosions.length ?? 0,
+      particles: this.last?.particles.count ?? 0,
+    };
+  }
+}
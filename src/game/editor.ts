@@ -0,0 +1,185 @@
+import { GROUND_HEIGHT } from './constants';
+import { DEFAULT_LEVEL_ID, getLevel, levelToJson, parseLevel, type LevelDefinition, type WaveScript, type WinCondition } from './content';
+import { DESIGN_WIDTH, layoutBuildings } from './layout';
+import type { BatterySide } from './types';
+import { curveValue, getWaveConfig } from './waves';
+
+/** The editor shows levels at their design size. */
+export const EDITOR_WORLD = { width: DESIGN_WIDTH, height: 600 };
+export const EDITOR_GROUND_Y = EDITOR_WORLD.height - GROUND_HEIGHT;
+export const CUSTOM_LEVEL_ID = 'custom';
+
+const STORAGE_KEY = 'nova-defense:editor-level';
+const DEFAULT_BATTERY = { width: 60, height: 30 };
+const DEFAULT_WAVE: WaveScript = { rockets: 10, intervalMs: 1500, speedScale: 1 };
+
+const edit = (draft: LevelDefinition, change: (next: LevelDefinition) => void) => {
+  const next = structuredClone(draft);
+  change(next);
+  return next;
+};
+
+/**
+ * Copies `template` into an editable level: every building gets an explicit position and
+ * wave levels get one scripted wave per wave, so everything the editor shows can be dragged
+ * or typed over.
+ */
+export const createDraft = (template: LevelDefinition): LevelDefinition => {
+  const buildings = layoutBuildings(EDITOR_WORLD.width, EDITOR_GROUND_Y, template.layout);
+  const center = (b: { x: number; width: number }) => (b.x + b.width / 2) / EDITOR_WORLD.width;
+  return edit(template, draft => {
+    draft.id = CUSTOM_LEVEL_ID;
+    draft.name = { en: `${template.name.en} (custom)` };
+    delete draft.description;
+    for (const b of buildings) {
+      const battery = b.batterySide && draft.layout.batteries[b.batterySide];
+      if (battery) battery.x = center(b);
+    }
+    draft.layout.cities.positions = buildings
+      .filter(b => b.type === 'city')
+      .map((b, i) => ({ x: center(b), targetWeight: template.layout.cities.positions?.[i]?.targetWeight ?? 1 }));
+    delete draft.layout.cities.perFlank;
+    if (draft.waves && draft.win.type === 'waves' && !draft.waves.timeline) {
+      draft.waves.timeline = Array.from({ length: draft.win.count }, (_, i) => {
+        const progress = { score: 0, timeMs: 0, wave: i + 1 };
+        const config = getWaveConfig(template, progress);
+        return { rockets: config.rockets, intervalMs: config.spawnInterval, speedScale: curveValue(template.spawn.speedScale, progress) };
+      });
+    }
+  });
+};
+
+/** Checks a draft the same way level files are checked. Throws an `Error` naming the bad field. */
+export const validateDraft = (draft: LevelDefinition) => parseLevel(levelToJson(draft), 'Level');
+
+export const exportDraft = (draft: LevelDefinition) => JSON.stringify(levelToJson(validateDraft(draft)), null, 2);
+
+/** Reads a level file for editing. Throws an `Error` if it is not a valid level. */
+export const importDraft = (text: string) => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Level file is not valid JSON');
+  }
+  return createDraft(parseLevel(raw, 'Level file'));
+};
+
+export const loadDraft = (): LevelDefinition => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return createDraft(parseLevel(JSON.parse(stored), 'Saved level'));
+  } catch {
+    // A draft saved by an older version may no longer validate; start over from the template.
+  }
+  return createDraft(getLevel(DEFAULT_LEVEL_ID));
+};
+
+export const saveDraft = (draft: LevelDefinition) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(levelToJson(draft)));
+};
+
+const clampFraction = (x: number) => Math.round(Math.max(0, Math.min(1, x)) * 1000) / 1000;
+
+export const moveBattery = (draft: LevelDefinition, side: BatterySide, x: number) =>
+  edit(draft, next => {
+    const battery = next.layout.batteries[side];
+    if (battery) battery.x = clampFraction(x);
+  });
+
+export const moveCity = (draft: LevelDefinition, index: number, x: number) =>
+  edit(draft, next => {
+    const city = next.layout.cities.positions?.[index];
+    if (city) city.x = clampFraction(x);
+  });
+
+export const addCity = (draft: LevelDefinition, x = 0.5) =>
+  edit(draft, next => {
+    next.layout.cities.positions = [...(next.layout.cities.positions ?? []), { x: clampFraction(x), targetWeight: 1 }];
+  });
+
+/** Removes a city, keeping at least one. */
+export const removeCity = (draft: LevelDefinition, index: number) =>
+  edit(draft, next => {
+    const positions = next.layout.cities.positions ?? [];
+    if (positions.length > 1) positions.splice(index, 1);
+  });
+
+/** Adds or removes the battery on `side`, keeping at least one. */
+export const toggleBattery = (draft: LevelDefinition, side: BatterySide) =>
+  edit(draft, next => {
+    const { batteries } = next.layout;
+    if (batteries[side]) {
+      if (Object.keys(batteries).length > 1) delete batteries[side];
+    } else {
+      batteries[side] = { ...DEFAULT_BATTERY, x: { left: 0.07, center: 0.5, right: 0.93 }[side], targetWeight: 1 };
+      if (next.ammo[side] === 0) next.ammo[side] = 20;
+    }
+  });
+
+export const setAmmo = (draft: LevelDefinition, side: BatterySide, ammo: number) =>
+  edit(draft, next => {
+    next.ammo[side] = Math.max(0, Math.round(ammo) || 0);
+  });
+
+export const setTargetWeight = (draft: LevelDefinition, target: { side: BatterySide } | { city: number }, weight: number) =>
+  edit(draft, next => {
+    const building = 'side' in target ? next.layout.batteries[target.side] : next.layout.cities.positions?.[target.city];
+    if (building) building.targetWeight = Math.max(0, weight || 0);
+  });
+
+export const addLaunchZone = (draft: LevelDefinition, from: number, to: number) =>
+  edit(draft, next => {
+    const zone = { from: clampFraction(Math.min(from, to)), to: clampFraction(Math.max(from, to)), weight: 1 };
+    next.enemies.launchZones = [...(next.enemies.launchZones ?? []), zone];
+  });
+
+export const setLaunchZoneWeight = (draft: LevelDefinition, index: number, weight: number) =>
+  edit(draft, next => {
+    const zone = next.enemies.launchZones?.[index];
+    if (zone) zone.weight = Math.max(0.1, weight || 0.1);
+  });
+
+/** Removes a launch zone. With none left, enemies launch from anywhere again. */
+export const removeLaunchZone = (draft: LevelDefinition, index: number) =>
+  edit(draft, next => {
+    const zones = next.enemies.launchZones ?? [];
+    zones.splice(index, 1);
+    if (zones.length === 0) delete next.enemies.launchZones;
+  });
+
+/** Switches the win condition, adding or dropping the wave settings it needs. */
+export const setWinCondition = (draft: LevelDefinition, win: WinCondition) =>
+  edit(draft, next => {
+    next.win = win;
+    if (win.type === 'waves') {
+      next.waves ??= { rockets: { by: 'wave', start: 11, step: 3, per: 1, min: -Infinity, max: Infinity }, intermissionMs: 4000 };
+      const timeline = next.waves.timeline ?? [];
+      while (timeline.length < win.count) timeline.push({ ...(timeline[timeline.length - 1] ?? DEFAULT_WAVE) });
+      next.waves.timeline = timeline.slice(0, win.count);
+      return;
+    }
+    // Wave curves are not allowed outside wave levels; borrow the default level's pacing instead.
+    delete next.waves;
+    const fallback = getLevel(DEFAULT_LEVEL_ID).spawn;
+    if (next.spawn.interval.by === 'wave') next.spawn.interval = { ...fallback.interval };
+    if (next.spawn.speedScale.by === 'wave') next.spawn.speedScale = { ...fallback.speedScale };
+  });
+
+export const setWave = (draft: LevelDefinition, index: number, change: Partial<WaveScript>) =>
+  edit(draft, next => {
+    const wave = next.waves?.timeline?.[index];
+    if (wave) Object.assign(wave, change);
+  });
+
+export const addWave = (draft: LevelDefinition) =>
+  draft.win.type === 'waves' ? setWinCondition(draft, { type: 'waves', count: draft.win.count + 1 }) : draft;
+
+/** Removes one scripted wave, keeping at least one. */
+export const removeWave = (draft: LevelDefinition, index: number) =>
+  edit(draft, next => {
+    const timeline = next.waves?.timeline;
+    if (!timeline || timeline.length <= 1 || next.win.type !== 'waves') return;
+    timeline.splice(index, 1);
+    next.win = { type: 'waves', count: timeline.length };
+  });
@@ -0,0 +1,83 @@
+import type { Building, Explosion, Point } from './types';
+
+// How far the view is thrown, in world pixels, and how long a shake takes to die away.
+const NUKE_SHAKE = 10;
+const CITY_SHAKE = 6;
+const SHAKE_MS = 500;
+// Chains this many blasts deep flash the screen, brighter the deeper they go.
+const FLASH_DEPTH = 4;
+const FLASH_MS = 300;
+
+const STILL: Point = { x: 0, y: 0 };
+
+/** Remembers which blasts were on screen last frame, so each new one is noticed once. */
+class BlastWatch {
+  private seen = new Set<number>();
+  private current = new Set<number>();
+
+  /** Calls `onNew` for each blast in `explosions` passing `test` that was not there last time. */
+  update(explosions: readonly Explosion[], test: (e: Explosion) => boolean, onNew: (e: Explosion) => void) {
+    for (const e of explosions) {
+      if (!test(e)) continue;
+      this.current.add(e.id);
+      if (!this.seen.has(e.id)) onNew(e);
+    }
+    [this.seen, this.current] = [this.current, this.seen];
+    this.current.clear();
+  }
+
+  reset() {
+    this.seen.clear();
+  }
+}
+
+/**
+ * Shakes the view when a nuke goes off or a city falls. Purely cosmetic and only on this screen,
+ * so it draws on `Math.random` and never touches the simulation.
+ */
+export class ScreenShake {
+  private readonly nukes = new BlastWatch();
+  private citiesDown = 0;
+  private strength = 0;
+
+  /** Starts a shake for each new nuke blast and lost city, and eases off over `dt` ms. Returns how far to move the view. */
+  update(state: { explosions: readonly Explosion[]; buildings: readonly Building[] }, dt: number): Point {
+    this.nukes.update(state.explosions, e => e.weapon === 'nuke', () => (this.strength = Math.max(this.strength, NUKE_SHAKE)));
+    let citiesDown = 0;
+    for (const b of state.buildings) if (b.type === 'city' && b.isDestroyed) citiesDown++;
+    if (citiesDown > this.citiesDown) this.strength = Math.max(this.strength, CITY_SHAKE);
+    this.citiesDown = citiesDown;
+
+    this.strength = Math.max(0, this.strength - (NUKE_SHAKE * dt) / SHAKE_MS);
+    if (this.strength === 0) return STILL;
+    return { x: (Math.random() * 2 - 1) * this.strength, y: (Math.random() * 2 - 1) * this.strength };
+  }
+
+  reset() {
+    this.nukes.reset();
+    this.citiesDown = 0;
+    this.strength = 0;
+  }
+}
+
+/** Lights the screen up when a chain reaction runs long. */
+export class ChainFlash {
+  private readonly chains = new BlastWatch();
+  private brightness = 0;
+
+  /** Returns how bright the flash is now, from 0 to 1. */
+  update(explosions: readonly Explosion[], dt: number) {
+    this.brightness = Math.max(0, this.brightness - dt / FLASH_MS);
+    this.chains.update(
+      explosions,
+      e => e.source === 'chain' && (e.depth ?? 0) >= FLASH_DEPTH,
+      e => (this.brightness = Math.max(this.brightness, Math.min(1, (e.depth! - FLASH_DEPTH + 2) / 4))),
+    );
+    return this.brightness;
+  }
+
+  reset() {
+    this.chains.reset();
+    this.brightness = 0;
+  }
+}
@@ -0,0 +1,36 @@
+import { INTERCEPT_SCORE } from './constants';
+import type { Rng } from './rng';
+import type { EnemyKind } from './types';
+
+export type EnemyType = {
+  score: number;
+  color: string;
+  /** Multiplier on the rolled launch speed. */
+  speedMult: number;
+};
+
+export const ENEMY_TYPES: Record<EnemyKind, EnemyType> = {
+  rocket: { score: INTERCEPT_SCORE, color: '#ff4444', speedMult: 1 },
+  mirv: { score: 50, color: '#ff66cc', speedMult: 0.9 },
+  smart: { score: 75, color: '#ffcc00', speedMult: 0.8 },
+  bomber: { score: 100, color: '#ff8844', speedMult: 1.2 },
+};
+
+export const ENEMY_KINDS: EnemyKind[] = ['rocket', 'mirv', 'smart', 'bomber'];
+
+export const MIRV_WARHEADS = 3;
+// Smart bombs start evading once they are this close to the edge of a blast.
+export const SMART_DODGE_MARGIN = 30;
+export const SMART_DODGE_STRENGTH = 1.5;
+export const BOMBER_DROP_INTERVAL = 120; // frames
+
+/** Rolls an enemy kind with chances proportional to `weights`. */
+export const pickEnemyKind = (rng: Rng, weights: Record<EnemyKind, number>): EnemyKind => {
+  const total = ENEMY_KINDS.reduce((sum, k) => sum + weights[k], 0);
+  let roll = rng.next() * total;
+  for (const kind of ENEMY_KINDS) {
+    roll -= weights[kind];
+    if (roll < 0) return kind;
+  }
+  return 'rocket';
+};
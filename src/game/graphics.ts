@@ -0,0 +1,39 @@
+import { isThemeId, type ThemeId } from './themes';
+
+export type GraphicsSettings = {
+  theme: ThemeId;
+  /** Bright things glow into their surroundings. */
+  bloom: boolean;
+  /** The picture bows out like an old tube screen, darker towards the corners. */
+  crt: boolean;
+  /** The view shakes when a city falls or a nuke goes off. */
+  shake: boolean;
+  /** The screen flashes on long chain reactions. */
+  flash: boolean;
+};
+
+// Bloom and the CRT pass each cost a few full-screen copies per frame, so they start off.
+export const DEFAULT_GRAPHICS: GraphicsSettings = { theme: 'standard', bloom: false, crt: false, shake: true, flash: true };
+
+const STORAGE_KEY = 'nova-defense:graphics';
+
+export const loadGraphics = (): GraphicsSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_GRAPHICS;
+    const fields = stored as Record<string, unknown>;
+    return {
+      theme: isThemeId(fields.theme) ? fields.theme : DEFAULT_GRAPHICS.theme,
+      bloom: fields.bloom === true,
+      crt: fields.crt === true,
+      shake: fields.shake !== false,
+      flash: fields.flash !== false,
+    };
+  } catch {
+    return DEFAULT_GRAPHICS;
+  }
+};
+
+export const saveGraphics = (settings: GraphicsSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,76 @@
+import type { LevelLayout } from './content';
+import type { BatterySide, Building } from './types';
+
+// Layout is designed for this width and shrinks proportionally below it, down to half size.
+export const DESIGN_WIDTH = 900;
+// Batteries keep their ids whether or not a level places them, so city ids never shift.
+const BATTERY_IDS: Record<BatterySide, number> = { left: 0, center: 1, right: 2 };
+export const FIRST_CITY_ID = 3;
+
+/**
+ * Places the level's batteries (left edge, center, right edge) and its cities. Building ids
+ * are stable across calls, so a layout can be recomputed for a new viewport and matched back
+ * to existing buildings.
+ */
+export const layoutBuildings = (width: number, groundY: number, layout: LevelLayout): Building[] => {
+  const scale = Math.max(0.5, Math.min(1, width / DESIGN_WIDTH));
+  const margin = Math.max(10, Math.min(50, width * 0.04));
+  const size = (s: { width: number; height: number }) => ({ width: s.width * scale, height: s.height * scale });
+  // A side without a battery still reserves its slot, sized like the others, so cities spread the same way.
+  const fallback = layout.batteries.left ?? layout.batteries.right ?? layout.batteries.center!;
+  const left = size(layout.batteries.left ?? fallback);
+  const center = size(layout.batteries.center ?? fallback);
+  const right = size(layout.batteries.right ?? fallback);
+  const city = size(layout.cities);
+
+  const buildings: Building[] = [];
+
+  // Batteries
+  const slots: Record<BatterySide, { x: number; width: number; height: number }> = {
+    left: { x: margin, ...left },
+    center: { x: width / 2 - center.width / 2, ...center },
+    right: { x: width - margin - right.width, ...right },
+  };
+  // Placed buildings stay fully on screen however narrow it gets.
+  const placeAt = (fraction: number, w: number) => Math.max(0, Math.min(width - w, fraction * width - w / 2));
+  // Only uneven weights are stored, so levels without them keep the plain uniform pick.
+  const weight = (targetWeight: number) => (targetWeight !== 1 ? { targetWeight } : {});
+
+  for (const batterySide of ['left', 'center', 'right'] as BatterySide[]) {
+    const battery = layout.batteries[batterySide];
+    if (!battery) continue;
+    const slot = slots[batterySide];
+    const x = battery.x === undefined ? slot.x : placeAt(battery.x, slot.width);
+    buildings.push({
+      id: BATTERY_IDS[batterySide],
+      ...slot,
+      x,
+      y: groundY - slot.height,
+      isDestroyed: false,
+      type: 'battery',
+      batterySide,
+      ...weight(battery.targetWeight),
+    });
+  }
+
+  const placeCity = (id: number, x: number, targetWeight = 1) =>
+    buildings.push({ id, x, y: groundY - city.height, ...city, isDestroyed: false, type: 'city', ...weight(targetWeight) });
+
+  if (layout.cities.positions) {
+    layout.cities.positions.forEach((c, i) => placeCity(FIRST_CITY_ID + i, placeAt(c.x, city.width), c.targetWeight));
+    return buildings;
+  }
+
+  // Cities, evenly spaced on each flank
+  const perFlank = layout.cities.perFlank ?? 0;
+  const flanks = [
+    [slots.left.x + slots.left.width, slots.center.x],
+    [slots.center.x + slots.center.width, slots.right.x],
+  ];
+  flanks.forEach(([from, to], f) => {
+    const spacing = (to - from) / (perFlank + 1);
+    for (let i = 0; i < perFlank; i++) placeCity(FIRST_CITY_ID + f * perFlank + i, from + (i + 1) * spacing - city.width / 2);
+  });
+
+  return buildings;
+};
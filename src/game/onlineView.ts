@@ -0,0 +1,101 @@
+import { FRAME_MS, MISSILE_SPEED } from './constants';
+import type { Palette } from './content';
+import { createParticleBuffer, emitBurst, updateParticles } from './particles';
+import { PLAYER_COLORS, type PlayerIndex } from './players';
+import type { RenderState } from './renderer';
+import type { StateSnapshot } from '../services/multiplayer/protocol';
+import type { BatterySide, Missile, Point } from './types';
+
+// Missiles are dead-reckoned at most this many frames past the latest snapshot.
+const MAX_EXTRAPOLATION_FRAMES = 10;
+
+type Prediction = Missile & { seq: number };
+
+const advance = (m: Missile, frames: number): Missile => {
+  const dx = m.target.x - m.current.x;
+  const dy = m.target.y - m.current.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+  const step = Math.min(dist, m.speed * frames);
+  if (dist === 0) return m;
+  return { ...m, current: { x: m.current.x + (dx / dist) * step, y: m.current.y + (dy / dist) * step } };
+};
+
+/**
+ * Client-side picture of an online run. Draws the latest server snapshot with missiles moved
+ * forward to the present, adds this player's own shots before the server confirms them, and
+ * runs the purely cosmetic particles locally.
+ */
+export class OnlineView {
+  snapshot: StateSnapshot | null = null;
+  private receivedAt = 0;
+  private predictions: Prediction[] = [];
+  private particles = createParticleBuffer();
+  private seenExplosions = new Set<number>();
+
+  constructor(readonly slot: number, readonly palette: Palette) {}
+
+  applySnapshot(snapshot: StateSnapshot, now: number) {
+    this.snapshot = snapshot;
+    this.receivedAt = now;
+    const ack = snapshot.acks[this.slot] ?? 0;
+    this.predictions = this.predictions.filter(p => p.seq > ack);
+
+    const live = new Set<number>();
+    for (const e of snapshot.explosions) {
+      live.add(e.id);
+      if (!this.seenExplosions.has(e.id)) emitBurst(this.particles, e.x, e.y, Math.random);
+    }
+    this.seenExplosions = live;
+  }
+
+  /** Shows a just-fired interceptor from the battery the server will most likely pick. */
+  predictFire(seq: number, target: Point, side?: BatterySide) {
+    const snapshot = this.snapshot;
+    if (!snapshot) return;
+    let origin: Point | null = null;
+    let minDist = Infinity;
+    for (const b of snapshot.buildings) {
+      if (b.type !== 'battery' || b.isDestroyed || !b.batterySide || snapshot.ammo[b.batterySide] <= 0) continue;
+      if (side && b.batterySide !== side) continue;
+      const dist = Math.abs(b.x + b.width / 2 - target.x);
+      if (dist < minDist) {
+        minDist = dist;
+        origin = { x: b.x + b.width / 2, y: b.y };
+      }
+    }
+    if (!origin) return;
+    this.predictions.push({
+      id: -seq,
+      seq,
+      start: { ...origin },
+      current: { ...origin },
+      target: { ...target },
+      speed: MISSILE_SPEED,
+      color: PLAYER_COLORS[this.slot as PlayerIndex],
+      isEnemy: false,
+    });
+  }
+
+  /** Advances local-only motion by `dt` ms and returns what to draw at time `now`. */
+  frame(now: number, dt: number): RenderState | null {
+    const snapshot = this.snapshot;
+    if (!snapshot) return null;
+    const frames = dt / FRAME_MS;
+
+    this.predictions = this.predictions
+      .map(p => ({ ...advance(p, frames), seq: p.seq }))
+      .filter(p => p.current.x !== p.target.x || p.current.y !== p.target.y);
+    updateParticles(this.particles, frames);
+
+    const sinceSnapshot = Math.min(MAX_EXTRAPOLATION_FRAMES, (now - this.receivedAt) / FRAME_MS);
+    return {
+      width: snapshot.width,
+      height: snapshot.height,
+      missiles: [...snapshot.missiles.map(m => advance(m, sinceSnapshot)), ...this.predictions],
+      explosions: snapshot.explosions,
+      buildings: snapshot.buildings,
+      ammo: snapshot.ammo,
+      particles: this.particles,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import type { Canvas2D } from './renderer';
+
+// Each particle is x, y, vx, vy, life, hue.
+const STRIDE = 6;
+const BURST_SIZE = 15;
+const FADE_PER_FRAME = 0.02;
+
+/**
+ * Preallocated storage for cosmetic particles: one flat array, live particles packed at the
+ * front. Bursts never allocate, and a burst that does not fit is cut short rather than grown.
+ * Plain data, so a frame's particles can be posted to a render worker as they are.
+ */
+export type ParticleBuffer = {
+  count: number;
+  data: Float32Array;
+};
+
+export const MAX_PARTICLES = 4096;
+
+export const createParticleBuffer = (capacity = MAX_PARTICLES): ParticleBuffer => ({
+  count: 0,
+  data: new Float32Array(capacity * STRIDE),
+});
+
+/** Sparks flying out of a blast at (`x`, `y`), in orange to yellow. `random` returns values in [0, 1). */
+export const emitBurst = (buffer: ParticleBuffer, x: number, y: number, random: () => number) => {
+  const { data } = buffer;
+  for (let i = 0; i < BURST_SIZE; i++) {
+    // Draw the same three numbers per particle whether or not it fits, so the stream stays aligned.
+    const vx = (random() - 0.5) * 4;
+    const vy = (random() - 0.5) * 4;
+    const hue = random() * 60 + 10;
+    const at = buffer.count * STRIDE;
+    if (at >= data.length) continue;
+    data[at] = x;
+    data[at + 1] = y;
+    data[at + 2] = vx;
+    data[at + 3] = vy;
+    data[at + 4] = 1;
+    data[at + 5] = hue;
+    buffer.count++;
+  }
+};
+
+/**
+ * Moves and fades every particle by `frames` fixed frames, dropping burnt-out ones by moving the
+ * last live particle into their slot. Particles are drawn unordered, so the shuffle is invisible.
+ */
+export const updateParticles = (buffer: ParticleBuffer, frames = 1) => {
+  const { data } = buffer;
+  let i = 0;
+  while (i < buffer.count) {
+    const at = i * STRIDE;
+    data[at] += data[at + 2] * frames;
+    data[at + 1] += data[at + 3] * frames;
+    data[at + 4] -= FADE_PER_FRAME * frames;
+    if (data[at + 4] > 0) {
+      i++;
+      continue;
+    }
+    buffer.count--;
+    data.copyWithin(at, buffer.count * STRIDE, (buffer.count + 1) * STRIDE);
+  }
+};
+
+/** Scales particle positions, e.g. when the world is resized. */
+export const scaleParticles = (buffer: ParticleBuffer, sx: number, sy: number) => {
+  for (let at = 0; at < buffer.count * STRIDE; at += STRIDE) {
+    buffer.data[at] *= sx;
+    buffer.data[at + 1] *= sy;
+  }
+};
+
+/** A copy holding only the live particles, small enough to post to a render worker every frame. */
+export const trimParticles = (buffer: ParticleBuffer): ParticleBuffer => ({
+  count: buffer.count,
+  data: buffer.data.slice(0, buffer.count * STRIDE),
+});
+
+// Particles are batched into one fill per hue band and fade level instead of one per particle.
+const HUE_BANDS = 6;
+const FADE_LEVELS = 5;
+const BAND_COLORS = Array.from({ length: HUE_BANDS }, (_, band) => `hsl(${10 + (band + 0.5) * (60 / HUE_BANDS)}, 100%, 50%)`);
+let batchOf = new Uint8Array(MAX_PARTICLES);
+const batchSizes = new Uint32Array(HUE_BANDS * FADE_LEVELS);
+const batchStarts = new Uint32Array(HUE_BANDS * FADE_LEVELS);
+let batchOrder = new Uint32Array(MAX_PARTICLES);
+
+/** Draws every particle as a 2×2 square with a handful of fills, whatever the particle count. */
+export const drawParticles = (ctx: Canvas2D, buffer: ParticleBuffer) => {
+  const { count, data } = buffer;
+  if (count === 0) return;
+  if (batchOf.length < count) {
+    batchOf = new Uint8Array(count);
+    batchOrder = new Uint32Array(count);
+  }
+
+  // Counting sort of particle indices by batch.
+  batchSizes.fill(0);
+  for (let i = 0; i < count; i++) {
+    const at = i * STRIDE;
+    const band = Math.min(HUE_BANDS - 1, Math.max(0, Math.floor(((data[at + 5] - 10) / 60) * HUE_BANDS)));
+    const fade = Math.min(FADE_LEVELS - 1, Math.floor(data[at + 4] * FADE_LEVELS));
+    const batch = fade * HUE_BANDS + band;
+    batchOf[i] = batch;
+    batchSizes[batch]++;
+  }
+  let start = 0;
+  for (let b = 0; b < batchSizes.length; b++) {
+    batchStarts[b] = start;
+    start += batchSizes[b];
+  }
+  for (let i = 0; i < count; i++) batchOrder[batchStarts[batchOf[i]]++] = i;
+
+  let next = 0;
+  for (let b = 0; b < batchSizes.length; b++) {
+    const size = batchSizes[b];
+    if (size === 0) continue;
+    ctx.globalAlpha = (Math.floor(b / HUE_BANDS) + 1) / FADE_LEVELS;
+    ctx.fillStyle = BAND_COLORS[b % HUE_BANDS];
+    ctx.beginPath();
+    for (const end = next + size; next < end; next++) {
+      const at = batchOrder[next] * STRIDE;
+      ctx.rect(data[at], data[at + 1], 2, 2);
+    }
+    ctx.fill();
+  }
+  ctx.globalAlpha = 1;
+};
@@ -0,0 +1,38 @@
+import type { BatterySide, Building } from './types';
+
+/**
+ * Who is playing: one player, two defenders sharing the base, a defender against a human
+ * attacker, or up to four defenders in a networked room.
+ */
+export type PlayMode = 'solo' | 'coop' | 'versus' | 'online';
+/** Player 1 is index 0. In versus, player 2 is the attacker. */
+export type PlayerIndex = 0 | 1 | 2 | 3;
+
+/** Modes picked from the local menu; `online` runs only on the multiplayer server. */
+export const PLAY_MODES: PlayMode[] = ['solo', 'coop', 'versus'];
+export const ALL_PLAY_MODES: PlayMode[] = [...PLAY_MODES, 'online'];
+export const MAX_ONLINE_PLAYERS = 4;
+export const PLAYER_COLORS: Record<PlayerIndex, string> = { 0: '#44ccff', 1: '#ffaa44', 2: '#66ff99', 3: '#cc88ff' };
+export const ATTACKER_COLOR = '#ff4444';
+
+/** In co-op each player owns an outer battery and both share the center one. */
+export const COOP_BATTERIES: Record<0 | 1, BatterySide[]> = {
+  0: ['left', 'center'],
+  1: ['center', 'right'],
+};
+
+// Versus: the attacker's whole arsenal, and the shortest gap between two launches.
+export const VERSUS_ARSENAL = 40;
+export const VERSUS_LAUNCH_COOLDOWN_MS = 600;
+/** Points the attacker earns for each building destroyed. */
+export const VERSUS_HIT_SCORE: Record<Building['type'], number> = { city: 100, battery: 250 };
+
+/** Number of players firing interceptors in the local modes; online rooms say how many joined. */
+export const defenderCount = (mode: PlayMode) => (mode === 'coop' ? 2 : 1);
+
+/** Online players share every battery. */
+export const canFireFrom = (mode: PlayMode, player: PlayerIndex, side: BatterySide) => {
+  if (mode === 'online') return true;
+  if (mode === 'coop') return player < 2 && COOP_BATTERIES[player as 0 | 1].includes(side);
+  return player === 0;
+};
@@ -0,0 +1,18 @@
+/**
+ * Free list of spent objects, so entities that come and go every frame are reused instead of
+ * left to the garbage collector. Whoever acquires an object must set every field, since it
+ * may still hold the values of whatever it was before.
+ */
+export class Pool<T> {
+  private free: T[] = [];
+
+  constructor(private readonly create: () => T) {}
+
+  acquire(): T {
+    return this.free.pop() ?? this.create();
+  }
+
+  release(item: T) {
+    this.free.push(item);
+  }
+}
@@ -0,0 +1,108 @@
+import type { Canvas2D } from './renderer';
+
+/** Full-screen passes run over a finished frame. Plain data, so it can be posted to a render worker. */
+export type PostEffects = {
+  bloom: boolean;
+  crt: boolean;
+  /** Brightness of a white flash over everything, from 0 to 1. */
+  flash: number;
+};
+
+export const NO_POST_EFFECTS: PostEffects = { bloom: false, crt: false, flash: 0 };
+
+// Bloom blurs by shrinking the frame this much and stretching it back.
+const BLOOM_SCALE = 6;
+const BLOOM_STRENGTH = 0.8;
+// How far the CRT pass pulls the corners in, as a fraction of the screen, and roughly how many strips it bends it in.
+const CRT_BULGE = 0.06;
+const CRT_STRIPS = 160;
+const FLASH_ALPHA = 0.35;
+
+type Buffer = { canvas: OffscreenCanvas | HTMLCanvasElement; ctx: Canvas2D };
+const buffers = new Map<string, Buffer>();
+
+/** A scratch canvas of at least `width`×`height`, kept between frames. */
+const scratch = (name: string, width: number, height: number) => {
+  let buffer = buffers.get(name);
+  if (!buffer) {
+    const canvas = typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : document.createElement('canvas');
+    const ctx = canvas.getContext('2d') as Canvas2D | null;
+    if (!ctx) return null;
+    buffer = { canvas, ctx };
+    buffers.set(name, buffer);
+  }
+  if (buffer.canvas.width !== width || buffer.canvas.height !== height) {
+    buffer.canvas.width = width;
+    buffer.canvas.height = height;
+  }
+  return buffer;
+};
+
+/**
+ * Adds a blurred copy of the frame's bright parts on top of it. Multiplying the shrunken copy by
+ * itself darkens dim colors far more than bright ones, which keeps the sky from glowing.
+ */
+const bloom = (ctx: Canvas2D) => {
+  const { width, height } = ctx.canvas;
+  const small = scratch('bloom', Math.max(1, Math.ceil(width / BLOOM_SCALE)), Math.max(1, Math.ceil(height / BLOOM_SCALE)));
+  if (!small) return;
+  const { canvas } = small;
+  small.ctx.globalCompositeOperation = 'copy';
+  small.ctx.drawImage(ctx.canvas, 0, 0, canvas.width, canvas.height);
+  small.ctx.globalCompositeOperation = 'multiply';
+  small.ctx.drawImage(canvas, 0, 0);
+  small.ctx.drawImage(canvas, 0, 0);
+  small.ctx.globalCompositeOperation = 'source-over';
+
+  ctx.save();
+  ctx.globalCompositeOperation = 'lighter';
+  ctx.globalAlpha = BLOOM_STRENGTH;
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(canvas, 0, 0, width, height);
+  ctx.restore();
+};
+
+/**
+ * Bends the frame like the face of a tube: every row is squeezed towards the middle, more so
+ * near the top and bottom, then every column the same way, and the corners are darkened.
+ */
+const crt = (ctx: Canvas2D) => {
+  const { width, height } = ctx.canvas;
+  const copy = scratch('crt', width, height);
+  if (!copy) return;
+
+  const bend = (rows: boolean) => {
+    copy.ctx.globalCompositeOperation = 'copy';
+    copy.ctx.drawImage(ctx.canvas, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const length = rows ? height : width;
+    const across = rows ? width : height;
+    const strip = Math.max(2, Math.ceil(length / CRT_STRIPS));
+    for (let at = 0; at < length; at += strip) {
+      const n = ((at + strip / 2) / length) * 2 - 1;
+      const size = across * (1 - CRT_BULGE * n * n);
+      const offset = (across - size) / 2;
+      if (rows) ctx.drawImage(copy.canvas, 0, at, width, strip, offset, at, size, strip);
+      else ctx.drawImage(copy.canvas, at, 0, strip, height, at, offset, strip, size);
+    }
+  };
+  bend(true);
+  bend(false);
+
+  const vignette = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.35, width / 2, height / 2, Math.hypot(width, height) / 2);
+  vignette.addColorStop(0, 'transparent');
+  vignette.addColorStop(1, 'rgba(0, 0, 0, 0.6)');
+  ctx.fillStyle = vignette;
+  ctx.fillRect(0, 0, width, height);
+};
+
+/** Runs the enabled passes over everything drawn on `ctx` so far. */
+export const drawPostEffects = (ctx: Canvas2D, effects: PostEffects) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (effects.bloom) bloom(ctx);
+  if (effects.flash > 0) {
+    ctx.fillStyle = `rgba(255, 255, 255, ${effects.flash * FLASH_ALPHA})`;
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  }
+  if (effects.crt) crt(ctx);
+};
@@ -0,0 +1,33 @@
+import type { BatterySide } from './types';
+import { createUpgrades, nextUpgradeCost, sanitizeUpgrades, withUpgrade, type UpgradeId, type Upgrades } from './upgrades';
+
+/** Everything that carries over from one run to the next. */
+export type Progression = {
+  credits: number;
+  upgrades: Upgrades;
+};
+
+const STORAGE_KEY = 'nova-defense:progression';
+
+export const loadProgression = (): Progression => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return { credits: 0, upgrades: createUpgrades() };
+    const fields = stored as Record<string, unknown>;
+    const credits = typeof fields.credits === 'number' && fields.credits > 0 ? Math.floor(fields.credits) : 0;
+    return { credits, upgrades: sanitizeUpgrades(fields.upgrades) };
+  } catch {
+    return { credits: 0, upgrades: createUpgrades() };
+  }
+};
+
+export const saveProgression = (progression: Progression) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(progression));
+};
+
+/** Buys the next level of `id`, or returns null if it is maxed out or unaffordable. */
+export const purchaseUpgrade = (progression: Progression, id: UpgradeId, side?: BatterySide): Progression | null => {
+  const cost = nextUpgradeCost(progression.upgrades, id, side);
+  if (cost === null || cost > progression.credits) return null;
+  return { credits: progression.credits - cost, upgrades: withUpgrade(progression.upgrades, id, side) };
+};
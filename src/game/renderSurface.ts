@@ -0,0 +1,80 @@
+import { trimParticles } from './particles';
+import { drawFrame, type Frame } from './renderer';
+
+/** Where frames end up: drawn straight onto the page's canvas, or by a worker that owns it. */
+export type RenderSurface = {
+  /** Sizes the canvas to `width`×`height` CSS pixels, with a backing store at `dpr` so lines stay sharp on high-DPI screens. */
+  resize(width: number, height: number, dpr: number): void;
+  draw(frame: Frame): void;
+  dispose(): void;
+};
+
+/** What the page sends the render worker. The worker answers every `frame` with `'drawn'`. */
+export type RenderWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'frame'; frame: Frame };
+
+const setDisplaySize = (canvas: HTMLCanvasElement, width: number, height: number) => {
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+};
+
+export const createCanvasSurface = (canvas: HTMLCanvasElement): RenderSurface => {
+  const ctx = canvas.getContext('2d');
+  return {
+    resize(width, height, dpr) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+      setDisplaySize(canvas, width, height);
+    },
+    draw(frame) {
+      if (ctx) drawFrame(ctx, frame);
+    },
+    dispose() {},
+  };
+};
+
+export const supportsWorkerRendering = () =>
+  typeof Worker !== 'undefined' && typeof HTMLCanvasElement !== 'undefined' && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// A canvas can be handed to a worker only once, so asking again for the same canvas gets the same surface.
+const workerSurfaces = new WeakMap<HTMLCanvasElement, RenderSurface>();
+
+/**
+ * Hands `canvas` over to a worker that draws the frames posted to it, taking drawing off the
+ * main thread. Once handed over, the canvas can never be drawn on from the page again.
+ */
+export const createWorkerSurface = (canvas: HTMLCanvasElement): RenderSurface => {
+  const existing = workerSurfaces.get(canvas);
+  if (existing) return existing;
+
+  const worker = new Worker(new URL('./renderWorker.ts', import.meta.url), { type: 'module' });
+  const post = (message: RenderWorkerMessage, transfer: Transferable[] = []) => worker.postMessage(message, transfer);
+  const offscreen = canvas.transferControlToOffscreen();
+  post({ type: 'init', canvas: offscreen }, [offscreen]);
+
+  // A worker that falls behind skips frames rather than working through a growing backlog.
+  let drawing = false;
+  worker.addEventListener('message', () => (drawing = false));
+
+  const surface: RenderSurface = {
+    resize(width, height, dpr) {
+      setDisplaySize(canvas, width, height);
+      post({ type: 'resize', width: Math.round(width * dpr), height: Math.round(height * dpr) });
+    },
+    draw(frame) {
+      if (drawing) return;
+      drawing = true;
+      // Only the drawn parts of the state are copied across; a simulation also carries its input log and stats.
+      const { width, height, missiles, explosions, buildings, ammo, weapons, specialAmmo, particles } = frame.state;
+      const state = { width, height, missiles, explosions, buildings, ammo, weapons, specialAmmo, particles: trimParticles(particles) };
+      post({ type: 'frame', frame: { ...frame, state } });
+    },
+    dispose() {
+      worker.terminate();
+    },
+  };
+  workerSurfaces.set(canvas, surface);
+  return surface;
+};
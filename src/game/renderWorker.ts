@@ -0,0 +1,23 @@
+import { drawFrame } from './renderer';
+import type { RenderWorkerMessage } from './renderSurface';
+
+// Draws frames posted by the page onto the canvas it handed over. See `createWorkerSurface`.
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+
+addEventListener('message', (e: MessageEvent<RenderWorkerMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      ctx = message.canvas.getContext('2d');
+      break;
+    case 'resize':
+      if (!ctx) break;
+      ctx.canvas.width = message.width;
+      ctx.canvas.height = message.height;
+      break;
+    case 'frame':
+      if (ctx) drawFrame(ctx, message.frame);
+      postMessage('drawn');
+      break;
+  }
+});
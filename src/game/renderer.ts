@@ -0,0 +1,476 @@
+import { GROUND_HEIGHT } from './constants';
+import { COLOR_SCHEMES, type ColorSchemeId } from './colors';
+import type { Palette } from './content';
+import { drawParticles } from './particles';
+import { NO_POST_EFFECTS, drawPostEffects, type PostEffects } from './postEffects';
+import type { GameSimulation } from './simulation';
+import { THEMES, type Skyline, type Theme, type ThemeId, type TrailStyle } from './themes';
+import type { Building, Missile, Point } from './types';
+import { WEAPONS } from './weapons';
+
+/** Either kind of 2D context; frames are drawn the same way on the page and in a render worker. */
+export type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** How to draw a frame, from the accessibility and graphics settings. Plain data, so it can be posted to a render worker. */
+export type RenderOptions = {
+  colors: ColorSchemeId;
+  /** Dashed enemy trails and distinct missile heads, on top of whatever the color scheme does. */
+  shapes: boolean;
+  particles: boolean;
+  theme: ThemeId;
+};
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = { colors: 'standard', shapes: false, particles: true, theme: 'standard' };
+
+const createCanvas = (width: number, height: number) =>
+  typeof OffscreenCanvas !== 'undefined' ? new OffscreenCanvas(width, height) : document.createElement('canvas');
+
+const BLAST_SPRITE_SIZE = 256;
+const blastSprites = new Map<string, OffscreenCanvas | HTMLCanvasElement>();
+
+/**
+ * A blast drawn once at full size in `color`, then scaled to each explosion, instead of building
+ * a fresh radial gradient for every explosion on every frame.
+ */
+const blastSprite = (color: string) => {
+  let sprite = blastSprites.get(color);
+  if (sprite) return sprite;
+  const size = BLAST_SPRITE_SIZE;
+  sprite = createCanvas(size, size);
+  sprite.width = sprite.height = size;
+  const ctx = sprite.getContext('2d') as Canvas2D | null;
+  if (ctx) {
+    const gradient = ctx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+    gradient.addColorStop(0, '#fff');
+    gradient.addColorStop(0.4, color);
+    gradient.addColorStop(1, 'transparent');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, size, size);
+  }
+  blastSprites.set(color, sprite);
+  return sprite;
+};
+
+/** Stroke passes of each trail style, widest first, as line width and alpha suffix. */
+const TRAIL_PASSES: Record<TrailStyle, [number, string][]> = {
+  faded: [[1, '44']],
+  solid: [[1, '']],
+  glow: [[5, '22'], [2, '66'], [1, '']],
+  bold: [[2, '']],
+};
+
+const drawTrail = (ctx: Canvas2D, m: Missile, color: string, shapes: boolean, style: TrailStyle) => {
+  ctx.beginPath();
+  ctx.moveTo(m.start.x, m.start.y);
+  ctx.lineTo(m.current.x, m.current.y);
+  // Enemy trails are dashed so they read differently from interceptor trails without color.
+  if (shapes && m.isEnemy) ctx.setLineDash([5, 4]);
+  for (const [width, alpha] of TRAIL_PASSES[style]) {
+    ctx.strokeStyle = color + alpha;
+    ctx.lineWidth = width;
+    ctx.stroke();
+  }
+  ctx.setLineDash([]);
+};
+
+const drawMissile = (ctx: Canvas2D, m: Missile, color: string, shapes: boolean, trails: TrailStyle) => {
+  const { x, y } = m.current;
+
+  switch (m.kind) {
+    case 'mirv':
+      drawTrail(ctx, m, color, shapes, trails);
+      ctx.fillStyle = color;
+      ctx.fillRect(x - 2, y - 2, 5, 5);
+      break;
+    case 'smart':
+      // Smart bombs weave, so a straight trail would lie about their path.
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x, y - 5);
+      ctx.lineTo(x + 4, y);
+      ctx.lineTo(x, y + 5);
+      ctx.lineTo(x - 4, y);
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'bomber': {
+      const dir = m.target.x > m.start.x ? 1 : -1;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.moveTo(x + 12 * dir, y);
+      ctx.lineTo(x - 10 * dir, y - 3);
+      ctx.lineTo(x - 10 * dir, y + 3);
+      ctx.closePath();
+      ctx.fill();
+      ctx.fillRect(x - 3, y - 8, 4, 16);
+      break;
+    }
+    default:
+      drawTrail(ctx, m, color, shapes, trails);
+      if (!shapes) {
+        ctx.fillStyle = color;
+        ctx.fillRect(x - 1, y - 1, 3, 3);
+      } else if (m.isEnemy) {
+        // Rockets get an arrowhead pointing down their path; interceptors a ring.
+        const angle = Math.atan2(m.current.y - m.start.y, m.current.x - m.start.x);
+        ctx.fillStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(x + Math.cos(angle) * 5, y + Math.sin(angle) * 5);
+        ctx.lineTo(x + Math.cos(angle + 2.5) * 4, y + Math.sin(angle + 2.5) * 4);
+        ctx.lineTo(x + Math.cos(angle - 2.5) * 4, y + Math.sin(angle - 2.5) * 4);
+        ctx.closePath();
+        ctx.fill();
+      } else {
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(x, y, 3, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+  }
+};
+
+/** 0 for an unhurt building, 1 once it has taken damage, 2 once it is down to half its hit points or less. */
+const damageStage = ({ hp, maxHp }: Building) => {
+  if (hp === undefined || !maxHp || hp >= maxHp) return 0;
+  return hp / maxHp > 0.5 ? 1 : 2;
+};
+
+/** Darkens a damaged building and runs cracks down it from the roof, one per stage. */
+const drawDamage = (ctx: Canvas2D, b: Building, stage: number) => {
+  ctx.fillStyle = `rgba(0, 0, 0, ${stage * 0.2})`;
+  ctx.fillRect(b.x, b.y, b.width, b.height);
+  ctx.strokeStyle = '#000a';
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  for (let i = 0; i < stage; i++) {
+    // Placed by building id, so a crack stays put from frame to frame.
+    const x = b.x + b.width * (((b.id * 7 + i * 5) % 9) + 1) / 10;
+    ctx.moveTo(x, b.y);
+    ctx.lineTo(x - 3, b.y + b.height * 0.3);
+    ctx.lineTo(x + 2, b.y + b.height * 0.55);
+    ctx.lineTo(x - 1, b.y + b.height * (0.55 + stage * 0.15));
+  }
+  ctx.stroke();
+};
+
+/** A fixed pseudo-random number in [0, 1) for `n`, so scenery stays put from frame to frame. */
+const noise = (n: number) => {
+  const x = Math.sin(n * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+};
+
+/** Heights of the three towers a city is drawn as, as fractions of its height. */
+const towerHeights = (b: Building) => [0.6 + noise(b.id) * 0.3, 1, 0.55 + noise(b.id + 0.5) * 0.35];
+
+/** Traces the outline of `b`: a row of towers for a city, a plain block for a battery. */
+const traceBuilding = (ctx: Canvas2D, b: Building) => {
+  ctx.beginPath();
+  if (b.type !== 'city') {
+    ctx.rect(b.x, b.y, b.width, b.height);
+    return;
+  }
+  const bottom = b.y + b.height;
+  const heights = towerHeights(b);
+  const towerWidth = b.width / heights.length;
+  ctx.moveTo(b.x, bottom);
+  heights.forEach((h, i) => {
+    ctx.lineTo(b.x + i * towerWidth, bottom - b.height * h);
+    ctx.lineTo(b.x + (i + 1) * towerWidth, bottom - b.height * h);
+  });
+  ctx.lineTo(b.x + b.width, bottom);
+  ctx.closePath();
+};
+
+/** Lit windows scattered over a city's towers. */
+const drawWindows = (ctx: Canvas2D, b: Building, color: string) => {
+  ctx.fillStyle = color;
+  const bottom = b.y + b.height;
+  const heights = towerHeights(b);
+  const towerWidth = b.width / heights.length;
+  heights.forEach((h, i) => {
+    for (let x = b.x + i * towerWidth + 2; x + 2 <= b.x + (i + 1) * towerWidth - 1; x += 4) {
+      for (let y = bottom - b.height * h + 3; y + 2 <= bottom - 2; y += 5) {
+        if (noise(b.id * 131 + x * 7 + y) < 0.4) ctx.fillRect(x, y, 2, 2);
+      }
+    }
+  });
+};
+
+/** Draws a standing building in the theme's building style. */
+const drawBuilding = (ctx: Canvas2D, b: Building, palette: Palette, theme: Theme) => {
+  const color = b.type === 'battery' ? palette.battery : palette.city;
+  switch (theme.buildings) {
+    case 'block':
+      ctx.fillStyle = color;
+      ctx.fillRect(b.x, b.y, b.width, b.height);
+      break;
+    case 'bold':
+      ctx.fillStyle = color;
+      ctx.fillRect(b.x, b.y, b.width, b.height);
+      ctx.strokeStyle = theme.accent;
+      ctx.lineWidth = 2;
+      ctx.strokeRect(b.x, b.y, b.width, b.height);
+      break;
+    case 'outline':
+      traceBuilding(ctx, b);
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.stroke();
+      break;
+    case 'neon':
+      traceBuilding(ctx, b);
+      ctx.fillStyle = color;
+      ctx.fill();
+      ctx.strokeStyle = theme.accent;
+      ctx.lineWidth = 2;
+      ctx.stroke();
+      break;
+    case 'silhouette':
+      traceBuilding(ctx, b);
+      ctx.fillStyle = color;
+      ctx.fill();
+      if (b.type === 'city') drawWindows(ctx, b, theme.accent);
+      break;
+  }
+};
+
+const paintSkyline = (ctx: Canvas2D, skyline: Skyline, accent: string, width: number, height: number) => {
+  switch (skyline) {
+    case 'mountains': {
+      // A vector-monitor mountain range along the horizon.
+      ctx.strokeStyle = accent;
+      ctx.globalAlpha = 0.5;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      for (let i = 0, x = 0; x <= width + 40; i++, x += 40) {
+        const y = height - 15 - noise(i) * (i % 2 ? 30 : 90);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+      break;
+    }
+    case 'sunset': {
+      // A striped sun sinking behind the ground, and a glow along the horizon.
+      const radius = Math.min(width, height) * 0.22;
+      const cx = width / 2;
+      const cy = height - radius * 0.35;
+      const sun = ctx.createLinearGradient(0, cy - radius, 0, cy + radius);
+      sun.addColorStop(0, '#ffe66d');
+      sun.addColorStop(0.6, '#ff3d8a');
+      ctx.fillStyle = sun;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalCompositeOperation = 'destination-out';
+      for (let i = 0; i < 6; i++) ctx.fillRect(cx - radius, cy - radius * 0.1 + i * radius * 0.14, radius * 2, 1 + i * 1.5);
+      ctx.globalCompositeOperation = 'source-over';
+      const glow = ctx.createLinearGradient(0, height * 0.5, 0, height);
+      glow.addColorStop(0, 'transparent');
+      glow.addColorStop(1, accent + '55');
+      ctx.fillStyle = glow;
+      ctx.fillRect(0, 0, width, height);
+      break;
+    }
+    case 'towers': {
+      // Stars over a distant skyline of dim towers.
+      ctx.fillStyle = '#ffffff';
+      for (let i = 0; i < width / 10; i++) {
+        ctx.globalAlpha = 0.2 + noise(i + 0.3) * 0.6;
+        ctx.fillRect(noise(i) * width, noise(i + 0.7) * height * 0.6, 1, 1);
+      }
+      for (let i = 0, x = 0; x < width; i++) {
+        const towerWidth = 20 + noise(i + 0.1) * 30;
+        const towerHeight = 40 + noise(i + 0.2) * 120;
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#1a2240';
+        ctx.fillRect(x, height - towerHeight, towerWidth - 2, towerHeight);
+        ctx.globalAlpha = 0.25;
+        ctx.fillStyle = accent;
+        for (let y = height - towerHeight + 4; y < height - 4; y += 8) {
+          if (noise(i * 17 + y) < 0.3) ctx.fillRect(x + 4 + noise(y + i) * (towerWidth - 10), y, 2, 2);
+        }
+        x += towerWidth;
+      }
+      break;
+    }
+  }
+  ctx.globalAlpha = 1;
+};
+
+const skylineSprites = new Map<Skyline, OffscreenCanvas | HTMLCanvasElement>();
+
+/** The theme's skyline painted once for a `width`×`height` sky, and again only when that size changes. */
+const skylineSprite = (theme: Theme, width: number, height: number) => {
+  let sprite = skylineSprites.get(theme.skyline);
+  if (sprite && sprite.width === Math.ceil(width) && sprite.height === Math.ceil(height)) return sprite;
+  sprite = createCanvas(Math.ceil(width), Math.ceil(height));
+  const ctx = sprite.getContext('2d') as Canvas2D | null;
+  if (ctx) paintSkyline(ctx, theme.skyline, theme.accent, width, height);
+  skylineSprites.set(theme.skyline, sprite);
+  return sprite;
+};
+
+/** The parts of a simulation the renderer reads. Multiplayer snapshots have the same shape, without special weapons. */
+export type RenderState = Pick<GameSimulation, 'width' | 'height' | 'missiles' | 'explosions' | 'particles' | 'buildings' | 'ammo'> &
+  Partial<Pick<GameSimulation, 'weapons' | 'specialAmmo'>>;
+
+/**
+ * Draws the current simulation state in the theme, or in the level's `palette` when the theme
+ * has none of its own. Pure read of `sim`; never mutates it.
+ */
+export const renderGame = (ctx: Canvas2D, sim: RenderState, levelPalette: Palette, options = DEFAULT_RENDER_OPTIONS) => {
+  const { width, height } = sim;
+  const colors = COLOR_SCHEMES[options.colors];
+  const shapes = options.shapes || colors.shapes;
+  const theme = THEMES[options.theme];
+  const palette = theme.palette ?? levelPalette;
+
+  // Clear
+  ctx.clearRect(0, 0, width, height);
+  if (palette.sky) {
+    ctx.fillStyle = palette.sky;
+    ctx.fillRect(0, 0, width, height);
+  }
+  if (theme.skyline !== 'none') ctx.drawImage(skylineSprite(theme, width, height - GROUND_HEIGHT), 0, 0);
+
+  // Draw Ground
+  ctx.fillStyle = palette.ground;
+  ctx.fillRect(0, height - GROUND_HEIGHT, width, GROUND_HEIGHT);
+  if (theme.groundLine) {
+    ctx.fillStyle = theme.groundLine;
+    ctx.fillRect(0, height - GROUND_HEIGHT, width, 2);
+  }
+
+  // Draw Missiles
+  sim.missiles.forEach(m => drawMissile(ctx, m, colors.missile(m), shapes, theme.trails));
+
+  // Draw Explosions
+  // Colorblind schemes keep their own blast color, whatever the theme.
+  const blast = blastSprite(options.colors === 'standard' && theme.blast ? theme.blast : colors.blast);
+  sim.explosions.forEach(e => {
+    if (e.radius <= 0) return;
+    if (e.weapon === 'emp') {
+      // An EMP does no damage, so it gets a ring rather than a fireball.
+      ctx.strokeStyle = WEAPONS.emp.color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(e.x, e.y, e.radius, 0, Math.PI * 2);
+      ctx.stroke();
+      return;
+    }
+    ctx.drawImage(blast, e.x - e.radius, e.y - e.radius, e.radius * 2, e.radius * 2);
+  });
+
+  // Draw Particles
+  if (options.particles) drawParticles(ctx, sim.particles);
+
+  // Draw Buildings
+  sim.buildings.forEach(b => {
+    if (b.isDestroyed) {
+      ctx.fillStyle = '#333';
+      ctx.fillRect(b.x, b.y + b.height - 5, b.width, 5);
+      if (b.rebuildAt !== undefined) {
+        // Scaffolding outline while a battery is being rebuilt.
+        ctx.strokeStyle = '#88f8';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+        ctx.strokeRect(b.x, b.y, b.width, b.height);
+        ctx.setLineDash([]);
+      }
+    } else {
+      drawBuilding(ctx, b, palette, theme);
+
+      const stage = damageStage(b);
+      if (stage) drawDamage(ctx, b, stage);
+
+      if (b.armor) {
+        ctx.strokeStyle = '#44ccff';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(b.x - 1, b.y - 1, b.width + 2, b.height + 2);
+      }
+
+      if (b.type === 'battery' && b.batterySide) {
+        ctx.fillStyle = palette.turret;
+        ctx.fillRect(b.x + b.width / 2 - 5, b.y - 10, 10, 10);
+        ctx.fillStyle = '#fff';
+        ctx.font = '10px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(sim.ammo[b.batterySide].toString(), b.x + b.width / 2, b.y + b.height / 2 + 4);
+
+        // Special rounds are counted in the ground strip below the battery.
+        const weapon = sim.weapons?.[b.batterySide];
+        if (weapon && sim.specialAmmo) {
+          ctx.fillStyle = WEAPONS[weapon].color;
+          ctx.fillText(`${WEAPONS[weapon].glyph}${sim.specialAmmo[b.batterySide]}`, b.x + b.width / 2, b.y + b.height + 14);
+        }
+      }
+    }
+  });
+};
+
+/** Aiming reticle for keyboard and gamepad players. */
+const renderCrosshair = (ctx: Canvas2D, { x, y }: Point, color = '#44ccff') => {
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.arc(x, y, 10, 0, Math.PI * 2);
+  ctx.moveTo(x - 16, y);
+  ctx.lineTo(x - 6, y);
+  ctx.moveTo(x + 6, y);
+  ctx.lineTo(x + 16, y);
+  ctx.moveTo(x, y - 16);
+  ctx.lineTo(x, y - 6);
+  ctx.moveTo(x, y + 6);
+  ctx.lineTo(x, y + 16);
+  ctx.stroke();
+};
+
+/** Versus attacker's planned launch: a marker on the top edge and a dashed line to the aim point. */
+const renderAttackPlan = (ctx: Canvas2D, launchX: number, aim: Point, color: string) => {
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.moveTo(launchX - 6, 0);
+  ctx.lineTo(launchX + 6, 0);
+  ctx.lineTo(launchX, 10);
+  ctx.closePath();
+  ctx.fill();
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  ctx.moveTo(launchX, 10);
+  ctx.lineTo(aim.x, aim.y);
+  ctx.stroke();
+  ctx.setLineDash([]);
+};
+
+/**
+ * One frame as plain data: the world, where it sits on the canvas, and the reticles drawn over
+ * it. Drawn with `drawFrame`, here or in a render worker.
+ */
+export type Frame = {
+  state: RenderState;
+  palette: Palette;
+  options: RenderOptions;
+  /** World-to-canvas scale and offset, in backing-store pixels. */
+  transform: { scale: number; x: number; y: number };
+  crosshairs: { at: Point; color: string }[];
+  /** Versus only: the attacker's planned launch. */
+  attackPlan?: { launchX: number; aim: Point; color: string };
+  /** Passes run over the finished frame. None when missing. */
+  effects?: PostEffects;
+};
+
+/** Clears the whole canvas, so letterbox bars stay empty, and draws `frame` onto it. */
+export const drawFrame = (ctx: Canvas2D, { state, palette, options, transform, crosshairs, attackPlan, effects = NO_POST_EFFECTS }: Frame) => {
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.setTransform(transform.scale, 0, 0, transform.scale, transform.x, transform.y);
+  renderGame(ctx, state, palette, options);
+  crosshairs.forEach(c => renderCrosshair(ctx, c.at, c.color));
+  if (attackPlan) renderAttackPlan(ctx, attackPlan.launchX, attackPlan.aim, attackPlan.color);
+  drawPostEffects(ctx, effects);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { GameSimulation } from './simulation';
+import { createReplay, parseReplay, ReplayPlayer, serializeReplay } from './replay';
+import type { SpecialWeaponId } from './weapons';
+
+/** Plays a few seconds of `mode`, shooting just below the first enemy on screen every 20 frames. */
+const playRun = (mode: string, weapons: SpecialWeaponId[] = []) => {
+  const sim = new GameSimulation({
+    width: 900,
+    height: 600,
+    difficulty: 'medium',
+    mode,
+    seed: 5,
+    weapons: { left: weapons[0] ?? null, center: weapons[1] ?? null, right: weapons[2] ?? null },
+  });
+  let shot = 0;
+  while (sim.status === 'playing' && sim.frame < 1800) {
+    sim.tick();
+    if (sim.frame === 600) sim.resize(800, 600);
+    const enemy = sim.frame % 20 === 0 && sim.missiles.find(m => m.isEnemy);
+    if (enemy) sim.fire(enemy.current.x, Math.min(enemy.current.y + 60, 450), undefined, 0, weapons[shot++ % 4] ?? 'standard');
+  }
+  return sim;
+};
+
+const playBack = (text: string) => {
+  const player = new ReplayPlayer(parseReplay(text));
+  player.seek(player.totalFrames);
+  return player;
+};
+
+test('a replay plays back to the recorded score and destroyed buildings', () => {
+  const sim = playRun('classic');
+  assert.ok(sim.score > 0 && sim.inputs.some(input => input.type === 'resize'));
+  const player = playBack(serializeReplay(createReplay(sim)));
+  assert.equal(player.sim.frame, sim.frame);
+  assert.equal(player.sim.score, sim.score);
+  assert.ok(player.matchesRecording());
+});
+
+test('a replay keeps the loadout and the special rounds fired', () => {
+  const sim = playRun('campaign', ['flak', 'nuke', 'proximity']);
+  const replay = parseReplay(serializeReplay(createReplay(sim)));
+  assert.deepEqual(replay.weapons, { left: 'flak', center: 'nuke', right: 'proximity' });
+  assert.ok(replay.inputs.some(input => input.type === 'fire' && input.weapon));
+  assert.ok(playBack(serializeReplay(replay)).matchesRecording());
+});
+
+test('a replay with an edited result no longer matches', () => {
+  const replay = createReplay(playRun('classic'));
+  const player = playBack(serializeReplay({ ...replay, result: { ...replay.result, score: replay.result.score + 10 } }));
+  assert.equal(player.matchesRecording(), false);
+});
+
+test('parseReplay rejects malformed files with a description of the problem', () => {
+  const valid = JSON.parse(serializeReplay(createReplay(playRun('classic'))));
+  const broken = (patch: object) => JSON.stringify({ ...valid, ...patch });
+  assert.throws(() => parseReplay('{'), /not valid JSON/);
+  assert.throws(() => parseReplay(broken({ version: 99 })), /Unsupported replay version: 99/);
+  assert.throws(() => parseReplay(broken({ seed: 'x' })), /"seed" must be a number/);
+  assert.throws(() => parseReplay(broken({ mode: 'nowhere' })), /Unknown mode: nowhere/);
+  assert.throws(() => parseReplay(broken({ inputs: [[1, 'x']] })), /Input #0 is malformed/);
+  assert.throws(() => parseReplay(broken({ inputs: [[1, 10, 10, null, 7]] })), /Input #0 is malformed/);
+  assert.throws(() => parseReplay(broken({ result: { frames: 1 } })), /"result" is malformed/);
+});
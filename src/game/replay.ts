@@ -0,0 +1,240 @@
+import { FRAME_MS } from './constants';
+import { CLASSIC_DAMAGE, isDifficultyId, isLevelId, isShippedLevel, levelToJson, parseLevel, type LevelDefinition } from './content';
+import { GameSimulation } from './simulation';
+import { ALL_PLAY_MODES, MAX_ONLINE_PLAYERS, defenderCount, type PlayMode, type PlayerIndex } from './players';
+import type { BatterySide, Difficulty, GameMode, SimInput } from './types';
+import { BASE_UPGRADES, BATTERY_UPGRADES, sanitizeUpgrades, type UpgradeId, type Upgrades } from './upgrades';
+import { isSpecialWeapon, sanitizeWeapons, type SpecialWeaponId, type WeaponLoadout } from './weapons';
+
+export const REPLAY_VERSION = 2;
+// Version 1 replays were recorded before damage rules came with the difficulty; they play back with the classic ones.
+const CLASSIC_DAMAGE_VERSION = 1;
+
+const SIDES: BatterySide[] = ['left', 'center', 'right'];
+const UPGRADE_IDS: UpgradeId[] = [...BATTERY_UPGRADES, ...BASE_UPGRADES];
+
+/**
+ * Compact input encoding: `[frame, x, y]` for an auto-aimed shot, `[frame, x, y, side]` for a
+ * shot from a chosen battery, `[frame, x, y, side | null, player]` for a shot by any player but the first,
+ * `[frame, x, y, side | null, player, weapon]` for a special round,
+ * `[frame, 'd', difficulty]` for a mid-run difficulty change, `[frame, 'r', width, height]` for
+ * a viewport resize, `[frame, 'u', upgrade, side?]` for an upgrade bought between waves and
+ * `[frame, 'l', x, targetId]` for a rocket launched by a versus attacker.
+ */
+type EncodedInput =
+  | [number, number, number]
+  | [number, number, number, BatterySide]
+  | [number, number, number, BatterySide | null, PlayerIndex]
+  | [number, number, number, BatterySide | null, PlayerIndex, SpecialWeaponId]
+  | [number, 'l', number, number]
+  | [number, 'd', Difficulty]
+  | [number, 'r', number, number]
+  | [number, 'u', UpgradeId]
+  | [number, 'u', UpgradeId, BatterySide];
+
+const encodeInput = (input: SimInput): EncodedInput => {
+  switch (input.type) {
+    case 'fire':
+      if (input.weapon) return [input.frame, input.x, input.y, input.side ?? null, input.player ?? 0, input.weapon];
+      if (input.player) return [input.frame, input.x, input.y, input.side ?? null, input.player];
+      return input.side ? [input.frame, input.x, input.y, input.side] : [input.frame, input.x, input.y];
+    case 'launch':
+      return [input.frame, 'l', input.x, input.targetId];
+    case 'difficulty':
+      return [input.frame, 'd', input.difficulty];
+    case 'resize':
+      return [input.frame, 'r', input.width, input.height];
+    case 'upgrade':
+      return input.side ? [input.frame, 'u', input.upgrade, input.side] : [input.frame, 'u', input.upgrade];
+  }
+};
+
+export type Replay = {
+  version: number;
+  seed: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  /** Levels built in the editor travel with the replay, since nobody else has their file. */
+  level?: LevelDefinition;
+  /** Missing in replays recorded before multiplayer, which were all solo. */
+  playMode: PlayMode;
+  playerCount: number;
+  width: number;
+  height: number;
+  /** Upgrades owned when the run started. Missing in replays recorded before the shop existed. */
+  upgrades: Upgrades;
+  /** Special weapons the batteries carried. Missing in replays recorded before special weapons existed. */
+  weapons: WeaponLoadout;
+  inputs: SimInput[];
+  /** Outcome of the recorded run, used to check that playback reproduced it. */
+  result: {
+    frames: number;
+    score: number;
+    destroyed: number[];
+  };
+};
+
+const destroyedIds = (sim: GameSimulation) => sim.buildings.filter(b => b.isDestroyed).map(b => b.id);
+
+/** Captures a finished (or in-progress) run. */
+export const createReplay = (sim: GameSimulation): Replay => ({
+  version: REPLAY_VERSION,
+  seed: sim.seed,
+  difficulty: sim.initialDifficulty,
+  mode: sim.mode,
+  ...(!isShippedLevel(sim.level) && { level: sim.level }),
+  playMode: sim.playMode,
+  playerCount: sim.playerScores.length,
+  width: sim.initialWidth,
+  height: sim.initialHeight,
+  upgrades: sim.initialUpgrades,
+  weapons: sim.weapons,
+  inputs: [...sim.inputs],
+  result: { frames: sim.frame, score: sim.score, destroyed: destroyedIds(sim) },
+});
+
+export const serializeReplay = (replay: Replay) => {
+  const level = replay.level && levelToJson(replay.level);
+  return JSON.stringify({ ...replay, ...(level && { level }), inputs: replay.inputs.map(encodeInput) });
+};
+
+const isSide = (value: unknown): value is BatterySide => SIDES.includes(value as BatterySide);
+const isUpgradeId = (value: unknown): value is UpgradeId => UPGRADE_IDS.includes(value as UpgradeId);
+const isPlayMode = (value: unknown): value is PlayMode => ALL_PLAY_MODES.includes(value as PlayMode);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIndex = (value: unknown, count: number): value is PlayerIndex =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < count;
+
+/** Parses a replay file. Throws an `Error` describing the first problem found. */
+export const parseReplay = (text: string): Replay => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Replay file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object') throw new Error('Replay file is empty');
+  const raw = parsed as Record<string, unknown>;
+  const { version, seed, width, height, difficulty, mode } = raw;
+  if (version !== REPLAY_VERSION && version !== CLASSIC_DAMAGE_VERSION) throw new Error(`Unsupported replay version: ${version}`);
+  if (!isNumber(seed)) throw new Error('Replay field "seed" must be a number');
+  if (!isNumber(width)) throw new Error('Replay field "width" must be a number');
+  if (!isNumber(height)) throw new Error('Replay field "height" must be a number');
+  if (!isDifficultyId(difficulty)) throw new Error(`Unknown difficulty: ${difficulty}`);
+  const level = raw.level === undefined ? undefined : parseLevel(raw.level, 'Replay level');
+  if (typeof mode !== 'string' || (level ? level.id !== mode : !isLevelId(mode))) throw new Error(`Unknown mode: ${mode}`);
+  const playMode = raw.playMode ?? 'solo';
+  if (!isPlayMode(playMode)) throw new Error(`Unknown play mode: ${playMode}`);
+  const playerCount = raw.playerCount ?? defenderCount(playMode);
+  if (typeof playerCount !== 'number' || !Number.isInteger(playerCount) || playerCount < 1 || playerCount > MAX_ONLINE_PLAYERS) {
+    throw new Error(`Invalid player count: ${playerCount}`);
+  }
+  if (!Array.isArray(raw.inputs)) throw new Error('Replay field "inputs" must be an array');
+  const result = (raw.result && typeof raw.result === 'object' ? raw.result : {}) as Record<string, unknown>;
+  const { frames, score, destroyed } = result;
+  if (!isNumber(frames) || !isNumber(score) || !Array.isArray(destroyed) || !destroyed.every(id => Number.isInteger(id))) {
+    throw new Error('Replay field "result" is malformed');
+  }
+
+  const inputs = (raw.inputs as unknown[]).map((entry, i): SimInput => {
+    if (!Array.isArray(entry)) throw new Error(`Input #${i} is malformed`);
+    const [frame, a, b, c, d, e] = entry as unknown[];
+    if (typeof frame !== 'number') throw new Error(`Input #${i} is malformed`);
+    if (a === 'd' && isDifficultyId(b)) return { frame, type: 'difficulty', difficulty: b };
+    if (a === 'r' && typeof b === 'number' && typeof c === 'number') return { frame, type: 'resize', width: b, height: c };
+    if (a === 'u' && isUpgradeId(b)) {
+      if (c === undefined) return { frame, type: 'upgrade', upgrade: b };
+      if (isSide(c)) return { frame, type: 'upgrade', upgrade: b, side: c };
+    }
+    if (a === 'l' && typeof b === 'number' && typeof c === 'number') return { frame, type: 'launch', x: b, targetId: c };
+    if (typeof a === 'number' && typeof b === 'number') {
+      const side = isSide(c) ? c : undefined;
+      if (isSpecialWeapon(e) && isIndex(d, playerCount) && (c === null || side)) {
+        return { frame, type: 'fire', x: a, y: b, ...(side && { side }), ...(d && { player: d }), weapon: e };
+      }
+      if (e === undefined && isIndex(d, playerCount) && d > 0 && (c === null || side)) {
+        return { frame, type: 'fire', x: a, y: b, ...(side && { side }), player: d };
+      }
+      if (c === undefined) return { frame, type: 'fire', x: a, y: b };
+      if (side) return { frame, type: 'fire', x: a, y: b, side };
+    }
+    throw new Error(`Input #${i} is malformed`);
+  });
+
+  return {
+    version,
+    seed,
+    difficulty,
+    mode,
+    ...(level && { level }),
+    playMode,
+    playerCount,
+    width,
+    height,
+    upgrades: sanitizeUpgrades(raw.upgrades),
+    weapons: sanitizeWeapons(raw.weapons),
+    inputs,
+    result: { frames, score, destroyed },
+  };
+};
+
+/**
+ * Re-runs a replay in a fresh simulation. Time is advanced with `play`, and `seek` jumps to
+ * any frame (seeking backwards restarts from frame 0, since the simulation cannot rewind).
+ */
+export class ReplayPlayer {
+  sim!: GameSimulation;
+  private cursor = 0;
+  private accumulator = 0;
+
+  constructor(readonly replay: Replay) {
+    this.reset();
+  }
+
+  get totalFrames() {
+    return this.replay.result.frames;
+  }
+
+  get finished() {
+    return this.sim.status !== 'playing' || this.sim.frame >= this.totalFrames;
+  }
+
+  /** Advances by `dt` milliseconds of playback time (already multiplied by the playback speed). */
+  play(dt: number) {
+    this.accumulator += dt;
+    const frames = Math.floor(this.accumulator / FRAME_MS);
+    this.accumulator -= frames * FRAME_MS;
+    this.advance(frames);
+  }
+
+  seek(frame: number) {
+    if (frame < this.sim.frame) this.reset();
+    this.advance(frame - this.sim.frame);
+  }
+
+  /** Whether playback reached the recorded outcome. Only meaningful once `finished`. */
+  matchesRecording() {
+    const { score, destroyed } = this.replay.result;
+    const actual = destroyedIds(this.sim);
+    return this.sim.score === score && actual.length === destroyed.length && actual.every((id, i) => id === destroyed[i]);
+  }
+
+  private reset() {
+    const { version, width, height, difficulty, mode, level, playMode, playerCount, seed, upgrades, weapons } = this.replay;
+    const damage = version === CLASSIC_DAMAGE_VERSION ? CLASSIC_DAMAGE : undefined;
+    this.sim = new GameSimulation({ width, height, difficulty, mode, level, playMode, playerCount, seed, upgrades, damage, weapons });
+    this.cursor = 0;
+    this.accumulator = 0;
+  }
+
+  private advance(frames: number) {
+    const { inputs } = this.replay;
+    for (let i = 0; i < frames && !this.finished; i++) {
+      while (this.cursor < inputs.length && inputs[this.cursor].frame <= this.sim.frame) {
+        this.sim.applyInput(inputs[this.cursor++]);
+      }
+      this.sim.tick();
+    }
+  }
+}
@@ -0,0 +1,42 @@
+export type Rng = {
+  /** Uniform float in [0, 1). */
+  next: () => number;
+  /** Uniform float in [min, max). */
+  range: (min: number, max: number) => number;
+  /** Uniform integer in [0, n). */
+  int: (n: number) => number;
+  pick: <T>(items: readonly T[]) => T;
+  /** Picks with chances proportional to `weight`; uniformly when every weight is 0. */
+  weighted: <T>(items: readonly T[], weight: (item: T) => number) => T;
+};
+
+// mulberry32: tiny, fast and good enough for gameplay. Same seed, same sequence, on every platform.
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (n: number) => Math.floor(next() * n);
+  return {
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int,
+    pick: (items) => items[int(items.length)],
+    weighted: (items, weight) => {
+      const total = items.reduce((sum, item) => sum + weight(item), 0);
+      if (total <= 0) return items[int(items.length)];
+      let roll = next() * total;
+      for (const item of items) {
+        roll -= weight(item);
+        if (roll < 0) return item;
+      }
+      return items[items.length - 1];
+    },
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0x100000000) >>> 0;
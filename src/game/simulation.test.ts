@@ -0,0 +1,302 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { EXPLOSION_RADIUS, FRAME_MS, INTERCEPT_SCORE } from './constants';
+import { CLASSIC_DAMAGE, getLevel, type DamageRules, type LevelDefinition } from './content';
+import { GameSimulation, type SimulationOptions } from './simulation';
+import type { Building } from './types';
+import { AMMO_BONUS, CITY_BONUS } from './waves';
+import { BATTERY_REBUILD_MS, createUpgrades, withUpgrade } from './upgrades';
+import { EMP_FRAMES, EMP_SLOWDOWN, NO_WEAPONS, WEAPONS, type SpecialWeaponId } from './weapons';
+
+/** A versus run nobody attacks in: the only enemies are the ones a test launches, so every hit can be set up exactly. */
+const quietRun = (options: Partial<SimulationOptions> = {}) =>
+  new GameSimulation({ width: 900, height: 600, difficulty: 'medium', seed: 1, playMode: 'versus', damage: CLASSIC_DAMAGE, ...options });
+
+const runUntil = (sim: GameSimulation, done: () => boolean, limit = 2000) => {
+  const end = sim.frame + limit;
+  while (!done() && sim.frame < end) sim.tick();
+};
+
+const cities = (sim: GameSimulation) => sim.buildings.filter(b => b.type === 'city');
+const battery = (sim: GameSimulation, side: Building['batterySide']) => sim.buildings.find(b => b.batterySide === side)!;
+const centerX = (b: Building) => b.x + b.width / 2;
+const distance = (a: Building, b: Building) => Math.hypot(centerX(a) - centerX(b), a.y + a.height / 2 - (b.y + b.height / 2));
+
+/** Drops a rocket straight down onto `target`. It falls one pixel a frame, so it is `frame - launch` pixels down. */
+const drop = (sim: GameSimulation, target: Building) => {
+  runUntil(sim, () => sim.canLaunch);
+  assert.ok(sim.launch(centerX(target), target.id));
+  return sim.frame;
+};
+
+/** Fires from the center battery so the interceptor goes off at (`x`, `y`) on `frame`. */
+const fireAt = (sim: GameSimulation, x: number, y: number, frame: number) => {
+  const center = battery(sim, 'center');
+  const flight = Math.hypot(x - centerX(center), y - center.y) / sim.loadout('center').missileSpeed;
+  runUntil(sim, () => sim.frame >= frame - Math.ceil(flight));
+  assert.ok(sim.fire(x, y, 'center'));
+};
+
+/** Ticks until nothing is left in the air, returning the deepest chain blast seen on the way. */
+const settle = (sim: GameSimulation) => {
+  let deepest = 0;
+  runUntil(sim, () => {
+    for (const e of sim.explosions) deepest = Math.max(deepest, e.depth ?? 0);
+    return sim.missiles.length === 0 && sim.explosions.length === 0;
+  });
+  return deepest;
+};
+
+test('shooting down a rocket scores it and sets off a chain blast where it was', () => {
+  const sim = quietRun();
+  const city = cities(sim)[0];
+  const launched = drop(sim, city);
+  fireAt(sim, centerX(city), 300, launched + 300);
+  assert.equal(settle(sim), 1);
+  assert.equal(sim.score, INTERCEPT_SCORE);
+  assert.equal(sim.stats.interceptions, 1);
+  assert.equal(sim.stats.wastedShots, 0);
+  assert.equal(city.isDestroyed, false);
+});
+
+test('one blast catching two rockets is recorded as a chain of two', () => {
+  const sim = quietRun();
+  const city = cities(sim)[1];
+  const launched = drop(sim, city);
+  drop(sim, city);
+  fireAt(sim, centerX(city), 300, launched + 300);
+  settle(sim);
+  assert.equal(sim.score, 2 * INTERCEPT_SCORE);
+  assert.deepEqual(sim.stats.chains, [2]);
+  assert.deepEqual(sim.playerStats[0].chains, [2]);
+});
+
+test('a chain blast that catches another rocket sets off a deeper one', () => {
+  const sim = quietRun();
+  const city = cities(sim)[2];
+  const launched = drop(sim, city);
+  runUntil(sim, () => sim.frame >= launched + 60);
+  drop(sim, city);
+  // Off to the side, so the interceptor catches the first rocket at the edge of its blast and the
+  // second, a second behind it, only meets the first one's chain blast.
+  fireAt(sim, centerX(city) + 30, 320, launched + 300);
+  assert.equal(settle(sim), 2);
+  assert.equal(sim.score, 2 * INTERCEPT_SCORE);
+  assert.deepEqual(sim.stats.chains, []);
+});
+
+test('a missed shot counts as wasted and the rocket destroys what it lands on', () => {
+  const sim = quietRun();
+  const city = cities(sim)[0];
+  drop(sim, city);
+  assert.ok(sim.fire(centerX(city) + 300, 100, 'center'));
+  settle(sim);
+  assert.equal(sim.score, 0);
+  assert.equal(sim.stats.wastedShots, 1);
+  assert.equal(sim.stats.leaks, 1);
+  assert.equal(city.isDestroyed, true);
+  assert.deepEqual(sim.stats.losses.map(l => l.buildingId), [city.id]);
+});
+
+/** The campaign with a single rocket in its first wave, so the first intermission comes quickly. */
+const shortCampaign = (): LevelDefinition => {
+  const campaign = getLevel('campaign');
+  return {
+    ...campaign,
+    enemies: { ...campaign.enemies, mix: { rocket: 1, mirv: 0, smart: 0, bomber: 0 } },
+    waves: { ...campaign.waves!, timeline: [{ rockets: 1, intervalMs: 100, speedScale: 1 }] },
+  };
+};
+
+test('clearing a wave pays for the standing cities and the rounds left, then restocks', () => {
+  const sim = new GameSimulation({ width: 900, height: 600, difficulty: 'medium', seed: 1, level: shortCampaign(), damage: CLASSIC_DAMAGE });
+  for (let i = 0; i < 3; i++) sim.fire(100, 100, 'left');
+  runUntil(sim, () => sim.wavePhase === 'intermission');
+
+  const standing = cities(sim).filter(c => !c.isDestroyed).length;
+  // Rounds in the batteries still standing; the rocket may have taken one out.
+  const leftoverAmmo = { left: 17, center: 40, right: 20 };
+  for (const side of ['left', 'center', 'right'] as const) if (battery(sim, side).isDestroyed) leftoverAmmo[side] = 0;
+  const roundsLeft = leftoverAmmo.left + leftoverAmmo.center + leftoverAmmo.right;
+  assert.deepEqual(sim.lastWaveReport, {
+    wave: 1,
+    survivingCities: standing,
+    cityBonus: standing * CITY_BONUS,
+    leftoverAmmo,
+    ammoBonus: roundsLeft * AMMO_BONUS,
+    restoredCities: 0,
+  });
+  assert.equal(sim.score, standing * CITY_BONUS + roundsLeft * AMMO_BONUS);
+  assert.deepEqual(sim.ammo, { left: 20, center: 40, right: 20 });
+});
+
+test('upgrades are only sold between waves, and bought ammo and armor apply straight away', () => {
+  const sim = new GameSimulation({ width: 900, height: 600, difficulty: 'medium', seed: 1, level: shortCampaign(), damage: CLASSIC_DAMAGE });
+  assert.equal(sim.buyUpgrade('ammo', 'left'), false);
+  runUntil(sim, () => sim.wavePhase === 'intermission');
+  assert.equal(sim.ammo.left, 20);
+
+  assert.ok(sim.buyUpgrade('ammo', 'left'));
+  assert.equal(sim.ammo.left, 25);
+  assert.ok(sim.buyUpgrade('armor'));
+  assert.ok(cities(sim).every(c => c.isDestroyed || c.armor === 1));
+  assert.equal(sim.buyUpgrade('armor'), false);
+  assert.deepEqual(
+    sim.inputs.filter(input => input.type === 'upgrade').map(input => input.upgrade),
+    ['ammo', 'armor'],
+  );
+});
+
+test('an armored city shrugs off one hit', () => {
+  const sim = quietRun({ upgrades: withUpgrade(createUpgrades(), 'armor') });
+  const city = cities(sim)[0];
+  drop(sim, city);
+  settle(sim);
+  assert.equal(city.isDestroyed, false);
+  assert.equal(city.armor, 0);
+  drop(sim, city);
+  settle(sim);
+  assert.equal(city.isDestroyed, true);
+});
+
+test('a destroyed battery is rebuilt with full ammo while rebuilds last', () => {
+  const sim = quietRun({ upgrades: withUpgrade(createUpgrades(), 'rebuild') });
+  const left = battery(sim, 'left');
+  const right = battery(sim, 'right');
+  for (let i = 0; i < 3; i++) sim.fire(100, 100, 'left');
+  drop(sim, left);
+  settle(sim);
+  assert.equal(left.isDestroyed, true);
+  assert.equal(sim.rebuildsLeft, 0);
+  assert.equal(sim.fire(100, 100, 'left'), false);
+  const rebuildAt = left.rebuildAt;
+
+  runUntil(sim, () => !left.isDestroyed);
+  assert.equal(sim.frame, rebuildAt);
+  assert.equal(sim.ammo.left, 20);
+  assert.equal(left.hp, left.maxHp);
+
+  drop(sim, right);
+  settle(sim);
+  runUntil(sim, () => false, Math.round(BATTERY_REBUILD_MS / FRAME_MS) + 1);
+  assert.equal(right.isDestroyed, true);
+  assert.equal(right.rebuildAt, undefined);
+  assert.equal(sim.status, 'playing');
+});
+
+test('radius upgrades widen the blasts of that battery only', () => {
+  const upgrades = withUpgrade(withUpgrade(createUpgrades(), 'radius', 'left'), 'radius', 'left');
+  const sim = quietRun({ upgrades });
+  assert.ok(sim.fire(100, 300, 'left'));
+  assert.ok(sim.fire(800, 300, 'right'));
+  runUntil(sim, () => sim.explosions.length === 2);
+  const [left, right] = [...sim.explosions].sort((a, b) => a.x - b.x);
+  assert.equal(left.maxRadius, EXPLOSION_RADIUS * 1.3);
+  assert.equal(right.maxRadius, EXPLOSION_RADIUS);
+});
+
+test('a warhead takes impact damage off what it lands on and splash damage off its neighbours', () => {
+  const damage: DamageRules = { ...CLASSIC_DAMAGE, hitPoints: { city: 3, battery: 3 }, impactDamage: 2, splashRadius: 100, splashDamage: 1 };
+  const sim = quietRun({ damage });
+  const target = cities(sim)[1];
+  drop(sim, target);
+  settle(sim);
+  assert.equal(target.hp, 1);
+  assert.equal(target.isDestroyed, false);
+  const others = sim.buildings.filter(b => b !== target);
+  assert.ok(others.some(b => distance(b, target) < damage.splashRadius));
+  for (const b of others) assert.equal(b.hp, distance(b, target) < damage.splashRadius ? 2 : 3);
+});
+
+test('interceptors going off near the ground hurt the buildings inside the blast', () => {
+  const damage: DamageRules = { ...CLASSIC_DAMAGE, hitPoints: { city: 2, battery: 2 }, friendlyFireAltitude: 80, friendlyFireDamage: 1 };
+  const sim = quietRun({ damage });
+  const city = cities(sim)[0];
+  assert.ok(sim.fire(centerX(city), sim.groundY - 150, 'left'));
+  settle(sim);
+  assert.equal(city.hp, 2);
+  assert.ok(sim.fire(centerX(city), sim.groundY - 20, 'left'));
+  settle(sim);
+  assert.equal(city.hp, 1);
+});
+
+test('with enemy chains, a rocket caught in an enemy blast goes off instead of scoring', () => {
+  const play = (enemyChains: boolean) => {
+    const sim = quietRun({ damage: { ...CLASSIC_DAMAGE, hitPoints: { city: 2, battery: 2 }, enemyChains } });
+    const city = cities(sim)[0];
+    drop(sim, city);
+    drop(sim, city);
+    settle(sim);
+    return { score: sim.score, interceptions: sim.stats.interceptions, destroyed: city.isDestroyed };
+  };
+  assert.deepEqual(play(false), { score: INTERCEPT_SCORE, interceptions: 1, destroyed: false });
+  assert.deepEqual(play(true), { score: 0, interceptions: 0, destroyed: true });
+});
+
+test('a destroyed battery loses its ammo and scatters burning debris when debris does damage', () => {
+  const play = (debrisDamage: number) => {
+    const sim = quietRun({ damage: { ...CLASSIC_DAMAGE, debrisDamage } });
+    drop(sim, battery(sim, 'left'));
+    const debris = new Set<number>();
+    runUntil(sim, () => {
+      for (const e of sim.explosions) if (e.source === 'debris') debris.add(e.id);
+      return false;
+    }, 1000);
+    return { ammo: sim.ammo.left, debris: debris.size };
+  };
+  assert.deepEqual(play(0), { ammo: 20, debris: 0 });
+  // One piece for every five rounds left.
+  assert.deepEqual(play(1), { ammo: 0, debris: 4 });
+});
+
+test('special rounds come only from the battery carrying them and leave its interceptors alone', () => {
+  const sim = quietRun({ weapons: { ...NO_WEAPONS, left: 'nuke' } });
+  assert.equal(sim.roundsLeft('nuke'), WEAPONS.nuke.rounds);
+  assert.ok(sim.fire(800, 200, undefined, 0, 'nuke'));
+  assert.ok(sim.fire(800, 200, undefined, 0, 'nuke'));
+  assert.equal(sim.fire(800, 200, undefined, 0, 'nuke'), false);
+  assert.equal(sim.fire(800, 200, undefined, 0, 'flak'), false);
+  assert.equal(sim.specialAmmo.left, 0);
+  assert.deepEqual(sim.ammo, { left: 20, center: 40, right: 20 });
+  assert.deepEqual(sim.stats.shotsFired, { left: 2, center: 0, right: 0 });
+
+  runUntil(sim, () => sim.explosions.length > 0);
+  assert.equal(sim.explosions[0].maxRadius, EXPLOSION_RADIUS * WEAPONS.nuke.radius);
+  assert.equal(sim.explosions[0].weapon, 'nuke');
+});
+
+test('a proximity round goes off as soon as it passes close to an enemy', () => {
+  const play = (weapon: 'standard' | SpecialWeaponId) => {
+    const sim = quietRun({ weapons: { ...NO_WEAPONS, center: 'proximity' } });
+    const city = cities(sim)[3];
+    const launched = drop(sim, city);
+    // Aimed at the top edge along a line that crosses the rocket's path 150px down, when the rocket gets there.
+    const center = battery(sim, 'center');
+    const crossing = Math.hypot(centerX(city) - centerX(center), 150 - center.y);
+    runUntil(sim, () => sim.frame >= launched + 150 - Math.ceil(crossing / sim.loadout('center', weapon).missileSpeed));
+    const x = centerX(center) + ((centerX(city) - centerX(center)) * center.y) / (center.y - 150);
+    assert.ok(sim.fire(x, 0, 'center', 0, weapon));
+    settle(sim);
+    return sim.score;
+  };
+  assert.equal(play('standard'), 0);
+  assert.equal(play('proximity'), INTERCEPT_SCORE);
+});
+
+test('an EMP slows every enemy down for a while instead of destroying them', () => {
+  const sim = quietRun({ weapons: { ...NO_WEAPONS, center: 'emp' } });
+  const city = cities(sim)[3];
+  drop(sim, city);
+  assert.ok(sim.fire(centerX(city), 300, 'center', 0, 'emp'));
+  runUntil(sim, () => sim.empActive);
+  assert.equal(sim.empUntil, sim.frame + EMP_FRAMES);
+
+  const rocket = sim.missiles.find(m => m.isEnemy)!;
+  const y = rocket.current.y;
+  runUntil(sim, () => false, 60);
+  assert.equal(rocket.current.y - y, 60 * rocket.speed * EMP_SLOWDOWN);
+  settle(sim);
+  assert.equal(sim.score, 0);
+  assert.equal(sim.stats.wastedShots, 0);
+  assert.equal(city.isDestroyed, true);
+});
@@ -0,0 +1,971 @@
+import { EXPLOSION_DURATION, EXPLOSION_RADIUS, FRAME_MS, GROUND_HEIGHT } from './constants';
+import { getDifficulty, getLevel, isDifficultyId, type DamageRules, type LevelDefinition } from './content';
+import {
+  BOMBER_DROP_INTERVAL,
+  ENEMY_KINDS,
+  ENEMY_TYPES,
+  MIRV_WARHEADS,
+  SMART_DODGE_MARGIN,
+  SMART_DODGE_STRENGTH,
+  pickEnemyKind,
+} from './enemies';
+import { layoutBuildings } from './layout';
+import { createParticleBuffer, emitBurst, scaleParticles, updateParticles, type ParticleBuffer } from './particles';
+import {
+  ATTACKER_COLOR,
+  PLAYER_COLORS,
+  VERSUS_ARSENAL,
+  VERSUS_HIT_SCORE,
+  VERSUS_LAUNCH_COOLDOWN_MS,
+  canFireFrom,
+  defenderCount,
+  type PlayMode,
+  type PlayerIndex,
+} from './players';
+import { Pool } from './pool';
+import { createRng, type Rng } from './rng';
+import { SpatialGrid } from './spatialGrid';
+import { STATS_SAMPLE_FRAMES, createStats, type RunStats } from './stats';
+import {
+  BATTERY_REBUILD_MS,
+  UPGRADE_COSTS,
+  batteryLoadout,
+  cloneUpgrades,
+  createUpgrades,
+  upgradeLevel,
+  withUpgrade,
+  type BatteryLoadout,
+  type UpgradeId,
+  type Upgrades,
+} from './upgrades';
+import type {
+  Ammo,
+  BatterySide,
+  Building,
+  Difficulty,
+  EnemyKind,
+  Explosion,
+  ExplosionSource,
+  Flank,
+  GameMode,
+  GameStatus,
+  Missile,
+  Point,
+  SimInput,
+  WavePhase,
+} from './types';
+import { AMMO_BONUS, BONUS_CITY_SCORE, CITY_BONUS, getWaveConfig, type RunProgress, type WaveReport } from './waves';
+import {
+  EMP_FRAMES,
+  EMP_SLOWDOWN,
+  NO_WEAPONS,
+  PROXIMITY_FUSE_RANGE,
+  WEAPONS,
+  type SpecialWeaponId,
+  type WeaponId,
+  type WeaponLoadout,
+} from './weapons';
+
+// Warheads landing this close to a building's center hit it directly.
+const DIRECT_HIT_RADIUS = 30;
+// A destroyed battery scatters one burning piece per this many rounds left, up to the cap.
+const ROUNDS_PER_DEBRIS = 5;
+const MAX_DEBRIS = 6;
+const DEBRIS_SPREAD = 90;
+const DEBRIS_DELAY_FRAMES = { min: 15, max: 75 };
+const DEBRIS_BLAST_RADIUS = 25;
+const DEBRIS_BLAST_FRAMES = 30;
+
+export type SimulationOptions = {
+  width: number;
+  height: number;
+  difficulty: Difficulty;
+  seed: number;
+  /** Level id; see `content/levels`. */
+  mode?: GameMode;
+  playMode?: PlayMode;
+  /** Online only: number of players in the room. Local modes know their own count. */
+  playerCount?: number;
+  /** Upgrades owned when the run starts. */
+  upgrades?: Upgrades;
+  /** Plays this level instead of looking `mode` up, e.g. one being built in the editor. */
+  level?: LevelDefinition;
+  /** Damage rules for the whole run instead of the difficulty's, e.g. the classic ones for old replays. */
+  damage?: DamageRules;
+  /** Special weapon each battery carries. None by default. */
+  weapons?: WeaponLoadout;
+};
+
+/**
+ * Headless game rules. Owns every entity and advances them in fixed frames, so the
+ * same seed and the same `fire` calls on the same frames always produce the same run.
+ * Knows nothing about React, the DOM or wall-clock time.
+ */
+export class GameSimulation {
+  width: number;
+  height: number;
+  readonly initialWidth: number;
+  readonly initialHeight: number;
+  readonly seed: number;
+  readonly mode: GameMode;
+  /** Layout, enemies, pacing and rules of the level being played. */
+  readonly level: LevelDefinition;
+  readonly playMode: PlayMode;
+  readonly initialDifficulty: Difficulty;
+  private _difficulty: Difficulty;
+  readonly initialUpgrades: Upgrades;
+  /** Upgrades in effect; grows when upgrades are bought between campaign waves. */
+  upgrades: Upgrades;
+  readonly weapons: WeaponLoadout;
+
+  missiles: Missile[] = [];
+  explosions: Explosion[] = [];
+  buildings: Building[] = [];
+  /** Cosmetic only; never read by the rules. */
+  particles: ParticleBuffer = createParticleBuffer();
+  ammo: Ammo;
+  /** Rounds of each battery's special weapon left; 0 for batteries without one. */
+  specialAmmo: Ammo;
+  /** Frame on which the last EMP wears off. */
+  empUntil = 0;
+  score = 0;
+  status: GameStatus = 'playing';
+  /** Number of fixed frames simulated so far. */
+  frame = 0;
+  /** Whole-team stats. */
+  readonly stats: RunStats;
+  /** Score and stats of each defending player, indexed by `PlayerIndex`. */
+  readonly playerScores: number[];
+  readonly playerStats: RunStats[];
+
+  // Versus only: the human attacker's remaining rockets and score.
+  arsenal = VERSUS_ARSENAL;
+  attackerScore = 0;
+
+  // Wave progress; unused in levels that are not played in waves.
+  wave = 1;
+  wavePhase: WavePhase = 'wave';
+  /** Bonus breakdown of the most recently cleared wave. */
+  lastWaveReport: WaveReport | null = null;
+  /** Destroyed batteries that can still be rebuilt this run. */
+  rebuildsLeft: number;
+
+  /** Every input applied so far, in order. Feeding these back into a fresh simulation replays the run. */
+  readonly inputs: SimInput[] = [];
+
+  private rng: Rng;
+  // Cosmetic randomness (particles) draws from its own stream so visuals can never shift gameplay.
+  private fxRng: Rng;
+  private readonly fxRandom = () => this.fxRng.next();
+  // Entity lists are swapped with these spares each frame instead of rebuilt, so their storage is reused.
+  private spareMissiles: Missile[] = [];
+  private spareExplosions: Explosion[] = [];
+  private readonly explosionPool = new Pool<Explosion>(() => ({
+    id: 0, x: 0, y: 0, radius: 0, maxRadius: 0, timer: 0, duration: 0, kills: 0, source: 'impact',
+  }));
+  // Enemies near each blast, and which of them blasts destroyed, for the current frame.
+  private readonly grid = new SpatialGrid(EXPLOSION_RADIUS * 2);
+  private readonly nearby: number[] = [];
+  private destroyed = new Uint8Array(256);
+  private nextId = 0;
+  private accumulator = 0;
+  private lastEnemySpawn = 0;
+  private waveSpawned = 0;
+  private phaseStartedAt = 0;
+  private nextBonusCityScore = BONUS_CITY_SCORE;
+  private lastLaunchFrame = -Infinity;
+  private readonly damageOverride?: DamageRules;
+  // Burning pieces of destroyed batteries' ammo still in the air, landing on `frame`.
+  private debris: { frame: number; x: number }[] = [];
+
+  constructor({
+    width,
+    height,
+    difficulty,
+    seed,
+    mode = 'classic',
+    playMode = 'solo',
+    playerCount = defenderCount(playMode),
+    upgrades = createUpgrades(),
+    level,
+    damage,
+    weapons = NO_WEAPONS,
+  }: SimulationOptions) {
+    this.width = this.initialWidth = width;
+    this.height = this.initialHeight = height;
+    this.initialDifficulty = difficulty;
+    this._difficulty = difficulty;
+    this.seed = seed;
+    this.level = level ?? getLevel(mode);
+    this.mode = this.level.id;
+    getDifficulty(difficulty);
+    this.playMode = playMode;
+    this.playerScores = Array.from({ length: playerCount }, () => 0);
+    this.rng = createRng(seed);
+    this.fxRng = createRng(seed ^ 0x9e3779b9);
+    this.initialUpgrades = cloneUpgrades(upgrades);
+    this.upgrades = cloneUpgrades(upgrades);
+    this.weapons = { ...weapons };
+    this.ammo = this.fullAmmo();
+    this.specialAmmo = this.fullSpecialAmmo();
+    this.rebuildsLeft = upgrades.base.rebuild;
+    this.damageOverride = damage;
+    this.buildings = layoutBuildings(width, this.groundY, this.level.layout);
+    for (const b of this.buildings) b.hp = b.maxHp = this.damageRules.hitPoints[b.type];
+    const sides = this.buildings.flatMap(b => (b.type === 'battery' && b.batterySide ? [b.batterySide] : []));
+    this.stats = createStats(sides);
+    this.playerStats = Array.from({ length: playerCount }, () => createStats(sides));
+    this.armorCities();
+    this.nextId = this.buildings.length;
+  }
+
+  /** Simulation time in milliseconds. */
+  get time() {
+    return this.frame * FRAME_MS;
+  }
+
+  get groundY() {
+    return this.height - GROUND_HEIGHT;
+  }
+
+  get difficulty() {
+    return this._difficulty;
+  }
+
+  /** How buildings take damage right now. Follows the difficulty, so it changes with it mid-run. */
+  get damageRules(): DamageRules {
+    return this.damageOverride ?? this.modifiers.damage;
+  }
+
+  /** Whether upgrades can be bought right now: only between the waves of a wave level. */
+  get canBuyUpgrades() {
+    return this.status === 'playing' && !!this.level.waves && this.wavePhase === 'intermission';
+  }
+
+  get empActive() {
+    return this.frame < this.empUntil;
+  }
+
+  /** What the battery on `side` fires as `weapon`. Special rounds scale its upgraded interceptor. */
+  loadout(side: BatterySide, weapon: WeaponId = 'standard'): BatteryLoadout {
+    const stock = batteryLoadout(this.upgrades, side, this.level.ammo[side]);
+    if (weapon === 'standard') return stock;
+    const spec = WEAPONS[weapon];
+    return {
+      maxAmmo: this.weapons[side] === weapon ? spec.rounds : 0,
+      missileSpeed: stock.missileSpeed * spec.speed,
+      blastRadius: stock.blastRadius * spec.radius,
+      blastDuration: Math.round(stock.blastDuration * spec.duration),
+    };
+  }
+
+  /** Rounds of `weapon` left in the standing batteries `player` may fire from. */
+  roundsLeft(weapon: WeaponId, player: PlayerIndex = 0) {
+    let rounds = 0;
+    for (const b of this.buildings) {
+      if (b.type !== 'battery' || b.isDestroyed || !b.batterySide || !canFireFrom(this.playMode, player, b.batterySide)) continue;
+      rounds += this.roundsAt(b.batterySide, weapon);
+    }
+    return rounds;
+  }
+
+  private roundsAt(side: BatterySide, weapon: WeaponId) {
+    if (weapon === 'standard') return this.ammo[side];
+    return this.weapons[side] === weapon ? this.specialAmmo[side] : 0;
+  }
+
+  /**
+   * Applies an upgrade bought mid-run. Extra ammo is handed out straight away; armor covers
+   * every standing city. Returns false outside an intermission or when already maxed out.
+   */
+  buyUpgrade(upgrade: UpgradeId, side?: BatterySide) {
+    if (!this.canBuyUpgrades || upgradeLevel(this.upgrades, upgrade, side) >= UPGRADE_COSTS[upgrade].length) return false;
+    this.inputs.push({ frame: this.frame, type: 'upgrade', upgrade, ...(side && { side }) });
+
+    const before = this.fullAmmo();
+    this.upgrades = withUpgrade(this.upgrades, upgrade, side);
+    const after = this.fullAmmo();
+    for (const s of Object.keys(after) as BatterySide[]) this.ammo[s] += after[s] - before[s];
+    if (upgrade === 'armor') this.armorCities();
+    if (upgrade === 'rebuild') this.rebuildsLeft++;
+    return true;
+  }
+
+  setDifficulty(difficulty: Difficulty) {
+    if (this.status !== 'playing' || difficulty === this._difficulty || !isDifficultyId(difficulty)) return;
+    this.inputs.push({ frame: this.frame, type: 'difficulty', difficulty });
+    this._difficulty = difficulty;
+  }
+
+  /** Applies a recorded input, e.g. from a replay. */
+  applyInput(input: SimInput) {
+    switch (input.type) {
+      case 'fire':
+        this.fire(input.x, input.y, input.side, input.player, input.weapon);
+        break;
+      case 'launch':
+        this.launch(input.x, input.targetId);
+        break;
+      case 'difficulty':
+        this.setDifficulty(input.difficulty);
+        break;
+      case 'resize':
+        this.resize(input.width, input.height);
+        break;
+      case 'upgrade':
+        this.buyUpgrade(input.upgrade, input.side);
+        break;
+    }
+  }
+
+  /**
+   * Changes the world size, e.g. when the window is resized or rotated. Buildings are laid
+   * out again for the new size and everything in flight is scaled to match.
+   */
+  resize(width: number, height: number) {
+    if (this.status !== 'playing' || (width === this.width && height === this.height)) return;
+    this.inputs.push({ frame: this.frame, type: 'resize', width, height });
+
+    const sx = width / this.width;
+    const sy = height / this.height;
+    const scale = (p: Point) => {
+      p.x *= sx;
+      p.y *= sy;
+    };
+    this.width = width;
+    this.height = height;
+
+    const layout = layoutBuildings(width, this.groundY, this.level.layout);
+    for (const b of this.buildings) {
+      const fresh = layout.find(l => l.id === b.id);
+      if (fresh) Object.assign(b, { x: fresh.x, y: fresh.y, width: fresh.width, height: fresh.height });
+    }
+
+    for (const m of this.missiles) {
+      scale(m.start);
+      scale(m.current);
+      scale(m.target);
+      if (m.splitY !== undefined) m.splitY *= sy;
+      const target = this.buildings.find(b => b.id === m.targetId);
+      if (target) m.target = { x: target.x + target.width / 2, y: target.y + target.height / 2 };
+    }
+    this.explosions.forEach(scale);
+    for (const d of this.debris) d.x *= sx;
+    scaleParticles(this.particles, sx, sy);
+  }
+
+  /**
+   * Advances the simulation by `dt` milliseconds of real time. Leftover time smaller
+   * than one frame is carried over to the next call. Returns the number of frames run.
+   */
+  step(dt: number) {
+    this.accumulator += dt;
+    let frames = 0;
+    while (this.accumulator >= FRAME_MS && this.status === 'playing') {
+      this.accumulator -= FRAME_MS;
+      this.tick();
+      frames++;
+    }
+    if (this.status !== 'playing') this.accumulator = 0;
+    return frames;
+  }
+
+  /**
+   * Fires `weapon` for `player` from the battery on `side`, or from the closest of their
+   * batteries that still has rounds of it when no side is given. Returns false if nothing could fire.
+   */
+  fire(targetX: number, targetY: number, side?: BatterySide, player: PlayerIndex = 0, weapon: WeaponId = 'standard') {
+    if (this.status !== 'playing' || !this.playerStats[player]) return false;
+
+    // Quantise to 0.1px so replay files stay short and still reproduce the run exactly.
+    targetX = Math.round(targetX * 10) / 10;
+    targetY = Math.round(targetY * 10) / 10;
+    const special = weapon === 'standard' ? undefined : weapon;
+    this.inputs.push({
+      frame: this.frame,
+      type: 'fire',
+      x: targetX,
+      y: targetY,
+      ...(side && { side }),
+      ...(player && { player }),
+      ...(special && { weapon: special }),
+    });
+
+    let bestBattery: Building | null = null;
+    let minDist = Infinity;
+
+    for (const b of this.buildings) {
+      if (b.type !== 'battery' || b.isDestroyed || !b.batterySide) continue;
+      if (this.roundsAt(b.batterySide, weapon) <= 0 || (side && b.batterySide !== side)) continue;
+      if (!canFireFrom(this.playMode, player, b.batterySide)) continue;
+      const dist = Math.abs(b.x + b.width / 2 - targetX);
+      if (dist < minDist) {
+        minDist = dist;
+        bestBattery = b;
+      }
+    }
+
+    if (!bestBattery || !bestBattery.batterySide) return false;
+
+    if (special) this.specialAmmo[bestBattery.batterySide]--;
+    else this.ammo[bestBattery.batterySide]--;
+    this.stats.shotsFired[bestBattery.batterySide]++;
+    this.playerStats[player].shotsFired[bestBattery.batterySide]++;
+    const origin = { x: bestBattery.x + bestBattery.width / 2, y: bestBattery.y };
+    this.missiles.push({
+      id: this.nextId++,
+      start: { ...origin },
+      current: { ...origin },
+      target: { x: targetX, y: targetY },
+      speed: this.loadout(bestBattery.batterySide, weapon).missileSpeed,
+      color: PLAYER_COLORS[player],
+      isEnemy: false,
+      side: bestBattery.batterySide,
+      owner: player,
+      ...(special && { weapon: special }),
+    });
+    return true;
+  }
+
+  /** Whether the versus attacker's launcher has cooled down. */
+  get canLaunch() {
+    const cooldown = Math.round(VERSUS_LAUNCH_COOLDOWN_MS / FRAME_MS);
+    return this.status === 'playing' && this.playMode === 'versus' && this.arsenal > 0 && this.frame - this.lastLaunchFrame >= cooldown;
+  }
+
+  /**
+   * Versus only: the attacker launches a rocket from `x` on the top edge at the building with
+   * `targetId`. Returns false while reloading, when out of rockets or if the target is gone.
+   */
+  launch(x: number, targetId: number) {
+    const target = this.buildings.find(b => b.id === targetId && !b.isDestroyed);
+    if (!this.canLaunch || !target) return false;
+
+    x = Math.round(Math.max(0, Math.min(this.width, x)) * 10) / 10;
+    this.inputs.push({ frame: this.frame, type: 'launch', x, targetId });
+    this.arsenal--;
+    this.lastLaunchFrame = this.frame;
+    const { min, max } = this.level.enemies.speed;
+    this.launchEnemy('rocket', { x, y: 0 }, ((min + max) / 2) * this.modifiers.speedMult, target);
+    return true;
+  }
+
+  /** Runs exactly one fixed frame. */
+  tick() {
+    if (this.status !== 'playing') return;
+    this.frame++;
+
+    this.updateSpawning();
+    this.updateRebuilds();
+    this.updateDebris();
+    this.updateMissiles();
+    this.updateExplosions();
+    updateParticles(this.particles);
+    this.checkEnd();
+    this.recordStats();
+  }
+
+  private updateSpawning() {
+    // In versus every enemy comes from the attacking player.
+    if (this.playMode === 'versus') return;
+
+    if (this.level.waves) {
+      this.updateWaves(this.level.waves.intermissionMs);
+      return;
+    }
+
+    const config = getWaveConfig(this.level, this.progress);
+    if (this.time - this.lastEnemySpawn > config.spawnInterval * this.modifiers.spawnMult) {
+      this.spawnEnemy(config.speedMin, config.speedMax);
+      this.lastEnemySpawn = this.time;
+    }
+  }
+
+  private get modifiers() {
+    return getDifficulty(this._difficulty);
+  }
+
+  private get progress(): RunProgress {
+    return { score: this.score, timeMs: this.time, wave: this.wave };
+  }
+
+  private updateWaves(intermissionMs: number) {
+    if (this.wavePhase === 'intermission') {
+      if (this.time - this.phaseStartedAt >= intermissionMs) {
+        this.wave++;
+        this.wavePhase = 'wave';
+        this.waveSpawned = 0;
+        this.phaseStartedAt = this.time;
+        this.lastEnemySpawn = this.time;
+      }
+      return;
+    }
+
+    const config = getWaveConfig(this.level, this.progress);
+
+    if (this.waveSpawned < config.rockets) {
+      if (this.time - this.lastEnemySpawn > config.spawnInterval * this.modifiers.spawnMult) {
+        this.spawnEnemy(config.speedMin, config.speedMax);
+        this.waveSpawned++;
+        this.lastEnemySpawn = this.time;
+      }
+    } else if (!this.missiles.some(m => m.isEnemy) && this.explosions.length === 0) {
+      this.endWave();
+    }
+  }
+
+  private endWave() {
+    const survivingCities = this.buildings.filter(b => b.type === 'city' && !b.isDestroyed).length;
+    // Only batteries still standing count towards the ammo bonus.
+    const leftoverAmmo = { ...this.ammo };
+    for (const b of this.buildings) {
+      if (b.type === 'battery' && b.isDestroyed && b.batterySide) leftoverAmmo[b.batterySide] = 0;
+    }
+    const cityBonus = survivingCities * CITY_BONUS;
+    const ammoBonus = (leftoverAmmo.left + leftoverAmmo.center + leftoverAmmo.right) * AMMO_BONUS;
+    this.score += cityBonus + ammoBonus;
+
+    let restoredCities = 0;
+    while (this.score >= this.nextBonusCityScore) {
+      this.nextBonusCityScore += BONUS_CITY_SCORE;
+      const ruin = this.buildings.find(b => b.type === 'city' && b.isDestroyed);
+      if (ruin) {
+        ruin.isDestroyed = false;
+        ruin.hp = ruin.maxHp;
+        restoredCities++;
+      }
+    }
+
+    this.ammo = this.fullAmmo();
+    this.specialAmmo = this.fullSpecialAmmo();
+    this.lastWaveReport = { wave: this.wave, survivingCities, cityBonus, leftoverAmmo, ammoBonus, restoredCities };
+    this.wavePhase = 'intermission';
+    this.phaseStartedAt = this.time;
+  }
+
+  private fullAmmo(): Ammo {
+    return {
+      left: this.loadout('left').maxAmmo,
+      center: this.loadout('center').maxAmmo,
+      right: this.loadout('right').maxAmmo,
+    };
+  }
+
+  private fullSpecialAmmo(): Ammo {
+    const rounds = (side: BatterySide) => {
+      const weapon = this.weapons[side];
+      return weapon ? this.loadout(side, weapon).maxAmmo : 0;
+    };
+    return { left: rounds('left'), center: rounds('center'), right: rounds('right') };
+  }
+
+  private armorCities() {
+    const armor = this.upgrades.base.armor;
+    for (const b of this.buildings) {
+      if (b.type === 'city' && !b.isDestroyed) b.armor = Math.max(b.armor ?? 0, armor);
+    }
+  }
+
+  private updateRebuilds() {
+    for (const b of this.buildings) {
+      if (b.rebuildAt === undefined || this.frame < b.rebuildAt) continue;
+      b.isDestroyed = false;
+      b.rebuildAt = undefined;
+      b.hp = b.maxHp;
+      if (!b.batterySide) continue;
+      this.ammo[b.batterySide] = this.loadout(b.batterySide).maxAmmo;
+      this.specialAmmo[b.batterySide] = this.fullSpecialAmmo()[b.batterySide];
+    }
+  }
+
+  private spawnEnemy(speedMin: number, speedMax: number) {
+    if (!this.buildings.some(b => !b.isDestroyed)) return;
+
+    const { enemyWeights, speedMult } = this.modifiers;
+    const { mix } = this.level.enemies;
+    const weights = Object.fromEntries(ENEMY_KINDS.map(k => [k, enemyWeights[k] * mix[k]])) as Record<EnemyKind, number>;
+    const kind = pickEnemyKind(this.rng, weights);
+    const speed = this.rng.range(speedMin, speedMax) * speedMult * ENEMY_TYPES[kind].speedMult;
+
+    if (kind === 'bomber') {
+      this.spawnBomber(speed);
+      return;
+    }
+
+    const missile = this.launchEnemy(kind, { x: this.launchX(), y: 0 }, speed);
+    if (missile && kind === 'mirv') {
+      missile.splitY = this.rng.range(this.height * 0.25, this.height * 0.5);
+    }
+  }
+
+  /** Launch point on the top edge: anywhere, or inside one of the level's launch zones. */
+  private launchX() {
+    const zones = this.level.enemies.launchZones;
+    if (!zones) return this.rng.next() * this.width;
+    const zone = this.rng.weighted(zones, z => z.weight);
+    return this.rng.range(zone.from, zone.to) * this.width;
+  }
+
+  /** Sends an enemy from `origin` towards `target`, or a random standing building. */
+  private launchEnemy(kind: Exclude<EnemyKind, 'bomber'>, origin: Point, speed: number, target?: Building) {
+    if (!target) {
+      const targetBuildings = this.buildings.filter(b => !b.isDestroyed);
+      if (targetBuildings.length === 0) return null;
+      target = targetBuildings.some(b => b.targetWeight !== undefined)
+        ? this.rng.weighted(targetBuildings, b => b.targetWeight ?? 1)
+        : this.rng.pick(targetBuildings);
+    }
+
+    const missile: Missile = {
+      id: this.nextId++,
+      start: { ...origin },
+      current: { ...origin },
+      target: { x: target.x + target.width / 2, y: target.y + target.height / 2 },
+      targetId: target.id,
+      speed,
+      color: this.playMode === 'versus' ? ATTACKER_COLOR : ENEMY_TYPES[kind].color,
+      isEnemy: true,
+      kind,
+    };
+    this.missiles.push(missile);
+    return missile;
+  }
+
+  private spawnBomber(speed: number) {
+    const fromLeft = this.rng.next() < 0.5;
+    const y = this.rng.range(this.height * 0.1, this.height * 0.3);
+    const startX = fromLeft ? 0 : this.width;
+
+    this.missiles.push({
+      id: this.nextId++,
+      start: { x: startX, y },
+      current: { x: startX, y },
+      target: { x: fromLeft ? this.width : 0, y },
+      speed,
+      color: ENEMY_TYPES.bomber.color,
+      isEnemy: true,
+      kind: 'bomber',
+      nextDropFrame: this.frame + BOMBER_DROP_INTERVAL / 2,
+    });
+  }
+
+  private createExplosion(
+    x: number,
+    y: number,
+    source: ExplosionSource,
+    {
+      maxRadius = EXPLOSION_RADIUS,
+      duration = EXPLOSION_DURATION,
+      owner,
+      depth,
+      weapon,
+    }: { maxRadius?: number; duration?: number; owner?: PlayerIndex; depth?: number; weapon?: SpecialWeaponId } = {},
+  ) {
+    const e = this.explosionPool.acquire();
+    e.id = this.nextId++;
+    e.x = x;
+    e.y = y;
+    e.radius = 0;
+    e.maxRadius = maxRadius;
+    e.timer = duration;
+    e.duration = duration;
+    e.kills = 0;
+    e.source = source;
+    e.owner = owner;
+    e.depth = depth || undefined;
+    e.weapon = weapon;
+    this.explosions.push(e);
+
+    emitBurst(this.particles, x, y, this.fxRandom);
+  }
+
+  private updateMissiles() {
+    // Warheads and bomber drops are launched mid-iteration; collect them into the spare list.
+    const missiles = this.missiles;
+    this.missiles = this.spareMissiles;
+
+    for (const m of missiles) {
+      if (m.kind === 'mirv' && m.splitY !== undefined && m.current.y >= m.splitY) {
+        for (let i = 0; i < MIRV_WARHEADS; i++) this.launchEnemy('rocket', m.current, m.speed);
+        continue;
+      }
+      if (m.kind === 'bomber' && m.nextDropFrame !== undefined && this.frame >= m.nextDropFrame) {
+        const { min, max } = this.level.enemies.speed;
+        this.launchEnemy('rocket', m.current, this.rng.range(min, max) * this.modifiers.speedMult);
+        m.nextDropFrame += BOMBER_DROP_INTERVAL;
+      }
+
+      if (m.side && m.weapon === 'proximity' && this.enemyNear(missiles, m.current)) {
+        this.detonateInterceptor(m, m.side, m.current.x, m.current.y);
+        continue;
+      }
+
+      const dx = m.target.x - m.current.x;
+      const dy = m.target.y - m.current.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      const speed = m.isEnemy && this.empActive ? m.speed * EMP_SLOWDOWN : m.speed;
+
+      if (dist < speed) {
+        // Bombers simply leave the screen.
+        if (m.side) {
+          this.detonateInterceptor(m, m.side, m.target.x, m.target.y);
+        } else if (m.kind !== 'bomber') {
+          this.createExplosion(m.target.x, m.target.y, 'impact');
+          if (m.isEnemy) {
+            this.stats.leaks++;
+            this.detonateWarhead(m.target.x, m.target.y);
+          }
+        }
+        continue;
+      }
+
+      let hx = dx / dist;
+      let hy = dy / dist;
+      if (m.kind === 'smart') [hx, hy] = this.evade(m.current, hx, hy);
+
+      m.current.x += hx * speed;
+      m.current.y += hy * speed;
+      this.missiles.push(m);
+    }
+    missiles.length = 0;
+    this.spareMissiles = missiles;
+  }
+
+  /** Sets off interceptor `m`, fired from `side`, at (`x`, `y`). An EMP slows enemies down instead of blowing them up. */
+  private detonateInterceptor(m: Missile, side: BatterySide, x: number, y: number) {
+    const { blastRadius, blastDuration } = this.loadout(side, m.weapon);
+    this.createExplosion(x, y, 'interceptor', { maxRadius: blastRadius, duration: blastDuration, owner: m.owner, weapon: m.weapon });
+    if (m.weapon === 'emp') {
+      this.empUntil = this.frame + EMP_FRAMES;
+      return;
+    }
+    this.friendlyFire(x, y, blastRadius);
+  }
+
+  /** Whether any enemy in `missiles` is within a proximity fuse's range of `p`. */
+  private enemyNear(missiles: readonly Missile[], p: Point) {
+    return missiles.some(e => e.isEnemy && (e.current.x - p.x) ** 2 + (e.current.y - p.y) ** 2 < PROXIMITY_FUSE_RANGE ** 2);
+  }
+
+  /** Bends a smart bomb's heading away from any blast it is about to fly into. */
+  private evade(pos: Point, hx: number, hy: number): [number, number] {
+    for (const e of this.explosions) {
+      const ex = pos.x - e.x;
+      const ey = pos.y - e.y;
+      const d = Math.sqrt(ex * ex + ey * ey);
+      const reach = e.radius + SMART_DODGE_MARGIN;
+      if (d === 0 || d >= reach) continue;
+      const push = (1 - d / reach) * SMART_DODGE_STRENGTH;
+      hx += (ex / d) * push;
+      hy += (ey / d) * push;
+    }
+    const len = Math.sqrt(hx * hx + hy * hy) || 1;
+    return [hx / len, hy / len];
+  }
+
+  /** Distance from (`x`, `y`) to the center of `b`. */
+  private distanceTo(b: Building, x: number, y: number) {
+    return Math.sqrt((b.x + b.width / 2 - x) ** 2 + (b.y + b.height / 2 - y) ** 2);
+  }
+
+  /** An enemy warhead going off at (`x`, `y`): full damage to what it lands on, splash to its neighbours. */
+  private detonateWarhead(x: number, y: number) {
+    const { impactDamage, splashRadius, splashDamage } = this.damageRules;
+    for (const b of this.buildings) {
+      if (b.isDestroyed) continue;
+      const d = this.distanceTo(b, x, y);
+      if (d < DIRECT_HIT_RADIUS) this.damageBuilding(b, impactDamage);
+      else if (d < splashRadius) this.damageBuilding(b, splashDamage);
+    }
+  }
+
+  /** An interceptor going off close enough to the ground damages the buildings inside its blast. */
+  private friendlyFire(x: number, y: number, radius: number) {
+    const { friendlyFireAltitude, friendlyFireDamage } = this.damageRules;
+    if (friendlyFireDamage === 0 || this.groundY - y >= friendlyFireAltitude) return;
+    for (const b of this.buildings) {
+      if (!b.isDestroyed && this.distanceTo(b, x, y) < radius) this.damageBuilding(b, friendlyFireDamage);
+    }
+  }
+
+  /** Takes `damage` hit points off `b`, or one layer of armor instead. */
+  private damageBuilding(b: Building, damage: number) {
+    if (damage <= 0) return;
+    if (b.armor) {
+      b.armor--;
+      return;
+    }
+    b.hp = Math.max(0, (b.hp ?? 1) - damage);
+    if (b.hp > 0) return;
+
+    b.isDestroyed = true;
+    const bx = b.x + b.width / 2;
+    if (this.playMode === 'versus') this.attackerScore += VERSUS_HIT_SCORE[b.type];
+    this.stats.losses.push({ buildingId: b.id, type: b.type, flank: this.flankOf(bx), timeMs: this.time });
+    if (b.type !== 'battery') return;
+    if (b.batterySide && this.damageRules.debrisDamage > 0) this.scatterAmmo(b.batterySide, bx);
+    if (this.rebuildsLeft > 0) {
+      this.rebuildsLeft--;
+      b.rebuildAt = this.frame + Math.round(BATTERY_REBUILD_MS / FRAME_MS);
+    }
+  }
+
+  /** A destroyed battery's ammo cooks off: it is lost, and burning pieces of it rain down around the ruin. */
+  private scatterAmmo(side: BatterySide, x: number) {
+    const pieces = Math.min(MAX_DEBRIS, Math.ceil(this.ammo[side] / ROUNDS_PER_DEBRIS));
+    this.ammo[side] = 0;
+    this.specialAmmo[side] = 0;
+    for (let i = 0; i < pieces; i++) {
+      this.debris.push({
+        frame: this.frame + DEBRIS_DELAY_FRAMES.min + this.rng.int(DEBRIS_DELAY_FRAMES.max - DEBRIS_DELAY_FRAMES.min),
+        x: Math.min(this.width, Math.max(0, x + this.rng.range(-DEBRIS_SPREAD, DEBRIS_SPREAD))),
+      });
+    }
+  }
+
+  private updateDebris() {
+    if (this.debris.length === 0) return;
+    let kept = 0;
+    for (const piece of this.debris) {
+      if (this.frame < piece.frame) {
+        this.debris[kept++] = piece;
+        continue;
+      }
+      this.createExplosion(piece.x, this.groundY, 'debris', { maxRadius: DEBRIS_BLAST_RADIUS, duration: DEBRIS_BLAST_FRAMES });
+      for (const b of this.buildings) {
+        if (!b.isDestroyed && this.distanceTo(b, piece.x, this.groundY) < DEBRIS_BLAST_RADIUS) this.damageBuilding(b, this.damageRules.debrisDamage);
+      }
+    }
+    this.debris.length = kept;
+  }
+
+  private updateExplosions() {
+    // Interceptions spawn new explosions while we iterate; those start growing next frame.
+    const current = this.explosions;
+    this.explosions = this.spareExplosions;
+
+    // Enemies do not move during this pass, so one grid serves every blast. Hits are handled in
+    // list order and removed together at the end, which kills in the same order as testing all.
+    const { missiles, nearby } = this;
+    this.grid.rebuild(this.width, this.height, missiles, m => m.current, m => m.isEnemy);
+    if (this.destroyed.length < missiles.length) this.destroyed = new Uint8Array(missiles.length * 2);
+    const destroyed = this.destroyed.fill(0, 0, missiles.length);
+    let anyDestroyed = false;
+
+    for (const e of current) {
+      e.timer--;
+      const progress = 1 - e.timer / e.duration;
+      e.radius = Math.sin(progress * Math.PI) * e.maxRadius;
+
+      // Burning debris only hurts what it lands on, and an EMP blast hurts nothing.
+      if (e.source === 'debris' || e.weapon === 'emp') nearby.length = 0;
+      else this.grid.query(e.x, e.y, e.radius, nearby);
+      for (const i of nearby) {
+        const m = missiles[i];
+        if (destroyed[i]) continue;
+        const d = Math.sqrt((m.current.x - e.x) ** 2 + (m.current.y - e.y) ** 2);
+        if (d >= e.radius) continue;
+        destroyed[i] = 1;
+        anyDestroyed = true;
+        if (e.source === 'impact' && this.damageRules.enemyChains) {
+          // Set off rather than shot down: no score, and its blast belongs to the enemy too.
+          this.createExplosion(m.current.x, m.current.y, 'impact');
+          this.detonateWarhead(m.current.x, m.current.y);
+          continue;
+        }
+        const points = ENEMY_TYPES[m.kind ?? 'rocket'].score;
+        const altitude = Math.max(0, this.groundY - m.current.y);
+        this.score += points;
+        this.stats.interceptions++;
+        this.stats.interceptAltitudeTotal += altitude;
+        if (e.owner !== undefined) {
+          this.playerScores[e.owner] += points;
+          this.playerStats[e.owner].interceptions++;
+          this.playerStats[e.owner].interceptAltitudeTotal += altitude;
+        }
+        e.kills++;
+        this.createExplosion(m.current.x, m.current.y, 'chain', { owner: e.owner, depth: (e.depth ?? 0) + 1 });
+      }
+
+      if (e.timer > 0) {
+        this.explosions.push(e);
+      } else {
+        this.recordExplosionEnd(e);
+        this.explosionPool.release(e);
+      }
+    }
+    current.length = 0;
+    this.spareExplosions = current;
+
+    if (!anyDestroyed) return;
+    let kept = 0;
+    for (let i = 0; i < missiles.length; i++) {
+      if (!destroyed[i]) missiles[kept++] = missiles[i];
+    }
+    missiles.length = kept;
+  }
+
+  private flankOf(x: number): Flank {
+    if (x < this.width / 3) return 'left';
+    return x > (this.width * 2) / 3 ? 'right' : 'center';
+  }
+
+  private recordExplosionEnd(e: Explosion) {
+    const player = e.owner !== undefined ? this.playerStats[e.owner] : null;
+    if (e.kills >= 2) {
+      this.stats.chains.push(e.kills);
+      player?.chains.push(e.kills);
+    }
+    if (e.source === 'interceptor' && e.kills === 0 && e.weapon !== 'emp') {
+      this.stats.wastedShots++;
+      if (player) player.wastedShots++;
+    }
+  }
+
+  private recordStats() {
+    const ended = this.status !== 'playing';
+    if (this.frame % STATS_SAMPLE_FRAMES === 0 || ended) {
+      const cities = this.buildings.filter(b => b.type === 'city' && !b.isDestroyed).length;
+      this.stats.timeline.push({ timeMs: this.time, score: this.score, cities });
+      this.playerStats.forEach((stats, i) => stats.timeline.push({ timeMs: this.time, score: this.playerScores[i], cities }));
+    }
+    if (ended) {
+      // Blasts still expanding when the run ends would otherwise never report their chain.
+      this.explosions.forEach(e => this.recordExplosionEnd(e));
+      this.stats.durationMs = this.time;
+      this.playerStats.forEach(stats => (stats.durationMs = this.time));
+    }
+  }
+
+  private checkEnd() {
+    // A battery waiting on a rebuild still counts, so the run is not lost while it comes back.
+    const hasBatteries = this.buildings.some(b => b.type === 'battery' && (!b.isDestroyed || b.rebuildAt !== undefined));
+    const hasCities = this.buildings.some(b => b.type === 'city' && !b.isDestroyed);
+
+    if (this.playMode === 'versus') {
+      // The defender holds out once the attacker has nothing left in the air or in reserve.
+      if (!hasBatteries || !hasCities) {
+        this.status = 'lost';
+      } else if (this.arsenal === 0 && !this.missiles.some(m => m.isEnemy) && this.explosions.length === 0) {
+        this.status = 'won';
+      }
+    } else if (this.reachedWin()) {
+      // Reaching the goal on the same frame the last building falls still counts as a win.
+      this.status = 'won';
+    } else if (this.level.loseWhen.some(kind => (kind === 'batteries' ? !hasBatteries : !hasCities))) {
+      this.status = 'lost';
+    }
+  }
+
+  private reachedWin() {
+    const { win } = this.level;
+    switch (win.type) {
+      case 'score':
+        return this.score >= win.target;
+      case 'time':
+        return this.time >= win.seconds * 1000;
+      case 'waves':
+        return this.wavePhase === 'intermission' && this.wave >= win.count;
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import type { Point } from './types';
+
+/**
+ * Uniform grid of item indices over the world, for finding what is near a point without
+ * testing everything. Cell lists are kept between rebuilds so a steady frame allocates nothing.
+ * Items outside the world are filed under the nearest edge cell.
+ */
+export class SpatialGrid {
+  private cells: number[][] = [];
+  private columns = 0;
+  private rows = 0;
+
+  constructor(private readonly cellSize: number) {}
+
+  /** Files each item under the cell containing it, replacing whatever was there. `include` picks which items to file. */
+  rebuild<T>(width: number, height: number, items: readonly T[], position: (item: T) => Point, include: (item: T) => boolean) {
+    const columns = Math.max(1, Math.ceil(width / this.cellSize));
+    const rows = Math.max(1, Math.ceil(height / this.cellSize));
+    if (columns !== this.columns || rows !== this.rows) {
+      this.columns = columns;
+      this.rows = rows;
+      this.cells = Array.from({ length: columns * rows }, () => []);
+    } else {
+      for (const cell of this.cells) cell.length = 0;
+    }
+    for (let i = 0; i < items.length; i++) {
+      if (!include(items[i])) continue;
+      const { x, y } = position(items[i]);
+      this.cells[this.row(y) * this.columns + this.column(x)].push(i);
+    }
+  }
+
+  /**
+   * Writes into `out` the indices of items in cells touching the square of half-size `radius`
+   * around (`x`, `y`), in ascending order. Callers still check the real distance.
+   */
+  query(x: number, y: number, radius: number, out: number[]) {
+    out.length = 0;
+    const left = this.column(x - radius);
+    const right = this.column(x + radius);
+    const bottom = this.row(y + radius);
+    for (let row = this.row(y - radius); row <= bottom; row++) {
+      for (let column = left; column <= right; column++) {
+        for (const index of this.cells[row * this.columns + column]) out.push(index);
+      }
+    }
+    // Cells are visited by position, not by index; sort so hits come back in list order.
+    out.sort((a, b) => a - b);
+  }
+
+  private column(x: number) {
+    return Math.min(this.columns - 1, Math.max(0, Math.floor(x / this.cellSize)));
+  }
+
+  private row(y: number) {
+    return Math.min(this.rows - 1, Math.max(0, Math.floor(y / this.cellSize)));
+  }
+}
@@ -0,0 +1,48 @@
+export type GameState = 'menu' | 'playing' | 'paused' | 'won' | 'lost' | 'replay' | 'lobby' | 'online' | 'editor' | 'demo';
+export type GameAction =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'win'
+  | 'lose'
+  | 'quit'
+  | 'watchReplay'
+  | 'openLobby'
+  | 'startOnline'
+  | 'endOnline'
+  | 'openEditor'
+  | 'watchDemo';
+
+export type GameMachine = {
+  state: GameState;
+  /** Bumped on every `start`, so a restart from any screen creates a fresh simulation. */
+  run: number;
+};
+
+const TRANSITIONS: Record<GameState, Partial<Record<GameAction, GameState>>> = {
+  menu: { start: 'playing', watchReplay: 'replay', openLobby: 'lobby', openEditor: 'editor', watchDemo: 'demo' },
+  playing: { start: 'playing', pause: 'paused', win: 'won', lose: 'lost', quit: 'menu' },
+  // A test play from the editor can go straight back to it.
+  paused: { start: 'playing', resume: 'playing', quit: 'menu', openEditor: 'editor' },
+  won: { start: 'playing', quit: 'menu', openEditor: 'editor' },
+  lost: { start: 'playing', quit: 'menu', openEditor: 'editor' },
+  replay: { quit: 'menu' },
+  // Online runs are driven by the server: it decides when they start and end, and they cannot be paused.
+  lobby: { startOnline: 'online', quit: 'menu' },
+  online: { endOnline: 'lobby', quit: 'menu' },
+  editor: { start: 'playing', quit: 'menu' },
+  // Attract mode: a bot plays on its own until someone presses a key.
+  demo: { quit: 'menu' },
+};
+
+export const INITIAL_MACHINE: GameMachine = { state: 'menu', run: 0 };
+
+/** Applies `action` if the current state allows it; anything else is ignored. */
+export const gameReducer = (machine: GameMachine, action: GameAction): GameMachine => {
+  const next = TRANSITIONS[machine.state][action];
+  if (!next) return machine;
+  return { state: next, run: action === 'start' ? machine.run + 1 : machine.run };
+};
+
+/** States in which a run's simulation exists and should be drawn. */
+export const isInRun = (state: GameState) => state === 'playing' || state === 'paused';
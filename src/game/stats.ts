@@ -0,0 +1,54 @@
+import type { Ammo, BatterySide, Building, Flank } from './types';
+
+// Timeline resolution: one sample per simulated second.
+export const STATS_SAMPLE_FRAMES = 60;
+
+export type BuildingLoss = { buildingId: number; type: Building['type']; flank: Flank; timeMs: number };
+export type TimelineSample = { timeMs: number; score: number; cities: number };
+
+export type RunStats = {
+  /** Sides the level puts a battery on. Shots from the others are always 0. */
+  batteries: BatterySide[];
+  shotsFired: Ammo;
+  interceptions: number;
+  /** Kill counts of every explosion that destroyed two or more rockets. */
+  chains: number[];
+  /** Enemy warheads that reached the ground. */
+  leaks: number;
+  /** Interceptor blasts that destroyed nothing. */
+  wastedShots: number;
+  losses: BuildingLoss[];
+  /** Sum of interception heights above the ground, for the average. */
+  interceptAltitudeTotal: number;
+  timeline: TimelineSample[];
+  durationMs: number;
+};
+
+export const createStats = (batteries: BatterySide[]): RunStats => ({
+  batteries,
+  shotsFired: { left: 0, center: 0, right: 0 },
+  interceptions: 0,
+  chains: [],
+  leaks: 0,
+  wastedShots: 0,
+  losses: [],
+  interceptAltitudeTotal: 0,
+  timeline: [],
+  durationMs: 0,
+});
+
+/** Derived figures shown on the debrief screen and fed to the tip providers. */
+export const summarizeStats = (stats: RunStats) => {
+  const totalShots = stats.shotsFired.left + stats.shotsFired.center + stats.shotsFired.right;
+  return {
+    totalShots,
+    accuracy: totalShots > 0 ? stats.interceptions / totalShots : 0,
+    wastedRatio: totalShots > 0 ? stats.wastedShots / totalShots : 0,
+    averageAltitude: stats.interceptions > 0 ? stats.interceptAltitudeTotal / stats.interceptions : 0,
+    longestChain: stats.chains.reduce((max, n) => Math.max(max, n), 0),
+    citiesLost: stats.losses.filter(l => l.type === 'city').length,
+    batteriesLost: stats.losses.filter(l => l.type === 'battery').length,
+  };
+};
+
+export type StatsSummary = ReturnType<typeof summarizeStats>;
@@ -0,0 +1,71 @@
+import type { Palette } from './content';
+
+/** How cities and batteries are drawn. */
+export type BuildingStyle = 'block' | 'outline' | 'neon' | 'silhouette' | 'bold';
+/** How missile trails are drawn. */
+export type TrailStyle = 'faded' | 'solid' | 'glow' | 'bold';
+/** What is painted behind the playfield, between the sky and the ground. */
+export type Skyline = 'none' | 'mountains' | 'sunset' | 'towers';
+
+export type Theme = {
+  /** Replaces the level's palette. Without one the level's own colors show through. */
+  palette?: Required<Palette>;
+  buildings: BuildingStyle;
+  trails: TrailStyle;
+  skyline: Skyline;
+  /** Outer color of blasts, unless a colorblind color scheme picks its own. */
+  blast?: string;
+  /** Outlines, lit windows and the skyline's highlights. */
+  accent: string;
+  /** Drawn along the top edge of the ground. */
+  groundLine?: string;
+};
+
+export const THEME_IDS = ['standard', 'vector', 'synthwave', 'nightCity', 'highContrast'] as const;
+export type ThemeId = (typeof THEME_IDS)[number];
+
+/**
+ * `standard` is the game as each level paints it. `vector` recalls 1980 vector monitors,
+ * `synthwave` neon under a setting sun, `nightCity` lit towers against a distant skyline, and
+ * `highContrast` keeps every shape bright against black.
+ */
+export const THEMES: Record<ThemeId, Theme> = {
+  standard: { buildings: 'block', trails: 'faded', skyline: 'none', accent: '#8888ff' },
+  vector: {
+    palette: { sky: '#000000', ground: '#000000', city: '#33ff66', battery: '#33ff66', turret: '#33ff66' },
+    buildings: 'outline',
+    trails: 'solid',
+    skyline: 'mountains',
+    blast: '#66ff99',
+    accent: '#33ff66',
+    groundLine: '#33ff66',
+  },
+  synthwave: {
+    palette: { sky: '#1a0633', ground: '#12002a', city: '#2a0b4a', battery: '#2a0b4a', turret: '#00e5ff' },
+    buildings: 'neon',
+    trails: 'glow',
+    skyline: 'sunset',
+    blast: '#ff3df0',
+    accent: '#ff3df0',
+    groundLine: '#ff3df0',
+  },
+  nightCity: {
+    palette: { sky: '#060a18', ground: '#0c0f1c', city: '#182038', battery: '#222a44', turret: '#ffd966' },
+    buildings: 'silhouette',
+    trails: 'faded',
+    skyline: 'towers',
+    blast: '#ffb347',
+    accent: '#ffd966',
+  },
+  highContrast: {
+    palette: { sky: '#000000', ground: '#000000', city: '#ffff00', battery: '#0077ff', turret: '#ffffff' },
+    buildings: 'bold',
+    trails: 'bold',
+    skyline: 'none',
+    blast: '#ffff00',
+    accent: '#ffffff',
+    groundLine: '#ffffff',
+  },
+};
+
+export const isThemeId = (value: unknown): value is ThemeId => THEME_IDS.includes(value as ThemeId);
@@ -0,0 +1,82 @@
+import type { PlayerIndex } from './players';
+import type { UpgradeId } from './upgrades';
+import type { SpecialWeaponId } from './weapons';
+
+export type Point = { x: number; y: number };
+export type EnemyKind = 'rocket' | 'mirv' | 'smart' | 'bomber';
+export type Missile = {
+  id: number;
+  start: Point;
+  current: Point;
+  target: Point;
+  speed: number;
+  color: string;
+  isEnemy: boolean;
+  kind?: EnemyKind;
+  /** Enemies aimed at a building keep its id, so the aim point follows the building on resize. */
+  targetId?: number;
+  /** MIRV only: altitude at which it splits into warheads. */
+  splitY?: number;
+  /** Bomber only: frame of the next rocket drop. */
+  nextDropFrame?: number;
+  /** Interceptors only: battery that fired it, whose upgrades shape the blast. */
+  side?: BatterySide;
+  /** Interceptors only: player who fired it. */
+  owner?: PlayerIndex;
+  /** Interceptors only: the special round it is, if not a standard one. */
+  weapon?: SpecialWeaponId;
+};
+/** What caused a blast: a player's interceptor, an enemy warhead going off, a destroyed enemy, or a destroyed battery's ammo. */
+export type ExplosionSource = 'interceptor' | 'impact' | 'chain' | 'debris';
+export type Explosion = Point & {
+  radius: number;
+  maxRadius: number;
+  timer: number;
+  /** Total lifetime in frames; `timer` counts down from it. */
+  duration: number;
+  id: number;
+  kills: number;
+  source: ExplosionSource;
+  /** Player credited with kills: the interceptor's owner, passed down through chains. */
+  owner?: PlayerIndex;
+  /** Chain blasts only: how many blasts led up to this one, starting at 1. */
+  depth?: number;
+  /** Interceptor blasts only: the special round that made it. */
+  weapon?: SpecialWeaponId;
+};
+export type BatterySide = 'left' | 'center' | 'right';
+/** Third of the screen something is in. Same names as the batteries guarding each third. */
+export type Flank = BatterySide;
+export type Building = Point & {
+  width: number;
+  height: number;
+  isDestroyed: boolean;
+  type: 'city' | 'battery';
+  id: number;
+  batterySide?: BatterySide;
+  /** Hits this building can still shrug off before it is destroyed. */
+  armor?: number;
+  /** Damage this building can still take, out of `maxHp`. Missing outside a simulation, e.g. in the editor. */
+  hp?: number;
+  maxHp?: number;
+  /** Destroyed batteries only: frame on which a rebuild brings it back online. */
+  rebuildAt?: number;
+  /** How often enemies aim here relative to other buildings. Missing means 1. */
+  targetWeight?: number;
+};
+
+export type Ammo = Record<BatterySide, number>;
+/** Id of a difficulty file in `content/difficulties`. */
+export type Difficulty = string;
+export type GameStatus = 'playing' | 'won' | 'lost';
+/** Id of a level file in `content/levels`. */
+export type GameMode = string;
+export type WavePhase = 'wave' | 'intermission';
+
+/** Everything a player can do to a running simulation, stamped with the frame it was applied on. */
+export type SimInput =
+  | { frame: number; type: 'fire'; x: number; y: number; side?: BatterySide; player?: PlayerIndex; weapon?: SpecialWeaponId }
+  | { frame: number; type: 'launch'; x: number; targetId: number }
+  | { frame: number; type: 'difficulty'; difficulty: Difficulty }
+  | { frame: number; type: 'resize'; width: number; height: number }
+  | { frame: number; type: 'upgrade'; upgrade: UpgradeId; side?: BatterySide };
@@ -0,0 +1,110 @@
+import { EXPLOSION_DURATION, EXPLOSION_RADIUS, MISSILE_SPEED } from './constants';
+import type { BatterySide } from './types';
+
+/** Upgrades bought separately for each battery. */
+export type BatteryUpgrade = 'speed' | 'radius' | 'duration' | 'ammo';
+/** Upgrades that cover the whole base. */
+export type BaseUpgrade = 'armor' | 'rebuild';
+export type UpgradeId = BatteryUpgrade | BaseUpgrade;
+
+export const BATTERY_UPGRADES: BatteryUpgrade[] = ['speed', 'radius', 'duration', 'ammo'];
+export const BASE_UPGRADES: BaseUpgrade[] = ['armor', 'rebuild'];
+
+/** Levels owned. Level 0 everywhere is the stock game. */
+export type Upgrades = {
+  batteries: Record<BatterySide, Record<BatteryUpgrade, number>>;
+  base: Record<BaseUpgrade, number>;
+};
+
+/** Price of each level in credits; the array length is the highest level. */
+export const UPGRADE_COSTS: Record<UpgradeId, number[]> = {
+  speed: [40, 90, 160],
+  radius: [60, 130, 220],
+  duration: [40, 90, 160],
+  ammo: [50, 110, 190],
+  armor: [250],
+  rebuild: [150, 300],
+};
+
+// One credit is earned for every this many points scored.
+export const SCORE_PER_CREDIT = 10;
+// A destroyed battery comes back online this long after it fell, while rebuilds remain.
+export const BATTERY_REBUILD_MS = 8000;
+
+const noBatteryUpgrades = (): Record<BatteryUpgrade, number> => ({ speed: 0, radius: 0, duration: 0, ammo: 0 });
+
+export const createUpgrades = (): Upgrades => ({
+  batteries: { left: noBatteryUpgrades(), center: noBatteryUpgrades(), right: noBatteryUpgrades() },
+  base: { armor: 0, rebuild: 0 },
+});
+
+export const cloneUpgrades = (upgrades: Upgrades): Upgrades => ({
+  batteries: {
+    left: { ...upgrades.batteries.left },
+    center: { ...upgrades.batteries.center },
+    right: { ...upgrades.batteries.right },
+  },
+  base: { ...upgrades.base },
+});
+
+const clampLevel = (value: unknown, id: UpgradeId) =>
+  typeof value === 'number' && Number.isInteger(value) ? Math.max(0, Math.min(UPGRADE_COSTS[id].length, value)) : 0;
+
+/** `value[key]` if `value` is an object, else undefined. */
+const field = (value: unknown, key: string): unknown =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+
+/** Reads upgrade levels from untrusted JSON, treating anything missing or invalid as level 0. */
+export const sanitizeUpgrades = (raw: unknown): Upgrades => {
+  const upgrades = createUpgrades();
+  const batteries = field(raw, 'batteries');
+  for (const side of Object.keys(upgrades.batteries) as BatterySide[]) {
+    for (const id of BATTERY_UPGRADES) upgrades.batteries[side][id] = clampLevel(field(field(batteries, side), id), id);
+  }
+  for (const id of BASE_UPGRADES) upgrades.base[id] = clampLevel(field(field(raw, 'base'), id), id);
+  return upgrades;
+};
+
+export const isBatteryUpgrade = (id: UpgradeId): id is BatteryUpgrade => (BATTERY_UPGRADES as UpgradeId[]).includes(id);
+
+/** Current level of `id`; battery upgrades need the `side` they apply to. */
+export const upgradeLevel = (upgrades: Upgrades, id: UpgradeId, side?: BatterySide) => {
+  if (isBatteryUpgrade(id)) return side ? upgrades.batteries[side][id] : 0;
+  return upgrades.base[id];
+};
+
+/** Price of the next level, or null when `id` is maxed out. */
+export const nextUpgradeCost = (upgrades: Upgrades, id: UpgradeId, side?: BatterySide) =>
+  UPGRADE_COSTS[id][upgradeLevel(upgrades, id, side)] ?? null;
+
+/** Returns a copy with `id` one level higher. Callers check the cost first. */
+export const withUpgrade = (upgrades: Upgrades, id: UpgradeId, side?: BatterySide): Upgrades => {
+  const next = cloneUpgrades(upgrades);
+  if (isBatteryUpgrade(id)) {
+    if (side) next.batteries[side][id]++;
+  } else {
+    next.base[id]++;
+  }
+  return next;
+};
+
+export type BatteryLoadout = {
+  maxAmmo: number;
+  missileSpeed: number;
+  blastRadius: number;
+  /** Frames an interceptor blast lasts. */
+  blastDuration: number;
+};
+
+/** What one battery fires with at its current upgrade levels, given the level's stock `baseAmmo`. */
+export const batteryLoadout = (upgrades: Upgrades, side: BatterySide, baseAmmo: number): BatteryLoadout => {
+  const levels = upgrades.batteries[side];
+  return {
+    maxAmmo: Math.round(baseAmmo * (1 + levels.ammo * 0.25)),
+    missileSpeed: MISSILE_SPEED * (1 + levels.speed * 0.2),
+    blastRadius: EXPLOSION_RADIUS * (1 + levels.radius * 0.15),
+    blastDuration: Math.round(EXPLOSION_DURATION * (1 + levels.duration * 0.2)),
+  };
+};
+
+export const creditsForScore = (score: number) => Math.floor(score / SCORE_PER_CREDIT);
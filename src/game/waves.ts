@@ -0,0 +1,56 @@
+import type { Curve, LevelDefinition } from './content';
+import type { Ammo } from './types';
+
+export const CITY_BONUS = 100;
+export const AMMO_BONUS = 5;
+// A destroyed city is rebuilt each time the score passes another multiple of this.
+export const BONUS_CITY_SCORE = 2000;
+
+export type WaveConfig = {
+  rockets: number;
+  speedMin: number;
+  speedMax: number;
+  /** Milliseconds between two rocket launches, before the difficulty multiplier. */
+  spawnInterval: number;
+};
+
+export type WaveReport = {
+  wave: number;
+  survivingCities: number;
+  cityBonus: number;
+  leftoverAmmo: Ammo;
+  ammoBonus: number;
+  restoredCities: number;
+};
+
+/** How far a run has got, as read by level curves. */
+export type RunProgress = { score: number; timeMs: number; wave: number };
+
+export const curveValue = (curve: Curve, { score, timeMs, wave }: RunProgress) => {
+  const x = curve.by === 'score' ? score : curve.by === 'time' ? timeMs / 1000 : wave - 1;
+  return Math.max(curve.min, Math.min(curve.max, curve.start + (x / curve.per) * curve.step));
+};
+
+/**
+ * Spawn pacing at `progress`: the scripted wave if the level has one, otherwise its curves.
+ * In wave levels this stays fixed for the whole wave; elsewhere it is recomputed before every
+ * launch. `rockets` is only meaningful for wave levels.
+ */
+export const getWaveConfig = (level: LevelDefinition, progress: RunProgress): WaveConfig => {
+  const scripted = level.waves?.timeline?.[progress.wave - 1];
+  if (scripted) {
+    return {
+      rockets: scripted.rockets,
+      speedMin: level.enemies.speed.min * scripted.speedScale,
+      speedMax: level.enemies.speed.max * scripted.speedScale,
+      spawnInterval: scripted.intervalMs,
+    };
+  }
+  const speedScale = curveValue(level.spawn.speedScale, progress);
+  return {
+    rockets: level.waves ? Math.round(curveValue(level.waves.rockets, progress)) : Infinity,
+    speedMin: level.enemies.speed.min * speedScale,
+    speedMax: level.enemies.speed.max * speedScale,
+    spawnInterval: curveValue(level.spawn.interval, progress),
+  };
+};
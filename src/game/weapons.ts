@@ -0,0 +1,74 @@
+import type { BatterySide } from './types';
+
+/** What a battery fires. Every battery fires `standard` interceptors; the rest come from the loadout. */
+export type WeaponId = 'standard' | SpecialWeaponId;
+export type SpecialWeaponId = 'flak' | 'nuke' | 'proximity' | 'emp';
+
+export const SPECIAL_WEAPONS: SpecialWeaponId[] = ['flak', 'nuke', 'proximity', 'emp'];
+export const WEAPON_IDS: WeaponId[] = ['standard', ...SPECIAL_WEAPONS];
+
+export type WeaponSpec = {
+  /** Multipliers on the firing battery's upgraded interceptor. */
+  speed: number;
+  radius: number;
+  duration: number;
+  /** Rounds a battery carries, on top of its interceptors. Refilled between waves and on rebuild. */
+  rounds: number;
+  /** Drawn next to the rounds left under the battery. */
+  glyph: string;
+  color: string;
+};
+
+export const WEAPONS: Record<SpecialWeaponId, WeaponSpec> = {
+  flak: { speed: 2, radius: 0.55, duration: 0.6, rounds: 12, glyph: 'F', color: '#ffdd55' },
+  nuke: { speed: 0.5, radius: 3, duration: 1.5, rounds: 2, glyph: 'N', color: '#ff6633' },
+  proximity: { speed: 1, radius: 0.8, duration: 1, rounds: 8, glyph: 'P', color: '#aaff66' },
+  emp: { speed: 1, radius: 2, duration: 1, rounds: 1, glyph: 'E', color: '#66e0ff' },
+};
+
+// A proximity round goes off as soon as an enemy flies this close to it.
+export const PROXIMITY_FUSE_RANGE = 35;
+// An EMP slows every enemy on screen to this fraction of its speed for this many frames.
+export const EMP_FRAMES = 300;
+export const EMP_SLOWDOWN = 0.5;
+
+/** Special weapon each battery carries, if any. */
+export type WeaponLoadout = Record<BatterySide, SpecialWeaponId | null>;
+
+export const NO_WEAPONS: WeaponLoadout = { left: null, center: null, right: null };
+
+export const isSpecialWeapon = (value: unknown): value is SpecialWeaponId => SPECIAL_WEAPONS.includes(value as SpecialWeaponId);
+
+/** Reads a loadout from untrusted JSON, leaving batteries with anything unknown on interceptors only. */
+export const sanitizeWeapons = (raw: unknown): WeaponLoadout => {
+  const { left, center, right } = (raw && typeof raw === 'object' ? raw : {}) as Partial<Record<BatterySide, unknown>>;
+  return {
+    left: isSpecialWeapon(left) ? left : null,
+    center: isSpecialWeapon(center) ? center : null,
+    right: isSpecialWeapon(right) ? right : null,
+  };
+};
+
+/** Weapons a player can cycle through when firing from `sides`, in menu order. */
+export const availableWeapons = (weapons: WeaponLoadout, sides: BatterySide[]): WeaponId[] =>
+  WEAPON_IDS.filter(w => w === 'standard' || sides.some(side => weapons[side] === w));
+
+/** The weapon `step` places after `current` among `available`, wrapping around. */
+export const cycleWeapon = (available: WeaponId[], current: WeaponId, step: 1 | -1): WeaponId => {
+  const index = Math.max(0, available.indexOf(current));
+  return available[(index + step + available.length) % available.length] ?? 'standard';
+};
+
+const STORAGE_KEY = 'nova-defense:weapons';
+
+export const loadWeapons = (): WeaponLoadout => {
+  try {
+    return sanitizeWeapons(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null'));
+  } catch {
+    return NO_WEAPONS;
+  }
+};
+
+export const saveWeapons = (weapons: WeaponLoadout) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(weapons));
+};
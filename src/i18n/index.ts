@@ -0,0 +1,93 @@
+import en from './locales/en';
+import es from './locales/es';
+import ja from './locales/ja';
+import zh from './locales/zh';
+import zhTW from './locales/zh-TW';
+import type { Messages, PluralForms, Translation } from './types';
+
+export type { Messages, PluralForms, Translation } from './types';
+
+export const LOCALES = ['en', 'zh', 'zh-TW', 'ja', 'es'] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Each language's name in that language, for the language picker. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  zh: '简体中文',
+  'zh-TW': '繁體中文',
+  ja: '日本語',
+  es: 'Español',
+};
+
+const TRANSLATIONS: Record<Locale, Translation> = { en, zh, 'zh-TW': zhTW, ja, es };
+const STORAGE_KEY = 'nova-defense:language';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+/** Fills the gaps in `translation` from `base`. Arrays are replaced whole rather than merged. */
+const withFallback = <T>(base: T, translation: unknown): T => {
+  if (translation === undefined) return base;
+  if (Array.isArray(base) || typeof base !== 'object' || base === null) return translation as T;
+  const merged = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(base)) merged[key] = withFallback(value, (translation as Record<string, unknown>)[key]);
+  return merged as T;
+};
+
+const cache = new Map<Locale, Messages>();
+
+/** All strings for `locale`, with English filling in anything it does not translate. */
+export const getMessages = (locale: Locale): Messages => {
+  let messages = cache.get(locale);
+  if (!messages) {
+    messages = withFallback(en, TRANSLATIONS[locale]);
+    cache.set(locale, messages);
+  }
+  return messages;
+};
+
+/**
+ * Best match for the browser's preferred languages. Traditional Chinese is recognised by
+ * script (`zh-Hant`) or region (Taiwan, Hong Kong, Macau); any other Chinese gets Simplified.
+ */
+export const detectLocale = (preferred: readonly string[] = typeof navigator === 'undefined' ? [] : navigator.languages): Locale => {
+  for (const tag of preferred) {
+    const [language, ...rest] = tag.toLowerCase().split('-');
+    if (language === 'zh') {
+      return rest.some(part => part === 'hant' || part === 'tw' || part === 'hk' || part === 'mo') ? 'zh-TW' : 'zh';
+    }
+    if (isLocale(language)) return language;
+  }
+  return DEFAULT_LOCALE;
+};
+
+/** The language picked last time, or the browser's if none was. */
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {
+    // Storage can be unavailable (private mode); fall through to the browser's language.
+  }
+  return detectLocale();
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+/** Replaces each `{name}` in `template` with `values.name`. Unknown names are left as they are. */
+export const interpolate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+
+export const formatNumber = (locale: Locale, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(locale, options).format(value);
+
+/**
+ * Picks the plural form of `forms` for `count` and fills it in. `{count}` is the count
+ * formatted for the locale; `values` fill any other placeholders.
+ */
+export const plural = (locale: Locale, forms: PluralForms, count: number, values: Record<string, string | number> = {}) => {
+  const form = forms[new Intl.PluralRules(locale).select(count)] ?? forms.other;
+  return interpolate(form, { count: formatNumber(locale, count), ...values });
+};
@@ -0,0 +1,294 @@
+/**
+ * English strings. This is the reference locale: it defines every key, and any key another
+ * locale leaves out is shown in English. `{name}` marks a value filled in at runtime.
+ */
+const en = {
+  title: "Joey's Nova Defense",
+  start: "Start Game",
+  win: "Victory!",
+  lose: "Game Over",
+  retry: "Play Again",
+  score: "Score",
+  target: "Target",
+  ammo: "Ammo",
+  left: "L",
+  center: "C",
+  right: "R",
+  tip: "AI Commander Tip:",
+  instructions: "Click anywhere to intercept incoming rockets. Protect your cities and batteries!",
+  helpTitle: "How to Play",
+  helpText: [
+    "1. Enemy rockets fall from the top to destroy your cities.",
+    "2. Click/Touch anywhere to fire an interceptor missile. Or aim the crosshair with the arrow keys/WASD or a gamepad stick and press Space; J/K/L fire from the left/center/right battery.",
+    "3. Missiles explode at the target location, destroying nearby rockets.",
+    "4. Each battery has limited ammo. Use it wisely!",
+    "5. Each level sets its own goal, shown at the top of the screen during play: reach a score, survive for a set time or clear a number of waves. Depending on the level, the run is lost once all your batteries or all your cities are destroyed.",
+    "6. Watch out for MIRVs that split apart, smart bombs that dodge blasts, and bombers that drop rockets. They are worth more points."
+  ],
+  difficulty: "Difficulty",
+  help: "Help",
+  close: "Close",
+  mode: "Mode",
+  wave: "Wave",
+  survive: "Survive",
+  waveCleared: "Wave {n} cleared!",
+  cityBonus: "City bonus",
+  ammoBonus: "Ammo bonus",
+  cityRestored: "City rebuilt!",
+  nextWave: "Next wave incoming...",
+  watchReplay: "Watch Replay",
+  watchDemo: "Watch Demo",
+  levelEditor: "Level Editor",
+  backToEditor: "Back to Editor",
+  downloadReplay: "Download Replay",
+  replay: "Replay",
+  exitReplay: "Exit",
+  frame: "Frame",
+  replayVerified: "Replay reproduced the recorded result.",
+  replayMismatch: "Replay diverged from the recorded result.",
+  rank: "Your rank",
+  leaderboard: "Top 10",
+  offlineSaved: "Leaderboard offline. Run saved on this device.",
+  debrief: "Debrief",
+  shotsFired: "Shots fired",
+  interceptions: "Interceptions",
+  accuracy: "Hits per shot",
+  chains: "Multi-kill chains",
+  leaks: "Rockets through",
+  avgAltitude: "Avg. intercept altitude",
+  citiesLost: "Cities lost",
+  timeline: "Score timeline",
+  none: "None",
+  controls: "Controls",
+  pressKey: "Press a key...",
+  resetDefaults: "Reset to defaults",
+  crosshairSpeed: "Crosshair speed",
+  sound: "Sound",
+  achievements: "Achievements",
+  achievementUnlocked: "Achievement unlocked",
+  unlockedOn: "Unlocked {date}",
+  locked: "Locked",
+  achievementList: {
+    untouched: { name: "Untouchable", description: "Win without losing a city." },
+    chainReaction: { name: "Chain Reaction", description: "Destroy 5 enemies with a single blast." },
+    hardened: { name: "Hardened", description: "Win a run played entirely on Hard." },
+    centerOnly: { name: "Dead Center", description: "Win firing only from the center battery." },
+    thousandIntercepts: { name: "Iron Dome", description: "Intercept 1,000 rockets in total." },
+  },
+  volumes: { master: "Master", sfx: "Effects", music: "Music" },
+  mute: "Mute",
+  keyboard: "Keys",
+  gamepad: "Pad",
+  actions: {
+    up: "Crosshair up",
+    down: "Crosshair down",
+    left: "Crosshair left",
+    right: "Crosshair right",
+    fire: "Fire (nearest battery)",
+    fireLeft: "Fire left battery",
+    fireCenter: "Fire center battery",
+    fireRight: "Fire right battery",
+    nextWeapon: "Next weapon",
+    prevWeapon: "Previous weapon",
+    pause: "Pause / resume"
+  },
+  paused: "Paused",
+  resume: "Resume",
+  restart: "Restart",
+  quit: "Quit to Menu",
+  shop: "Upgrade Shop",
+  credits: "Credits",
+  maxed: "MAX",
+  level: "Lv",
+  shopHint: "Earn 1 credit for every 10 points. Upgrades are kept between runs.",
+  batteryUpgrades: "Per battery",
+  baseUpgrades: "Whole base",
+  upgrades: {
+    speed: "Interceptor speed",
+    radius: "Blast radius",
+    duration: "Blast duration",
+    ammo: "Ammo capacity",
+    armor: "Armored cities",
+    rebuild: "Battery rebuilds"
+  },
+  upgradeHints: {
+    speed: "+20% per level",
+    radius: "+15% per level",
+    duration: "+20% per level",
+    ammo: "+25% per level",
+    armor: "Each city survives one hit per run",
+    rebuild: "A fallen battery comes back after 8 s, once per level each run"
+  },
+  players: "Players",
+  solo: "Solo",
+  coop: "Co-op",
+  versus: "Versus",
+  coopHint: "P1: mouse + gamepad 1, left & center batteries. P2: keyboard + gamepad 2, center & right batteries.",
+  versusHint: "Defender: mouse + gamepad 1. Attacker: keyboard + gamepad 2. Press fire once to pick a launch point, then again over the target.",
+  player: "P{n}",
+  attacker: "Attacker",
+  rockets: "Rockets",
+  defenderWins: "Defender wins!",
+  attackerWins: "Attacker wins!",
+  playOnline: "Play Online",
+  lobby: "Online Lobby",
+  yourName: "Your name",
+  createRoom: "Create room",
+  join: "Join",
+  roomCode: "Room code",
+  ready: "Ready",
+  notReady: "Not ready",
+  cancelReady: "Cancel ready",
+  leaveRoom: "Leave",
+  waitingForPlayers: "The game starts once {n}-4 players are all ready.",
+  offline: "offline",
+  you: "you",
+  connecting: "Connecting...",
+  reconnecting: "Connection lost. Reconnecting...",
+  lastRun: "Last run",
+  serverHint: "Needs the game server (npm run server). Share the room code with players on your network.",
+  language: "Language",
+  citiesStanding: { one: "{count} city standing", other: "{count} cities standing" },
+  chainsSummary: { one: "{count} chain, best {best}", other: "{count} chains, best {best}" },
+  accessibility: {
+    title: "Accessibility",
+    colors: "Colors",
+    colorSchemes: { standard: "Standard", redGreen: "Red–green safe", blueYellow: "Blue–yellow safe", monochrome: "Monochrome" },
+    shapes: "Shape-coded missiles",
+    motion: "Motion",
+    motionOptions: { system: "System", reduce: "Reduced", full: "Full" },
+    motionHint: "Reduced motion turns off particle bursts and menu animations.",
+    scanlines: "Scanlines",
+    gameSpeed: "Game speed",
+    gameSpeedHint: "Slows local runs. Online games always play at full speed.",
+  },
+  // Read out by screen readers during play.
+  announce: {
+    sides: { left: "Left", center: "Center", right: "Right" },
+    cityLost: { one: "City destroyed. {count} city left.", other: "City destroyed. {count} cities left." },
+    batteryLost: "{side} battery destroyed.",
+    lowAmmo: { one: "{side} battery low: {count} shot left.", other: "{side} battery low: {count} shots left." },
+    outOfAmmo: "{side} battery out of ammo.",
+    won: "Victory. Final score {score}.",
+    lost: "Game over. Final score {score}.",
+  },
+  // Special rounds a battery can carry on top of its interceptors.
+  weapons: {
+    loadout: "Loadout",
+    loadoutHint: "Pick a special round for each battery. Q/E or the mouse wheel switch weapons during a run; rounds refill every wave.",
+    weapon: "Weapon",
+    batteries: { left: "Left battery", center: "Center battery", right: "Right battery" },
+    names: { standard: "Interceptor", flak: "Flak", nuke: "Nuke", proximity: "Proximity", emp: "EMP" },
+    hints: {
+      flak: "Twice as fast, with a small, short blast. 12 rounds.",
+      nuke: "Slow, with a huge blast that shakes the screen. Mind your own buildings. 2 rounds.",
+      proximity: "Goes off as soon as an enemy flies close to it. 8 rounds.",
+      emp: "Destroys nothing, but slows every enemy to half speed for 5 seconds. 1 round.",
+    },
+  },
+  // Graphics settings: themes and post-processing effects.
+  graphics: {
+    title: "Graphics",
+    theme: "Theme",
+    themes: { standard: "Standard", vector: "Vector 1980", synthwave: "Synthwave", nightCity: "Night City", highContrast: "High Contrast" },
+    themeHints: {
+      standard: "Each level's own colors.",
+      vector: "Green outlines on black, like an arcade vector monitor.",
+      synthwave: "Neon buildings and glowing trails under a setting sun.",
+      nightCity: "Lit towers in front of a distant skyline.",
+      highContrast: "Bright, thick shapes on black.",
+    },
+    effects: { bloom: "Bloom", crt: "CRT curvature", shake: "Screen shake", flash: "Chain flash" },
+    effectsHint: "Bloom and CRT curvature cost frame rate on slower devices. Shake and flash are off under reduced motion.",
+  },
+  // Daily Nova: one seeded run a day, the same for everyone.
+  daily: {
+    title: "Daily Nova",
+    hint: "Everyone faces the same enemies today, and you get one attempt. A new run starts at midnight UTC.",
+    play: "Play Today's Run",
+    played: "You have played today's run. Come back tomorrow!",
+    abandoned: "Left unfinished",
+    streak: { one: "{count}-day streak", other: "{count}-day streak" },
+    history: "Recent days",
+    result: "{score} points · {saved}/{cities} cities · {accuracy}% accuracy",
+    share: "Share your result",
+    copy: "Copy",
+    copied: "Copied!",
+    shareTitle: "Daily Nova {day}",
+    shareScore: "⭐ {score} · 🎯 {accuracy}%",
+    verify: "Verify",
+    verifyTitle: "Check a result code",
+    verifyHint: "Paste someone's result code to play their run again and check it.",
+    valid: "Verified: {result} on {day}.",
+    invalid: "Does not check out. The code claims {claimed}, but its run gives {actual}.",
+    watch: "Watch Run",
+  },
+  // Attract mode on the menu, played by a bot.
+  demo: {
+    title: "Demo",
+    exit: "Autopilot is defending. Press any key or click to return to the menu.",
+  },
+  // Stats overlay, toggled with F3.
+  stats: {
+    title: "Performance",
+    fps: "FPS",
+    missiles: "Missiles",
+    explosions: "Explosions",
+    particles: "Particles",
+    renderInWorker: "Draw in a background worker",
+    workerUnsupported: "This browser cannot draw in a worker.",
+    hint: "F3 hides this panel",
+  },
+  editor: {
+    title: "Level Editor",
+    template: "Start from",
+    name: "Name",
+    move: "Move",
+    zones: "Launch zones",
+    moveHint: "Drag cities and batteries along the ground. Click one to edit it.",
+    zonesHint: "Drag across the top strip to paint where rockets launch from.",
+    batteries: "Batteries",
+    battery: "Battery",
+    city: "City",
+    addCity: "Add city",
+    ammo: "Ammo",
+    weight: "Target weight",
+    remove: "Remove",
+    noZones: "No zones: rockets launch from anywhere.",
+    zoneWeight: "Weight",
+    win: "Win condition",
+    score: "Score",
+    time: "Seconds",
+    waves: "Waves",
+    timeline: "Wave timeline",
+    rockets: "Rockets",
+    interval: "Interval ms",
+    speed: "Speed ×",
+    addWave: "Add wave",
+    testPlay: "Test Play",
+    import: "Import",
+    export: "Export",
+  },
+  tips: {
+    flanks: { left: "left", center: "center", right: "right" },
+    flankFell: "You let the {flank} flank fall. Keep an eye on both sides of the screen.",
+    wastedShots: "You fired {percent}% of your shots at empty sky. Aim where rockets will be.",
+    leaks: { one: "{count} rocket got through. Take out the low ones first.", other: "{count} rockets got through. Take out the low ones first." },
+    idleBattery: "Your {flank} battery never fired. Spread the load across all three.",
+    lowIntercepts: "Your intercepts happen too close to the ground. Engage earlier.",
+    longChain: "A {count}-kill chain! Let blasts catch clustered rockets.",
+    generic: [
+      "Lead your shots: rockets keep moving while your interceptor flies.",
+      "Save the center battery for emergencies; it has the most ammo.",
+      "One well-placed blast can take out several rockets at once.",
+    ],
+  },
+  // Sent to the tip providers. The reply comes back in whatever language the prompt is written in.
+  prompts: {
+    system: "You are the AI commander of a missile defense game. Answer with the tip only.",
+    tip: "The player just finished a game of Missile Command with a score of {score}.{details} Give a very short, encouraging tip (max 15 words) for the next game, based on what actually happened.",
+    runDetails: "Shots fired (left/center/right): {left}/{center}/{right}. Interceptions: {interceptions} ({accuracy}% of shots). Rockets that got through: {leaks}. Multi-kill chains: {chains}, longest {longestChain}. Cities lost: {citiesLost}, batteries lost: {batteriesLost}. Average interception altitude: {altitude}px.",
+  },
+};
+
+export default en;
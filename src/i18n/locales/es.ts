@@ -0,0 +1,286 @@
+import type { Translation } from '../types';
+
+/** Spanish. */
+const es: Translation = {
+  title: "Nova Defense de Joey",
+  start: "Empezar",
+  win: "¡Victoria!",
+  lose: "Fin de la partida",
+  retry: "Jugar de nuevo",
+  score: "Puntos",
+  target: "Objetivo",
+  ammo: "Munición",
+  left: "I",
+  center: "C",
+  right: "D",
+  tip: "Consejo del comandante IA:",
+  instructions: "Haz clic en cualquier lugar para interceptar los cohetes. ¡Protege tus ciudades y baterías!",
+  helpTitle: "Cómo jugar",
+  helpText: [
+    "1. Los cohetes enemigos caen desde arriba para destruir tus ciudades.",
+    "2. Haz clic o toca en cualquier lugar para lanzar un misil interceptor. También puedes mover la mira con las flechas/WASD o el stick del mando y pulsar Espacio; J/K/L disparan desde la batería izquierda/central/derecha.",
+    "3. Los misiles explotan en el punto elegido y destruyen los cohetes cercanos.",
+    "4. Cada batería tiene munición limitada. ¡Úsala bien!",
+    "5. Cada nivel tiene su propio objetivo, que se muestra en la parte superior de la pantalla durante la partida: alcanzar una puntuación, resistir un tiempo o superar varias oleadas. Según el nivel, pierdes cuando caen todas tus baterías o todas tus ciudades.",
+    "6. Cuidado con los MIRV que se dividen, las bombas inteligentes que esquivan explosiones y los bombarderos que sueltan cohetes. Valen más puntos.",
+  ],
+  difficulty: "Dificultad",
+  help: "Ayuda",
+  close: "Cerrar",
+  mode: "Modo",
+  wave: "Oleada",
+  survive: "Resiste",
+  waveCleared: "¡Oleada {n} superada!",
+  cityBonus: "Bonus por ciudades",
+  ammoBonus: "Bonus por munición",
+  cityRestored: "¡Ciudad reconstruida!",
+  nextWave: "Se acerca la siguiente oleada...",
+  watchReplay: "Ver repetición",
+  watchDemo: "Ver demostración",
+  levelEditor: "Editor de niveles",
+  backToEditor: "Volver al editor",
+  downloadReplay: "Descargar repetición",
+  replay: "Repetición",
+  exitReplay: "Salir",
+  frame: "Fotograma",
+  replayVerified: "La repetición reprodujo el resultado grabado.",
+  replayMismatch: "La repetición no coincide con el resultado grabado.",
+  rank: "Tu puesto",
+  leaderboard: "Top 10",
+  offlineSaved: "Clasificación sin conexión. Partida guardada en este dispositivo.",
+  debrief: "Informe",
+  shotsFired: "Disparos",
+  interceptions: "Intercepciones",
+  accuracy: "Aciertos por disparo",
+  chains: "Reacciones en cadena",
+  leaks: "Cohetes que pasaron",
+  avgAltitude: "Altura media de intercepción",
+  citiesLost: "Ciudades perdidas",
+  timeline: "Evolución de los puntos",
+  none: "Ninguna",
+  controls: "Controles",
+  pressKey: "Pulsa una tecla...",
+  resetDefaults: "Restablecer",
+  crosshairSpeed: "Velocidad de la mira",
+  sound: "Sonido",
+  achievements: "Logros",
+  achievementUnlocked: "Logro desbloqueado",
+  unlockedOn: "Desbloqueado el {date}",
+  locked: "Bloqueado",
+  achievementList: {
+    untouched: { name: "Intocable", description: "Gana sin perder ninguna ciudad." },
+    chainReaction: { name: "Reacción en cadena", description: "Destruye 5 enemigos con una sola explosión." },
+    hardened: { name: "Curtido", description: "Gana una partida jugada entera en Difícil." },
+    centerOnly: { name: "En el centro", description: "Gana disparando solo desde la batería central." },
+    thousandIntercepts: { name: "Cúpula de hierro", description: "Intercepta 1000 cohetes en total." },
+  },
+  volumes: { master: "General", sfx: "Efectos", music: "Música" },
+  mute: "Silenciar",
+  keyboard: "Teclas",
+  gamepad: "Mando",
+  actions: {
+    up: "Mira arriba",
+    down: "Mira abajo",
+    left: "Mira a la izquierda",
+    right: "Mira a la derecha",
+    fire: "Disparar (batería más cercana)",
+    fireLeft: "Disparar batería izquierda",
+    fireCenter: "Disparar batería central",
+    fireRight: "Disparar batería derecha",
+    nextWeapon: "Arma siguiente",
+    prevWeapon: "Arma anterior",
+    pause: "Pausar / reanudar",
+  },
+  paused: "En pausa",
+  resume: "Continuar",
+  restart: "Reiniciar",
+  quit: "Volver al menú",
+  shop: "Tienda de mejoras",
+  credits: "Créditos",
+  maxed: "MÁX",
+  level: "Nv",
+  shopHint: "Ganas 1 crédito por cada 10 puntos. Las mejoras se conservan entre partidas.",
+  batteryUpgrades: "Por batería",
+  baseUpgrades: "Toda la base",
+  upgrades: {
+    speed: "Velocidad del interceptor",
+    radius: "Radio de explosión",
+    duration: "Duración de la explosión",
+    ammo: "Capacidad de munición",
+    armor: "Ciudades blindadas",
+    rebuild: "Reconstrucción de baterías",
+  },
+  upgradeHints: {
+    speed: "+20% por nivel",
+    radius: "+15% por nivel",
+    duration: "+20% por nivel",
+    ammo: "+25% por nivel",
+    armor: "Cada ciudad aguanta un impacto por partida",
+    rebuild: "Una batería caída vuelve tras 8 s, una vez por nivel en cada partida",
+  },
+  players: "Jugadores",
+  solo: "Solo",
+  coop: "Cooperativo",
+  versus: "Versus",
+  coopHint: "J1: ratón + mando 1, baterías izquierda y central. J2: teclado + mando 2, baterías central y derecha.",
+  versusHint: "Defensor: ratón + mando 1. Atacante: teclado + mando 2. Pulsa disparar una vez para elegir el punto de lanzamiento y otra vez sobre el objetivo.",
+  player: "J{n}",
+  attacker: "Atacante",
+  rockets: "Cohetes",
+  defenderWins: "¡Gana el defensor!",
+  attackerWins: "¡Gana el atacante!",
+  playOnline: "Jugar en línea",
+  lobby: "Sala en línea",
+  yourName: "Tu nombre",
+  createRoom: "Crear sala",
+  join: "Unirse",
+  roomCode: "Código de sala",
+  ready: "Listo",
+  notReady: "No listo",
+  cancelReady: "Cancelar listo",
+  leaveRoom: "Salir",
+  waitingForPlayers: "La partida empieza cuando {n}-4 jugadores estén listos.",
+  offline: "desconectado",
+  you: "tú",
+  connecting: "Conectando...",
+  reconnecting: "Conexión perdida. Reconectando...",
+  lastRun: "Última partida",
+  serverHint: "Necesita el servidor del juego (npm run server). Comparte el código de sala con los jugadores de tu red.",
+  language: "Idioma",
+  citiesStanding: { one: "{count} ciudad en pie", other: "{count} ciudades en pie" },
+  chainsSummary: { one: "{count} cadena, la mejor de {best}", other: "{count} cadenas, la mejor de {best}" },
+  accessibility: {
+    title: "Accesibilidad",
+    colors: "Colores",
+    colorSchemes: { standard: "Estándar", redGreen: "Apto rojo–verde", blueYellow: "Apto azul–amarillo", monochrome: "Monocromo" },
+    shapes: "Misiles con formas distintas",
+    motion: "Movimiento",
+    motionOptions: { system: "Sistema", reduce: "Reducido", full: "Completo" },
+    motionHint: "El movimiento reducido quita las partículas de las explosiones y las animaciones de los menús.",
+    scanlines: "Líneas de escaneo",
+    gameSpeed: "Velocidad del juego",
+    gameSpeedHint: "Ralentiza las partidas locales. Las partidas en línea siempre van a velocidad normal.",
+  },
+  announce: {
+    sides: { left: "izquierda", center: "central", right: "derecha" },
+    cityLost: { one: "Ciudad destruida. Queda {count} ciudad.", other: "Ciudad destruida. Quedan {count} ciudades." },
+    batteryLost: "Batería {side} destruida.",
+    lowAmmo: { one: "Batería {side} con poca munición: queda {count} disparo.", other: "Batería {side} con poca munición: quedan {count} disparos." },
+    outOfAmmo: "Batería {side} sin munición.",
+    won: "Victoria. Puntuación final: {score}.",
+    lost: "Fin de la partida. Puntuación final: {score}.",
+  },
+  weapons: {
+    loadout: "Armamento",
+    loadoutHint: "Elige un proyectil especial para cada batería. Q/E o la rueda del ratón cambian de arma durante la partida; se recargan cada oleada.",
+    weapon: "Arma",
+    batteries: { left: "Batería izquierda", center: "Batería central", right: "Batería derecha" },
+    names: { standard: "Interceptor", flak: "Antiaéreo", nuke: "Nuclear", proximity: "Proximidad", emp: "PEM" },
+    hints: {
+      flak: "El doble de rápido, con una explosión pequeña y breve. 12 disparos.",
+      nuke: "Lento, con una explosión enorme que sacude la pantalla. Cuidado con tus edificios. 2 disparos.",
+      proximity: "Estalla en cuanto un enemigo pasa cerca. 8 disparos.",
+      emp: "No destruye nada, pero frena a todos los enemigos a la mitad durante 5 segundos. 1 disparo.",
+    },
+  },
+  graphics: {
+    title: "Gráficos",
+    theme: "Tema",
+    themes: { standard: "Estándar", vector: "Vectorial 1980", synthwave: "Synthwave", nightCity: "Ciudad nocturna", highContrast: "Alto contraste" },
+    themeHints: {
+      standard: "Los colores propios de cada nivel.",
+      vector: "Contornos verdes sobre negro, como un monitor vectorial de recreativa.",
+      synthwave: "Edificios de neón y estelas brillantes bajo un sol poniente.",
+      nightCity: "Torres iluminadas ante un horizonte lejano.",
+      highContrast: "Formas gruesas y brillantes sobre negro.",
+    },
+    effects: { bloom: "Resplandor", crt: "Curvatura CRT", shake: "Temblor de pantalla", flash: "Destello de cadena" },
+    effectsHint: "El resplandor y la curvatura CRT reducen la fluidez en equipos lentos. El temblor y el destello se desactivan con movimiento reducido.",
+  },
+  daily: {
+    title: "Nova Diaria",
+    hint: "Hoy todos se enfrentan a los mismos enemigos y tienes un solo intento. Cada día empieza una partida nueva a medianoche UTC.",
+    play: "Jugar la partida de hoy",
+    played: "Ya has jugado la partida de hoy. ¡Vuelve mañana!",
+    abandoned: "Sin terminar",
+    streak: { one: "Racha de {count} día", other: "Racha de {count} días" },
+    history: "Últimos días",
+    result: "{score} puntos · {saved}/{cities} ciudades · {accuracy}% de precisión",
+    share: "Comparte tu resultado",
+    copy: "Copiar",
+    copied: "¡Copiado!",
+    shareTitle: "Nova Diaria {day}",
+    shareScore: "⭐ {score} · 🎯 {accuracy}%",
+    verify: "Verificar",
+    verifyTitle: "Comprobar un código de resultado",
+    verifyHint: "Pega el código de resultado de otra persona para volver a jugar su partida y comprobarlo.",
+    valid: "Verificado: {result} el {day}.",
+    invalid: "No cuadra. El código dice {claimed}, pero su partida da {actual}.",
+    watch: "Ver partida",
+  },
+  demo: {
+    title: "Demostración",
+    exit: "El piloto automático defiende. Pulsa una tecla o haz clic para volver al menú.",
+  },
+  stats: {
+    title: "Rendimiento",
+    fps: "FPS",
+    missiles: "Misiles",
+    explosions: "Explosiones",
+    particles: "Partículas",
+    renderInWorker: "Dibujar en un worker en segundo plano",
+    workerUnsupported: "Este navegador no puede dibujar en un worker.",
+    hint: "F3 oculta este panel",
+  },
+  editor: {
+    title: "Editor de niveles",
+    template: "Partir de",
+    name: "Nombre",
+    move: "Mover",
+    zones: "Zonas de lanzamiento",
+    moveHint: "Arrastra ciudades y baterías por el suelo. Haz clic en una para editarla.",
+    zonesHint: "Arrastra por la franja superior para pintar desde dónde se lanzan los cohetes.",
+    batteries: "Baterías",
+    battery: "Batería",
+    city: "Ciudad",
+    addCity: "Añadir ciudad",
+    ammo: "Munición",
+    weight: "Peso como objetivo",
+    remove: "Quitar",
+    noZones: "Sin zonas: los cohetes salen desde cualquier lugar.",
+    zoneWeight: "Peso",
+    win: "Condición de victoria",
+    score: "Puntos",
+    time: "Segundos",
+    waves: "Oleadas",
+    timeline: "Guion de oleadas",
+    rockets: "Cohetes",
+    interval: "Intervalo ms",
+    speed: "Velocidad ×",
+    addWave: "Añadir oleada",
+    testPlay: "Probar",
+    import: "Importar",
+    export: "Exportar",
+  },
+  tips: {
+    flanks: { left: "izquierdo", center: "central", right: "derecho" },
+    flankFell: "Dejaste caer el flanco {flank}. Vigila ambos lados de la pantalla.",
+    wastedShots: "El {percent}% de tus disparos fue al cielo vacío. Apunta a donde estarán los cohetes.",
+    leaks: { one: "{count} cohete logró pasar. Derriba primero los más bajos.", other: "{count} cohetes lograron pasar. Derriba primero los más bajos." },
+    idleBattery: "Tu batería del lado {flank} nunca disparó. Reparte el trabajo entre las tres.",
+    lowIntercepts: "Interceptas demasiado cerca del suelo. Actúa antes.",
+    longChain: "¡Una cadena de {count}! Deja que las explosiones atrapen a los cohetes agrupados.",
+    generic: [
+      "Adelanta tus disparos: los cohetes siguen moviéndose mientras vuela tu interceptor.",
+      "Guarda la batería central para emergencias; es la que tiene más munición.",
+      "Una explosión bien colocada puede acabar con varios cohetes a la vez.",
+    ],
+  },
+  prompts: {
+    system: "Eres el comandante IA de un juego de defensa antimisiles. Responde solo con el consejo, en español.",
+    tip: "El jugador acaba de terminar una partida de Missile Command con {score} puntos.{details} Da un consejo muy breve y motivador (máximo 15 palabras) en español para la próxima partida, basado en lo que ocurrió.",
+    runDetails: "Disparos (izquierda/centro/derecha): {left}/{center}/{right}. Intercepciones: {interceptions} ({accuracy}% de los disparos). Cohetes que pasaron: {leaks}. Cadenas de varias bajas: {chains}, la mayor de {longestChain}. Ciudades perdidas: {citiesLost}, baterías perdidas: {batteriesLost}. Altura media de intercepción: {altitude}px.",
+  },
+};
+
+export default es;
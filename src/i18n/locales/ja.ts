@@ -0,0 +1,286 @@
+import type { Translation } from '../types';
+
+/** Japanese. */
+const ja: Translation = {
+  title: "Joeyのノヴァ・ディフェンス",
+  start: "ゲーム開始",
+  win: "勝利！",
+  lose: "ゲームオーバー",
+  retry: "もう一度",
+  score: "スコア",
+  target: "目標",
+  ammo: "弾薬",
+  left: "左",
+  center: "中",
+  right: "右",
+  tip: "AI司令官のアドバイス：",
+  instructions: "画面をクリックして飛来するロケットを迎撃しよう。都市と砲台を守り抜け！",
+  helpTitle: "遊び方",
+  helpText: [
+    "1. 敵のロケットが上から降ってきて都市を狙います。",
+    "2. 画面をクリック／タッチすると迎撃ミサイルを発射します。矢印キー／WASD やゲームパッドのスティックで照準を動かし、スペースで発射することもできます。J/K/L で左／中央／右の砲台から発射します。",
+    "3. ミサイルは狙った地点で爆発し、周囲のロケットを破壊します。",
+    "4. 各砲台の弾薬には限りがあります。大切に使いましょう！",
+    "5. 勝利条件はレベルごとに異なり、プレイ中は画面上部に表示されます。目標スコアの達成、一定時間の生存、ウェーブのクリアのいずれかです。レベルによって、砲台か都市がすべて破壊されるとゲームオーバーです。",
+    "6. 分裂する MIRV、爆発を避けるスマート爆弾、ロケットを落とす爆撃機に注意。倒すと高得点です。",
+  ],
+  difficulty: "難易度",
+  help: "ヘルプ",
+  close: "閉じる",
+  mode: "モード",
+  wave: "ウェーブ",
+  survive: "生存",
+  waveCleared: "ウェーブ {n} クリア！",
+  cityBonus: "都市ボーナス",
+  ammoBonus: "弾薬ボーナス",
+  cityRestored: "都市を再建！",
+  nextWave: "次のウェーブが接近中…",
+  watchReplay: "リプレイを見る",
+  watchDemo: "デモを見る",
+  levelEditor: "レベルエディター",
+  backToEditor: "エディターに戻る",
+  downloadReplay: "リプレイを保存",
+  replay: "リプレイ",
+  exitReplay: "終了",
+  frame: "フレーム",
+  replayVerified: "リプレイは記録どおりの結果になりました。",
+  replayMismatch: "リプレイが記録と異なる結果になりました。",
+  rank: "あなたの順位",
+  leaderboard: "トップ10",
+  offlineSaved: "ランキングサーバーに接続できません。記録はこの端末に保存されました。",
+  debrief: "戦闘報告",
+  shotsFired: "発射数",
+  interceptions: "迎撃数",
+  accuracy: "命中率",
+  chains: "連鎖撃破",
+  leaks: "突破されたロケット",
+  avgAltitude: "平均迎撃高度",
+  citiesLost: "失った都市",
+  timeline: "スコアの推移",
+  none: "なし",
+  controls: "操作設定",
+  pressKey: "キーを押してください…",
+  resetDefaults: "初期設定に戻す",
+  crosshairSpeed: "照準の速さ",
+  sound: "サウンド",
+  achievements: "実績",
+  achievementUnlocked: "実績解除",
+  unlockedOn: "{date} に解除",
+  locked: "未解除",
+  achievementList: {
+    untouched: { name: "無傷の守り", description: "都市を1つも失わずに勝利する。" },
+    chainReaction: { name: "連鎖反応", description: "1回の爆発で敵を5体破壊する。" },
+    hardened: { name: "鋼の守護者", description: "最初から最後まで難易度「難しい」で勝利する。" },
+    centerOnly: { name: "ど真ん中", description: "中央の砲台だけで撃って勝利する。" },
+    thousandIntercepts: { name: "アイアンドーム", description: "通算1,000発のロケットを迎撃する。" },
+  },
+  volumes: { master: "全体", sfx: "効果音", music: "音楽" },
+  mute: "ミュート",
+  keyboard: "キー",
+  gamepad: "パッド",
+  actions: {
+    up: "照準を上へ",
+    down: "照準を下へ",
+    left: "照準を左へ",
+    right: "照準を右へ",
+    fire: "発射（最寄りの砲台）",
+    fireLeft: "左の砲台から発射",
+    fireCenter: "中央の砲台から発射",
+    fireRight: "右の砲台から発射",
+    nextWeapon: "次の武器",
+    prevWeapon: "前の武器",
+    pause: "一時停止／再開",
+  },
+  paused: "一時停止中",
+  resume: "再開",
+  restart: "やり直す",
+  quit: "メニューに戻る",
+  shop: "アップグレードショップ",
+  credits: "クレジット",
+  maxed: "最大",
+  level: "Lv",
+  shopHint: "10点ごとに1クレジット獲得。アップグレードは次のプレイにも引き継がれます。",
+  batteryUpgrades: "砲台ごと",
+  baseUpgrades: "基地全体",
+  upgrades: {
+    speed: "迎撃ミサイルの速度",
+    radius: "爆発範囲",
+    duration: "爆発の持続時間",
+    ammo: "弾薬容量",
+    armor: "都市の装甲",
+    rebuild: "砲台の再建",
+  },
+  upgradeHints: {
+    speed: "1レベルごとに +20%",
+    radius: "1レベルごとに +15%",
+    duration: "1レベルごとに +20%",
+    ammo: "1レベルごとに +25%",
+    armor: "各都市が1プレイにつき1回の被弾に耐える",
+    rebuild: "破壊された砲台が8秒後に復活。1プレイにつきレベルと同じ回数まで",
+  },
+  players: "プレイヤー",
+  solo: "ソロ",
+  coop: "協力",
+  versus: "対戦",
+  coopHint: "P1：マウス＋ゲームパッド1で左と中央の砲台。P2：キーボード＋ゲームパッド2で中央と右の砲台。",
+  versusHint: "防衛側：マウス＋ゲームパッド1。攻撃側：キーボード＋ゲームパッド2。発射を1回押して発射地点を選び、目標の上でもう一度押します。",
+  player: "P{n}",
+  attacker: "攻撃側",
+  rockets: "ロケット",
+  defenderWins: "防衛側の勝利！",
+  attackerWins: "攻撃側の勝利！",
+  playOnline: "オンライン対戦",
+  lobby: "オンラインロビー",
+  yourName: "名前",
+  createRoom: "ルームを作成",
+  join: "参加",
+  roomCode: "ルームコード",
+  ready: "準備完了",
+  notReady: "準備中",
+  cancelReady: "準備を取り消す",
+  leaveRoom: "退出",
+  waitingForPlayers: "{n}〜4人のプレイヤー全員が準備完了になると開始します。",
+  offline: "オフライン",
+  you: "あなた",
+  connecting: "接続中…",
+  reconnecting: "接続が切れました。再接続中…",
+  lastRun: "前回のプレイ",
+  serverHint: "ゲームサーバー（npm run server）が必要です。同じネットワークのプレイヤーにルームコードを共有してください。",
+  language: "言語",
+  citiesStanding: { other: "残存都市 {count}" },
+  chainsSummary: { other: "{count} 回、最大 {best} 連鎖" },
+  accessibility: {
+    title: "アクセシビリティ",
+    colors: "配色",
+    colorSchemes: { standard: "標準", redGreen: "赤緑の色覚に配慮", blueYellow: "青黄の色覚に配慮", monochrome: "モノクロ" },
+    shapes: "ミサイルを形で区別",
+    motion: "動き",
+    motionOptions: { system: "システム設定", reduce: "減らす", full: "すべて" },
+    motionHint: "動きを減らすと、パーティクルの飛び散りとメニューのアニメーションがオフになります。",
+    scanlines: "走査線",
+    gameSpeed: "ゲーム速度",
+    gameSpeedHint: "ローカルのプレイを遅くします。オンライン対戦は常に通常速度です。",
+  },
+  announce: {
+    sides: { left: "左", center: "中央", right: "右" },
+    cityLost: { other: "都市が破壊されました。残り {count}。" },
+    batteryLost: "{side}の砲台が破壊されました。",
+    lowAmmo: { other: "{side}の砲台の弾薬が残りわずか：あと {count} 発。" },
+    outOfAmmo: "{side}の砲台の弾薬が尽きました。",
+    won: "勝利。最終スコア {score}。",
+    lost: "ゲームオーバー。最終スコア {score}。",
+  },
+  weapons: {
+    loadout: "装備",
+    loadoutHint: "砲台ごとに特殊弾を選びます。プレイ中は Q/E かマウスホイールで武器を切り替えます。特殊弾はウェーブごとに補充されます。",
+    weapon: "武器",
+    batteries: { left: "左の砲台", center: "中央の砲台", right: "右の砲台" },
+    names: { standard: "迎撃ミサイル", flak: "高射弾", nuke: "核弾頭", proximity: "近接信管弾", emp: "EMP" },
+    hints: {
+      flak: "2倍の速さで飛び、爆発は小さく短い。12発。",
+      nuke: "遅いが、画面が揺れるほどの巨大な爆発。味方の建物に注意。2発。",
+      proximity: "敵が近づくとすぐに爆発する。8発。",
+      emp: "何も破壊しないが、5秒間すべての敵を半分の速さにする。1発。",
+    },
+  },
+  graphics: {
+    title: "グラフィック",
+    theme: "テーマ",
+    themes: { standard: "標準", vector: "ベクター 1980", synthwave: "シンセウェイブ", nightCity: "ナイトシティ", highContrast: "ハイコントラスト" },
+    themeHints: {
+      standard: "各レベル本来の配色。",
+      vector: "アーケードのベクターモニターのような黒地に緑の線画。",
+      synthwave: "夕日の下のネオンの建物と光る軌跡。",
+      nightCity: "遠くのスカイラインを背に灯るビル群。",
+      highContrast: "黒地に太く明るい図形。",
+    },
+    effects: { bloom: "ブルーム", crt: "CRT 湾曲", shake: "画面の揺れ", flash: "連鎖フラッシュ" },
+    effectsHint: "ブルームと CRT 湾曲は低速な端末でフレームレートを下げます。揺れとフラッシュは動きを減らす設定ではオフになります。",
+  },
+  daily: {
+    title: "デイリーノヴァ",
+    hint: "今日は全員が同じ敵と戦います。挑戦は1日1回。毎日 UTC の午前0時に新しいステージが始まります。",
+    play: "今日のステージをプレイ",
+    played: "今日のステージはプレイ済みです。また明日！",
+    abandoned: "中断",
+    streak: { other: "{count}日連続" },
+    history: "最近の記録",
+    result: "{score}点 · 都市 {saved}/{cities} · 命中率 {accuracy}%",
+    share: "結果をシェア",
+    copy: "コピー",
+    copied: "コピーしました！",
+    shareTitle: "デイリーノヴァ {day}",
+    shareScore: "⭐ {score} · 🎯 {accuracy}%",
+    verify: "検証",
+    verifyTitle: "結果コードを確認",
+    verifyHint: "他の人の結果コードを貼り付けると、そのプレイを再現して確認します。",
+    valid: "検証済み：{day} に {result}。",
+    invalid: "一致しません。コードの申告は {claimed} ですが、再現結果は {actual} です。",
+    watch: "プレイを見る",
+  },
+  demo: {
+    title: "デモ",
+    exit: "オートパイロットが防衛中。キーを押すかクリックでメニューに戻ります。",
+  },
+  stats: {
+    title: "パフォーマンス",
+    fps: "FPS",
+    missiles: "ミサイル",
+    explosions: "爆発",
+    particles: "パーティクル",
+    renderInWorker: "バックグラウンドのワーカーで描画",
+    workerUnsupported: "このブラウザーはワーカーで描画できません。",
+    hint: "F3 でこのパネルを隠す",
+  },
+  editor: {
+    title: "レベルエディター",
+    template: "元にするレベル",
+    name: "名前",
+    move: "移動",
+    zones: "発射エリア",
+    moveHint: "都市と砲台を地面に沿ってドラッグします。クリックすると編集できます。",
+    zonesHint: "上部の帯をドラッグして、ロケットの発射エリアを塗ります。",
+    batteries: "砲台",
+    battery: "砲台",
+    city: "都市",
+    addCity: "都市を追加",
+    ammo: "弾薬",
+    weight: "狙われやすさ",
+    remove: "削除",
+    noZones: "エリアなし：ロケットはどこからでも発射されます。",
+    zoneWeight: "重み",
+    win: "勝利条件",
+    score: "スコア",
+    time: "秒数",
+    waves: "ウェーブ",
+    timeline: "ウェーブ構成",
+    rockets: "ロケット",
+    interval: "間隔 ms",
+    speed: "速度 ×",
+    addWave: "ウェーブを追加",
+    testPlay: "テストプレイ",
+    import: "読み込み",
+    export: "書き出し",
+  },
+  tips: {
+    flanks: { left: "左", center: "中央", right: "右" },
+    flankFell: "{flank}側が崩されました。画面の両側に気を配りましょう。",
+    wastedShots: "発射の {percent}% が何もない空に消えました。ロケットの行き先を狙いましょう。",
+    leaks: { other: "{count} 発のロケットに突破されました。低いものから先に落としましょう。" },
+    idleBattery: "{flank}の砲台が一度も撃っていません。3基に負担を分散しましょう。",
+    lowIntercepts: "迎撃が地面に近すぎます。もっと早めに迎え撃ちましょう。",
+    longChain: "{count} 連鎖撃破！密集したロケットは爆発に巻き込みましょう。",
+    generic: [
+      "偏差射撃を：迎撃ミサイルが飛ぶ間もロケットは動き続けます。",
+      "中央の砲台は弾薬が最も多いので、いざという時のために取っておきましょう。",
+      "うまく狙った1発の爆発で、複数のロケットをまとめて落とせます。",
+    ],
+  },
+  prompts: {
+    system: "あなたはミサイル防衛ゲームのAI司令官です。アドバイスだけを日本語で答えてください。",
+    tip: "プレイヤーがミサイルコマンドを {score} 点で終えたところです。{details}実際の展開をふまえて、次のプレイに向けた短く前向きなアドバイスを1つ（30文字以内）、日本語で答えてください。",
+    runDetails: "発射数（左/中央/右）：{left}/{center}/{right}。迎撃数：{interceptions}（命中率 {accuracy}%）。突破されたロケット：{leaks}。連鎖撃破：{chains} 回、最大 {longestChain} 連鎖。失った都市：{citiesLost}、失った砲台：{batteriesLost}。平均迎撃高度：{altitude}px。",
+  },
+};
+
+export default ja;
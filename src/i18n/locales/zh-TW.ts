@@ -0,0 +1,286 @@
+import type { Translation } from '../types';
+
+/** Traditional Chinese. */
+const zhTW: Translation = {
+  title: "Joey新星防禦",
+  start: "開始遊戲",
+  win: "勝利！",
+  lose: "遊戲結束",
+  retry: "再玩一次",
+  score: "得分",
+  target: "目標",
+  ammo: "彈藥",
+  left: "左",
+  center: "中",
+  right: "右",
+  tip: "AI 指揮官建議：",
+  instructions: "點擊畫面任何位置發射攔截飛彈。保護你的城市和砲台！",
+  helpTitle: "玩法介紹",
+  helpText: [
+    "1. 敵方火箭從頂部落下，目標是摧毀你的城市。",
+    "2. 點擊或觸控畫面任意位置發射攔截飛彈。也可用方向鍵/WASD 或手把搖桿移動準星，按空白鍵發射；J/K/L 分別從左/中/右砲台發射。",
+    "3. 飛彈會在點擊處爆炸，產生的範圍傷害可摧毀附近火箭。",
+    "4. 每座砲台的彈藥都有限，請謹慎使用！",
+    "5. 每個關卡都有自己的勝利條件，遊戲中顯示在畫面頂部：達到目標分數、堅守一段時間或通過若干波次。依關卡不同，所有砲台或所有城市被毀時遊戲結束。",
+    "6. 小心會分裂的多彈頭火箭、會躲避爆炸的智慧炸彈，以及投擲火箭的轟炸機。擊落它們得分更高。",
+  ],
+  difficulty: "難度",
+  help: "說明",
+  close: "關閉",
+  mode: "模式",
+  wave: "波次",
+  survive: "堅守",
+  waveCleared: "第 {n} 波已清除！",
+  cityBonus: "城市獎勵",
+  ammoBonus: "彈藥獎勵",
+  cityRestored: "城市已重建！",
+  nextWave: "下一波即將來襲……",
+  watchReplay: "觀看重播",
+  watchDemo: "觀看示範",
+  levelEditor: "關卡編輯器",
+  backToEditor: "返回編輯器",
+  downloadReplay: "下載重播",
+  replay: "重播",
+  exitReplay: "離開",
+  frame: "影格",
+  replayVerified: "重播結果與錄製一致。",
+  replayMismatch: "重播結果與錄製不一致。",
+  rank: "你的排名",
+  leaderboard: "排行榜前十",
+  offlineSaved: "排行榜伺服器離線，成績已儲存在本裝置。",
+  debrief: "戰後總結",
+  shotsFired: "發射數",
+  interceptions: "攔截數",
+  accuracy: "命中率",
+  chains: "連環擊殺",
+  leaks: "漏網火箭",
+  avgAltitude: "平均攔截高度",
+  citiesLost: "損失城市",
+  timeline: "得分時間線",
+  none: "無",
+  controls: "操作設定",
+  pressKey: "請按下按鍵……",
+  resetDefaults: "恢復預設",
+  crosshairSpeed: "準星速度",
+  sound: "聲音",
+  achievements: "成就",
+  achievementUnlocked: "成就解鎖",
+  unlockedOn: "解鎖於 {date}",
+  locked: "未解鎖",
+  achievementList: {
+    untouched: { name: "毫髮無傷", description: "在不損失任何城市的情況下獲勝。" },
+    chainReaction: { name: "連鎖反應", description: "一次爆炸摧毀 5 個敵人。" },
+    hardened: { name: "百鍊成鋼", description: "全程以困難難度贏得一局。" },
+    centerOnly: { name: "正中靶心", description: "只用中央砲台開火並獲勝。" },
+    thousandIntercepts: { name: "鐵穹", description: "累計攔截 1000 枚火箭。" },
+  },
+  volumes: { master: "總音量", sfx: "音效", music: "音樂" },
+  mute: "靜音",
+  keyboard: "鍵盤",
+  gamepad: "手把",
+  actions: {
+    up: "準星上移",
+    down: "準星下移",
+    left: "準星左移",
+    right: "準星右移",
+    fire: "發射（最近砲台）",
+    fireLeft: "左側砲台發射",
+    fireCenter: "中央砲台發射",
+    fireRight: "右側砲台發射",
+    nextWeapon: "下一種武器",
+    prevWeapon: "上一種武器",
+    pause: "暫停 / 繼續",
+  },
+  paused: "已暫停",
+  resume: "繼續遊戲",
+  restart: "重新開始",
+  quit: "返回主選單",
+  shop: "升級商店",
+  credits: "點數",
+  maxed: "已滿",
+  level: "等級",
+  shopHint: "每得 10 分獲得 1 點數。升級會在各局之間保留。",
+  batteryUpgrades: "單座砲台",
+  baseUpgrades: "整個基地",
+  upgrades: {
+    speed: "攔截彈速度",
+    radius: "爆炸半徑",
+    duration: "爆炸持續時間",
+    ammo: "彈藥容量",
+    armor: "城市裝甲",
+    rebuild: "砲台重建",
+  },
+  upgradeHints: {
+    speed: "每級 +20%",
+    radius: "每級 +15%",
+    duration: "每級 +20%",
+    ammo: "每級 +25%",
+    armor: "每局中每座城市可承受一次打擊",
+    rebuild: "被摧毀的砲台 8 秒後重建，每局次數等於等級",
+  },
+  players: "玩家",
+  solo: "單人",
+  coop: "雙人合作",
+  versus: "攻防對戰",
+  coopHint: "玩家1：滑鼠 + 手把1，控制左側和中央砲台。玩家2：鍵盤 + 手把2，控制中央和右側砲台。",
+  versusHint: "防守方：滑鼠 + 手把1。進攻方：鍵盤 + 手把2，按一次發射鍵選擇發射點，再在目標上方按一次。",
+  player: "玩家{n}",
+  attacker: "進攻方",
+  rockets: "火箭",
+  defenderWins: "防守方獲勝！",
+  attackerWins: "進攻方獲勝！",
+  playOnline: "連線對戰",
+  lobby: "連線大廳",
+  yourName: "你的名字",
+  createRoom: "建立房間",
+  join: "加入",
+  roomCode: "房間號碼",
+  ready: "準備",
+  notReady: "未準備",
+  cancelReady: "取消準備",
+  leaveRoom: "離開",
+  waitingForPlayers: "{n}-4 名玩家全部準備後開始遊戲。",
+  offline: "離線",
+  you: "你",
+  connecting: "連線中……",
+  reconnecting: "連線中斷，正在重新連線……",
+  lastRun: "上一局",
+  serverHint: "需要執行遊戲伺服器（npm run server）。把房間號碼分享給同一網路中的玩家。",
+  language: "語言",
+  citiesStanding: { other: "{count} 座城市倖存" },
+  chainsSummary: { other: "{count} 次，最長 {best} 連" },
+  accessibility: {
+    title: "無障礙",
+    colors: "配色",
+    colorSchemes: { standard: "標準", redGreen: "紅綠色盲友善", blueYellow: "藍黃色盲友善", monochrome: "單色" },
+    shapes: "用形狀區分飛彈",
+    motion: "動態效果",
+    motionOptions: { system: "跟隨系統", reduce: "減弱", full: "完整" },
+    motionHint: "減弱動態效果會關閉粒子爆散和選單動畫。",
+    scanlines: "掃描線",
+    gameSpeed: "遊戲速度",
+    gameSpeedHint: "放慢本機遊戲。連線遊戲一律以全速進行。",
+  },
+  announce: {
+    sides: { left: "左側", center: "中央", right: "右側" },
+    cityLost: { other: "城市被摧毀，還剩 {count} 座。" },
+    batteryLost: "{side}砲台被摧毀。",
+    lowAmmo: { other: "{side}砲台彈藥不足，還剩 {count} 發。" },
+    outOfAmmo: "{side}砲台彈藥耗盡。",
+    won: "勝利。最終得分 {score}。",
+    lost: "遊戲結束。最終得分 {score}。",
+  },
+  weapons: {
+    loadout: "武器配置",
+    loadoutHint: "為每座砲台選擇一種特殊彈藥。遊戲中按 Q/E 或滾動滑鼠滾輪切換武器；特殊彈藥每波補滿。",
+    weapon: "武器",
+    batteries: { left: "左側砲台", center: "中央砲台", right: "右側砲台" },
+    names: { standard: "攔截彈", flak: "高射彈", nuke: "核彈", proximity: "近炸彈", emp: "電磁脈衝" },
+    hints: {
+      flak: "速度加倍，爆炸範圍小且短暫。12 發。",
+      nuke: "飛得慢，但爆炸巨大，會震動螢幕。小心波及自己的建築。2 發。",
+      proximity: "敵人一靠近就會引爆。8 發。",
+      emp: "不摧毀任何目標，但讓所有敵人減速一半，持續 5 秒。1 發。",
+    },
+  },
+  graphics: {
+    title: "畫面",
+    theme: "主題",
+    themes: { standard: "標準", vector: "向量 1980", synthwave: "合成波", nightCity: "夜之城", highContrast: "高對比" },
+    themeHints: {
+      standard: "使用每個關卡自己的配色。",
+      vector: "黑底綠線，如同街機向量顯示器。",
+      synthwave: "落日下的霓虹建築與發光尾跡。",
+      nightCity: "遠方天際線前燈火通明的高樓。",
+      highContrast: "黑底上粗大明亮的圖形。",
+    },
+    effects: { bloom: "泛光", crt: "CRT 曲面", shake: "螢幕震動", flash: "連鎖閃光" },
+    effectsHint: "泛光和 CRT 曲面會在較慢的裝置上降低影格率。減少動態效果時震動和閃光會關閉。",
+  },
+  daily: {
+    title: "每日新星",
+    hint: "今天所有人面對相同的敵人，你只有一次機會。每天 UTC 零點開始新的一局。",
+    play: "開始今日挑戰",
+    played: "你已經玩過今天的挑戰了，明天再來吧！",
+    abandoned: "未完成",
+    streak: { other: "連續 {count} 天" },
+    history: "最近幾天",
+    result: "{score} 分 · 城市 {saved}/{cities} · 命中率 {accuracy}%",
+    share: "分享你的成績",
+    copy: "複製",
+    copied: "已複製！",
+    shareTitle: "每日新星 {day}",
+    shareScore: "⭐ {score} · 🎯 {accuracy}%",
+    verify: "驗證",
+    verifyTitle: "核對成績碼",
+    verifyHint: "貼上別人的成績碼，重新執行那一局並核對。",
+    valid: "已驗證：{day} {result}。",
+    invalid: "對不上。成績碼聲稱 {claimed}，但重新執行的結果是 {actual}。",
+    watch: "觀看這局",
+  },
+  demo: {
+    title: "示範",
+    exit: "自動駕駛正在防守。按任意鍵或點擊返回選單。",
+  },
+  stats: {
+    title: "效能",
+    fps: "影格率",
+    missiles: "飛彈",
+    explosions: "爆炸",
+    particles: "粒子",
+    renderInWorker: "在背景 Worker 中繪製",
+    workerUnsupported: "此瀏覽器不支援在 Worker 中繪製。",
+    hint: "按 F3 隱藏此面板",
+  },
+  editor: {
+    title: "關卡編輯器",
+    template: "基於",
+    name: "名稱",
+    move: "移動",
+    zones: "發射區域",
+    moveHint: "沿地面拖曳城市和砲台。點擊以編輯。",
+    zonesHint: "在頂部條帶上拖曳以劃定火箭的發射區域。",
+    batteries: "砲台",
+    battery: "砲台",
+    city: "城市",
+    addCity: "新增城市",
+    ammo: "彈藥",
+    weight: "目標權重",
+    remove: "移除",
+    noZones: "沒有區域：火箭可從任意位置發射。",
+    zoneWeight: "權重",
+    win: "勝利條件",
+    score: "分數",
+    time: "秒數",
+    waves: "波次",
+    timeline: "波次時間線",
+    rockets: "火箭",
+    interval: "間隔毫秒",
+    speed: "速度 ×",
+    addWave: "新增波次",
+    testPlay: "試玩",
+    import: "匯入",
+    export: "匯出",
+  },
+  tips: {
+    flanks: { left: "左", center: "中路", right: "右" },
+    flankFell: "{flank}翼失守了，注意兼顧畫面兩側。",
+    wastedShots: "你有 {percent}% 的飛彈打在了空中，瞄準火箭將要到達的位置。",
+    leaks: { other: "有 {count} 枚火箭突破了防線，優先攔截低空目標。" },
+    idleBattery: "{flank}砲台一發未射，把火力分攤到三座砲台上。",
+    lowIntercepts: "你的攔截離地面太近了，試著更早出手。",
+    longChain: "打出了 {count} 連擊！繼續利用爆炸攔截密集的火箭。",
+    generic: [
+      "提前量很重要：攔截彈飛行時火箭仍在移動。",
+      "中央砲台彈藥最多，留著應對緊急情況。",
+      "一次精準的爆炸可以同時摧毀多枚火箭。",
+    ],
+  },
+  prompts: {
+    system: "你是一款飛彈防禦遊戲的 AI 指揮官。只用繁體中文回答建議本身。",
+    tip: "玩家剛剛完成了一場飛彈防禦遊戲，得分是 {score}。{details}請根據本局的實際表現，用繁體中文給出一個簡短的鼓勵性建議（最多20字），用於下一局。",
+    runDetails: "發射數（左/中/右）：{left}/{center}/{right}。攔截數：{interceptions}（命中率 {accuracy}%）。漏網火箭：{leaks}。連環擊殺：{chains} 次，最長 {longestChain} 連。損失城市：{citiesLost}，損失砲台：{batteriesLost}。平均攔截高度：{altitude} 像素。",
+  },
+};
+
+export default zhTW;
@@ -0,0 +1,286 @@
+import type { Translation } from '../types';
+
+/** Simplified Chinese. */
+const zh: Translation = {
+  title: "Joey新星防御",
+  start: "开始游戏",
+  win: "胜利！",
+  lose: "游戏结束",
+  retry: "再玩一次",
+  score: "得分",
+  target: "目标",
+  ammo: "弹药",
+  left: "左",
+  center: "中",
+  right: "右",
+  tip: "AI 指挥官建议：",
+  instructions: "点击屏幕任何位置发射拦截导弹。保护你的城市和炮台！",
+  helpTitle: "玩法介绍",
+  helpText: [
+    "1. 敌方火箭从顶部落下，目标是摧毁你的城市。",
+    "2. 点击或触摸屏幕任意位置发射拦截导弹。也可用方向键/WASD 或手柄摇杆移动准星，按空格发射；J/K/L 分别从左/中/右炮台发射。",
+    "3. 导弹会在点击处爆炸，产生的范围伤害可摧毁附近火箭。",
+    "4. 每座炮台的弹药都有限，请谨慎使用！",
+    "5. 每个关卡都有自己的胜利条件，游戏中显示在屏幕顶部：达到目标分数、坚守一段时间或通过若干波次。根据关卡不同，所有炮台或所有城市被毁时游戏结束。",
+    "6. 小心会分裂的多弹头火箭、会躲避爆炸的智能炸弹，以及投掷火箭的轰炸机。击落它们得分更高。"
+  ],
+  difficulty: "难度",
+  help: "帮助",
+  close: "关闭",
+  mode: "模式",
+  wave: "波次",
+  survive: "坚守",
+  waveCleared: "第 {n} 波已清除！",
+  cityBonus: "城市奖励",
+  ammoBonus: "弹药奖励",
+  cityRestored: "城市已重建！",
+  nextWave: "下一波即将来袭……",
+  watchReplay: "观看回放",
+  watchDemo: "观看演示",
+  levelEditor: "关卡编辑器",
+  backToEditor: "返回编辑器",
+  downloadReplay: "下载回放",
+  replay: "回放",
+  exitReplay: "退出",
+  frame: "帧",
+  replayVerified: "回放结果与录制一致。",
+  replayMismatch: "回放结果与录制不一致。",
+  rank: "你的排名",
+  leaderboard: "排行榜前十",
+  offlineSaved: "排行榜服务器离线，成绩已保存在本设备。",
+  debrief: "战后总结",
+  shotsFired: "发射数",
+  interceptions: "拦截数",
+  accuracy: "命中率",
+  chains: "连环击杀",
+  leaks: "漏网火箭",
+  avgAltitude: "平均拦截高度",
+  citiesLost: "损失城市",
+  timeline: "得分时间线",
+  none: "无",
+  controls: "操作设置",
+  pressKey: "请按下按键……",
+  resetDefaults: "恢复默认",
+  crosshairSpeed: "准星速度",
+  sound: "声音",
+  achievements: "成就",
+  achievementUnlocked: "成就解锁",
+  unlockedOn: "解锁于 {date}",
+  locked: "未解锁",
+  achievementList: {
+    untouched: { name: "毫发无损", description: "在不损失任何城市的情况下获胜。" },
+    chainReaction: { name: "连锁反应", description: "一次爆炸摧毁 5 个敌人。" },
+    hardened: { name: "百炼成钢", description: "全程以困难难度赢得一局。" },
+    centerOnly: { name: "正中靶心", description: "只用中央炮台开火并获胜。" },
+    thousandIntercepts: { name: "铁穹", description: "累计拦截 1000 枚火箭。" },
+  },
+  volumes: { master: "总音量", sfx: "音效", music: "音乐" },
+  mute: "静音",
+  keyboard: "键盘",
+  gamepad: "手柄",
+  actions: {
+    up: "准星上移",
+    down: "准星下移",
+    left: "准星左移",
+    right: "准星右移",
+    fire: "发射（最近炮台）",
+    fireLeft: "左侧炮台发射",
+    fireCenter: "中央炮台发射",
+    fireRight: "右侧炮台发射",
+    nextWeapon: "下一种武器",
+    prevWeapon: "上一种武器",
+    pause: "暂停 / 继续"
+  },
+  paused: "已暂停",
+  resume: "继续游戏",
+  restart: "重新开始",
+  quit: "返回主菜单",
+  shop: "升级商店",
+  credits: "积分",
+  maxed: "已满",
+  level: "等级",
+  shopHint: "每得 10 分获得 1 积分。升级会在各局之间保留。",
+  batteryUpgrades: "单座炮台",
+  baseUpgrades: "整个基地",
+  upgrades: {
+    speed: "拦截弹速度",
+    radius: "爆炸半径",
+    duration: "爆炸持续时间",
+    ammo: "弹药容量",
+    armor: "城市装甲",
+    rebuild: "炮台重建"
+  },
+  upgradeHints: {
+    speed: "每级 +20%",
+    radius: "每级 +15%",
+    duration: "每级 +20%",
+    ammo: "每级 +25%",
+    armor: "每局中每座城市可承受一次打击",
+    rebuild: "被摧毁的炮台 8 秒后重建，每局次数等于等级"
+  },
+  players: "玩家",
+  solo: "单人",
+  coop: "双人合作",
+  versus: "攻防对战",
+  coopHint: "玩家1：鼠标 + 手柄1，控制左侧和中央炮台。玩家2：键盘 + 手柄2，控制中央和右侧炮台。",
+  versusHint: "防守方：鼠标 + 手柄1。进攻方：键盘 + 手柄2，按一次发射键选择发射点，再在目标上方按一次。",
+  player: "玩家{n}",
+  attacker: "进攻方",
+  rockets: "火箭",
+  defenderWins: "防守方获胜！",
+  attackerWins: "进攻方获胜！",
+  playOnline: "联机对战",
+  lobby: "联机大厅",
+  yourName: "你的名字",
+  createRoom: "创建房间",
+  join: "加入",
+  roomCode: "房间号",
+  ready: "准备",
+  notReady: "未准备",
+  cancelReady: "取消准备",
+  leaveRoom: "离开",
+  waitingForPlayers: "{n}-4 名玩家全部准备后开始游戏。",
+  offline: "离线",
+  you: "你",
+  connecting: "连接中……",
+  reconnecting: "连接中断，正在重连……",
+  lastRun: "上一局",
+  serverHint: "需要运行游戏服务器（npm run server）。把房间号分享给同一网络中的玩家。",
+  language: "语言",
+  citiesStanding: { other: "{count} 座城市幸存" },
+  chainsSummary: { other: "{count} 次，最长 {best} 连" },
+  accessibility: {
+    title: "无障碍",
+    colors: "配色",
+    colorSchemes: { standard: "标准", redGreen: "红绿色盲友好", blueYellow: "蓝黄色盲友好", monochrome: "单色" },
+    shapes: "用形状区分导弹",
+    motion: "动态效果",
+    motionOptions: { system: "跟随系统", reduce: "减弱", full: "完整" },
+    motionHint: "减弱动态效果会关闭粒子爆散和菜单动画。",
+    scanlines: "扫描线",
+    gameSpeed: "游戏速度",
+    gameSpeedHint: "放慢本地游戏。联机游戏始终以全速进行。",
+  },
+  announce: {
+    sides: { left: "左侧", center: "中央", right: "右侧" },
+    cityLost: { other: "城市被摧毁，还剩 {count} 座。" },
+    batteryLost: "{side}炮台被摧毁。",
+    lowAmmo: { other: "{side}炮台弹药不足，还剩 {count} 发。" },
+    outOfAmmo: "{side}炮台弹药耗尽。",
+    won: "胜利。最终得分 {score}。",
+    lost: "游戏结束。最终得分 {score}。",
+  },
+  weapons: {
+    loadout: "武器配置",
+    loadoutHint: "为每座炮台选择一种特殊弹药。游戏中按 Q/E 或滚动鼠标滚轮切换武器；特殊弹药每波补满。",
+    weapon: "武器",
+    batteries: { left: "左侧炮台", center: "中央炮台", right: "右侧炮台" },
+    names: { standard: "拦截弹", flak: "高射弹", nuke: "核弹", proximity: "近炸弹", emp: "电磁脉冲" },
+    hints: {
+      flak: "速度翻倍，爆炸范围小且短暂。12 发。",
+      nuke: "飞得慢，但爆炸巨大，会震动屏幕。小心波及自己的建筑。2 发。",
+      proximity: "敌人一靠近就会引爆。8 发。",
+      emp: "不摧毁任何目标，但让所有敌人减速一半，持续 5 秒。1 发。",
+    },
+  },
+  graphics: {
+    title: "画面",
+    theme: "主题",
+    themes: { standard: "标准", vector: "矢量 1980", synthwave: "合成波", nightCity: "夜之城", highContrast: "高对比度" },
+    themeHints: {
+      standard: "使用每个关卡自己的配色。",
+      vector: "黑底绿线，如同街机矢量显示器。",
+      synthwave: "落日下的霓虹建筑与发光尾迹。",
+      nightCity: "远方天际线前灯火通明的高楼。",
+      highContrast: "黑底上粗大明亮的图形。",
+    },
+    effects: { bloom: "泛光", crt: "CRT 曲面", shake: "屏幕震动", flash: "连锁闪光" },
+    effectsHint: "泛光和 CRT 曲面会在较慢的设备上降低帧率。减少动态效果时震动和闪光会关闭。",
+  },
+  daily: {
+    title: "每日新星",
+    hint: "今天所有人面对相同的敌人，你只有一次机会。每天 UTC 零点开始新的一局。",
+    play: "开始今日挑战",
+    played: "你已经玩过今天的挑战了，明天再来吧！",
+    abandoned: "未完成",
+    streak: { other: "连续 {count} 天" },
+    history: "最近几天",
+    result: "{score} 分 · 城市 {saved}/{cities} · 命中率 {accuracy}%",
+    share: "分享你的成绩",
+    copy: "复制",
+    copied: "已复制！",
+    shareTitle: "每日新星 {day}",
+    shareScore: "⭐ {score} · 🎯 {accuracy}%",
+    verify: "验证",
+    verifyTitle: "核对成绩码",
+    verifyHint: "粘贴别人的成绩码，重新运行那一局并核对。",
+    valid: "已验证：{day} {result}。",
+    invalid: "对不上。成绩码声称 {claimed}，但重新运行的结果是 {actual}。",
+    watch: "观看这局",
+  },
+  demo: {
+    title: "演示",
+    exit: "自动驾驶正在防守。按任意键或点击返回菜单。",
+  },
+  stats: {
+    title: "性能",
+    fps: "帧率",
+    missiles: "导弹",
+    explosions: "爆炸",
+    particles: "粒子",
+    renderInWorker: "在后台 Worker 中绘制",
+    workerUnsupported: "此浏览器不支持在 Worker 中绘制。",
+    hint: "按 F3 隐藏此面板",
+  },
+  editor: {
+    title: "关卡编辑器",
+    template: "基于",
+    name: "名称",
+    move: "移动",
+    zones: "发射区域",
+    moveHint: "沿地面拖动城市和炮台。点击以编辑。",
+    zonesHint: "在顶部条带上拖动以划定火箭的发射区域。",
+    batteries: "炮台",
+    battery: "炮台",
+    city: "城市",
+    addCity: "添加城市",
+    ammo: "弹药",
+    weight: "目标权重",
+    remove: "移除",
+    noZones: "没有区域：火箭可从任意位置发射。",
+    zoneWeight: "权重",
+    win: "胜利条件",
+    score: "分数",
+    time: "秒数",
+    waves: "波次",
+    timeline: "波次时间线",
+    rockets: "火箭",
+    interval: "间隔毫秒",
+    speed: "速度 ×",
+    addWave: "添加波次",
+    testPlay: "试玩",
+    import: "导入",
+    export: "导出",
+  },
+  tips: {
+    flanks: { left: "左", center: "中路", right: "右" },
+    flankFell: "{flank}翼失守了，注意兼顾屏幕两侧。",
+    wastedShots: "你有 {percent}% 的导弹打在了空中，瞄准火箭将要到达的位置。",
+    leaks: { other: "有 {count} 枚火箭突破了防线，优先拦截低空目标。" },
+    idleBattery: "{flank}炮台一发未射，把火力分摊到三座炮台上。",
+    lowIntercepts: "你的拦截离地面太近了，试着更早出手。",
+    longChain: "打出了 {count} 连击！继续利用爆炸拦截密集的火箭。",
+    generic: [
+      "提前量很重要：拦截弹飞行时火箭仍在移动。",
+      "中央炮台弹药最多，留着应对紧急情况。",
+      "一次精准的爆炸可以同时摧毁多枚火箭。",
+    ],
+  },
+  prompts: {
+    system: "你是一款导弹防御游戏的 AI 指挥官。只用中文回答建议本身。",
+    tip: "玩家刚刚完成了一场导弹防御游戏，得分是 {score}。{details}请根据本局的实际表现，给出一个简短的鼓励性建议（最多20字），用于下一局。",
+    runDetails: "发射数（左/中/右）：{left}/{center}/{right}。拦截数：{interceptions}（命中率 {accuracy}%）。漏网火箭：{leaks}。连环击杀：{chains} 次，最长 {longestChain} 连。损失城市：{citiesLost}，损失炮台：{batteriesLost}。平均拦截高度：{altitude} 像素。",
+  },
+};
+
+export default zh;
@@ -0,0 +1,12 @@
+import type en from './locales/en';
+
+/** Every string the app shows, shaped like the English locale. */
+export type Messages = typeof en;
+
+type DeepPartial<T> = T extends readonly unknown[] ? T : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+/** A locale's strings. Anything left out falls back to English. */
+export type Translation = DeepPartial<Messages>;
+
+/** One string per plural category the locale uses (see `Intl.PluralRules`). `other` is always required. */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
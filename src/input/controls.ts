@@ -0,0 +1,162 @@
+import type { BatterySide } from '../game/types';
+
+export type ControlAction =
+  | 'up'
+  | 'down'
+  | 'left'
+  | 'right'
+  | 'fire'
+  | 'fireLeft'
+  | 'fireCenter'
+  | 'fireRight'
+  | 'nextWeapon'
+  | 'prevWeapon'
+  | 'pause';
+
+export const CONTROL_ACTIONS: ControlAction[] = [
+  'up',
+  'down',
+  'left',
+  'right',
+  'fire',
+  'fireLeft',
+  'fireCenter',
+  'fireRight',
+  'nextWeapon',
+  'prevWeapon',
+  'pause',
+];
+
+/** Which way each weapon action cycles through the player's weapons. */
+export const WEAPON_ACTION_STEPS: Partial<Record<ControlAction, 1 | -1>> = {
+  nextWeapon: 1,
+  prevWeapon: -1,
+};
+
+/** Battery each dedicated fire action shoots from. The plain `fire` action auto-selects. */
+export const FIRE_ACTION_SIDES: Partial<Record<ControlAction, BatterySide>> = {
+  fireLeft: 'left',
+  fireCenter: 'center',
+  fireRight: 'right',
+};
+
+export type ControlSettings = {
+  /** `KeyboardEvent.code` values per action. */
+  keys: Record<ControlAction, string[]>;
+  /** Standard-mapping gamepad button indices per action. */
+  buttons: Record<ControlAction, number[]>;
+  /** Crosshair speed at full stick deflection or while a direction key is held, in px/second. */
+  crosshairSpeed: number;
+};
+
+export const DEFAULT_CONTROLS: ControlSettings = {
+  keys: {
+    up: ['ArrowUp', 'KeyW'],
+    down: ['ArrowDown', 'KeyS'],
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    fire: ['Space', 'Enter'],
+    fireLeft: ['KeyJ', 'Digit1'],
+    fireCenter: ['KeyK', 'Digit2'],
+    fireRight: ['KeyL', 'Digit3'],
+    nextWeapon: ['KeyE'],
+    prevWeapon: ['KeyQ'],
+    pause: ['Escape', 'KeyP'],
+  },
+  buttons: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    fire: [0, 7],
+    fireLeft: [2, 4],
+    fireCenter: [3],
+    fireRight: [1, 5],
+    nextWeapon: [6],
+    prevWeapon: [8],
+    pause: [9],
+  },
+  crosshairSpeed: 700,
+};
+
+const STORAGE_KEY = 'nova-defense:controls';
+const STICK_DEADZONE = 0.2;
+
+/** Each action's stored bindings where they are a list of `T`, else the default ones. */
+const readBindings = <T extends string | number>(
+  stored: unknown,
+  defaults: Record<ControlAction, T[]>,
+  type: 'string' | 'number',
+): Record<ControlAction, T[]> => {
+  const bindings = { ...defaults };
+  if (!stored || typeof stored !== 'object') return bindings;
+  for (const action of CONTROL_ACTIONS) {
+    const list = (stored as Record<string, unknown>)[action];
+    if (Array.isArray(list) && list.every(entry => typeof entry === type)) bindings[action] = list;
+  }
+  return bindings;
+};
+
+export const loadControls = (): ControlSettings => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return DEFAULT_CONTROLS;
+    const { keys, buttons, crosshairSpeed } = stored as Record<string, unknown>;
+    return {
+      keys: readBindings(keys, DEFAULT_CONTROLS.keys, 'string'),
+      buttons: readBindings(buttons, DEFAULT_CONTROLS.buttons, 'number'),
+      crosshairSpeed:
+        typeof crosshairSpeed === 'number' && crosshairSpeed > 0 ? crosshairSpeed : DEFAULT_CONTROLS.crosshairSpeed,
+    };
+  } catch {
+    return DEFAULT_CONTROLS;
+  }
+};
+
+export const saveControls = (controls: ControlSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(controls));
+};
+
+/** Makes `code` the primary key for `action`, taking it away from any other action. */
+export const rebindKey = (controls: ControlSettings, action: ControlAction, code: string): ControlSettings => {
+  const keys = { ...controls.keys };
+  for (const other of CONTROL_ACTIONS) keys[other] = keys[other].filter(k => k !== code);
+  keys[action] = [code, ...keys[action].slice(1)];
+  return { ...controls, keys };
+};
+
+export const actionForKey = (controls: ControlSettings, code: string) =>
+  CONTROL_ACTIONS.find(action => controls.keys[action].includes(code));
+
+/** Human-readable key name, e.g. `KeyW` -> `W`, `ArrowUp` -> `↑`. */
+export const formatKey = (code: string) => {
+  const arrows: Record<string, string> = { ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→' };
+  if (arrows[code]) return arrows[code];
+  return code.replace(/^Key/, '').replace(/^Digit/, '');
+};
+
+export type GamepadSnapshot = {
+  /** Crosshair direction from the left stick, each axis in [-1, 1]. */
+  axisX: number;
+  axisY: number;
+  pressed: Set<ControlAction>;
+};
+
+/** Reads the `slot`-th connected gamepad (the first by default), or returns null when there is none. */
+export const readGamepad = (controls: ControlSettings, slot = 0): GamepadSnapshot | null => {
+  const pad = navigator.getGamepads?.().filter(p => p && p.connected)[slot];
+  if (!pad) return null;
+
+  const deadzone = (v: number) => (Math.abs(v) < STICK_DEADZONE ? 0 : v);
+  const pressed = new Set<ControlAction>();
+  for (const action of CONTROL_ACTIONS) {
+    if (controls.buttons[action].some(i => pad.buttons[i]?.pressed)) pressed.add(action);
+  }
+  return { axisX: deadzone(pad.axes[0] ?? 0), axisY: deadzone(pad.axes[1] ?? 0), pressed };
+};
+
+const BUTTON_NAMES: Record<number, string> = {
+  0: 'A', 1: 'B', 2: 'X', 3: 'Y', 4: 'LB', 5: 'RB', 6: 'LT', 7: 'RT', 8: 'Back', 9: 'Start', 12: 'D↑', 13: 'D↓', 14: 'D←', 15: 'D→',
+};
+
+export const formatButton = (index: number) => BUTTON_NAMES[index] ?? `#${index}`;
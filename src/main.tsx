@@ -1,10 +1,12 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import ContentErrors from './components/ContentErrors.tsx';
+import {CONTENT_ERRORS} from './game/content';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {CONTENT_ERRORS.length > 0 ? <ContentErrors errors={CONTENT_ERRORS} /> : <App />}
   </StrictMode>,
 );
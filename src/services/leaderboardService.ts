@@ -0,0 +1,105 @@
+import type { Difficulty, GameMode } from "../game/types";
+import type { Locale } from "../i18n";
+
+export type RunSubmission = {
+  score: number;
+  difficulty: Difficulty;
+  mode: GameMode;
+  language: Locale;
+  /** Simulated play time in milliseconds. */
+  durationMs: number;
+  shotsFired: number;
+  interceptions: number;
+  citiesSurviving: number;
+};
+
+export type RunRecord = RunSubmission & { id: string; createdAt: string };
+
+export type RunResult = {
+  id: string;
+  rank: number;
+  top: RunRecord[];
+  /** True when the server could not be reached and the run was stored in this browser only. */
+  offline: boolean;
+};
+
+const API_BASE = '/api';
+const REQUEST_TIMEOUT_MS = 3000;
+const LOCAL_RUNS_KEY = 'nova-defense:runs';
+const LOCAL_RUNS_LIMIT = 200;
+export const LEADERBOARD_SIZE = 10;
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(`${API_BASE}${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json' },
+      signal: controller.signal,
+    });
+    if (!response.ok) throw new Error(`Leaderboard request failed: ${response.status}`);
+    return await response.json();
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const COUNTERS = ['score', 'durationMs', 'shotsFired', 'interceptions', 'citiesSurviving'] as const;
+
+const isRunRecord = (value: unknown): value is RunRecord => {
+  if (!value || typeof value !== 'object') return false;
+  const run = value as Record<string, unknown>;
+  return (
+    ['id', 'createdAt', 'difficulty', 'mode', 'language'].every(key => typeof run[key] === 'string') &&
+    COUNTERS.every(key => typeof run[key] === 'number' && Number.isFinite(run[key]))
+  );
+};
+
+/** Runs kept in this browser, skipping any entry that is not a whole record. */
+const loadLocalRuns = (): RunRecord[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(LOCAL_RUNS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isRunRecord) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveLocalRun = (run: RunSubmission): RunRecord => {
+  const record: RunRecord = { ...run, id: `local-${Date.now()}`, createdAt: new Date().toISOString() };
+  const runs = [record, ...loadLocalRuns()].slice(0, LOCAL_RUNS_LIMIT);
+  localStorage.setItem(LOCAL_RUNS_KEY, JSON.stringify(runs));
+  return record;
+};
+
+const rankLocally = (record: RunRecord): RunResult => {
+  const board = loadLocalRuns()
+    .filter(r => r.difficulty === record.difficulty && r.mode === record.mode)
+    .sort((a, b) => b.score - a.score);
+  const rank = board.filter(r => r.score > record.score).length + 1;
+  return { id: record.id, rank, top: board.slice(0, LEADERBOARD_SIZE), offline: true };
+};
+
+/** Stores a finished run and returns its rank plus the current top 10 for its difficulty and mode. */
+export const submitRun = async (run: RunSubmission): Promise<RunResult> => {
+  let saved: { id: string; rank: number };
+  try {
+    saved = await request<{ id: string; rank: number }>('/runs', {
+      method: 'POST',
+      body: JSON.stringify(run),
+    });
+  } catch (error) {
+    console.warn("Leaderboard server unreachable, keeping run locally", error);
+    return rankLocally(saveLocalRun(run));
+  }
+  // The run is on the server by now, so a failed board fetch must not store it locally as well.
+  const top = await getTopScores(run.difficulty, run.mode).catch(error => {
+    console.warn("Could not load the leaderboard", error);
+    return [];
+  });
+  return { id: saved.id, rank: saved.rank, top, offline: false };
+};
+
+export const getTopScores = (difficulty: Difficulty, mode: GameMode, limit = LEADERBOARD_SIZE) =>
+  request<RunRecord[]>(`/leaderboard?difficulty=${difficulty}&mode=${mode}&limit=${limit}`);
@@ -0,0 +1,178 @@
+import type { BatterySide, Difficulty, GameMode } from '../../game/types';
+import {
+  MULTIPLAYER_PATH,
+  SEAT_TAKEN_CLOSE_CODE,
+  parseServerMessage,
+  type ClientMessage,
+  type RoomInfo,
+  type RunOutcome,
+  type ServerMessage,
+  type StateSnapshot,
+} from './protocol';
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export type MultiplayerEvents = {
+  onRoom: (room: RoomInfo, slot: number) => void;
+  onStart: () => void;
+  onSnapshot: (snapshot: StateSnapshot) => void;
+  onEnded: (outcome: RunOutcome) => void;
+  onError: (message: string) => void;
+  onStatus: (status: ConnectionStatus) => void;
+};
+
+// Kept per tab (not per browser), so several tabs on one machine are separate players.
+const SEAT_KEY = 'nova-defense:online-seat';
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 5000;
+
+type StoredSeat = { code: string; token: string };
+
+const loadSeat = (): StoredSeat | null => {
+  try {
+    const stored: unknown = JSON.parse(sessionStorage.getItem(SEAT_KEY) ?? 'null');
+    if (!stored || typeof stored !== 'object') return null;
+    const { code, token } = stored as Record<string, unknown>;
+    return typeof code === 'string' && typeof token === 'string' ? { code, token } : null;
+  } catch {
+    return null;
+  }
+};
+
+const socketUrl = () => `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}${MULTIPLAYER_PATH}`;
+
+/**
+ * Connection to the multiplayer server. Once seated, a dropped connection is retried with
+ * backoff and the seat reclaimed with its token, including after a page reload.
+ */
+export class MultiplayerClient {
+  private socket: WebSocket | null = null;
+  private seat: StoredSeat | null = loadSeat();
+  private seq = 0;
+  private retries = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+  private rejoining = false;
+
+  constructor(private readonly events: MultiplayerEvents) {}
+
+  /** Whether this tab holds a seat it can try to reclaim. */
+  get hasSeat() {
+    return this.seat !== null;
+  }
+
+  create(name: string, difficulty: Difficulty, mode: GameMode) {
+    this.connect({ type: 'create', name, difficulty, mode });
+  }
+
+  join(code: string, name: string) {
+    this.connect({ type: 'join', code: code.trim().toUpperCase(), name });
+  }
+
+  /** Reclaims the seat stored for this tab, e.g. after a reload. */
+  resume() {
+    if (this.seat) this.connect({ type: 'rejoin', ...this.seat });
+  }
+
+  setReady(ready: boolean) {
+    this.send({ type: 'ready', ready });
+  }
+
+  /** Sends a fire command and returns its sequence number, which the server acknowledges in snapshots. */
+  fire(x: number, y: number, side?: BatterySide) {
+    const seq = ++this.seq;
+    this.send({ type: 'fire', seq, x, y, ...(side && { side }) });
+    return seq;
+  }
+
+  /** Gives up the seat and closes the connection for good. */
+  leave() {
+    this.send({ type: 'leave' });
+    this.forgetSeat();
+    this.close();
+  }
+
+  /** Closes the connection but keeps the seat, so a later client in this tab can resume it. */
+  close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+    this.socket = null;
+    this.events.onStatus('closed');
+  }
+
+  private send(message: ClientMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  private connect(first: ClientMessage) {
+    this.closed = false;
+    this.rejoining = first.type === 'rejoin';
+    this.socket?.close();
+    this.events.onStatus(this.retries > 0 ? 'reconnecting' : 'connecting');
+
+    const socket = new WebSocket(socketUrl());
+    this.socket = socket;
+    socket.onopen = () => {
+      this.retries = 0;
+      this.events.onStatus('open');
+      socket.send(JSON.stringify(first));
+    };
+    socket.onmessage = event => {
+      let message: ServerMessage | string;
+      try {
+        message = parseServerMessage(JSON.parse(event.data));
+      } catch {
+        message = 'Message is not valid JSON';
+      }
+      if (typeof message === 'string') console.warn(`Ignoring server message: ${message}`);
+      else this.handle(message);
+    };
+    socket.onclose = event => {
+      if (this.socket !== socket || this.closed) return;
+      this.socket = null;
+      // The seat now belongs to another tab; reclaiming it would only take it back and forth.
+      if (event.code === SEAT_TAKEN_CLOSE_CODE) this.forgetSeat();
+      if (!this.seat) {
+        this.events.onStatus('closed');
+        return;
+      }
+      const seat = this.seat;
+      const delay = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** this.retries++);
+      this.events.onStatus('reconnecting');
+      this.retryTimer = setTimeout(() => this.connect({ type: 'rejoin', ...seat }), delay);
+    };
+  }
+
+  private handle(message: ServerMessage) {
+    switch (message.type) {
+      case 'joined':
+        this.rejoining = false;
+        this.seat = { code: message.code, token: message.token };
+        sessionStorage.setItem(SEAT_KEY, JSON.stringify(this.seat));
+        break;
+      case 'room':
+        this.events.onRoom(message.room, message.slot);
+        break;
+      case 'start':
+        this.events.onStart();
+        break;
+      case 'snapshot':
+        this.events.onSnapshot(message.snapshot);
+        break;
+      case 'ended':
+        this.events.onEnded(message.outcome);
+        break;
+      case 'error':
+        // A refused rejoin means the seat is gone; stop trying to reclaim it.
+        if (this.rejoining) this.forgetSeat();
+        this.events.onError(message.message);
+        break;
+    }
+  }
+
+  private forgetSeat() {
+    this.seat = null;
+    sessionStorage.removeItem(SEAT_KEY);
+  }
+}
@@ -0,0 +1,33 @@
+import assert from 'node:assert/strict';
+import test from 'node:test';
+import { parseClientMessage, parseServerMessage } from './protocol';
+
+test('parseClientMessage keeps only the fields of each message type', () => {
+  assert.deepEqual(parseClientMessage({ type: 'fire', seq: 3, x: 10, y: 20, side: 'left', extra: true }), {
+    type: 'fire',
+    seq: 3,
+    x: 10,
+    y: 20,
+    side: 'left',
+  });
+  assert.deepEqual(parseClientMessage({ type: 'ready', ready: false }), { type: 'ready', ready: false });
+  assert.deepEqual(parseClientMessage({ type: 'leave' }), { type: 'leave' });
+});
+
+test('parseClientMessage refuses unknown types and bad fields', () => {
+  assert.equal(parseClientMessage(null), 'Unknown message type');
+  assert.equal(parseClientMessage({ type: 'shout' }), 'Unknown message type');
+  assert.equal(parseClientMessage({ type: 'fire', seq: 1.5, x: 0, y: 0 }), 'Malformed fire message');
+  assert.equal(parseClientMessage({ type: 'fire', seq: 1, x: 0, y: 0, side: 'up' }), 'Malformed fire message');
+  assert.equal(parseClientMessage({ type: 'rejoin', code: 'ABCD', token: 7 }), 'Malformed rejoin message');
+  assert.equal(parseClientMessage({ type: 'ready', ready: 'yes' }), 'Malformed ready message');
+});
+
+test('parseServerMessage checks rooms, outcomes and snapshots', () => {
+  const room = { code: 'ABCD', difficulty: 'medium', mode: 'classic', state: 'lobby', players: [{ slot: 0, name: 'Ada', ready: true, connected: true }] };
+  assert.deepEqual(parseServerMessage({ type: 'room', room, slot: 0 }), { type: 'room', room, slot: 0 });
+  assert.equal(parseServerMessage({ type: 'room', room: { ...room, players: [{ slot: 0 }] }, slot: 0 }), 'Malformed room message');
+  assert.equal(parseServerMessage({ type: 'ended', outcome: { status: 'draw', score: 1, playerScores: [] } }), 'Malformed ended message');
+  assert.equal(parseServerMessage({ type: 'snapshot', snapshot: { frame: 1 } }), 'Malformed snapshot message');
+  assert.equal(parseServerMessage({ type: 'joined', code: 'ABCD' }), 'Malformed joined message');
+});
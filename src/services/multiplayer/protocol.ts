@@ -0,0 +1,179 @@
+import type { RenderState } from '../../game/renderer';
+import type { BatterySide, Difficulty, GameMode, GameStatus, WavePhase } from '../../game/types';
+
+/** Path the multiplayer WebSocket server listens on. */
+export const MULTIPLAYER_PATH = '/ws';
+// Online runs use a fixed world; every client letterboxes it into its own window.
+export const ONLINE_WORLD = { width: 900, height: 600 };
+export const MIN_ROOM_PLAYERS = 2;
+// The server broadcasts a snapshot every this many simulation frames (20 per second).
+export const SNAPSHOT_INTERVAL_FRAMES = 3;
+/** How long a dropped player keeps their seat before it is given up. */
+export const RECONNECT_GRACE_MS = 30_000;
+/** Close code sent to a connection whose seat another connection reclaimed with the same token. */
+export const SEAT_TAKEN_CLOSE_CODE = 4001;
+
+export type LobbyPlayer = {
+  slot: number;
+  name: string;
+  ready: boolean;
+  connected: boolean;
+};
+
+export type RoomInfo = {
+  code: string;
+  difficulty: Difficulty;
+  mode: GameMode;
+  state: 'lobby' | 'playing';
+  players: LobbyPlayer[];
+};
+
+/** Everything a client needs to draw one server frame. Particles are left to each client. */
+export type StateSnapshot = Omit<RenderState, 'particles'> & {
+  frame: number;
+  score: number;
+  status: GameStatus;
+  wave: number;
+  wavePhase: WavePhase;
+  playerScores: number[];
+  /** Highest fire `seq` the server has processed for each slot, so clients can drop their predictions. */
+  acks: number[];
+};
+
+export type RunOutcome = {
+  status: GameStatus;
+  score: number;
+  playerScores: number[];
+};
+
+export type ClientMessage =
+  | { type: 'create'; name: string; difficulty: Difficulty; mode: GameMode }
+  | { type: 'join'; code: string; name: string }
+  | { type: 'rejoin'; code: string; token: string }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'fire'; seq: number; x: number; y: number; side?: BatterySide }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  /** Sent once per seat; the token lets a dropped client take its seat back. */
+  | { type: 'joined'; code: string; token: string }
+  /** Room state, with the receiving player's own slot. */
+  | { type: 'room'; room: RoomInfo; slot: number }
+  | { type: 'start'; width: number; height: number }
+  | { type: 'snapshot'; snapshot: StateSnapshot }
+  | { type: 'ended'; outcome: RunOutcome }
+  | { type: 'error'; message: string };
+
+// --- Validation ---
+// Both ends parse frames into `unknown` and check them here, so a malformed frame from a
+// misbehaving peer is refused instead of reaching the handlers.
+
+type Fields = Record<string, unknown>;
+
+const SIDES: BatterySide[] = ['left', 'center', 'right'];
+const STATUSES: GameStatus[] = ['playing', 'won', 'lost'];
+const WAVE_PHASES: WavePhase[] = ['wave', 'intermission'];
+
+const fieldsOf = (value: unknown): Fields | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Fields) : null;
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumbers = (value: unknown): value is number[] => Array.isArray(value) && value.every(isNumber);
+const isObjects = (value: unknown) => Array.isArray(value) && value.every(item => fieldsOf(item) !== null);
+const isOneOf = <T extends string>(value: unknown, options: readonly T[]): value is T => options.includes(value as T);
+
+/** Reads a message sent by a client. Returns a description of the problem if it is not a valid one. */
+export const parseClientMessage = (raw: unknown): ClientMessage | string => {
+  const message = fieldsOf(raw);
+  switch (message?.type) {
+    case 'create':
+      if (!isString(message.name) || !isString(message.difficulty) || !isString(message.mode)) return 'Malformed create message';
+      return { type: 'create', name: message.name, difficulty: message.difficulty, mode: message.mode };
+    case 'join':
+      if (!isString(message.code) || !isString(message.name)) return 'Malformed join message';
+      return { type: 'join', code: message.code, name: message.name };
+    case 'rejoin':
+      if (!isString(message.code) || !isString(message.token)) return 'Malformed rejoin message';
+      return { type: 'rejoin', code: message.code, token: message.token };
+    case 'ready':
+      if (typeof message.ready !== 'boolean') return 'Malformed ready message';
+      return { type: 'ready', ready: message.ready };
+    case 'fire': {
+      const { seq, x, y, side } = message;
+      if (!Number.isInteger(seq) || !isNumber(seq) || !isNumber(x) || !isNumber(y)) return 'Malformed fire message';
+      if (side === undefined) return { type: 'fire', seq, x, y };
+      if (!isOneOf(side, SIDES)) return 'Malformed fire message';
+      return { type: 'fire', seq, x, y, side };
+    }
+    case 'leave':
+      return { type: 'leave' };
+    default:
+      return 'Unknown message type';
+  }
+};
+
+const parseRoom = (raw: unknown): RoomInfo | null => {
+  const room = fieldsOf(raw);
+  if (!room || !isString(room.code) || !isString(room.difficulty) || !isString(room.mode)) return null;
+  if (!isOneOf(room.state, ['lobby', 'playing'] as const) || !Array.isArray(room.players)) return null;
+  const players: LobbyPlayer[] = [];
+  for (const entry of room.players) {
+    const player = fieldsOf(entry);
+    if (!player || !isNumber(player.slot) || !isString(player.name)) return null;
+    if (typeof player.ready !== 'boolean' || typeof player.connected !== 'boolean') return null;
+    players.push({ slot: player.slot, name: player.name, ready: player.ready, connected: player.connected });
+  }
+  return { code: room.code, difficulty: room.difficulty, mode: room.mode, state: room.state, players };
+};
+
+/** Checks the shape of a snapshot's fields; the entities in it are taken as the server sent them. */
+const isSnapshot = (raw: unknown): raw is StateSnapshot => {
+  const snapshot = fieldsOf(raw);
+  const ammo = fieldsOf(snapshot?.ammo);
+  return (
+    !!snapshot &&
+    !!ammo &&
+    SIDES.every(side => isNumber(ammo[side])) &&
+    ['frame', 'width', 'height', 'score', 'wave'].every(key => isNumber(snapshot[key])) &&
+    isOneOf(snapshot.status, STATUSES) &&
+    isOneOf(snapshot.wavePhase, WAVE_PHASES) &&
+    isObjects(snapshot.missiles) &&
+    isObjects(snapshot.explosions) &&
+    isObjects(snapshot.buildings) &&
+    isNumbers(snapshot.playerScores) &&
+    isNumbers(snapshot.acks)
+  );
+};
+
+/** Reads a message sent by the server. Returns a description of the problem if it is not a valid one. */
+export const parseServerMessage = (raw: unknown): ServerMessage | string => {
+  const message = fieldsOf(raw);
+  switch (message?.type) {
+    case 'joined':
+      if (!isString(message.code) || !isString(message.token)) return 'Malformed joined message';
+      return { type: 'joined', code: message.code, token: message.token };
+    case 'room': {
+      const room = parseRoom(message.room);
+      if (!room || !isNumber(message.slot)) return 'Malformed room message';
+      return { type: 'room', room, slot: message.slot };
+    }
+    case 'start':
+      if (!isNumber(message.width) || !isNumber(message.height)) return 'Malformed start message';
+      return { type: 'start', width: message.width, height: message.height };
+    case 'snapshot':
+      if (!isSnapshot(message.snapshot)) return 'Malformed snapshot message';
+      return { type: 'snapshot', snapshot: message.snapshot };
+    case 'ended': {
+      const outcome = fieldsOf(message.outcome);
+      if (!outcome || !isOneOf(outcome.status, STATUSES) || !isNumber(outcome.score) || !isNumbers(outcome.playerScores)) {
+        return 'Malformed ended message';
+      }
+      return { type: 'ended', outcome: { status: outcome.status, score: outcome.score, playerScores: outcome.playerScores } };
+    }
+    case 'error':
+      if (!isString(message.message)) return 'Malformed error message';
+      return { type: 'error', message: message.message };
+    default:
+      return 'Unknown message type';
+  }
+};
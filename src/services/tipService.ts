@@ -0,0 +1,77 @@
+import { createGeminiTipProvider } from "./tips/geminiTipProvider";
+import { localTipProvider } from "./tips/localTipProvider";
+import { createOpenAiTipProvider } from "./tips/openAiTipProvider";
+import type { TipProvider, TipRequest } from "./tips/types";
+import type { RunStats } from "../game/stats";
+import type { Locale } from "../i18n";
+
+export type TipProviderName = 'gemini' | 'openai' | 'local';
+
+const DEFAULT_TIMEOUT_MS = 4000;
+const CACHE_LIMIT = 50;
+
+/** Picks the provider from build-time config, defaulting to Gemini when a key is set and to local rules otherwise. */
+const createConfiguredProvider = (): TipProvider => {
+  const name = (process.env.TIP_PROVIDER || (process.env.GEMINI_API_KEY ? 'gemini' : 'local')) as TipProviderName;
+  switch (name) {
+    case 'gemini':
+      return process.env.GEMINI_API_KEY
+        ? createGeminiTipProvider(process.env.GEMINI_API_KEY, process.env.GEMINI_MODEL || undefined)
+        : localTipProvider;
+    case 'openai':
+      return createOpenAiTipProvider({
+        baseUrl: process.env.TIP_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        model: process.env.TIP_OPENAI_MODEL || 'llama3.2',
+        apiKey: process.env.TIP_OPENAI_API_KEY || undefined,
+      });
+    case 'local':
+      return localTipProvider;
+    default:
+      console.warn(`Unknown TIP_PROVIDER "${name}", using local tips`);
+      return localTipProvider;
+  }
+};
+
+const provider = createConfiguredProvider();
+const timeoutMs = Number(process.env.TIP_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS;
+const cache = new Map<string, Promise<string | null>>();
+
+const cacheKey = ({ score, language, stats }: TipRequest) =>
+  JSON.stringify([provider.name, score, language, stats && { ...stats, timeline: stats.timeline.length }]);
+
+/** Runs the provider, giving up after the configured timeout. */
+const askProvider = async (request: TipRequest) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await Promise.race([
+      provider.getTip(request, controller.signal),
+      new Promise<null>((_, reject) => controller.signal.addEventListener('abort', () => reject(new Error('Tip request timed out')))),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const fetchTip = async (request: TipRequest) => {
+  try {
+    const tip = await askProvider(request);
+    if (tip) return tip;
+  } catch (error) {
+    console.error(`Failed to get AI tips from ${provider.name}`, error);
+  }
+  // Remote providers fall back to the local rules, so the end screen always has advice.
+  return provider === localTipProvider ? null : localTipProvider.getTip(request);
+};
+
+export const getGameTips = (score: number, language: Locale, stats?: RunStats) => {
+  const request = { score, language, stats };
+  const key = cacheKey(request);
+  let tip = cache.get(key);
+  if (!tip) {
+    tip = fetchTip(request);
+    cache.set(key, tip);
+    if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+  }
+  return tip;
+};
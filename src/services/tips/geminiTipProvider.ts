@@ -0,0 +1,18 @@
+import { GoogleGenAI } from "@google/genai";
+import { buildTipPrompt } from "./prompt";
+import type { TipProvider } from "./types";
+
+export const createGeminiTipProvider = (apiKey: string, model = "gemini-3-flash-preview"): TipProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: `gemini:${model}`,
+    async getTip(request, signal) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildTipPrompt(request),
+        config: { abortSignal: signal },
+      });
+      return response.text ?? null;
+    },
+  };
+};
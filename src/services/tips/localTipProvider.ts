@@ -0,0 +1,54 @@
+import { summarizeStats, type RunStats } from "../../game/stats";
+import type { Flank } from "../../game/types";
+import { getMessages, interpolate, plural, type Locale, type Messages } from "../../i18n";
+import type { TipProvider } from "./types";
+
+type Tips = Messages['tips'];
+
+/**
+ * A rule matches when it returns a tip. Rules are checked in order, so the most pressing
+ * problem of the run wins.
+ */
+const RULES: ((stats: RunStats, tips: Tips, language: Locale) => string | null)[] = [
+  (stats, tips) => {
+    const lost: Record<Flank, number> = { left: 0, center: 0, right: 0 };
+    stats.losses.forEach(l => lost[l.flank]++);
+    const worst = (Object.keys(lost) as Flank[]).sort((a, b) => lost[b] - lost[a])[0];
+    if (lost[worst] < 2) return null;
+    return interpolate(tips.flankFell, { flank: tips.flanks[worst] });
+  },
+  (stats, tips) => {
+    const { wastedRatio, totalShots } = summarizeStats(stats);
+    if (totalShots < 10 || wastedRatio < 0.4) return null;
+    return interpolate(tips.wastedShots, { percent: Math.round(wastedRatio * 100) });
+  },
+  (stats, tips, language) => {
+    if (stats.leaks < 5) return null;
+    return plural(language, tips.leaks, stats.leaks);
+  },
+  (stats, tips) => {
+    // Sides without a battery in this level never fire, so only the level's own batteries count as idle.
+    const idle = stats.batteries.find(side => stats.shotsFired[side] === 0);
+    if (!idle || summarizeStats(stats).totalShots < 10) return null;
+    return interpolate(tips.idleBattery, { flank: tips.flanks[idle] });
+  },
+  (stats, tips) => {
+    const { averageAltitude } = summarizeStats(stats);
+    if (stats.interceptions < 5 || averageAltitude > 150) return null;
+    return tips.lowIntercepts;
+  },
+  (stats, tips) => {
+    const { longestChain } = summarizeStats(stats);
+    if (longestChain < 3) return null;
+    return interpolate(tips.longChain, { count: longestChain });
+  },
+];
+
+/** Offline advice picked by simple rules over the run's stats. Never touches the network. */
+export const localTipProvider: TipProvider = {
+  name: 'local',
+  async getTip({ score, language, stats }) {
+    const { tips } = getMessages(language);
+    return (stats && RULES.map(rule => rule(stats, tips, language)).find(Boolean)) || tips.generic[score % tips.generic.length];
+  },
+};
@@ -0,0 +1,37 @@
+import { buildTipPrompt, buildTipSystemPrompt } from "./prompt";
+import type { TipProvider } from "./types";
+
+export type OpenAiTipOptions = {
+  /** Base URL of an OpenAI-compatible API, e.g. `http://localhost:11434/v1`. */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+};
+
+/** Talks to any server implementing the OpenAI chat completions API, such as a local model server. */
+export const createOpenAiTipProvider = ({ baseUrl, model, apiKey }: OpenAiTipOptions): TipProvider => ({
+  name: `openai:${model}`,
+  async getTip(request, signal) {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [
+          { role: 'system', content: buildTipSystemPrompt(request) },
+          { role: 'user', content: buildTipPrompt(request) },
+        ],
+        max_tokens: 80,
+        temperature: 0.7,
+      }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`Tip server responded ${response.status}`);
+    const data = await response.json();
+    const text: unknown = data?.choices?.[0]?.message?.content;
+    return typeof text === 'string' && text.trim() ? text.trim() : null;
+  },
+});
@@ -0,0 +1,29 @@
+import { summarizeStats, type RunStats } from "../../game/stats";
+import { getMessages, interpolate, type Messages } from "../../i18n";
+import type { TipRequest } from "./types";
+
+const describeRun = (stats: RunStats, prompts: Messages['prompts']) => {
+  const { shotsFired, interceptions, leaks, chains } = stats;
+  const { accuracy, averageAltitude, longestChain, citiesLost, batteriesLost } = summarizeStats(stats);
+  return interpolate(prompts.runDetails, {
+    ...shotsFired,
+    interceptions,
+    accuracy: Math.round(accuracy * 100),
+    leaks,
+    chains: chains.length,
+    longestChain,
+    citiesLost,
+    batteriesLost,
+    altitude: Math.round(averageAltitude),
+  });
+};
+
+/** Instructions for providers that take a separate system prompt, in the player's language. */
+export const buildTipSystemPrompt = ({ language }: TipRequest) => getMessages(language).prompts.system;
+
+/** Prompt shared by the language-model providers. */
+export const buildTipPrompt = ({ score, language, stats }: TipRequest) => {
+  const { prompts } = getMessages(language);
+  const details = stats ? ` ${describeRun(stats, prompts)}` : '';
+  return interpolate(prompts.tip, { score, details });
+};
@@ -0,0 +1,15 @@
+import type { RunStats } from "../../game/stats";
+import type { Locale } from "../../i18n";
+
+export type TipRequest = {
+  score: number;
+  language: Locale;
+  stats?: RunStats;
+};
+
+/** Source of the "AI Commander" advice shown on the end screens. */
+export interface TipProvider {
+  readonly name: string;
+  /** Resolves to a short tip, or null when the provider has nothing to say. May throw on network errors. */
+  getTip(request: TipRequest, signal?: AbortSignal): Promise<string | null>;
+}
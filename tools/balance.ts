@@ -0,0 +1,163 @@
+import { parseArgs } from 'util';
+import { BOTS, BOT_IDS, BotPilot, isBotId, type BotId } from '../src/game/bots';
+import { FRAME_MS } from '../src/game/constants';
+import { DEFAULT_LEVEL_ID, DIFFICULTIES, isDifficultyId, isLevelId } from '../src/game/content';
+import { GameSimulation } from '../src/game/simulation';
+import type { Difficulty, GameMode } from '../src/game/types';
+
+/**
+ * Plays many headless games per difficulty with a bot and reports how each difficulty went,
+ * to check that they are actually graded. Games are seeded 1, 2, 3, … so runs are repeatable.
+ *
+ *   npm run balance -- --games 2000 --bot predictive --level classic --difficulty easy,hard
+ *
+ * A bot that never misses wins everything, so by default its shots go off a little off target,
+ * the way a person's would; pass `--aim-error 0` for perfect aim.
+ */
+
+const DEFAULT_AIM_ERROR = 30;
+
+const USAGE = `Usage: npm run balance -- [options]
+  --games <n>          games per difficulty (default 500)
+  --bot <id>           ${BOT_IDS.join(' | ')} (default predictive)
+  --level <id>         level to play (default ${DEFAULT_LEVEL_ID})
+  --difficulty <ids>   comma-separated difficulties (default all)
+  --aim-error <px>     how far from its aim point a bot's shot may go off (default ${DEFAULT_AIM_ERROR}, 0 is perfect)
+  --minutes <n>        simulated minutes before a game counts as unfinished (default 20)
+  --width <px>, --height <px>  world size (default 1280×720)
+  --json               print the results as JSON`;
+
+type GameResult = { outcome: 'won' | 'lost' | 'unfinished'; score: number; frames: number; citiesLost: number };
+
+type DifficultyReport = {
+  difficulty: Difficulty;
+  games: number;
+  winRate: number;
+  unfinished: number;
+  averageScore: number;
+  averageSeconds: number;
+  /** How many games ended with each number of cities lost, indexed by that number. */
+  citiesLost: number[];
+};
+
+type Settings = { bot: BotId; level: GameMode; aimError: number; size: { width: number; height: number }; maxFrames: number };
+
+const playGame = ({ bot, level, aimError, size, maxFrames }: Settings, difficulty: Difficulty, seed: number): GameResult => {
+  const sim = new GameSimulation({ ...size, difficulty, mode: level, seed });
+  const pilot = new BotPilot(BOTS[bot]({ error: aimError, seed }));
+  while (sim.status === 'playing' && sim.frame < maxFrames) {
+    sim.tick();
+    pilot.update(sim);
+  }
+  return {
+    outcome: sim.status === 'playing' ? 'unfinished' : sim.status,
+    score: sim.score,
+    frames: sim.frame,
+    citiesLost: sim.buildings.filter(b => b.type === 'city' && b.isDestroyed).length,
+  };
+};
+
+const summarize = (difficulty: Difficulty, results: GameResult[]): DifficultyReport => {
+  const games = results.length;
+  const citiesLost: number[] = [];
+  for (const r of results) citiesLost[r.citiesLost] = (citiesLost[r.citiesLost] ?? 0) + 1;
+  return {
+    difficulty,
+    games,
+    winRate: results.filter(r => r.outcome === 'won').length / games,
+    unfinished: results.filter(r => r.outcome === 'unfinished').length,
+    averageScore: results.reduce((sum, r) => sum + r.score, 0) / games,
+    averageSeconds: results.reduce((sum, r) => sum + r.frames, 0) / games / (1000 / FRAME_MS),
+    citiesLost: Array.from(citiesLost, n => n ?? 0),
+  };
+};
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+const printTable = (reports: DifficultyReport[]) => {
+  const rows = [
+    ['difficulty', 'games', 'win rate', 'avg score', 'avg time', 'unfinished', 'cities lost (0, 1, 2, …)'],
+    ...reports.map(r => [
+      r.difficulty,
+      String(r.games),
+      percent(r.winRate),
+      r.averageScore.toFixed(0),
+      `${Math.floor(r.averageSeconds / 60)}:${Math.round(r.averageSeconds % 60).toString().padStart(2, '0')}`,
+      String(r.unfinished),
+      r.citiesLost.map(n => percent(n / r.games)).join(' '),
+    ]),
+  ];
+  const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+  for (const row of rows) console.log(row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd());
+};
+
+const positiveInt = (name: string, value: string) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) throw new Error(`--${name} must be a positive whole number, got "${value}"`);
+  return n;
+};
+
+const nonNegative = (name: string, value: string) => {
+  const n = Number(value);
+  if (value.trim() === '' || !Number.isFinite(n) || n < 0) throw new Error(`--${name} must be a number of 0 or more, got "${value}"`);
+  return n;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      games: { type: 'string', default: '500' },
+      bot: { type: 'string', default: 'predictive' },
+      level: { type: 'string', default: DEFAULT_LEVEL_ID },
+      difficulty: { type: 'string' },
+      'aim-error': { type: 'string', default: String(DEFAULT_AIM_ERROR) },
+      minutes: { type: 'string', default: '20' },
+      width: { type: 'string', default: '1280' },
+      height: { type: 'string', default: '720' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const games = positiveInt('games', values.games);
+  const size = { width: positiveInt('width', values.width), height: positiveInt('height', values.height) };
+  const maxFrames = Math.round((positiveInt('minutes', values.minutes) * 60_000) / FRAME_MS);
+  const aimError = nonNegative('aim-error', values['aim-error']);
+  if (!isBotId(values.bot)) throw new Error(`Unknown bot: ${values.bot}. Choose one of ${BOT_IDS.join(', ')}`);
+  if (!isLevelId(values.level)) throw new Error(`Unknown level: ${values.level}`);
+  const settings: Settings = { bot: values.bot, level: values.level, aimError, size, maxFrames };
+  const difficulties = values.difficulty?.split(',') ?? DIFFICULTIES.map(d => d.id);
+  const unknown = difficulties.find(d => !isDifficultyId(d));
+  if (unknown !== undefined) throw new Error(`Unknown difficulty: ${unknown}`);
+
+  const reports: DifficultyReport[] = [];
+  for (const difficulty of difficulties) {
+    const results: GameResult[] = [];
+    for (let seed = 1; seed <= games; seed++) {
+      results.push(playGame(settings, difficulty, seed));
+      // Progress goes to stderr so piped output stays clean.
+      if (process.stderr.isTTY) process.stderr.write(`\r${difficulty}: ${seed}/${games}`);
+    }
+    if (process.stderr.isTTY) process.stderr.write('\n');
+    reports.push(summarize(difficulty, results));
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify({ bot: values.bot, level: values.level, aimError, reports }, null, 2));
+    return;
+  }
+  console.log(`Bot: ${values.bot} · aim error: ${aimError}px · level: ${values.level} · ${games} games per difficulty\n`);
+  printTable(reports);
+};
+
+try {
+  main();
+} catch (error) {
+  console.error((error as Error).message);
+  console.error(USAGE);
+  process.exitCode = 1;
+}
@@ -9,6 +9,12 @@ export default defineConfig(({mode}) => {
     plugins: [react(), tailwindcss()],
     define: {
       'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+      'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL),
+      'process.env.TIP_PROVIDER': JSON.stringify(env.TIP_PROVIDER),
+      'process.env.TIP_TIMEOUT_MS': JSON.stringify(env.TIP_TIMEOUT_MS),
+      'process.env.TIP_OPENAI_BASE_URL': JSON.stringify(env.TIP_OPENAI_BASE_URL),
+      'process.env.TIP_OPENAI_MODEL': JSON.stringify(env.TIP_OPENAI_MODEL),
+      'process.env.TIP_OPENAI_API_KEY': JSON.stringify(env.TIP_OPENAI_API_KEY),
     },
     resolve: {
       alias: {
@@ -19,6 +25,11 @@ export default defineConfig(({mode}) => {
       // HMR is disabled in AI Studio via DISABLE_HMR env var.
       // Do not modifyâfile watching is disabled to prevent flickering during agent edits.
       hmr: process.env.DISABLE_HMR !== 'true',
+      // Leaderboard API and multiplayer rooms, served by `npm run server`.
+      proxy: {
+        '/api': `http://localhost:${env.SERVER_PORT || 3001}`,
+        '/ws': { target: `ws://localhost:${env.SERVER_PORT || 3001}`, ws: true },
+      },
     },
   };
 });